@@ -9,13 +9,17 @@ import { MapsView } from './pages/MapsView';
 import { EditorView } from './pages/EditorView';
 import { GameTestView } from './pages/GameTestView';
 import { CharactersView } from './pages/CharactersView';
+import { QuestsView } from './pages/QuestsView';
+import { ItemsView } from './pages/ItemsView';
+import { ShopsView } from './pages/ShopsView';
+import { RecipesView } from './pages/RecipesView';
 import SpritesView from './pages/SpritesView';
 import SpritesLibraryView from './pages/SpritesLibraryView';
 import { Dashboard } from './pages/Dashboard';
 import { Toaster } from '@/components/ui/sonner';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
-export type ViewType = 'dashboard' | 'tiles' | 'objects' | 'tileSets' | 'prefabs' | 'maps' | 'editor' | 'gameTest' | 'characters' | 'sprites' | 'spriteEditor';
+export type ViewType = 'dashboard' | 'tiles' | 'objects' | 'tileSets' | 'prefabs' | 'maps' | 'editor' | 'gameTest' | 'characters' | 'quests' | 'items' | 'shops' | 'recipes' | 'sprites' | 'spriteEditor';
 export type PaletteTab = 'tiles' | 'objects' | 'characters' | 'npcs';
 
 function App() {
@@ -68,6 +72,14 @@ function App() {
         return <GameTestView mapId={selectedMapId} characterId={selectedCharacterId} onBack={handleBackFromGameTest} />;
       case 'characters':
         return <CharactersView />;
+      case 'quests':
+        return <QuestsView />;
+      case 'items':
+        return <ItemsView />;
+      case 'shops':
+        return <ShopsView />;
+      case 'recipes':
+        return <RecipesView />;
       case 'sprites':
         return <SpritesLibraryView onNavigate={(spriteId) => {
           setSelectedSpriteId(spriteId);
@@ -0,0 +1,116 @@
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+    AUTOTILE_MODE_LABELS,
+    autotileMasks,
+    maskToGrid,
+    type AutotileConfig,
+    type AutotileMode,
+} from '../utils/autotile';
+
+interface AutotileSlotEditorProps {
+    config: AutotileConfig | null;
+    tileIds: string[];
+    onChange: (config: AutotileConfig | null) => void;
+}
+
+const NONE = '__none__';
+
+function MaskDiagram({ mode, mask }: { mode: AutotileMode; mask: number }) {
+    const grid = maskToGrid(mode, mask);
+    return (
+        <div className="grid grid-cols-3 gap-px w-6 h-6 shrink-0" title={`Mask ${mask}`}>
+            {grid.map((set, i) => (
+                <div key={i} className={set ? (i === 4 ? 'bg-primary' : 'bg-primary/60') : 'bg-muted'} />
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Assigns tile set tiles to autotile mask slots. Each slot shows which
+ * neighbours (highlighted) connect to the centre cell.
+ */
+export function AutotileSlotEditor({ config, tileIds, onChange }: AutotileSlotEditorProps) {
+    const handleModeChange = (value: string) => {
+        if (value === NONE) {
+            onChange(null);
+            return;
+        }
+        const mode = value as AutotileMode;
+        // Keep assignments that still exist in the new mode
+        const masks = new Set(autotileMasks(mode));
+        const slots: Record<number, string> = {};
+        for (const [mask, tileId] of Object.entries(config?.slots ?? {})) {
+            if (masks.has(Number(mask))) slots[Number(mask)] = tileId;
+        }
+        onChange({ mode, slots });
+    };
+
+    const handleSlotChange = (mask: number, tileId: string) => {
+        if (!config) return;
+        const slots = { ...config.slots };
+        if (tileId === NONE) {
+            delete slots[mask];
+        } else {
+            slots[mask] = tileId;
+        }
+        onChange({ ...config, slots });
+    };
+
+    const masks = config ? autotileMasks(config.mode) : [];
+    const assigned = config ? masks.filter(mask => config.slots[mask]).length : 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="space-y-2">
+                <Label>Autotile Rule</Label>
+                <Select value={config?.mode ?? NONE} onValueChange={handleModeChange}>
+                    <SelectTrigger>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {(Object.keys(AUTOTILE_MODE_LABELS) as AutotileMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>
+                                {AUTOTILE_MODE_LABELS[mode]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {config && (
+                <>
+                    <p className="text-xs text-muted-foreground">
+                        {assigned} / {masks.length} slots assigned. Unassigned slots fall back to the closest match.
+                        {tileIds.length === 0 && ' Add tile IDs to the set to assign them.'}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+                        {masks.map(mask => (
+                            <div key={mask} className="flex items-center gap-2">
+                                <MaskDiagram mode={config.mode} mask={mask} />
+                                <Select
+                                    value={config.slots[mask] ?? NONE}
+                                    onValueChange={(value) => handleSlotChange(mask, value)}
+                                >
+                                    <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>—</SelectItem>
+                                        {tileIds.map(id => (
+                                            <SelectItem key={id} value={id}>
+                                                {id}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
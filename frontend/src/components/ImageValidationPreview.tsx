@@ -0,0 +1,94 @@
+import { CheckCircle2, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import type { ImagePreview, ImageValidationResult } from '../utils/imageValidation';
+
+interface ImageValidationPreviewProps {
+    result: ImageValidationResult | null;
+    isValidating: boolean;
+}
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+    backgroundImage: 'repeating-conic-gradient(#d4d4d8 0% 25%, #ffffff 0% 50%)',
+    backgroundSize: '8px 8px',
+};
+
+function PreviewImage({ label, preview }: { label: string; preview: ImagePreview }) {
+    return (
+        <div className="flex flex-col items-center gap-1">
+            <div className="rounded border p-1" style={CHECKERBOARD_STYLE}>
+                <img
+                    src={preview.url}
+                    alt={label}
+                    className="h-16 w-16 object-contain"
+                    style={{ imageRendering: 'pixelated' }}
+                />
+            </div>
+            <span className="text-xs text-muted-foreground">
+                {label} ({preview.width}×{preview.height})
+            </span>
+        </div>
+    );
+}
+
+/**
+ * Shows the outcome of the PNG validation pipeline: before/after previews
+ * and the list of issues found (and whether they were fixed).
+ */
+export function ImageValidationPreview({ result, isValidating }: ImageValidationPreviewProps) {
+    if (isValidating) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Validating image...
+            </div>
+        );
+    }
+
+    if (!result) return null;
+
+    const isValid = 'ok' in result;
+    const original = isValid ? result.ok.original : result.err.original;
+    const corrected = isValid ? result.ok.corrected : result.err.corrected;
+    const issues = isValid ? result.ok.issues : result.err.issues;
+    const fixAttempted = isValid ? result.ok.fix_attempted : result.err.fix_attempted;
+
+    return (
+        <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+                {!isValid ? (
+                    <>
+                        <XCircle className="h-4 w-4 text-destructive" />
+                        <span className="text-destructive">Validation failed - upload blocked</span>
+                    </>
+                ) : fixAttempted ? (
+                    <>
+                        <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                        <span>Auto-corrected - the fixed image will be uploaded</span>
+                    </>
+                ) : (
+                    <>
+                        <CheckCircle2 className="h-4 w-4 text-green-500" />
+                        <span>Image passes validation</span>
+                    </>
+                )}
+            </div>
+
+            {(original || corrected) && (
+                <div className="flex gap-4">
+                    {original && <PreviewImage label="Before" preview={original} />}
+                    {corrected && <PreviewImage label="After" preview={corrected} />}
+                </div>
+            )}
+
+            {issues.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                    {issues.map((issue) => (
+                        <li key={issue.code} className={isValid ? 'text-muted-foreground' : 'text-destructive'}>
+                            <span className="font-mono">{issue.code}</span>: {issue.message}
+                            {isValid && ' (fixed)'}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { Package } from 'lucide-react';
+import { useGetObjectImage, useGetTileImage } from '../hooks/useQueries';
+import type { ItemIconRef } from '../utils/inventory';
+
+interface ItemIconProps {
+    icon: ItemIconRef | null;
+    size?: number;
+    className?: string;
+}
+
+/** An item's icon, loaded from the object or tile image it points at */
+export function ItemIcon({ icon, size = 32, className }: ItemIconProps) {
+    // Only the hook matching the icon kind gets an id, the other stays disabled
+    const { data: objectImage } = useGetObjectImage(icon?.kind === 'object' ? icon.id : '');
+    const { data: tileImage } = useGetTileImage(icon?.kind === 'tile' ? icon.id : '');
+    const data = icon?.kind === 'object' ? objectImage : tileImage;
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!data) {
+            setImageUrl(null);
+            return;
+        }
+
+        const uint8Array = data instanceof Uint8Array ? data : new Uint8Array(data);
+        const blob = new Blob([uint8Array.buffer as ArrayBuffer], { type: 'image/png' });
+        const url = URL.createObjectURL(blob);
+        setImageUrl(url);
+
+        return () => URL.revokeObjectURL(url);
+    }, [data]);
+
+    if (!imageUrl) {
+        return (
+            <div className={className} style={{ width: size, height: size }}>
+                <Package className="h-full w-full p-1 text-muted-foreground" />
+            </div>
+        );
+    }
+
+    return (
+        <img
+            src={imageUrl}
+            alt=""
+            className={className}
+            style={{ width: size, height: size, imageRendering: 'pixelated' }}
+        />
+    );
+}
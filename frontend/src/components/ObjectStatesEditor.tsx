@@ -0,0 +1,109 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ImageValidationPreview } from './ImageValidationPreview';
+import type { ObjectValidationReport } from '../utils/imageValidation';
+
+export interface StateRow {
+    key: number;
+    name: string;
+    file: File | null;
+}
+
+interface ObjectStatesEditorProps {
+    rows: StateRow[];
+    onChange: (rows: StateRow[]) => void;
+    report: ObjectValidationReport | null;
+    isValidating: boolean;
+}
+
+let nextRowKey = 1;
+
+export function createStateRow(name: string = ''): StateRow {
+    return { key: nextRowKey++, name, file: null };
+}
+
+/**
+ * Editor for an object's state images (e.g. door open/closed). Every state is
+ * validated individually and against the others; see validateObjectStates.
+ */
+export function ObjectStatesEditor({ rows, onChange, report, isValidating }: ObjectStatesEditorProps) {
+    const updateRow = (key: number, changes: Partial<StateRow>) => {
+        onChange(rows.map(row => row.key === key ? { ...row, ...changes } : row));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <Label>States</Label>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onChange([...rows, createStateRow(rows.length === 0 ? 'default' : '')])}
+                >
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add State
+                </Button>
+            </div>
+
+            {rows.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                    No states yet. Add one state per image (e.g. "closed", "open").
+                </p>
+            )}
+
+            {rows.map((row, index) => {
+                const stateReport = report?.states[index];
+                return (
+                    <div key={row.key} className="space-y-2 rounded-md border p-3">
+                        <div className="flex items-center gap-2">
+                            <Input
+                                value={row.name}
+                                onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                                placeholder={index === 0 ? 'default' : 'open'}
+                                className="h-8"
+                            />
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                                onClick={() => onChange(rows.filter(r => r.key !== row.key))}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <Input
+                            type="file"
+                            accept="image/png"
+                            onChange={(e) => updateRow(row.key, { file: e.target.files?.[0] ?? null })}
+                        />
+                        {row.file && (
+                            <ImageValidationPreview
+                                result={isValidating ? null : stateReport?.result ?? null}
+                                isValidating={isValidating}
+                            />
+                        )}
+                        {!isValidating && stateReport && stateReport.stateErrors.length > 0 && (
+                            <ul className="space-y-1 text-xs text-destructive">
+                                {stateReport.stateErrors.map((error) => (
+                                    <li key={error.code}>
+                                        <span className="font-mono">{error.code}</span>: {error.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+
+            {report && rows.length > 1 && report.valid && !isValidating && (
+                <p className="text-xs text-muted-foreground">
+                    All {rows.length} states share {report.width}×{report.height}px
+                </p>
+            )}
+        </div>
+    );
+}
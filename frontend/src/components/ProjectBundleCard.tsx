@@ -0,0 +1,295 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Archive, Download, Loader2, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useActor, getStoredCanisterId } from '../hooks/useActor';
+import { downloadFile } from '../utils/download';
+import {
+    BUNDLE_ENTITY_KINDS,
+    BUNDLE_ENTITY_LABELS,
+    applyBundleImport,
+    exportProjectBundle,
+    fetchProjectContent,
+    planBundleImport,
+    readProjectBundle,
+    summarizeBundlePlan,
+    type BundleImportAction,
+    type BundleImportPlan,
+    type ConflictStrategy,
+    type ProjectBundle,
+    type ProjectContent,
+} from '../utils/projectBundle';
+
+const ACTION_LABELS: Record<BundleImportAction, string> = {
+    create: 'New',
+    overwrite: 'Overwrite',
+    rename: 'Rename',
+    skip: 'Skip',
+    unchanged: 'Unchanged',
+};
+
+const ACTION_CLASSES: Record<BundleImportAction, string> = {
+    create: 'text-green-600',
+    overwrite: 'text-orange-600',
+    rename: 'text-blue-600',
+    skip: 'text-muted-foreground',
+    unchanged: 'text-muted-foreground',
+};
+
+/**
+ * Whole-project export/import for backups and moving content between
+ * canisters. Import always shows a dry-run report before anything is written.
+ */
+export function ProjectBundleCard() {
+    const { actor } = useActor();
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+    const [bundle, setBundle] = useState<ProjectBundle | null>(null);
+    const [existing, setExisting] = useState<ProjectContent | null>(null);
+    const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+    const [plan, setPlan] = useState<BundleImportPlan | null>(null);
+
+    const isBusy = progress !== null;
+
+    const handleExport = async () => {
+        setProgress({ label: 'Exporting', done: 0, total: 0 });
+        try {
+            const { file, manifest } = await exportProjectBundle(actor, getStoredCanisterId(), (done, total) =>
+                setProgress({ label: 'Exporting', done, total })
+            );
+            downloadFile(file);
+            toast.success('Project exported', {
+                description: `${manifest.tiles.length} tiles, ${manifest.objects.length} objects, ${manifest.maps.length} maps, ${manifest.blobs.length} images`,
+            });
+        } catch (error) {
+            console.error('Failed to export project:', error);
+            toast.error('Failed to export project', {
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setProgress({ label: 'Reading bundle', done: 0, total: 0 });
+        try {
+            const result = await readProjectBundle(new Uint8Array(await file.arrayBuffer()));
+            if ('err' in result) {
+                toast.error(`Error: ${result.err.message}`, {
+                    description: `Code: ${result.err.code}`,
+                });
+                return;
+            }
+            const content = await fetchProjectContent(actor);
+            setBundle(result.ok);
+            setExisting(content);
+            setPlan(planBundleImport(result.ok, content, strategy));
+        } catch (error) {
+            console.error('Failed to read project bundle:', error);
+            toast.error('Failed to read project bundle', {
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleStrategyChange = (value: string) => {
+        const next = value as ConflictStrategy;
+        setStrategy(next);
+        if (bundle && existing) setPlan(planBundleImport(bundle, existing, next));
+    };
+
+    const closeImport = () => {
+        setBundle(null);
+        setExisting(null);
+        setPlan(null);
+    };
+
+    const handleApply = async () => {
+        if (!bundle || !plan) return;
+
+        setProgress({ label: 'Importing', done: 0, total: 0 });
+        try {
+            const outcome = await applyBundleImport(actor, bundle, plan, (done, total) =>
+                setProgress({ label: 'Importing', done, total })
+            );
+            queryClient.invalidateQueries();
+            if (outcome.errors.length === 0) {
+                toast.success('Project imported', {
+                    description: `${outcome.written} records, ${outcome.blobsUploaded} images`,
+                });
+            } else {
+                console.warn('Project import errors:', outcome.errors);
+                toast.error(`Imported with ${outcome.errors.length} error${outcome.errors.length === 1 ? '' : 's'}`, {
+                    description: outcome.errors.slice(0, 3).join('\n'),
+                });
+            }
+            closeImport();
+        } catch (error) {
+            console.error('Failed to import project:', error);
+            toast.error('Failed to import project', {
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const counts = plan ? summarizeBundlePlan(plan) : null;
+    const changes = plan?.entries.filter(e => e.action !== 'create' && e.action !== 'unchanged') ?? [];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Archive className="h-5 w-5" />
+                    Project Bundle
+                </CardTitle>
+                <CardDescription>
+                    Export everything (records and images) to a zip, or import a bundle from another canister
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div className="flex gap-4">
+                    <Button onClick={handleExport} disabled={isBusy} className="flex items-center gap-2">
+                        <Download className="h-4 w-4" />
+                        Export Project
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isBusy}
+                        className="flex items-center gap-2"
+                    >
+                        <Upload className="h-4 w-4" />
+                        Import Project
+                    </Button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".zip,application/zip"
+                        className="hidden"
+                        onChange={handleFileSelected}
+                    />
+                </div>
+                {progress && (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {progress.label}{progress.total > 0 ? ` ${progress.done}/${progress.total}` : '...'}
+                    </p>
+                )}
+            </CardContent>
+
+            <Dialog open={!!plan} onOpenChange={(open) => !open && !isBusy && closeImport()}>
+                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Import Project Bundle</DialogTitle>
+                        <DialogDescription>
+                            {bundle && (
+                                <>
+                                    Exported {new Date(bundle.manifest.exported_at).toLocaleString()}
+                                    {bundle.manifest.source_canister && ` from ${bundle.manifest.source_canister}`}.
+                                    Nothing is written until you confirm.
+                                </>
+                            )}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {plan && counts && (
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label>When an ID already exists</Label>
+                                <Select value={strategy} onValueChange={handleStrategyChange}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="skip">Skip - keep the existing record</SelectItem>
+                                        <SelectItem value="overwrite">Overwrite - replace with the bundle's record</SelectItem>
+                                        <SelectItem value="rename">Rename - import under a new ID</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="rounded-md border">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-xs text-muted-foreground">
+                                            <th className="p-2 text-left font-medium">Type</th>
+                                            {(Object.keys(ACTION_LABELS) as BundleImportAction[]).map((action) => (
+                                                <th key={action} className="p-2 text-right font-medium">{ACTION_LABELS[action]}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {BUNDLE_ENTITY_KINDS.map((kind) => {
+                                            const kindEntries = plan.entries.filter(e => e.kind === kind);
+                                            if (kindEntries.length === 0) return null;
+                                            return (
+                                                <tr key={kind} className="border-b last:border-0">
+                                                    <td className="p-2">{BUNDLE_ENTITY_LABELS[kind]}</td>
+                                                    {(Object.keys(ACTION_LABELS) as BundleImportAction[]).map((action) => {
+                                                        const count = kindEntries.filter(e => e.action === action).length;
+                                                        return (
+                                                            <td key={action} className={`p-2 text-right ${count > 0 ? ACTION_CLASSES[action] : 'text-muted-foreground'}`}>
+                                                                {count}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {changes.length > 0 && (
+                                <div className="space-y-1">
+                                    <Label>Conflicts</Label>
+                                    <ul className="max-h-40 space-y-1 overflow-y-auto rounded-md border p-2 text-xs">
+                                        {changes.map((entry) => (
+                                            <li key={`${entry.kind}:${entry.id}`} className="flex justify-between gap-2">
+                                                <span className="truncate">
+                                                    {BUNDLE_ENTITY_LABELS[entry.kind]}: {entry.name} ({entry.id})
+                                                </span>
+                                                <span className={ACTION_CLASSES[entry.action]}>
+                                                    {entry.action === 'rename' ? `→ ${entry.targetId}` : ACTION_LABELS[entry.action]}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            <p className="text-xs text-muted-foreground">
+                                {counts.create + counts.overwrite + counts.rename} records will be written
+                                with their images; {counts.skip + counts.unchanged} left as they are.
+                            </p>
+
+                            <Button
+                                className="w-full"
+                                onClick={handleApply}
+                                disabled={isBusy || counts.create + counts.overwrite + counts.rename === 0}
+                            >
+                                {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                                {isBusy && progress ? `${progress.label} ${progress.done}/${progress.total}` : 'Import'}
+                            </Button>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -1,5 +1,5 @@
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, Square, Box, Layers, Package, Map, User, Image } from 'lucide-react';
+import { LayoutDashboard, Square, Box, Layers, Package, Map, User, Image, ScrollText, Gem, Store, Hammer } from 'lucide-react';
 import type { ViewType } from '../App';
 
 interface SidebarProps {
@@ -16,6 +16,10 @@ const navItems = [
   { id: 'maps' as ViewType, label: 'Maps', icon: Map },
   { id: 'sprites' as ViewType, label: 'Sprite Library', icon: Image },
   { id: 'characters' as ViewType, label: 'Characters', icon: User },
+  { id: 'quests' as ViewType, label: 'Quests', icon: ScrollText },
+  { id: 'items' as ViewType, label: 'Items', icon: Gem },
+  { id: 'shops' as ViewType, label: 'Shops', icon: Store },
+  { id: 'recipes' as ViewType, label: 'Recipes', icon: Hammer },
 ];
 
 import { getStoredCanisterId, setStoredCanisterId } from '../hooks/useActor';
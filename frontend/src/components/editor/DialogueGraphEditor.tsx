@@ -0,0 +1,468 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, LayoutGrid, Play, Plus, Square, Trash2, XCircle } from 'lucide-react';
+import type { DialogueScript } from '@/types/npc';
+import {
+  NODE_BASE_HEIGHT,
+  NODE_CHOICE_HEIGHT,
+  NODE_WIDTH,
+  addChoice,
+  addLine,
+  connectChoice,
+  dialogueEdges,
+  layoutDialogueGraph,
+  nextDialogueStep,
+  nodeHeight,
+  removeChoice,
+  removeLine,
+  updateLine,
+  validateDialogueScript,
+  type NodePosition,
+} from '@/utils/dialogueGraph';
+import { DialogueRulesEditor } from './DialogueRulesEditor';
+
+// Node anatomy - must match the heights in dialogueGraph.ts
+const HEADER_HEIGHT = 28;
+const BODY_HEIGHT = NODE_BASE_HEIGHT - HEADER_HEIGHT - 8;
+const CANVAS_PADDING = 24;
+const NEXT_LINE = 'next';
+
+type DragState =
+  | { kind: 'node'; index: number; offsetX: number; offsetY: number }
+  | { kind: 'connect'; from: number; choiceIndex: number; x: number; y: number };
+
+interface DialogueGraphDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  script: DialogueScript;
+  onSave: (script: DialogueScript) => void;
+}
+
+/** Node-graph editor for a DialogueScript: lines are nodes, choices are edges */
+export function DialogueGraphDialog({ open, onOpenChange, title, script, onSave }: DialogueGraphDialogProps) {
+  const [draft, setDraft] = useState<DialogueScript>(script);
+  const [positions, setPositions] = useState<NodePosition[]>(() => layoutDialogueGraph(script));
+  const [selected, setSelected] = useState<number | null>(0);
+  const [previewLine, setPreviewLine] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  // Each time the dialog opens it starts from the script it was given
+  useEffect(() => {
+    if (!open) return;
+    setDraft(script);
+    setPositions(layoutDialogueGraph(script));
+    setSelected(0);
+    setPreviewLine(null);
+  }, [open]);
+
+  const edges = useMemo(() => dialogueEdges(draft), [draft]);
+  const issues = useMemo(() => validateDialogueScript(draft), [draft]);
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
+  const position = (index: number) => positions[index] ?? { x: 0, y: 0 };
+  const choicePortY = (index: number, choiceIndex: number) =>
+    position(index).y + HEADER_HEIGHT + BODY_HEIGHT + choiceIndex * NODE_CHOICE_HEIGHT + NODE_CHOICE_HEIGHT / 2;
+  const nextPortY = (index: number) => position(index).y + HEADER_HEIGHT + BODY_HEIGHT / 2;
+
+  const canvasWidth = Math.max(...positions.map((p) => p.x + NODE_WIDTH), 600) + CANVAS_PADDING * 2;
+  const canvasHeight = Math.max(...draft.lines.map((line, i) => position(i).y + nodeHeight(line)), 400) + CANVAS_PADDING * 2;
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left - CANVAS_PADDING, y: e.clientY - rect.top - CANVAS_PADDING };
+  };
+
+  const nodeAt = (point: NodePosition) =>
+    draft.lines.findIndex((line, i) => {
+      const p = position(i);
+      return point.x >= p.x && point.x <= p.x + NODE_WIDTH && point.y >= p.y && point.y <= p.y + nodeHeight(line);
+    });
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = pointerPosition(e);
+    if (drag.kind === 'node') {
+      setPositions((prev) => prev.map((p, i) => (i === drag.index
+        ? { x: Math.max(0, point.x - drag.offsetX), y: Math.max(0, point.y - drag.offsetY) }
+        : p)));
+    } else {
+      setDrag({ ...drag, x: point.x, y: point.y });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (drag?.kind === 'connect') {
+      const target = nodeAt(pointerPosition(e));
+      if (target !== -1) setDraft(connectChoice(draft, drag.from, drag.choiceIndex, target));
+    }
+    setDrag(null);
+  };
+
+  const handleAddLine = () => {
+    const { script: next, index } = addLine(draft, { text: '', isEnding: true });
+    const anchor = selected !== null ? position(selected) : { x: 0, y: 0 };
+    setDraft(next);
+    setPositions([...positions, { x: anchor.x + NODE_WIDTH + 80, y: anchor.y }]);
+    setSelected(index);
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setDraft(removeLine(draft, index));
+    setPositions(positions.filter((_, i) => i !== index));
+    setSelected(null);
+    setPreviewLine(null);
+  };
+
+  const edgePath = (x1: number, y1: number, x2: number, y2: number) => {
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  };
+
+  const selectedLine = selected !== null ? draft.lines[selected] : undefined;
+  const preview = previewLine !== null ? draft.lines[previewLine] : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Drag a choice's handle onto a line to connect it. Line 0 is where the conversation starts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          <div className="flex-1 min-w-0 rounded-md border bg-muted/30 overflow-auto">
+            <div
+              ref={canvasRef}
+              className="relative select-none"
+              style={{ width: canvasWidth, height: canvasHeight }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => setDrag(null)}
+            >
+              <svg className="absolute inset-0 pointer-events-none" width={canvasWidth} height={canvasHeight}>
+                <g transform={`translate(${CANVAS_PADDING}, ${CANVAS_PADDING})`}>
+                  {edges.map((edge) => {
+                    if (edge.to === null) return null;
+                    const x1 = position(edge.from).x + NODE_WIDTH;
+                    const y1 = edge.choiceIndex === null ? nextPortY(edge.from) : choicePortY(edge.from, edge.choiceIndex);
+                    const x2 = position(edge.to).x;
+                    const y2 = position(edge.to).y + HEADER_HEIGHT / 2;
+                    return (
+                      <path
+                        key={`${edge.from}-${edge.choiceIndex ?? 'next'}`}
+                        d={edgePath(x1, y1, x2, y2)}
+                        fill="none"
+                        stroke="currentColor"
+                        className="text-muted-foreground"
+                        strokeWidth={1.5}
+                        strokeDasharray={edge.choiceIndex === null ? '4 4' : undefined}
+                      />
+                    );
+                  })}
+                  {drag?.kind === 'connect' && (
+                    <path
+                      d={edgePath(position(drag.from).x + NODE_WIDTH, choicePortY(drag.from, drag.choiceIndex), drag.x, drag.y)}
+                      fill="none"
+                      stroke="currentColor"
+                      className="text-primary"
+                      strokeWidth={2}
+                    />
+                  )}
+                </g>
+              </svg>
+
+              {draft.lines.map((line, index) => {
+                const p = position(index);
+                const lineIssues = issues.filter((issue) => issue.lineIndex === index);
+                const hasError = lineIssues.some((issue) => issue.severity === 'error');
+                return (
+                  <div
+                    key={index}
+                    className={`absolute rounded-md border bg-card shadow-sm text-xs ${
+                      previewLine === index
+                        ? 'ring-2 ring-green-500'
+                        : selected === index
+                          ? 'ring-2 ring-primary'
+                          : ''
+                    } ${hasError ? 'border-destructive' : lineIssues.length > 0 ? 'border-yellow-500' : ''}`}
+                    style={{ left: p.x + CANVAS_PADDING, top: p.y + CANVAS_PADDING, width: NODE_WIDTH, height: nodeHeight(line) }}
+                    onPointerDown={() => setSelected(index)}
+                  >
+                    <div
+                      className="flex items-center justify-between gap-1 border-b px-2 cursor-move bg-muted/50 rounded-t-md"
+                      style={{ height: HEADER_HEIGHT }}
+                      onPointerDown={(e) => {
+                        const point = pointerPosition(e);
+                        setDrag({ kind: 'node', index, offsetX: point.x - p.x, offsetY: point.y - p.y });
+                      }}
+                    >
+                      <span className="font-medium truncate">
+                        {index === 0 && <span className="text-green-600 mr-1">▶</span>}
+                        #{index} {line.speaker || 'NPC'}
+                      </span>
+                      {line.isEnding && !(line.choices && line.choices.length > 0) && (
+                        <Square className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Ends dialogue" />
+                      )}
+                    </div>
+                    <div className="relative px-2 py-1" style={{ height: BODY_HEIGHT }}>
+                      <p className="line-clamp-3 text-muted-foreground">{line.text || <em>No text</em>}</p>
+                      {!line.isEnding && !(line.choices && line.choices.length > 0) && (
+                        <span className="absolute -right-1.5 top-1/2 -translate-y-1/2 h-3 w-3 rounded-full border-2 border-muted-foreground bg-card" />
+                      )}
+                    </div>
+                    {(line.choices ?? []).map((choice, choiceIndex) => {
+                      const dangling = lineIssues.some((issue) => issue.kind === 'dangling' && issue.choiceIndex === choiceIndex);
+                      return (
+                        <div
+                          key={choiceIndex}
+                          className="relative flex items-center border-t px-2"
+                          style={{ height: NODE_CHOICE_HEIGHT }}
+                        >
+                          <span className="truncate pr-3">→ {choice.text || <em>Choice {choiceIndex + 1}</em>}</span>
+                          <span
+                            className={`absolute -right-1.5 top-1/2 -translate-y-1/2 h-3 w-3 rounded-full border-2 cursor-crosshair ${
+                              dangling ? 'border-destructive bg-destructive' : 'border-primary bg-primary'
+                            }`}
+                            onPointerDown={(e) => {
+                              e.stopPropagation();
+                              const point = pointerPosition(e);
+                              setSelected(index);
+                              setDrag({ kind: 'connect', from: index, choiceIndex, x: point.x, y: point.y });
+                            }}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="w-72 shrink-0 space-y-4 overflow-y-auto">
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleAddLine} className="flex-1">
+                <Plus className="h-3 w-3 mr-1" />
+                Line
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setPositions(layoutDialogueGraph(draft))} className="flex-1">
+                <LayoutGrid className="h-3 w-3 mr-1" />
+                Auto layout
+              </Button>
+            </div>
+
+            {selectedLine && selected !== null && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Line {selected}</Label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={draft.lines.length <= 1}
+                    onClick={() => handleRemoveLine(selected)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Input
+                  placeholder="Speaker"
+                  value={selectedLine.speaker ?? ''}
+                  onChange={(e) => setDraft(updateLine(draft, selected, { ...selectedLine, speaker: e.target.value || undefined }))}
+                  className="h-8"
+                />
+                <Textarea
+                  value={selectedLine.text}
+                  onChange={(e) => setDraft(updateLine(draft, selected, { ...selectedLine, text: e.target.value }))}
+                  rows={3}
+                />
+                <label className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={!!selectedLine.isEnding}
+                    onChange={(e) => setDraft(updateLine(draft, selected, { ...selectedLine, isEnding: e.target.checked || undefined }))}
+                  />
+                  Ends dialogue
+                </label>
+                <DialogueRulesEditor
+                  conditions={selectedLine.conditions}
+                  actions={selectedLine.actions}
+                  onChange={(rules) => setDraft(updateLine(draft, selected, { ...selectedLine, ...rules }))}
+                  conditionHint="Shown only if"
+                  actionHint="When shown"
+                />
+                {(selectedLine.choices ?? []).map((choice, choiceIndex) => (
+                  <div key={choiceIndex} className="space-y-1 rounded-md border p-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        placeholder="Choice text"
+                        value={choice.text}
+                        onChange={(e) => setDraft(updateLine(draft, selected, {
+                          ...selectedLine,
+                          choices: selectedLine.choices!.map((c, i) => (i === choiceIndex ? { ...c, text: e.target.value } : c)),
+                        }))}
+                        className="h-7"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => setDraft(removeChoice(draft, selected, choiceIndex))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Select
+                      value={choice.nextLineIndex === undefined ? NEXT_LINE : String(choice.nextLineIndex)}
+                      onValueChange={(value) => setDraft(connectChoice(draft, selected, choiceIndex, value === NEXT_LINE ? null : Number(value)))}
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NEXT_LINE}>Next line</SelectItem>
+                        {draft.lines.map((line, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            #{i} {line.text.slice(0, 30) || '(no text)'}
+                          </SelectItem>
+                        ))}
+                        {choice.nextLineIndex !== undefined && !draft.lines[choice.nextLineIndex] && (
+                          <SelectItem value={String(choice.nextLineIndex)}>Missing line {choice.nextLineIndex}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <DialogueRulesEditor
+                      conditions={choice.conditions}
+                      actions={choice.actions}
+                      onChange={(rules) => setDraft(updateLine(draft, selected, {
+                        ...selectedLine,
+                        choices: selectedLine.choices!.map((c, i) => (i === choiceIndex ? { ...c, ...rules } : c)),
+                      }))}
+                      conditionHint="Offered only if"
+                      actionHint="When picked"
+                    />
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-7"
+                  onClick={() => setDraft(addChoice(draft, selected))}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Choice
+                </Button>
+              </div>
+            )}
+
+            <Separator />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Preview</Label>
+                <Button size="sm" variant="ghost" className="h-7" onClick={() => setPreviewLine(0)}>
+                  <Play className="h-3 w-3 mr-1" />
+                  From start
+                </Button>
+              </div>
+              {preview && previewLine !== null ? (
+                <div className="rounded-md border p-2 space-y-2 text-sm">
+                  <p className="font-medium">{preview.speaker || 'NPC'}</p>
+                  <p>{preview.text}</p>
+                  {preview.choices && preview.choices.length > 0 ? (
+                    preview.choices.map((choice, choiceIndex) => (
+                      <Button
+                        key={choiceIndex}
+                        size="sm"
+                        variant="outline"
+                        className="w-full justify-start h-auto py-1 whitespace-normal text-left"
+                        onClick={() => {
+                          const step = nextDialogueStep(draft, previewLine, choiceIndex);
+                          setPreviewLine('line' in step ? step.line : null);
+                        }}
+                      >
+                        {choiceIndex + 1}. {choice.text}
+                      </Button>
+                    ))
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => {
+                        const step = nextDialogueStep(draft, previewLine);
+                        setPreviewLine('line' in step ? step.line : null);
+                      }}
+                    >
+                      {'end' in nextDialogueStep(draft, previewLine) ? 'End' : 'Continue'}
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Not running</p>
+              )}
+            </div>
+
+            <Separator />
+            <div className="space-y-1">
+              <Label>Problems</Label>
+              {issues.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No problems found</p>
+              ) : (
+                issues.map((issue, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setSelected(issue.lineIndex)}
+                    className="flex w-full items-start gap-1 rounded px-1 py-0.5 text-left text-xs hover:bg-accent"
+                  >
+                    {issue.severity === 'error'
+                      ? <XCircle className="h-3 w-3 mt-0.5 shrink-0 text-destructive" />
+                      : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0 text-yellow-600" />}
+                    {issue.message}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={errorCount > 0}
+            onClick={() => {
+              onSave(draft);
+              onOpenChange(false);
+            }}
+          >
+            {errorCount > 0 ? `Fix ${errorCount} error${errorCount === 1 ? '' : 's'} to save` : 'Save dialogue'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
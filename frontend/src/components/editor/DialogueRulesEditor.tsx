@@ -0,0 +1,256 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { DialogueAction, DialogueCondition, NPCState, QuestState } from '@/types/npc';
+
+const QUEST_STATES: QuestState[] = ['available', 'active', 'completed', 'turned_in'];
+const NPC_STATES: NPCState[] = ['idle', 'interacting', 'alert', 'combat', 'disabled'];
+
+const CONDITION_LABELS: Record<DialogueCondition['type'], string> = {
+  quest_state: 'Quest is',
+  flag: 'Flag set',
+  item_count: 'Has items',
+  gold: 'Has gold',
+  visited: 'Talked before',
+};
+
+const ACTION_LABELS: Record<DialogueAction['type'], string> = {
+  set_flag: 'Set flag',
+  start_quest: 'Start quest',
+  complete_quest: 'Complete quest',
+  turn_in_quest: 'Turn in quest',
+  give_item: 'Give item',
+  give_gold: 'Give gold',
+  set_npc_state: 'Set NPC state',
+};
+
+function defaultCondition(type: DialogueCondition['type']): DialogueCondition {
+  switch (type) {
+    case 'quest_state': return { type, questId: '', state: 'active' };
+    case 'flag': return { type, flag: '' };
+    case 'item_count': return { type, itemId: '', min: 1 };
+    case 'gold': return { type, min: 1 };
+    case 'visited': return { type };
+  }
+}
+
+function defaultAction(type: DialogueAction['type']): DialogueAction {
+  switch (type) {
+    case 'set_flag': return { type, flag: '', value: true };
+    case 'start_quest': return { type, questId: '' };
+    case 'complete_quest': return { type, questId: '' };
+    case 'turn_in_quest': return { type, questId: '' };
+    case 'give_item': return { type, itemId: '', count: 1 };
+    case 'give_gold': return { type, amount: 10 };
+    case 'set_npc_state': return { type, state: 'idle' };
+  }
+}
+
+const toInt = (value: string) => Math.trunc(Number(value)) || 0;
+
+interface DialogueRulesEditorProps {
+  conditions?: DialogueCondition[];
+  actions?: DialogueAction[];
+  /** Empty lists are passed as undefined so scripts stay minimal */
+  onChange: (rules: { conditions?: DialogueCondition[]; actions?: DialogueAction[] }) => void;
+  conditionHint: string;
+  actionHint: string;
+}
+
+/** Conditions and side-effect actions of a dialogue line or choice */
+export function DialogueRulesEditor({ conditions = [], actions = [], onChange, conditionHint, actionHint }: DialogueRulesEditorProps) {
+  const setConditions = (next: DialogueCondition[]) =>
+    onChange({ conditions: next.length > 0 ? next : undefined, actions: actions.length > 0 ? actions : undefined });
+  const setActions = (next: DialogueAction[]) =>
+    onChange({ conditions: conditions.length > 0 ? conditions : undefined, actions: next.length > 0 ? next : undefined });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">{conditionHint}</span>
+          <AddMenu
+            labels={CONDITION_LABELS}
+            onAdd={(type) => setConditions([...conditions, defaultCondition(type)])}
+          />
+        </div>
+        {conditions.map((condition, i) => (
+          <RuleRow key={i} label={CONDITION_LABELS[condition.type]} onRemove={() => setConditions(conditions.filter((_, j) => j !== i))}>
+            <ConditionFields
+              condition={condition}
+              onChange={(updated) => setConditions(conditions.map((c, j) => (j === i ? updated : c)))}
+            />
+          </RuleRow>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">{actionHint}</span>
+          <AddMenu
+            labels={ACTION_LABELS}
+            onAdd={(type) => setActions([...actions, defaultAction(type)])}
+          />
+        </div>
+        {actions.map((action, i) => (
+          <RuleRow key={i} label={ACTION_LABELS[action.type]} onRemove={() => setActions(actions.filter((_, j) => j !== i))}>
+            <ActionFields
+              action={action}
+              onChange={(updated) => setActions(actions.map((a, j) => (j === i ? updated : a)))}
+            />
+          </RuleRow>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AddMenu<T extends string>({ labels, onAdd }: { labels: Record<T, string>; onAdd: (type: T) => void }) {
+  return (
+    <Select value="" onValueChange={(value) => onAdd(value as T)}>
+      <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+        <Plus className="h-3 w-3" />
+        <SelectValue placeholder="Add" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(labels) as T[]).map((type) => (
+          <SelectItem key={type} value={type}>
+            {labels[type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function RuleRow({ label, onRemove, children }: { label: string; onRemove: () => void; children: React.ReactNode }) {
+  return (
+    <div className="rounded border p-1.5 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{label}</span>
+        <Button variant="ghost" size="icon" className="h-5 w-5" onClick={onRemove}>
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">{children}</div>
+    </div>
+  );
+}
+
+function ConditionFields({ condition, onChange }: { condition: DialogueCondition; onChange: (c: DialogueCondition) => void }) {
+  const negate = (
+    <label className="flex items-center gap-1">
+      <Checkbox checked={!!condition.not} onChange={(e) => onChange({ ...condition, not: e.target.checked || undefined })} />
+      not
+    </label>
+  );
+
+  switch (condition.type) {
+    case 'quest_state':
+      return (
+        <>
+          <Input className="h-6 flex-1 text-xs" placeholder="Quest ID" value={condition.questId}
+            onChange={(e) => onChange({ ...condition, questId: e.target.value })} />
+          <Select value={condition.state} onValueChange={(value) => onChange({ ...condition, state: value as QuestState })}>
+            <SelectTrigger className="h-6 w-28 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {QUEST_STATES.map((state) => <SelectItem key={state} value={state}>{state}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {negate}
+        </>
+      );
+    case 'flag':
+      return (
+        <>
+          <Input className="h-6 flex-1 text-xs" placeholder="Flag" value={condition.flag}
+            onChange={(e) => onChange({ ...condition, flag: e.target.value })} />
+          {negate}
+        </>
+      );
+    case 'item_count':
+      return (
+        <>
+          <Input className="h-6 flex-1 text-xs" placeholder="Item ID" value={condition.itemId}
+            onChange={(e) => onChange({ ...condition, itemId: e.target.value })} />
+          <Input className="h-6 w-14 text-xs" type="number" min={0} value={condition.min} aria-label="At least"
+            onChange={(e) => onChange({ ...condition, min: toInt(e.target.value) })} />
+          {negate}
+        </>
+      );
+    case 'gold':
+      return (
+        <>
+          <Input className="h-6 w-20 text-xs" type="number" min={0} value={condition.min} aria-label="At least"
+            onChange={(e) => onChange({ ...condition, min: toInt(e.target.value) })} />
+          {negate}
+        </>
+      );
+    case 'visited':
+      return (
+        <>
+          <Input className="h-6 w-24 text-xs" type="number" min={0} placeholder="Any line" value={condition.lineIndex ?? ''}
+            aria-label="Line seen"
+            onChange={(e) => onChange({ ...condition, lineIndex: e.target.value === '' ? undefined : toInt(e.target.value) })} />
+          {negate}
+        </>
+      );
+  }
+}
+
+function ActionFields({ action, onChange }: { action: DialogueAction; onChange: (a: DialogueAction) => void }) {
+  switch (action.type) {
+    case 'set_flag':
+      return (
+        <>
+          <Input className="h-6 flex-1 text-xs" placeholder="Flag" value={action.flag}
+            onChange={(e) => onChange({ ...action, flag: e.target.value })} />
+          <label className="flex items-center gap-1">
+            <Checkbox checked={action.value} onChange={(e) => onChange({ ...action, value: e.target.checked })} />
+            on
+          </label>
+        </>
+      );
+    case 'start_quest':
+    case 'complete_quest':
+    case 'turn_in_quest':
+      return (
+        <Input className="h-6 flex-1 text-xs" placeholder="Quest ID" value={action.questId}
+          onChange={(e) => onChange({ ...action, questId: e.target.value })} />
+      );
+    case 'give_item':
+      return (
+        <>
+          <Input className="h-6 flex-1 text-xs" placeholder="Item ID" value={action.itemId}
+            onChange={(e) => onChange({ ...action, itemId: e.target.value })} />
+          <Input className="h-6 w-14 text-xs" type="number" value={action.count} aria-label="Count (negative takes)"
+            onChange={(e) => onChange({ ...action, count: toInt(e.target.value) })} />
+        </>
+      );
+    case 'give_gold':
+      return (
+        <Input className="h-6 w-20 text-xs" type="number" value={action.amount} aria-label="Amount (negative takes)"
+          onChange={(e) => onChange({ ...action, amount: toInt(e.target.value) })} />
+      );
+    case 'set_npc_state':
+      return (
+        <>
+          <Select value={action.state} onValueChange={(value) => onChange({ ...action, state: value as NPCState })}>
+            <SelectTrigger className="h-6 w-28 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {NPC_STATES.map((state) => <SelectItem key={state} value={state}>{state}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Input className="h-6 flex-1 text-xs" placeholder="This NPC" value={action.npcId ?? ''}
+            onChange={(e) => onChange({ ...action, npcId: e.target.value || undefined })} />
+        </>
+      );
+  }
+}
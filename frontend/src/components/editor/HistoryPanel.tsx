@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { History } from 'lucide-react';
+import type { HistoryEntry } from '@/utils/editorHistory';
+
+export interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+export function HistoryPanel({ entries, index, onJump }: HistoryPanelProps) {
+  // Row i restores the state after the first i entries (0 = as loaded)
+  const rows = [{ key: 'initial', label: 'Initial state', position: 0 }].concat(
+    entries.map((entry, i) => ({ key: String(entry.id), label: entry.label, position: i + 1 }))
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 max-h-60 overflow-y-auto">
+        {rows.map((row) => (
+          <button
+            key={row.key}
+            onClick={() => onJump(row.position)}
+            className={`w-full text-left rounded-md px-2 py-1 text-sm ${
+              row.position === index
+                ? 'bg-primary/15 ring-1 ring-primary'
+                : row.position > index
+                  ? 'text-muted-foreground line-through hover:bg-accent'
+                  : 'hover:bg-accent'
+            }`}
+          >
+            {row.label}
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
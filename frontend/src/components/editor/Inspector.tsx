@@ -1,4 +1,6 @@
+import { useEffect, useState } from 'react';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import {
   Select,
   SelectContent,
@@ -11,6 +13,10 @@ import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import { ChevronRight, ChevronLeft } from 'lucide-react';
 import type { MapData } from '@/backend';
+import { LayersPanel, type LayersPanelProps } from './LayersPanel';
+import { HistoryPanel, type HistoryPanelProps } from './HistoryPanel';
+import { NpcInspector, type NpcInspectorProps } from './NpcInspector';
+import { WarpInspector, type WarpInspectorProps } from './WarpInspector';
 
 interface InspectorProps {
   currentMap: MapData | null;
@@ -18,6 +24,11 @@ interface InspectorProps {
   onObjectStateChange: (index: number, newState: string) => void;
   isVisible: boolean;
   onToggleVisibility: () => void;
+  layerControls?: LayersPanelProps;
+  historyControls?: HistoryPanelProps;
+  npcControls?: NpcInspectorProps;
+  warpControls?: WarpInspectorProps;
+  onResizeMap?: (width: number, height: number) => void;
 }
 
 const OBJECT_STATES = ['default', 'alive', 'chopped', 'open', 'closed'];
@@ -28,7 +39,27 @@ export function Inspector({
   onObjectStateChange,
   isVisible,
   onToggleVisibility,
+  layerControls,
+  historyControls,
+  npcControls,
+  warpControls,
+  onResizeMap,
 }: InspectorProps) {
+  const [mapSize, setMapSize] = useState({ width: '', height: '' });
+
+  const mapWidth = currentMap ? Number(currentMap.width) : 0;
+  const mapHeight = currentMap ? Number(currentMap.height) : 0;
+  useEffect(() => {
+    setMapSize({ width: String(mapWidth), height: String(mapHeight) });
+  }, [mapWidth, mapHeight]);
+
+  const requestedWidth = Number(mapSize.width);
+  const requestedHeight = Number(mapSize.height);
+  const isSizeValid =
+    Number.isInteger(requestedWidth) && Number.isInteger(requestedHeight) &&
+    requestedWidth > 0 && requestedHeight > 0;
+  const isSizeChanged = requestedWidth !== mapWidth || requestedHeight !== mapHeight;
+
   const selectedObject =
     currentMap && selectedObjectIndex !== null
       ? currentMap.object_instances[selectedObjectIndex]
@@ -50,10 +81,10 @@ export function Inspector({
       <aside
         className={`${
           isVisible ? 'block' : 'hidden'
-        } lg:block w-full lg:w-72 border-t lg:border-t-0 lg:border-l bg-card`}
+        } lg:block w-full lg:w-72 border-t lg:border-t-0 lg:border-l bg-card overflow-y-auto`}
       >
-        <div className="p-4 lg:p-6">
-          <div className="flex items-center justify-between mb-4">
+        <div className="p-4 lg:p-6 space-y-4">
+          <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold">Inspector</h2>
             <Button
               variant="ghost"
@@ -64,7 +95,15 @@ export function Inspector({
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
-          
+
+          {layerControls && <LayersPanel {...layerControls} />}
+
+          {historyControls && <HistoryPanel {...historyControls} />}
+
+          {npcControls && <NpcInspector {...npcControls} />}
+
+          {warpControls && <WarpInspector {...warpControls} />}
+
           {!selectedObject && currentMap && (
             <Card>
               <CardHeader>
@@ -100,6 +139,45 @@ export function Inspector({
                     </p>
                   </div>
                 </div>
+                {onResizeMap && (
+                  <>
+                    <Separator />
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">Size (tiles)</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={mapSize.width}
+                          onChange={(e) => setMapSize({ ...mapSize, width: e.target.value })}
+                          className="h-8"
+                          aria-label="Map width"
+                        />
+                        <span className="text-muted-foreground">×</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={mapSize.height}
+                          onChange={(e) => setMapSize({ ...mapSize, height: e.target.value })}
+                          className="h-8"
+                          aria-label="Map height"
+                        />
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="w-full"
+                        disabled={!isSizeValid || !isSizeChanged}
+                        onClick={() => onResizeMap(requestedWidth, requestedHeight)}
+                      >
+                        Resize
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        Shrinking removes anything outside the new bounds.
+                      </p>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,154 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Plus, Layers, Grid2X2, Box, ShieldBan } from 'lucide-react';
+import { addTileLayer, moveLayer, updateLayer, type EditorLayer, type LayerKind } from '@/utils/mapLayers';
+
+export type CollisionBrush = 'solid' | 'walkable';
+
+export interface LayersPanelProps {
+  layers: EditorLayer[];
+  activeLayerId: string | null;
+  onSelectLayer: (id: string) => void;
+  onLayersChange: (layers: EditorLayer[]) => void;
+  collisionBrush: CollisionBrush;
+  onCollisionBrushChange: (brush: CollisionBrush) => void;
+}
+
+const KIND_ICONS: Record<LayerKind, typeof Layers> = {
+  tile: Grid2X2,
+  object: Box,
+  collision: ShieldBan,
+};
+
+export function LayersPanel({
+  layers,
+  activeLayerId,
+  onSelectLayer,
+  onLayersChange,
+  collisionBrush,
+  onCollisionBrushChange,
+}: LayersPanelProps) {
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+
+  const handleAddLayer = () => {
+    const name = window.prompt('Layer name', 'New Layer');
+    if (!name) return;
+    const updated = addTileLayer(layers, name, activeLayerId ?? undefined);
+    onLayersChange(updated);
+    const added = updated.find(l => !layers.includes(l));
+    if (added) onSelectLayer(added.id);
+  };
+
+  // Top of the render order is listed first
+  const ordered = [...layers].reverse();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Layers
+          </CardTitle>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleAddLayer} title="Add tile layer">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {ordered.map((layer) => {
+          const index = layers.indexOf(layer);
+          const Icon = KIND_ICONS[layer.kind];
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelectLayer(layer.id)}
+              className={`flex items-center gap-1 rounded-md px-2 py-1 text-sm cursor-pointer ${
+                layer.id === activeLayerId ? 'bg-primary/15 ring-1 ring-primary' : 'hover:bg-accent'
+              }`}
+            >
+              <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+              <span className={`flex-1 truncate ${layer.visible ? '' : 'text-muted-foreground line-through'}`}>
+                {layer.name}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLayersChange(updateLayer(layers, layer.id, { visible: !layer.visible }));
+                }}
+              >
+                {layer.visible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLayersChange(updateLayer(layers, layer.id, { locked: !layer.locked }));
+                }}
+              >
+                {layer.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Move up"
+                disabled={index === layers.length - 1}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLayersChange(moveLayer(layers, layer.id, 'up'));
+                }}
+              >
+                <ChevronUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Move down"
+                disabled={index === 0}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLayersChange(moveLayer(layers, layer.id, 'down'));
+                }}
+              >
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+
+        {activeLayer?.kind === 'collision' && (
+          <div className="pt-2 space-y-1">
+            <p className="text-xs text-muted-foreground">Paint overrides tile solidity:</p>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={collisionBrush === 'solid' ? 'secondary' : 'ghost'}
+                className="flex-1 h-7 text-xs"
+                onClick={() => onCollisionBrushChange('solid')}
+              >
+                Solid
+              </Button>
+              <Button
+                size="sm"
+                variant={collisionBrush === 'walkable' ? 'secondary' : 'ghost'}
+                className="flex-1 h-7 text-xs"
+                onClick={() => onCollisionBrushChange('walkable')}
+              >
+                Walkable
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,893 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, Users, Workflow } from 'lucide-react';
+import type { NpcTemplate } from '@/backend';
+import { useListShops } from '@/hooks/useQueries';
+import { DEFAULT_NPC_COMBAT } from '@/utils/combat';
+import { DEFAULT_FLEE_SAFE_DISTANCE } from '@/utils/npcController';
+import type {
+  AuthorityType,
+  BasicCombatModule,
+  CombatType,
+  DialogueInteractionModule,
+  DialogueScript,
+  FleeMovementModule,
+  GuardAuthorityModule,
+  InteractionType,
+  MovementType,
+  NPCDirection,
+  PatrolMovementModule,
+  QuestInteractionModule,
+  ShopInteractionModule,
+  CraftingInteractionModule,
+  WanderMovementModule,
+} from '@/types/npc';
+import {
+  createBasicCombat,
+  createCraftingInteraction,
+  createDialogueInteraction,
+  createFleeMovement,
+  createGuardAuthority,
+  createNoAuthority,
+  createNoCombat,
+  createPatrolMovement,
+  createQuestInteraction,
+  createScriptedDialogue,
+  createShopInteraction,
+  createStaticMovement,
+  createWanderMovement,
+} from '@/utils/npcModules';
+import {
+  createEmptyScript,
+  getDefinitionModule,
+  resolveNpcDefinition,
+  serializeNpcDefinition,
+  setDefinitionModule,
+  type NpcDefinition,
+} from '@/utils/npcDefinitions';
+import { NPC_PRESETS } from './Palette';
+import { DialogueGraphDialog } from './DialogueGraphEditor';
+
+/** An NPC as the editor holds it */
+export interface EditorNpc {
+  id: string;
+  presetId: string;
+  name: string;
+  x: number;
+  y: number;
+  definitionJson?: string | null;
+}
+
+export interface NpcInstanceChanges {
+  name?: string;
+  presetId?: string;
+  definitionJson?: string | null;
+}
+
+export interface NpcInspectorProps {
+  npcs: EditorNpc[];
+  selectedNpcId: string | null;
+  onSelect: (id: string | null) => void;
+  templates: NpcTemplate[];
+  onChange: (id: string, changes: NpcInstanceChanges) => void;
+  onSaveTemplate: (npcId: string, name: string, definition: NpcDefinition) => void;
+}
+
+const DIRECTIONS: NPCDirection[] = ['down', 'up', 'left', 'right'];
+
+const ORIGIN_LABELS = {
+  instance: 'Customized on this map',
+  template: 'From template',
+  builtin: 'Built-in preset',
+  fallback: 'Unknown template - using Villager',
+};
+
+const clampLine = (value: number, lineCount: number) =>
+  Math.min(lineCount - 1, Math.max(0, Math.trunc(value) || 0));
+
+const splitTags = (value: string) =>
+  value.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+
+export function NpcInspector({
+  npcs,
+  selectedNpcId,
+  onSelect,
+  templates,
+  onChange,
+  onSaveTemplate,
+}: NpcInspectorProps) {
+  const [templateName, setTemplateName] = useState('');
+
+  const npc = npcs.find((n) => n.id === selectedNpcId) ?? null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          NPCs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {npcs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Place NPCs from the palette to edit them here
+          </p>
+        ) : (
+          <Select
+            value={selectedNpcId ?? ''}
+            onValueChange={(value) => onSelect(value || null)}
+          >
+            <SelectTrigger className="h-8" aria-label="Selected NPC">
+              <SelectValue placeholder="Select an NPC" />
+            </SelectTrigger>
+            <SelectContent>
+              {npcs.map((n) => (
+                <SelectItem key={n.id} value={n.id}>
+                  {n.name} ({n.x}, {n.y})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {npc && (
+          <NpcEditor
+            npc={npc}
+            templates={templates}
+            onChange={(changes) => onChange(npc.id, changes)}
+            templateName={templateName}
+            onTemplateNameChange={setTemplateName}
+            onSaveTemplate={(definition) => {
+              onSaveTemplate(npc.id, templateName.trim(), definition);
+              setTemplateName('');
+            }}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface NpcEditorProps {
+  npc: EditorNpc;
+  templates: NpcTemplate[];
+  onChange: (changes: NpcInstanceChanges) => void;
+  templateName: string;
+  onTemplateNameChange: (name: string) => void;
+  onSaveTemplate: (definition: NpcDefinition) => void;
+}
+
+function NpcEditor({
+  npc,
+  templates,
+  onChange,
+  templateName,
+  onTemplateNameChange,
+  onSaveTemplate,
+}: NpcEditorProps) {
+  const { definition, origin } = resolveNpcDefinition(npc, templates);
+  const movement = getDefinitionModule(definition, 'movement');
+  const interaction = getDefinitionModule(definition, 'interaction');
+  const combat = getDefinitionModule(definition, 'combat');
+  const authority = getDefinitionModule(definition, 'authority');
+  const { data: shops = [] } = useListShops();
+
+  // Every edit is stored as a per-instance override of the template
+  const update = (next: NpcDefinition) => onChange({ definitionJson: serializeNpcDefinition(next) });
+
+  const setMovementType = (type: MovementType) => {
+    const module =
+      type === 'patrol' ? createPatrolMovement([{ x: 0, y: 0 }, { x: 2, y: 0 }])
+        : type === 'wander' ? createWanderMovement({ x: 0, y: 0 }, 2)
+          : type === 'flee' ? createFleeMovement()
+            : createStaticMovement();
+    update(setDefinitionModule(definition, 'movement', module));
+  };
+
+  const setInteractionType = (type: InteractionType | 'none') => {
+    const speaker = definition.metadata.name;
+    const module =
+      type === 'dialogue' ? createScriptedDialogue(createEmptyScript(speaker))
+        : type === 'shop' ? createShopInteraction()
+          : type === 'crafting' ? createCraftingInteraction()
+            : type === 'quest'
+              ? createQuestInteraction('', createEmptyScript(speaker), createEmptyScript(speaker), createEmptyScript(speaker))
+              : null;
+    update(setDefinitionModule(definition, 'interaction', module));
+  };
+
+  const templateOptions = [
+    ...NPC_PRESETS.map((preset) => ({ id: preset.id, name: preset.name })),
+    ...templates.map((template) => ({ id: template.id, name: template.name })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <Separator />
+      <div className="space-y-1">
+        <Label htmlFor="npc-name" className="text-xs text-muted-foreground">Name</Label>
+        <Input
+          id="npc-name"
+          value={npc.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Template</Label>
+        <Select value={npc.presetId} onValueChange={(value) => onChange({ presetId: value })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {templateOptions.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">{ORIGIN_LABELS[origin]}</p>
+          {origin === 'instance' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onChange({ definitionJson: null })}
+            >
+              Reset to template
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Separator />
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Faction</Label>
+          <Input
+            value={definition.metadata.faction ?? ''}
+            onChange={(e) => update({ ...definition, metadata: { ...definition.metadata, faction: e.target.value } })}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Facing</Label>
+          <Select
+            value={definition.direction}
+            onValueChange={(value) => update({ ...definition, direction: value as NPCDirection })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIRECTIONS.map((direction) => (
+                <SelectItem key={direction} value={direction}>
+                  {direction}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Tags (comma separated)</Label>
+        <TagsInput
+          tags={definition.metadata.tags ?? []}
+          onChange={(tags) => update({ ...definition, metadata: { ...definition.metadata, tags } })}
+        />
+      </div>
+
+      <Separator />
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Movement</Label>
+        <Select value={movement?.type ?? 'static'} onValueChange={(value) => setMovementType(value as MovementType)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="static">Static</SelectItem>
+            <SelectItem value="patrol">Patrol</SelectItem>
+            <SelectItem value="wander">Wander</SelectItem>
+            <SelectItem value="flee">Flee</SelectItem>
+          </SelectContent>
+        </Select>
+        {movement?.type === 'patrol' && (
+          <WaypointsEditor
+            module={movement as PatrolMovementModule}
+            onChange={(module) => update(setDefinitionModule(definition, 'movement', module))}
+          />
+        )}
+        {movement?.type === 'wander' && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground shrink-0">Radius</Label>
+            <Input
+              type="number"
+              min={0}
+              value={(movement as WanderMovementModule).radius}
+              onChange={(e) => update(setDefinitionModule(definition, 'movement', {
+                ...(movement as WanderMovementModule),
+                radius: Math.max(0, Number(e.target.value) || 0),
+              }))}
+              className="h-8"
+            />
+          </div>
+        )}
+        {movement?.type === 'flee' && (
+          <FleeEditor
+            module={movement as FleeMovementModule}
+            onChange={(module) => update(setDefinitionModule(definition, 'movement', module))}
+          />
+        )}
+      </div>
+
+      <Separator />
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Interaction</Label>
+        <Select
+          value={interaction?.type ?? 'none'}
+          onValueChange={(value) => setInteractionType(value as InteractionType | 'none')}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="dialogue">Dialogue</SelectItem>
+            <SelectItem value="shop">Shop</SelectItem>
+            <SelectItem value="crafting">Crafting</SelectItem>
+            <SelectItem value="quest">Quest</SelectItem>
+          </SelectContent>
+        </Select>
+        {interaction?.type === 'dialogue' && (
+          <DialogueModuleEditor
+            module={interaction as DialogueInteractionModule}
+            onChange={(module) => update(setDefinitionModule(definition, 'interaction', module))}
+          />
+        )}
+        {interaction?.type === 'shop' && (
+          <Select
+            value={(interaction as ShopInteractionModule).shopId ?? ''}
+            onValueChange={(value) => update(setDefinitionModule(definition, 'interaction', {
+              ...(interaction as ShopInteractionModule),
+              shopId: value || undefined,
+            }))}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Choose a shop" />
+            </SelectTrigger>
+            <SelectContent>
+              {shops.map((shop) => (
+                <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {interaction?.type === 'crafting' && (
+          <Input
+            placeholder="Crafting type"
+            value={(interaction as CraftingInteractionModule).craftingType ?? ''}
+            onChange={(e) => update(setDefinitionModule(definition, 'interaction', {
+              ...(interaction as CraftingInteractionModule),
+              craftingType: e.target.value || undefined,
+            }))}
+            className="h-8"
+          />
+        )}
+        {interaction?.type === 'quest' && (
+          <QuestModuleEditor
+            module={interaction as QuestInteractionModule}
+            onChange={(module) => update(setDefinitionModule(definition, 'interaction', module))}
+          />
+        )}
+      </div>
+
+      <Separator />
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Combat</Label>
+          <Select
+            value={combat?.type ?? 'none'}
+            onValueChange={(value) => update(setDefinitionModule(definition, 'combat',
+              (value as CombatType) === 'basic' ? createBasicCombat() : createNoCombat()))}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="basic">Basic</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Authority</Label>
+          <Select
+            value={authority?.type ?? 'none'}
+            onValueChange={(value) => update(setDefinitionModule(definition, 'authority',
+              (value as AuthorityType) === 'guard' ? createGuardAuthority() : createNoAuthority()))}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="guard">Guard</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {combat?.type === 'basic' && (
+        <CombatStatsEditor
+          module={combat as BasicCombatModule}
+          onChange={(module) => update(setDefinitionModule(definition, 'combat', module))}
+        />
+      )}
+      {authority?.type === 'guard' && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground shrink-0">Guard radius</Label>
+          <Input
+            type="number"
+            min={0}
+            value={(authority as GuardAuthorityModule).guardRadius ?? 5}
+            onChange={(e) => update(setDefinitionModule(definition, 'authority', {
+              ...(authority as GuardAuthorityModule),
+              guardRadius: Math.max(0, Number(e.target.value) || 0),
+            }))}
+            className="h-8"
+          />
+        </div>
+      )}
+
+      <Separator />
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Save as template</Label>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Template name"
+            value={templateName}
+            onChange={(e) => onTemplateNameChange(e.target.value)}
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={templateName.trim() === ''}
+            onClick={() => onSaveTemplate(definition)}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Comma-separated tags, parsed on blur so typing a comma doesn't fight the input */
+const COMBAT_STATS: { key: keyof typeof DEFAULT_NPC_COMBAT; label: string }[] = [
+  { key: 'maxHealth', label: 'Health' },
+  { key: 'damage', label: 'Damage' },
+  { key: 'attackRange', label: 'Range' },
+  { key: 'attackCooldownMs', label: 'Cooldown (ms)' },
+  { key: 'aggroRange', label: 'Aggro range' },
+];
+
+function CombatStatsEditor({
+  module,
+  onChange,
+}: {
+  module: BasicCombatModule;
+  onChange: (module: BasicCombatModule) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {COMBAT_STATS.map(({ key, label }) => (
+        <div key={key} className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground shrink-0 w-20">{label}</Label>
+          <Input
+            type="number"
+            min={0}
+            value={module[key] ?? DEFAULT_NPC_COMBAT[key]}
+            onChange={(e) => onChange({ ...module, [key]: Math.max(0, Number(e.target.value) || 0) })}
+            className="h-8"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TagsInput({ tags, onChange }: { tags: string[]; onChange: (tags: string[]) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <Input
+      value={draft ?? tags.join(', ')}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) onChange(splitTags(draft));
+        setDraft(null);
+      }}
+      className="h-8"
+    />
+  );
+}
+
+function WaypointsEditor({
+  module,
+  onChange,
+}: {
+  module: PatrolMovementModule;
+  onChange: (module: PatrolMovementModule) => void;
+}) {
+  const setWaypoints = (waypoints: PatrolMovementModule['waypoints']) => onChange({ ...module, waypoints });
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">Waypoints, in tiles from the NPC's position</p>
+      {module.waypoints.map((waypoint, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <Input
+            type="number"
+            value={waypoint.x}
+            onChange={(e) => setWaypoints(module.waypoints.map((w, j) =>
+              j === i ? { ...w, x: Math.trunc(Number(e.target.value) || 0) } : w))}
+            className="h-7"
+            aria-label={`Waypoint ${i + 1} x`}
+          />
+          <Input
+            type="number"
+            value={waypoint.y}
+            onChange={(e) => setWaypoints(module.waypoints.map((w, j) =>
+              j === i ? { ...w, y: Math.trunc(Number(e.target.value) || 0) } : w))}
+            className="h-7"
+            aria-label={`Waypoint ${i + 1} y`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            disabled={module.waypoints.length <= 1}
+            onClick={() => setWaypoints(module.waypoints.filter((_, j) => j !== i))}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7"
+        onClick={() => {
+          const last = module.waypoints[module.waypoints.length - 1] ?? { x: 0, y: 0 };
+          setWaypoints([...module.waypoints, { x: last.x + 1, y: last.y }]);
+        }}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add waypoint
+      </Button>
+    </div>
+  );
+}
+
+function FleeEditor({
+  module,
+  onChange,
+}: {
+  module: FleeMovementModule;
+  onChange: (module: FleeMovementModule) => void;
+}) {
+  const setIdleType = (type: 'static' | 'wander') => {
+    const idleMovement = type === 'wander' ? createWanderMovement({ x: 0, y: 0 }, 2) : undefined;
+    onChange({
+      ...module,
+      handlesStates: idleMovement ? ['idle', 'alert'] : ['alert'],
+      idleMovement,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Flee from tags</Label>
+        <TagsInput tags={module.fleeFromTags} onChange={(fleeFromTags) => onChange({ ...module, fleeFromTags })} />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground shrink-0">Safe distance</Label>
+        <Input
+          type="number"
+          min={1}
+          value={module.safeDistance ?? ''}
+          placeholder={String(DEFAULT_FLEE_SAFE_DISTANCE)}
+          onChange={(e) => onChange({
+            ...module,
+            safeDistance: e.target.value === '' ? undefined : Math.max(1, Number(e.target.value) || 1),
+          })}
+          className="h-8"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground shrink-0">When safe</Label>
+        <Select
+          value={module.idleMovement?.type === 'wander' ? 'wander' : 'static'}
+          onValueChange={(value) => setIdleType(value as 'static' | 'wander')}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="static">Stand still</SelectItem>
+            <SelectItem value="wander">Wander</SelectItem>
+          </SelectContent>
+        </Select>
+        {module.idleMovement?.type === 'wander' && (
+          <Input
+            type="number"
+            min={0}
+            value={module.idleMovement.radius}
+            onChange={(e) => onChange({
+              ...module,
+              idleMovement: { ...module.idleMovement as WanderMovementModule, radius: Math.max(0, Number(e.target.value) || 0) },
+            })}
+            className="h-8 w-16"
+            aria-label="Wander radius"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DialogueModuleEditor({
+  module,
+  onChange,
+}: {
+  module: DialogueInteractionModule;
+  onChange: (module: DialogueInteractionModule) => void;
+}) {
+  if (!module.dialogueScript) {
+    return (
+      <div className="space-y-1">
+        <Textarea
+          value={module.dialogueText ?? ''}
+          onChange={(e) => onChange({ ...module, dialogueText: e.target.value })}
+          rows={2}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-7"
+          onClick={() => onChange(createScriptedDialogue({
+            lines: [{ text: module.dialogueText ?? '', isEnding: true }],
+          }))}
+        >
+          Convert to script
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <DialogueScriptEditor
+        title="Dialogue"
+        script={module.dialogueScript}
+        onChange={(dialogueScript) => onChange({ ...module, dialogueScript })}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full h-7 text-xs"
+        onClick={() => onChange(createDialogueInteraction(module.dialogueScript?.lines[0]?.text ?? ''))}
+      >
+        Use a single line instead
+      </Button>
+    </div>
+  );
+}
+
+const QUEST_SCRIPTS = [
+  { key: 'dialogueAvailable', label: 'Offer' },
+  { key: 'dialogueActive', label: 'In progress' },
+  { key: 'dialogueComplete', label: 'Turn-in' },
+] as const;
+
+function QuestModuleEditor({
+  module,
+  onChange,
+}: {
+  module: QuestInteractionModule;
+  onChange: (module: QuestInteractionModule) => void;
+}) {
+  const [scriptKey, setScriptKey] = useState<(typeof QUEST_SCRIPTS)[number]['key']>('dialogueAvailable');
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Quest ID"
+        value={module.questId}
+        onChange={(e) => onChange({ ...module, questId: e.target.value })}
+        className="h-8"
+      />
+      <Select value={scriptKey} onValueChange={(value) => setScriptKey(value as typeof scriptKey)}>
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {QUEST_SCRIPTS.map((script) => (
+            <SelectItem key={script.key} value={script.key}>
+              {script.label} dialogue
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <DialogueScriptEditor
+        title={`Quest ${QUEST_SCRIPTS.find((s) => s.key === scriptKey)!.label.toLowerCase()} dialogue`}
+        script={module[scriptKey]}
+        onChange={(script) => onChange({ ...module, [scriptKey]: script })}
+      />
+    </div>
+  );
+}
+
+function DialogueScriptEditor({
+  title,
+  script,
+  onChange,
+}: {
+  title: string;
+  script: DialogueScript;
+  onChange: (script: DialogueScript) => void;
+}) {
+  const [isGraphOpen, setIsGraphOpen] = useState(false);
+
+  const setLine = (index: number, line: DialogueScript['lines'][number]) =>
+    onChange({ lines: script.lines.map((l, i) => (i === index ? line : l)) });
+
+  // Removing a line shifts later indices; choices that pointed at it fall back to "next line"
+  const removeLine = (index: number) =>
+    onChange({
+      lines: script.lines
+        .filter((_, i) => i !== index)
+        .map((line) => ({
+          ...line,
+          choices: line.choices?.map((choice) => ({
+            ...choice,
+            nextLineIndex:
+              choice.nextLineIndex === undefined || choice.nextLineIndex === index
+                ? undefined
+                : choice.nextLineIndex > index ? choice.nextLineIndex - 1 : choice.nextLineIndex,
+          })),
+        })),
+    });
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7"
+        onClick={() => setIsGraphOpen(true)}
+      >
+        <Workflow className="h-3 w-3 mr-1" />
+        Open graph editor
+      </Button>
+      <DialogueGraphDialog
+        open={isGraphOpen}
+        onOpenChange={setIsGraphOpen}
+        title={title}
+        script={script}
+        onSave={onChange}
+      />
+      {script.lines.map((line, i) => (
+        <div key={i} className="rounded-md border p-2 space-y-1">
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground w-5 shrink-0">{i}</span>
+            <Input
+              placeholder="Speaker"
+              value={line.speaker ?? ''}
+              onChange={(e) => setLine(i, { ...line, speaker: e.target.value || undefined })}
+              className="h-7"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              disabled={script.lines.length <= 1}
+              onClick={() => removeLine(i)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <Textarea
+            value={line.text}
+            onChange={(e) => setLine(i, { ...line, text: e.target.value })}
+            rows={2}
+            className="text-sm"
+          />
+          {(line.choices ?? []).map((choice, c) => (
+            <div key={c} className="flex items-center gap-1 pl-4">
+              <Input
+                placeholder="Choice"
+                value={choice.text}
+                onChange={(e) => setLine(i, {
+                  ...line,
+                  choices: line.choices!.map((ch, k) => (k === c ? { ...ch, text: e.target.value } : ch)),
+                })}
+                className="h-7"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={script.lines.length - 1}
+                placeholder="→"
+                value={choice.nextLineIndex ?? ''}
+                onChange={(e) => setLine(i, {
+                  ...line,
+                  choices: line.choices!.map((ch, k) => (k === c
+                    ? { ...ch, nextLineIndex: e.target.value === '' ? undefined : clampLine(Number(e.target.value), script.lines.length) }
+                    : ch)),
+                })}
+                className="h-7 w-14 shrink-0"
+                aria-label="Go to line"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => {
+                  const choices = line.choices!.filter((_, k) => k !== c);
+                  setLine(i, { ...line, choices: choices.length > 0 ? choices : undefined });
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1 text-xs">
+              <Checkbox
+                checked={!!line.isEnding}
+                onChange={(e) => setLine(i, { ...line, isEnding: e.target.checked || undefined })}
+              />
+              Ends dialogue
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setLine(i, { ...line, choices: [...(line.choices ?? []), { text: '' }] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Choice
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7"
+        onClick={() => onChange({ lines: [...script.lines, { text: '' }] })}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add line
+      </Button>
+    </div>
+  );
+}
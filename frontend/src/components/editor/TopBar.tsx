@@ -65,6 +65,8 @@ export function TopBar({ mapsList, currentMap, onMapSelect, onNewMap, onSave }:
       object_instances: [],
       spawn_points: [],
       npc_instances: [],
+      layers: [],
+      warps: [],
       created_at: BigInt(Date.now()),
       updated_at: BigInt(Date.now()),
     };
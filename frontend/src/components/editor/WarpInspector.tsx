@@ -0,0 +1,168 @@
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DoorOpen } from 'lucide-react';
+import type { MapData } from '@/backend';
+import { useListMaps } from '@/hooks/useQueries';
+import type { MapWarp } from '@/utils/mapWarps';
+
+export type WarpChanges = Partial<Omit<MapWarp, 'id' | 'kind' | 'objectId'>>;
+
+export interface WarpInspectorProps {
+  warps: MapWarp[];
+  selectedWarpId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, changes: WarpChanges) => void;
+}
+
+// Select items cannot have an empty value
+const DEFAULT_SPAWN = 'default';
+
+export function WarpInspector({ warps, selectedWarpId, onSelect, onChange }: WarpInspectorProps) {
+  const warp = warps.find((w) => w.id === selectedWarpId) ?? null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <DoorOpen className="h-4 w-4" />
+          Warps
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {warps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Drag out a region or click an object with the warp tool to add one
+          </p>
+        ) : (
+          <Select
+            value={selectedWarpId ?? ''}
+            onValueChange={(value) => onSelect(value || null)}
+          >
+            <SelectTrigger className="h-8" aria-label="Selected warp">
+              <SelectValue placeholder="Select a warp" />
+            </SelectTrigger>
+            <SelectContent>
+              {warps.map((w) => (
+                <SelectItem key={w.id} value={w.id}>
+                  {w.name} ({w.x}, {w.y})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {warp && <WarpEditor warp={warp} onChange={(changes) => onChange(warp.id, changes)} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface WarpEditorProps {
+  warp: MapWarp;
+  onChange: (changes: WarpChanges) => void;
+}
+
+function WarpEditor({ warp, onChange }: WarpEditorProps) {
+  const { data: maps = [] } = useListMaps();
+  const targetMap = maps.find((m: MapData) => m.id === warp.targetMapId);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Name</Label>
+        <Input
+          value={warp.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="h-8"
+        />
+      </div>
+
+      {warp.kind === 'object' ? (
+        <p className="text-xs text-muted-foreground">
+          Used with E on {warp.objectId} at ({warp.x}, {warp.y})
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {(['x', 'y', 'width', 'height'] as const).map((key) => (
+            <div key={key} className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground shrink-0 w-10">{key}</Label>
+              <Input
+                type="number"
+                min={key === 'width' || key === 'height' ? 1 : 0}
+                value={warp[key]}
+                onChange={(e) => {
+                  const min = key === 'width' || key === 'height' ? 1 : 0;
+                  onChange({ [key]: Math.max(min, Math.trunc(Number(e.target.value)) || min) });
+                }}
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Target map</Label>
+        <Select
+          value={warp.targetMapId}
+          onValueChange={(value) => onChange({ targetMapId: value, targetSpawnId: '' })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Select a map" />
+          </SelectTrigger>
+          <SelectContent>
+            {maps.map((m: MapData) => (
+              <SelectItem key={m.id} value={m.id}>
+                {m.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Arrive at</Label>
+        <Select
+          value={warp.targetSpawnId || DEFAULT_SPAWN}
+          onValueChange={(value) => onChange({ targetSpawnId: value === DEFAULT_SPAWN ? '' : value })}
+          disabled={!targetMap}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SPAWN}>Character's spawn point</SelectItem>
+            {(targetMap?.spawn_points ?? []).map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name} ({Number(s.x)}, {Number(s.y)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {warp.targetMapId && !targetMap && maps.length > 0 && (
+          <p className="text-xs text-destructive">Target map "{warp.targetMapId}" no longer exists</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground shrink-0">Fade (ms)</Label>
+        <Input
+          type="number"
+          min={0}
+          step={50}
+          value={warp.fadeMs}
+          onChange={(e) => onChange({ fadeMs: Math.max(0, Number(e.target.value) || 0) })}
+          className="h-8"
+        />
+      </div>
+    </div>
+  );
+}
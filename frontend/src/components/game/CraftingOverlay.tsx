@@ -0,0 +1,94 @@
+import { Hammer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ItemIcon } from '@/components/ItemIcon';
+import type { Inventory, ItemCatalog } from '@/utils/inventory';
+import type { CraftingJob, RecipeIngredient, RecipeStatus } from '@/utils/crafting';
+
+interface CraftingOverlayProps {
+  npcName: string;
+  statuses: RecipeStatus[];
+  selectedIndex: number;
+  inventory: Inventory;
+  catalog: ItemCatalog;
+  /** Job running and how far along it is (0 to 1) */
+  crafting: { job: CraftingJob; progress: number } | null;
+  onSelect: (index: number) => void;
+  onCraft: () => void;
+}
+
+function IngredientList({ label, ingredients, inventory, catalog }: {
+  label: string;
+  ingredients: RecipeIngredient[];
+  inventory?: Inventory;
+  catalog: ItemCatalog;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="text-[10px] uppercase tracking-wide text-gray-500">{label}</div>
+      {ingredients.map((ingredient) => {
+        const held = inventory ? inventory[ingredient.itemId] ?? 0 : undefined;
+        return (
+          <div key={ingredient.itemId} className="flex items-center gap-2 text-xs">
+            <ItemIcon icon={catalog[ingredient.itemId]?.icon ?? null} size={20} />
+            <span className="flex-1 truncate">{catalog[ingredient.itemId]?.name ?? ingredient.itemId}</span>
+            {held === undefined
+              ? <span>×{ingredient.count}</span>
+              : <span className={held < ingredient.count ? 'text-red-400' : 'text-green-400'}>{held}/{ingredient.count}</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Recipe list drawn over the game canvas while at a crafting NPC */
+export function CraftingOverlay({ npcName, statuses, selectedIndex, inventory, catalog, crafting, onSelect, onCraft }: CraftingOverlayProps) {
+  const selected = statuses[selectedIndex];
+
+  return (
+    <div className="absolute left-1/2 top-1/2 w-[28rem] -translate-x-1/2 -translate-y-1/2 rounded-lg border border-orange-500 bg-black/90 text-white shadow-lg">
+      <div className="flex items-center gap-2 border-b border-white/10 px-3 py-2">
+        <Hammer className="h-4 w-4 text-orange-400" />
+        <span className="font-semibold text-sm">{npcName}</span>
+      </div>
+      <div className="flex">
+        <ul className="max-h-72 w-1/2 overflow-y-auto border-r border-white/10 p-2">
+          {statuses.map(({ recipe, craftable }, i) => (
+            <li
+              key={recipe.id}
+              className={cn(
+                'cursor-pointer truncate rounded px-2 py-1 text-sm',
+                i === selectedIndex ? 'bg-orange-500/20' : 'hover:bg-white/5',
+                !craftable && 'text-gray-500'
+              )}
+              onClick={() => onSelect(i)}
+              onDoubleClick={onCraft}
+            >
+              {recipe.name}
+            </li>
+          ))}
+        </ul>
+        <div className="w-1/2 space-y-3 p-3">
+          {selected && (
+            <>
+              <IngredientList label="Needs" ingredients={selected.recipe.inputs} inventory={inventory} catalog={catalog} />
+              <IngredientList label="Makes" ingredients={selected.recipe.outputs} catalog={catalog} />
+              <div className="text-[10px] text-gray-500">{(selected.recipe.craftTimeMs / 1000).toFixed(1)}s</div>
+            </>
+          )}
+        </div>
+      </div>
+      {crafting && (
+        <div className="space-y-1 border-t border-white/10 px-3 py-2">
+          <div className="text-xs">Crafting {crafting.job.name}...</div>
+          <div className="h-1.5 overflow-hidden rounded bg-white/10">
+            <div className="h-full bg-orange-500" style={{ width: `${crafting.progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+      <div className="border-t border-white/10 px-3 py-1.5 text-[10px] text-gray-400">
+        ↑↓ select · Enter craft · Esc leave
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Backpack } from 'lucide-react';
+import { ItemIcon } from '@/components/ItemIcon';
+import type { InventorySlot } from '@/utils/inventory';
+
+interface InventoryOverlayProps {
+  slots: InventorySlot[];
+  capacity: number;
+  gold: number;
+}
+
+/** Inventory grid drawn over the game canvas, toggled with I */
+export function InventoryOverlay({ slots, capacity, gold }: InventoryOverlayProps) {
+  const cells = Array.from({ length: Math.max(capacity, slots.length) }, (_, i) => slots[i]);
+
+  return (
+    <div className="absolute left-4 top-4 w-72 rounded-lg border border-amber-500 bg-black/90 text-white shadow-lg">
+      <div className="flex items-center gap-2 border-b border-white/10 px-3 py-2">
+        <Backpack className="h-4 w-4 text-amber-400" />
+        <span className="font-semibold text-sm">Inventory</span>
+        <div className="flex-1" />
+        <span className="text-xs text-gray-400">{slots.length}/{capacity} · {gold} gold</span>
+      </div>
+      <div className="grid max-h-96 grid-cols-6 gap-1 overflow-y-auto p-3">
+        {cells.map((slot, i) => (
+          <div
+            key={i}
+            className="relative flex h-10 w-10 items-center justify-center rounded border border-white/10 bg-white/5"
+            title={slot ? (slot.item?.name ?? slot.itemId) : undefined}
+          >
+            {slot && (
+              <>
+                <ItemIcon icon={slot.item?.icon ?? null} size={28} />
+                {slot.count > 1 && (
+                  <span className="absolute bottom-0 right-0.5 text-[10px] font-semibold">{slot.count}</span>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
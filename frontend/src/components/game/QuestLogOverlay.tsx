@@ -0,0 +1,58 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Circle, ScrollText } from 'lucide-react';
+import type { QuestState } from '@/types/npc';
+import { isObjectiveMet, type QuestLogEntry } from '@/utils/questEngine';
+
+const STATE_LABELS: Record<QuestState, string> = {
+  available: 'Available',
+  active: 'Active',
+  completed: 'Ready to turn in',
+  turned_in: 'Done',
+};
+
+interface QuestLogOverlayProps {
+  entries: QuestLogEntry[];
+  gold: number;
+  experience: number;
+}
+
+/** Quest log drawn over the game canvas, toggled with Q */
+export function QuestLogOverlay({ entries, gold, experience }: QuestLogOverlayProps) {
+  return (
+    <div className="absolute right-4 top-4 w-80 rounded-lg border border-violet-500 bg-black/90 text-white shadow-lg">
+      <div className="flex items-center gap-2 border-b border-white/10 px-3 py-2">
+        <ScrollText className="h-4 w-4 text-violet-400" />
+        <span className="font-semibold text-sm">Quest Log</span>
+        <div className="flex-1" />
+        <span className="text-xs text-gray-400">{gold} gold · {experience} XP</span>
+      </div>
+      <div className="max-h-96 space-y-3 overflow-y-auto p-3">
+        {entries.length === 0 && (
+          <p className="text-xs text-gray-400">No quests yet. Talk to people to find some.</p>
+        )}
+        {entries.map(({ quest, state, objectives }) => (
+          <div key={quest.id} className={state === 'turned_in' ? 'space-y-1 opacity-60' : 'space-y-1'}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-sm">{quest.title}</span>
+              <Badge variant={state === 'completed' ? 'default' : 'secondary'} className="text-[10px]">
+                {STATE_LABELS[state]}
+              </Badge>
+            </div>
+            <p className="text-xs text-gray-400">{quest.description}</p>
+            <ul className="space-y-0.5">
+              {objectives.map((objective) => (
+                <li key={objective.id} className="flex items-center gap-1.5 text-xs">
+                  {isObjectiveMet(objective)
+                    ? <CheckCircle2 className="h-3 w-3 text-green-500" />
+                    : <Circle className="h-3 w-3 text-gray-500" />}
+                  <span className="flex-1">{objective.description}</span>
+                  <span className="text-gray-400">{objective.current}/{objective.required}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
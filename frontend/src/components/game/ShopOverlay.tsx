@@ -0,0 +1,74 @@
+import { Coins, Store } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ItemIcon } from '@/components/ItemIcon';
+import type { Shop, ShopOffer } from '@/utils/shop';
+
+export type ShopTab = 'buy' | 'sell';
+
+interface ShopOverlayProps {
+  shop: Shop;
+  tab: ShopTab;
+  offers: ShopOffer[];
+  selectedIndex: number;
+  gold: number;
+  onSelect: (index: number) => void;
+  onTabChange: (tab: ShopTab) => void;
+  onTrade: () => void;
+}
+
+/** Buy/sell window drawn over the game canvas while trading with a shop NPC */
+export function ShopOverlay({ shop, tab, offers, selectedIndex, gold, onSelect, onTabChange, onTrade }: ShopOverlayProps) {
+  return (
+    <div className="absolute left-1/2 top-1/2 w-96 -translate-x-1/2 -translate-y-1/2 rounded-lg border border-yellow-500 bg-black/90 text-white shadow-lg">
+      <div className="flex items-center gap-2 border-b border-white/10 px-3 py-2">
+        <Store className="h-4 w-4 text-yellow-400" />
+        <span className="font-semibold text-sm">{shop.name}</span>
+        <div className="flex-1" />
+        <span className="flex items-center gap-1 text-xs text-yellow-300">
+          <Coins className="h-3 w-3" />
+          {gold}
+        </span>
+      </div>
+      <div className="flex border-b border-white/10 text-xs">
+        {(['buy', 'sell'] as const).map((t) => (
+          <button
+            key={t}
+            className={cn('flex-1 py-1.5 capitalize', tab === t ? 'bg-white/10 font-semibold' : 'text-gray-400')}
+            onClick={() => onTabChange(t)}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+      <ul className="max-h-72 overflow-y-auto p-2">
+        {offers.length === 0 && (
+          <li className="p-2 text-xs text-gray-400">
+            {tab === 'buy' ? 'Nothing for sale.' : 'You have nothing to sell.'}
+          </li>
+        )}
+        {offers.map((offer, i) => (
+          <li
+            key={offer.itemId}
+            className={cn(
+              'flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm',
+              i === selectedIndex ? 'bg-yellow-500/20' : 'hover:bg-white/5',
+              offer.available === 0 && 'opacity-50'
+            )}
+            onClick={() => onSelect(i)}
+            onDoubleClick={onTrade}
+          >
+            <ItemIcon icon={offer.item?.icon ?? null} size={24} />
+            <span className="flex-1 truncate">{offer.item?.name ?? offer.itemId}</span>
+            {offer.available !== undefined && (
+              <span className="text-xs text-gray-400">×{offer.available}</span>
+            )}
+            <span className="w-14 text-right text-xs text-yellow-300">{offer.price}g</span>
+          </li>
+        ))}
+      </ul>
+      <div className="border-t border-white/10 px-3 py-1.5 text-[10px] text-gray-400">
+        ↑↓ select · ←→ buy/sell · Enter {tab} · Esc leave
+      </div>
+    </div>
+  );
+}
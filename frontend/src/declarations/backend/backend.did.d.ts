@@ -2,6 +2,11 @@ import type { Principal } from '@dfinity/principal';
 import type { ActorMethod } from '@dfinity/agent';
 
 export interface Anchor { 'x': bigint, 'y': bigint }
+export interface AutotileRule {
+    'mode': string,
+    'slots': Array<AutotileSlot>,
+}
+export interface AutotileSlot { 'mask': bigint, 'tile_id': string }
 export interface CollisionTile {
     'x': bigint,
     'y': bigint,
@@ -30,15 +35,98 @@ export interface MapData {
     'object_instances': Array<ObjectInstance>,
     'spawn_points': Array<SpawnPoint>,
     'npc_instances': [] | [Array<NpcInstance>],
+    'layers': [] | [Array<MapLayer>],
+    'warps': [] | [Array<Warp>],
     'created_at': bigint,
     'updated_at': bigint,
 }
+export interface MapLayer {
+    'id': string,
+    'name': string,
+    'kind': string,
+    'visible': boolean,
+    'locked': boolean,
+    'tile_instances': Array<TileInstance>,
+    'collision_tiles': Array<CollisionTile>,
+}
 export interface NpcInstance {
     'id': string,
     'preset_id': string,
     'name': string,
     'x': bigint,
     'y': bigint,
+    'definition_json': [] | [string],
+}
+export interface NpcTemplate {
+    'id': string,
+    'name': string,
+    'description': string,
+    'tags': Array<string>,
+    'definition_json': string,
+    'created_at': bigint,
+    'updated_at': bigint,
+}
+export interface Item {
+    'id': string,
+    'name': string,
+    'description': string,
+    'icon_kind': string,
+    'icon_id': string,
+    'pickup_object_id': [] | [string],
+    'stackable': boolean,
+    'max_stack': bigint,
+    'value': bigint,
+    'tags': Array<string>,
+    'created_at': bigint,
+    'updated_at': bigint,
+}
+export interface ShopStockEntry {
+    'item_id': string,
+    'price': [] | [bigint],
+    'quantity': [] | [bigint],
+}
+export interface ShopDefinition {
+    'id': string,
+    'name': string,
+    'greeting': string,
+    'stock': Array<ShopStockEntry>,
+    'restock_seconds': bigint,
+    'buy_back_percent': bigint,
+    'created_at': bigint,
+    'updated_at': bigint,
+}
+export interface RecipeIngredient {
+    'item_id': string,
+    'count': bigint,
+}
+export interface Recipe {
+    'id': string,
+    'name': string,
+    'station': string,
+    'inputs': Array<RecipeIngredient>,
+    'outputs': Array<RecipeIngredient>,
+    'craft_time_ms': bigint,
+    'created_at': bigint,
+    'updated_at': bigint,
+}
+export interface QuestObjectiveDefinition {
+    'id': string,
+    'description': string,
+    'objective_type': string,
+    'target': string,
+    'map_id': [] | [string],
+    'required': bigint,
+}
+export interface QuestDefinition {
+    'id': string,
+    'title': string,
+    'description': string,
+    'objectives': Array<QuestObjectiveDefinition>,
+    'reward_gold': bigint,
+    'reward_experience': bigint,
+    'reward_items': Array<string>,
+    'created_at': bigint,
+    'updated_at': bigint,
 }
 export interface ObjectInstance {
     'object_id': string,
@@ -91,6 +179,7 @@ export interface TileSet {
     'name': string,
     'description': string,
     'tile_ids': Array<string>,
+    'autotile': [] | [AutotileRule],
     'created_at': bigint,
     'updated_at': bigint,
 }
@@ -161,6 +250,19 @@ export interface ValidationError {
     'message': string,
     'fix_attempted': boolean,
 }
+export interface Warp {
+    'id': string,
+    'name': string,
+    'kind': string,
+    'x': bigint,
+    'y': bigint,
+    'width': bigint,
+    'height': bigint,
+    'object_id': [] | [string],
+    'target_map_id': string,
+    'target_spawn_id': string,
+    'fade_ms': bigint,
+}
 export interface _SERVICE {
     'createMap': ActorMethod<[MapData], Result>,
     'createObject': ActorMethod<[ObjectMetadata], Result>,
@@ -183,14 +285,15 @@ export interface _SERVICE {
     'listTileSets': ActorMethod<[], Array<TileSet>>,
     'listTiles': ActorMethod<[], Array<TileMetadata>>,
     'updateMap': ActorMethod<[string, MapData], Result>,
-    'updateObject': ActorMethod<[string, ObjectMetadata], Result>,
+    'updateObjectMetadata': ActorMethod<[string, ObjectMetadata], Result>,
     'updatePrefab': ActorMethod<[string, Prefab], Result>,
-    'updateTile': ActorMethod<[string, TileMetadata], Result>,
+    'updateTileMetadata': ActorMethod<[string, TileMetadata], Result>,
     'updateTileSet': ActorMethod<[string, TileSet], Result>,
     'uploadTileImage': ActorMethod<[string, Uint8Array | number[]], Result>,
     'getTileImage': ActorMethod<[string], [] | [Uint8Array | number[]]>,
     'uploadObjectImage': ActorMethod<[string, Uint8Array | number[]], Result>,
     'getObjectImage': ActorMethod<[string], [] | [Uint8Array | number[]]>,
+    'uploadObjectStateImage': ActorMethod<[string, string, Uint8Array | number[]], Result>,
     'listPlayableCharacters': ActorMethod<[], Array<PlayableCharacter>>,
     'getPlayableCharacter': ActorMethod<[string], { 'ok': PlayableCharacter } | { 'err': ValidationError }>,
     'createPlayableCharacter': ActorMethod<[PlayableCharacter], Result>,
@@ -205,6 +308,31 @@ export interface _SERVICE {
     'deleteSpriteSheet': ActorMethod<[string], Result>,
     'addAnimationToSheet': ActorMethod<[string, Animation], Result>,
     'removeAnimationFromSheet': ActorMethod<[string, string], Result>,
+    'createNpcTemplate': ActorMethod<[NpcTemplate], Result>,
+    'getNpcTemplate': ActorMethod<[string], [] | [NpcTemplate]>,
+    'listNpcTemplates': ActorMethod<[], Array<NpcTemplate>>,
+    'updateNpcTemplate': ActorMethod<[string, NpcTemplate], Result>,
+    'deleteNpcTemplate': ActorMethod<[string], Result>,
+    'createQuest': ActorMethod<[QuestDefinition], Result>,
+    'getQuest': ActorMethod<[string], [] | [QuestDefinition]>,
+    'listQuests': ActorMethod<[], Array<QuestDefinition>>,
+    'updateQuest': ActorMethod<[string, QuestDefinition], Result>,
+    'deleteQuest': ActorMethod<[string], Result>,
+    'createItem': ActorMethod<[Item], Result>,
+    'getItem': ActorMethod<[string], [] | [Item]>,
+    'listItems': ActorMethod<[], Array<Item>>,
+    'updateItem': ActorMethod<[string, Item], Result>,
+    'deleteItem': ActorMethod<[string], Result>,
+    'createShop': ActorMethod<[ShopDefinition], Result>,
+    'getShop': ActorMethod<[string], [] | [ShopDefinition]>,
+    'listShops': ActorMethod<[], Array<ShopDefinition>>,
+    'updateShop': ActorMethod<[string, ShopDefinition], Result>,
+    'deleteShop': ActorMethod<[string], Result>,
+    'createRecipe': ActorMethod<[Recipe], Result>,
+    'getRecipe': ActorMethod<[string], [] | [Recipe]>,
+    'listRecipes': ActorMethod<[], Array<Recipe>>,
+    'updateRecipe': ActorMethod<[string, Recipe], Result>,
+    'deleteRecipe': ActorMethod<[string], Result>,
     'seedTestData': ActorMethod<[], Result>,
     'clearAllData': ActorMethod<[], Result>,
 }
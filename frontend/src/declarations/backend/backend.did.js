@@ -46,11 +46,20 @@ export const idlFactory = ({ IDL }) => {
         'created_at': IDL.Int,
         'updated_at': IDL.Int,
     });
+    const AutotileSlot = IDL.Record({
+        'mask': IDL.Nat,
+        'tile_id': IDL.Text,
+    });
+    const AutotileRule = IDL.Record({
+        'mode': IDL.Text,
+        'slots': IDL.Vec(AutotileSlot),
+    });
     const TileSet = IDL.Record({
         'id': IDL.Text,
         'name': IDL.Text,
         'description': IDL.Text,
         'tile_ids': IDL.Vec(IDL.Text),
+        'autotile': IDL.Opt(AutotileRule),
         'created_at': IDL.Int,
         'updated_at': IDL.Int,
     });
@@ -86,6 +95,29 @@ export const idlFactory = ({ IDL }) => {
         'name': IDL.Text,
         'x': IDL.Int,
         'y': IDL.Int,
+        'definition_json': IDL.Opt(IDL.Text),
+    });
+    const MapLayer = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'kind': IDL.Text,
+        'visible': IDL.Bool,
+        'locked': IDL.Bool,
+        'tile_instances': IDL.Vec(TileInstance),
+        'collision_tiles': IDL.Vec(CollisionTile),
+    });
+    const Warp = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'kind': IDL.Text,
+        'x': IDL.Nat,
+        'y': IDL.Nat,
+        'width': IDL.Nat,
+        'height': IDL.Nat,
+        'object_id': IDL.Opt(IDL.Text),
+        'target_map_id': IDL.Text,
+        'target_spawn_id': IDL.Text,
+        'fade_ms': IDL.Nat,
     });
     const MapData = IDL.Record({
         'id': IDL.Text,
@@ -97,6 +129,8 @@ export const idlFactory = ({ IDL }) => {
         'object_instances': IDL.Vec(ObjectInstance),
         'spawn_points': IDL.Vec(SpawnPoint),
         'npc_instances': IDL.Opt(IDL.Vec(NpcInstance)),
+        'layers': IDL.Opt(IDL.Vec(MapLayer)),
+        'warps': IDL.Opt(IDL.Vec(Warp)),
         'created_at': IDL.Int,
         'updated_at': IDL.Int,
     });
@@ -164,6 +198,77 @@ export const idlFactory = ({ IDL }) => {
         'created_at': IDL.Int,
         'updated_at': IDL.Int,
     });
+    const NpcTemplate = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'description': IDL.Text,
+        'tags': IDL.Vec(IDL.Text),
+        'definition_json': IDL.Text,
+        'created_at': IDL.Int,
+        'updated_at': IDL.Int,
+    });
+    const QuestObjectiveDefinition = IDL.Record({
+        'id': IDL.Text,
+        'description': IDL.Text,
+        'objective_type': IDL.Text,
+        'target': IDL.Text,
+        'map_id': IDL.Opt(IDL.Text),
+        'required': IDL.Nat,
+    });
+    const QuestDefinition = IDL.Record({
+        'id': IDL.Text,
+        'title': IDL.Text,
+        'description': IDL.Text,
+        'objectives': IDL.Vec(QuestObjectiveDefinition),
+        'reward_gold': IDL.Nat,
+        'reward_experience': IDL.Nat,
+        'reward_items': IDL.Vec(IDL.Text),
+        'created_at': IDL.Int,
+        'updated_at': IDL.Int,
+    });
+    const Item = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'description': IDL.Text,
+        'icon_kind': IDL.Text,
+        'icon_id': IDL.Text,
+        'pickup_object_id': IDL.Opt(IDL.Text),
+        'stackable': IDL.Bool,
+        'max_stack': IDL.Nat,
+        'value': IDL.Nat,
+        'tags': IDL.Vec(IDL.Text),
+        'created_at': IDL.Int,
+        'updated_at': IDL.Int,
+    });
+    const ShopStockEntry = IDL.Record({
+        'item_id': IDL.Text,
+        'price': IDL.Opt(IDL.Nat),
+        'quantity': IDL.Opt(IDL.Nat),
+    });
+    const ShopDefinition = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'greeting': IDL.Text,
+        'stock': IDL.Vec(ShopStockEntry),
+        'restock_seconds': IDL.Nat,
+        'buy_back_percent': IDL.Nat,
+        'created_at': IDL.Int,
+        'updated_at': IDL.Int,
+    });
+    const RecipeIngredient = IDL.Record({
+        'item_id': IDL.Text,
+        'count': IDL.Nat,
+    });
+    const Recipe = IDL.Record({
+        'id': IDL.Text,
+        'name': IDL.Text,
+        'station': IDL.Text,
+        'inputs': IDL.Vec(RecipeIngredient),
+        'outputs': IDL.Vec(RecipeIngredient),
+        'craft_time_ms': IDL.Nat,
+        'created_at': IDL.Int,
+        'updated_at': IDL.Int,
+    });
     const Result = IDL.Variant({ 'ok': IDL.Text, 'err': ValidationError });
     return IDL.Service({
         'createMap': IDL.Func([MapData], [Result], []),
@@ -199,6 +304,7 @@ export const idlFactory = ({ IDL }) => {
         'getTileImage': IDL.Func([IDL.Text], [IDL.Opt(IDL.Vec(IDL.Nat8))], ['query']),
         'uploadObjectImage': IDL.Func([IDL.Text, IDL.Vec(IDL.Nat8)], [Result], []),
         'getObjectImage': IDL.Func([IDL.Text], [IDL.Opt(IDL.Vec(IDL.Nat8))], ['query']),
+        'uploadObjectStateImage': IDL.Func([IDL.Text, IDL.Text, IDL.Vec(IDL.Nat8)], [Result], []),
         'listPlayableCharacters': IDL.Func([], [IDL.Vec(PlayableCharacter)], ['query']),
         'getPlayableCharacter': IDL.Func([IDL.Text], [IDL.Variant({ 'ok': PlayableCharacter, 'err': ValidationError })], ['query']),
         'createPlayableCharacter': IDL.Func([PlayableCharacter], [Result], []),
@@ -213,6 +319,31 @@ export const idlFactory = ({ IDL }) => {
         'deleteSpriteSheet': IDL.Func([IDL.Text], [Result], []),
         'addAnimationToSheet': IDL.Func([IDL.Text, Animation], [Result], []),
         'removeAnimationFromSheet': IDL.Func([IDL.Text, IDL.Text], [Result], []),
+        'createNpcTemplate': IDL.Func([NpcTemplate], [Result], []),
+        'getNpcTemplate': IDL.Func([IDL.Text], [IDL.Opt(NpcTemplate)], ['query']),
+        'listNpcTemplates': IDL.Func([], [IDL.Vec(NpcTemplate)], ['query']),
+        'updateNpcTemplate': IDL.Func([IDL.Text, NpcTemplate], [Result], []),
+        'deleteNpcTemplate': IDL.Func([IDL.Text], [Result], []),
+        'createQuest': IDL.Func([QuestDefinition], [Result], []),
+        'getQuest': IDL.Func([IDL.Text], [IDL.Opt(QuestDefinition)], ['query']),
+        'listQuests': IDL.Func([], [IDL.Vec(QuestDefinition)], ['query']),
+        'updateQuest': IDL.Func([IDL.Text, QuestDefinition], [Result], []),
+        'deleteQuest': IDL.Func([IDL.Text], [Result], []),
+        'createItem': IDL.Func([Item], [Result], []),
+        'getItem': IDL.Func([IDL.Text], [IDL.Opt(Item)], ['query']),
+        'listItems': IDL.Func([], [IDL.Vec(Item)], ['query']),
+        'updateItem': IDL.Func([IDL.Text, Item], [Result], []),
+        'deleteItem': IDL.Func([IDL.Text], [Result], []),
+        'createShop': IDL.Func([ShopDefinition], [Result], []),
+        'getShop': IDL.Func([IDL.Text], [IDL.Opt(ShopDefinition)], ['query']),
+        'listShops': IDL.Func([], [IDL.Vec(ShopDefinition)], ['query']),
+        'updateShop': IDL.Func([IDL.Text, ShopDefinition], [Result], []),
+        'deleteShop': IDL.Func([IDL.Text], [Result], []),
+        'createRecipe': IDL.Func([Recipe], [Result], []),
+        'getRecipe': IDL.Func([IDL.Text], [IDL.Opt(Recipe)], ['query']),
+        'listRecipes': IDL.Func([], [IDL.Vec(Recipe)], ['query']),
+        'updateRecipe': IDL.Func([IDL.Text, Recipe], [Result], []),
+        'deleteRecipe': IDL.Func([IDL.Text], [Result], []),
         'seedTestData': IDL.Func([], [Result], []),
         'clearAllData': IDL.Func([], [Result], []),
     });
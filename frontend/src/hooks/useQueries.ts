@@ -7,6 +7,11 @@ import type {
   Prefab,
   MapData,
   PlayableCharacter,
+  NpcTemplate,
+  QuestDefinition,
+  Item,
+  ShopDefinition,
+  Recipe,
 } from '../backend';
 
 // Helper to unwrap Candid optional type ([] | [T]) to T | null
@@ -68,7 +73,7 @@ export function useUpdateTile() {
   return useMutation({
     mutationFn: async ({ id, metadata }: { id: string; metadata: TileMetadata }) => {
       if (!actor) throw new Error('Actor not initialized');
-      return actor.updateTile(id, metadata);
+      return actor.updateTileMetadata(id, metadata);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tiles'] });
@@ -126,7 +131,7 @@ export function useUpdateObject() {
   return useMutation({
     mutationFn: async ({ id, metadata }: { id: string; metadata: ObjectMetadata }) => {
       if (!actor) throw new Error('Actor not initialized');
-      return actor.updateObject(id, metadata);
+      return actor.updateObjectMetadata(id, metadata);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['objects'] });
@@ -433,6 +438,21 @@ export function useUploadObjectImage() {
   });
 }
 
+export function useUploadObjectStateImage() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ objectId, blobId, data }: { objectId: string; blobId: string; data: Uint8Array | number[] }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.uploadObjectStateImage(objectId, blobId, data);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['objectImage', variables.blobId] });
+    },
+  });
+}
+
 export function useGetObjectImage(id: string) {
   const { actor, isFetching } = useActor();
 
@@ -687,3 +707,301 @@ export function useRemoveAnimationFromSheet() {
     },
   });
 }
+
+export function useListNpcTemplates() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<NpcTemplate[]>({
+    queryKey: ['npcTemplates'],
+    queryFn: async () => {
+      if (!actor) return [];
+      const templates = await actor.listNpcTemplates();
+      return templates.map((template) => ({
+        ...template,
+        tags: template.tags || [],
+      }));
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateNpcTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: NpcTemplate) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createNpcTemplate(template);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['npcTemplates'] });
+    },
+  });
+}
+
+export function useUpdateNpcTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, template }: { id: string; template: NpcTemplate }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateNpcTemplate(id, template);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['npcTemplates'] });
+    },
+  });
+}
+
+export function useDeleteNpcTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteNpcTemplate(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['npcTemplates'] });
+    },
+  });
+}
+
+// Quests
+export function useListQuests() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<QuestDefinition[]>({
+    queryKey: ['quests'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listQuests();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateQuest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (quest: QuestDefinition) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createQuest(quest);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quests'] });
+    },
+  });
+}
+
+export function useUpdateQuest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, quest }: { id: string; quest: QuestDefinition }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateQuest(id, quest);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quests'] });
+    },
+  });
+}
+
+export function useDeleteQuest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteQuest(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quests'] });
+    },
+  });
+}
+
+// Items
+export function useListItems() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Item[]>({
+    queryKey: ['items'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listItems();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateItem() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (item: Item) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createItem(item);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useUpdateItem() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, item }: { id: string; item: Item }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateItem(id, item);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useDeleteItem() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteItem(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+// Shops
+export function useListShops() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<ShopDefinition[]>({
+    queryKey: ['shops'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listShops();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateShop() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (shop: ShopDefinition) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createShop(shop);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shops'] });
+    },
+  });
+}
+
+export function useUpdateShop() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, shop }: { id: string; shop: ShopDefinition }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateShop(id, shop);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shops'] });
+    },
+  });
+}
+
+export function useDeleteShop() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteShop(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shops'] });
+    },
+  });
+}
+
+// Recipes
+export function useListRecipes() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Recipe[]>({
+    queryKey: ['recipes'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listRecipes();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateRecipe() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (recipe: Recipe) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createRecipe(recipe);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    },
+  });
+}
+
+export function useUpdateRecipe() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, recipe }: { id: string; recipe: Recipe }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateRecipe(id, recipe);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    },
+  });
+}
+
+export function useDeleteRecipe() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteRecipe(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    },
+  });
+}
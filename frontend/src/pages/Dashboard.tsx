@@ -8,6 +8,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useActor } from '../hooks/useActor';
 import { toast } from 'sonner';
 import { useQueryClient } from '@tanstack/react-query';
+import { ProjectBundleCard } from '../components/ProjectBundleCard';
 
 interface DashboardProps {
   onNavigate: (view: ViewType) => void;
@@ -252,6 +253,8 @@ export function Dashboard({ onNavigate }: DashboardProps) {
         </CardContent>
       </Card>
 
+      <ProjectBundleCard />
+
       <footer className="border-t pt-6 text-center text-sm text-muted-foreground">
         © 2025. Built with love using{' '}
         <a
@@ -1,8 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 // Fix import path
 import { useActor } from '../hooks/useActor';
-import { useListPlayableCharacters } from '../hooks/useQueries';
+import { useCreateNpcTemplate, useListNpcTemplates, useListPlayableCharacters, useListTileSets } from '../hooks/useQueries';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -26,13 +26,93 @@ import {
     Shield,
     Store,
     Scroll,
-    Skull
+    Skull,
+    Users,
+    PaintBucket,
+    Slash,
+    Stamp as StampIcon,
+    Wand2,
+    BoxSelect,
+    Lasso,
+    Copy,
+    Scissors,
+    ClipboardPaste,
+    FlipHorizontal2,
+    FlipVertical2,
+    RotateCw,
+    DoorOpen
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { NPC_PRESETS, type NPCPreset } from '@/components/editor/Palette';
+import { Inspector } from '@/components/editor/Inspector';
+import type { EditorNpc, NpcInstanceChanges } from '@/components/editor/NpcInspector';
+import type { WarpChanges } from '@/components/editor/WarpInspector';
+import { serializeNpcDefinition, type NpcDefinition } from '../utils/npcDefinitions';
+import type { CollisionBrush } from '@/components/editor/LayersPanel';
+import {
+    DEFAULT_LAYER_IDS,
+    cropLayers,
+    flattenTileLayers,
+    getLayer,
+    isLayerEditable,
+    layersFromBackend,
+    layersToBackend,
+    placeLayerTiles,
+    setCollisionOverride,
+    setLayerTile,
+    type EditorLayer,
+} from '../utils/mapLayers';
+import {
+    createObjectWarp,
+    createRegionWarp,
+    warpsAt,
+    warpsFromBackend,
+    warpsToBackend,
+    type MapWarp,
+} from '../utils/mapWarps';
+import {
+    bresenhamLine,
+    captureStamp,
+    floodFillCells,
+    isStampEmpty,
+    rectFromPoints,
+    stampCells,
+    stampFromTileIds,
+    type Connectivity,
+    type GridPoint,
+    type Stamp,
+} from '../utils/editorTools';
+import { applyAutotileBrush, autotileFromBackend, autotileTileIds } from '../utils/autotile';
+import {
+    extractSelection,
+    isCellSelected,
+    lassoSelectionCells,
+    moveSelection,
+    parseClipboard,
+    pasteClipboard,
+    rectSelectionCells,
+    removeSelection,
+    selectionBounds,
+    serializeClipboard,
+    transformSelection,
+    type MapClipboard,
+    type SelectionMode,
+    type SelectionTransform,
+} from '../utils/mapSelection';
+import {
+    canRedo,
+    canUndo,
+    createHistory,
+    jumpToHistory,
+    recordChange,
+    redoHistory,
+    undoHistory,
+    type EditorHistory,
+    type HistoryAction,
+} from '../utils/editorHistory';
 
 // Types
-type Tool = 'select' | 'paint' | 'erase' | 'pan' | 'rectangle' | 'circle' | 'spawn';
+type Tool = 'select' | 'paint' | 'erase' | 'pan' | 'rectangle' | 'circle' | 'spawn' | 'fill' | 'line' | 'stamp' | 'autotile' | 'warp';
 
 interface EditorViewProps {
     mapId: string;
@@ -49,9 +129,27 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
     const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
     const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
     const [selectedNpcId, setSelectedNpcId] = useState<string | null>(null);
+    const [inspectedNpcId, setInspectedNpcId] = useState<string | null>(null);
+    const [inspectedWarpId, setInspectedWarpId] = useState<string | null>(null);
     const [zoom, setZoom] = useState(1);
     const [pan, setPan] = useState({ x: 0, y: 0 });
     const [showGrid, setShowGrid] = useState(true);
+    const [activeLayerId, setActiveLayerId] = useState<string>(DEFAULT_LAYER_IDS.ground);
+    const [collisionBrush, setCollisionBrush] = useState<CollisionBrush>('solid');
+    const [isInspectorVisible, setIsInspectorVisible] = useState(false);
+    const [fillConnectivity, setFillConnectivity] = useState<Connectivity>(4);
+    const [stamp, setStamp] = useState<Stamp | null>(null);
+    const [stampColumns, setStampColumns] = useState(4);
+    const [isCapturingStamp, setIsCapturingStamp] = useState(false);
+    const [hoverPos, setHoverPos] = useState<GridPoint | null>(null);
+    const [autotileSetId, setAutotileSetId] = useState<string | null>(null);
+    const [selection, setSelection] = useState<GridPoint[]>([]);
+    const [selectionMode, setSelectionMode] = useState<SelectionMode>('rect');
+    const [lassoPath, setLassoPath] = useState<GridPoint[]>([]);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [isMovingSelection, setIsMovingSelection] = useState(false);
+    // Fallback when the system clipboard is unavailable
+    const clipboardRef = useRef<MapClipboard | null>(null);
 
     // Local State for editing
     const [localMapData, setLocalMapData] = useState<any>(null);
@@ -99,6 +197,14 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
     });
 
     const { data: characters = [] } = useListPlayableCharacters();
+    const { data: tileSets = [] } = useListTileSets();
+    const { data: npcTemplates = [] } = useListNpcTemplates();
+    const createNpcTemplate = useCreateNpcTemplate();
+    const autotileSet = tileSets.find(set => set.id === autotileSetId);
+    const autotileConfig = useMemo(
+        () => autotileSet ? autotileFromBackend(autotileSet) : null,
+        [autotileSet]
+    );
 
     // Mutations
     const updateMap = useMutation({
@@ -126,11 +232,8 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                 height: Number(mapData.height),
                 created_at: Number(mapData.created_at),
                 updated_at: Number(mapData.updated_at),
-                tile_instances: mapData.tile_instances.map((t: any) => ({
-                    tileId: t.tile_id,
-                    x: Number(t.position.x),
-                    y: Number(t.position.y)
-                })),
+                // Tiles live on layers; legacy maps are migrated to the default stack
+                layers: layersFromBackend(mapData),
                 object_instances: mapData.object_instances.map((o: any) => ({
                     objectId: o.object_id,
                     state: o.state,
@@ -144,52 +247,57 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                     x: Number(s.x),
                     y: Number(s.y)
                 })),
-                npc_instances: (mapData.npc_instances || []).map((n: any) => ({
+                // Candid optional: [] = none, [list] = some
+                npc_instances: (mapData.npc_instances?.[0] ?? []).map((n: any) => ({
                     id: n.id,
                     presetId: n.preset_id,
                     name: n.name,
                     x: Number(n.x),
-                    y: Number(n.y)
-                }))
+                    y: Number(n.y),
+                    definitionJson: n.definition_json?.[0] ?? null
+                })),
+                warps: warpsFromBackend(mapData)
             };
             setLocalMapData(localData);
+            if (!getLayer(localData.layers, activeLayerId)) {
+                setActiveLayerId(localData.layers.find((l: EditorLayer) => l.kind === 'tile')?.id ?? localData.layers[0].id);
+            }
             // Initialize history
-            setHistory([localData]);
-            setHistoryIndex(0);
+            setHistory(createHistory());
         }
     }, [mapData, isDirty]);
 
-    // Undo/Redo State
-    const [history, setHistory] = useState<any[]>([]);
-    const [historyIndex, setHistoryIndex] = useState(0);
+    // Undo/Redo State - entries store diffs, not map snapshots
+    const [history, setHistory] = useState<EditorHistory>(createHistory());
+    // Bumped on every mouse down so one brush stroke becomes one history step
+    const strokeRef = useRef(0);
 
-    const addToHistory = (newState: any) => {
-        const newHistory = history.slice(0, historyIndex + 1);
-        newHistory.push(newState);
-        // Limit history size
-        if (newHistory.length > 50) {
-            newHistory.shift();
-        }
-        setHistory(newHistory);
-        setHistoryIndex(newHistory.length - 1);
+    const addToHistory = (before: any, after: any, action: HistoryAction, coalesceKey?: string) => {
+        setHistory(prev => recordChange(prev, before, after, action, { coalesceKey }));
+    };
+
+    const jumpTo = (index: number) => {
+        if (!localMapData || index === history.index) return;
+        const result = jumpToHistory(history, localMapData, index);
+        setHistory(result.history);
+        setLocalMapData(result.state);
+        setIsDirty(true); // Assuming undo implies unsaved changes unless we track save state in history
     };
 
     const undo = () => {
-        if (historyIndex > 0) {
-            const newIndex = historyIndex - 1;
-            setHistoryIndex(newIndex);
-            setLocalMapData(history[newIndex]);
-            setIsDirty(true); // Assuming undo implies unsaved changes unless we track save state in history
-        }
+        if (!localMapData || !canUndo(history)) return;
+        const result = undoHistory(history, localMapData);
+        setHistory(result.history);
+        setLocalMapData(result.state);
+        setIsDirty(true);
     };
 
     const redo = () => {
-        if (historyIndex < history.length - 1) {
-            const newIndex = historyIndex + 1;
-            setHistoryIndex(newIndex);
-            setLocalMapData(history[newIndex]);
-            setIsDirty(true);
-        }
+        if (!localMapData || !canRedo(history)) return;
+        const result = redoHistory(history, localMapData);
+        setHistory(result.history);
+        setLocalMapData(result.state);
+        setIsDirty(true);
     };
 
     // Keyboard Shortcuts
@@ -210,7 +318,7 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [history, historyIndex]);
+    }, [history, localMapData]);
 
     // Helper to get tile color (placeholder for image)
     const getTileColor = (tileId: string) => {
@@ -334,26 +442,198 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
         ctx.translate(pan.x, pan.y);
         ctx.scale(zoom, zoom);
 
-        // Draw Tiles
-        localMapData.tile_instances.forEach((instance: any) => {
-            const img = tileImages[instance.tileId];
-            if (img) {
-                ctx.drawImage(img, instance.x * 32, instance.y * 32, 32, 32);
-            } else {
-                ctx.fillStyle = getTileColor(instance.tileId);
-                ctx.fillRect(instance.x * 32, instance.y * 32, 32, 32);
-
-                // Draw Tile Label (fallback)
-                const tile = tiles.find((t: any) => t.id === instance.tileId);
-                if (tile) {
-                    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-                    ctx.font = '10px sans-serif';
+        // Tiles - image, or a coloured placeholder with a label
+        const drawTileLayer = (layer: EditorLayer) => {
+            layer.tiles.forEach((instance) => {
+                const img = tileImages[instance.tileId];
+                if (img) {
+                    ctx.drawImage(img, instance.x * 32, instance.y * 32, 32, 32);
+                } else {
+                    ctx.fillStyle = getTileColor(instance.tileId);
+                    ctx.fillRect(instance.x * 32, instance.y * 32, 32, 32);
+
+                    // Draw Tile Label (fallback)
+                    const tile = tiles.find((t: any) => t.id === instance.tileId);
+                    if (tile) {
+                        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+                        ctx.font = '10px sans-serif';
+                        ctx.textAlign = 'center';
+                        ctx.textBaseline = 'middle';
+                        ctx.fillText(tile.name.substring(0, 2).toUpperCase(), instance.x * 32 + 16, instance.y * 32 + 16);
+                    }
+                }
+            });
+        };
+
+        // Objects, spawn points and NPCs are drawn where the object layer sits
+        const drawEntities = () => {
+            // Draw Objects
+            localMapData.object_instances.forEach((instance: any) => {
+                const obj = objects.find((o: any) => o.id === instance.objectId);
+                const img = objectImages[instance.objectId];
+
+                if (img) {
+                    // Draw image centered on the grid cell (supports transparency)
+                    const drawX = instance.x * 32;
+                    const drawY = instance.y * 32;
+                    ctx.drawImage(img, drawX, drawY, 32, 32);
+                } else {
+                    // Fallback to circle rendering
+                    ctx.fillStyle = getObjectColor(instance.objectId);
+                    ctx.beginPath();
+                    ctx.arc(instance.x * 32 + 16, instance.y * 32 + 16, 12, 0, Math.PI * 2);
+                    ctx.fill();
+                    ctx.strokeStyle = '#000';
+                    ctx.lineWidth = 2;
+                    ctx.stroke();
+
+                    // Draw Object Label (fallback)
+                    if (obj) {
+                        ctx.fillStyle = '#000';
+                        ctx.font = 'bold 12px sans-serif';
+                        ctx.textAlign = 'center';
+                        ctx.textBaseline = 'middle';
+                        ctx.fillText(obj.name.substring(0, 1).toUpperCase(), instance.x * 32 + 16, instance.y * 32 + 16);
+                    }
+                }
+            });
+
+            // Draw Warps - doors get an outline on their object, regions a translucent fill
+            for (const warp of localMapData.warps as MapWarp[]) {
+                const selected = warp.id === inspectedWarpId;
+                ctx.fillStyle = 'rgba(168, 85, 247, 0.25)'; // Purple
+                ctx.strokeStyle = selected ? '#facc15' : 'rgba(168, 85, 247, 0.9)';
+                ctx.lineWidth = (selected ? 3 : 2) / zoom;
+                if (warp.kind === 'region') {
+                    ctx.fillRect(warp.x * 32, warp.y * 32, warp.width * 32, warp.height * 32);
+                }
+                ctx.setLineDash(warp.targetMapId ? [] : [6 / zoom, 4 / zoom]); // Dashed until it has a target
+                ctx.strokeRect(warp.x * 32, warp.y * 32, warp.width * 32, warp.height * 32);
+                ctx.setLineDash([]);
+
+                ctx.fillStyle = '#fff';
+                ctx.font = 'bold 10px sans-serif';
+                ctx.textAlign = 'left';
+                ctx.textBaseline = 'top';
+                ctx.fillText(warp.name, warp.x * 32 + 2, warp.y * 32 + 2);
+            }
+
+            // Draw Spawn Points
+            if (localMapData.spawn_points) {
+                for (const spawn of localMapData.spawn_points) {
+                    const x = (spawn.x * 32 * zoom) + pan.x;
+                    const y = (spawn.y * 32 * zoom) + pan.y;
+                    const size = 32 * zoom;
+
+                    // Check if visible
+                    if (x + size < 0 || x > canvas.width || y + size < 0 || y > canvas.height) continue;
+
+                    // Draw spawn point marker
+                    ctx.fillStyle = 'rgba(0, 255, 0, 0.6)';
+                    ctx.beginPath();
+                    ctx.arc(x + size / 2, y + size / 2, size / 3, 0, Math.PI * 2);
+                    ctx.fill();
+                    ctx.strokeStyle = '#fff';
+                    ctx.lineWidth = 2 * zoom;
+                    ctx.stroke();
+
+                    // Draw "S" label
+                    ctx.fillStyle = '#fff';
+                    ctx.font = `bold ${14 * zoom}px sans-serif`;
                     ctx.textAlign = 'center';
                     ctx.textBaseline = 'middle';
-                    ctx.fillText(tile.name.substring(0, 2).toUpperCase(), instance.x * 32 + 16, instance.y * 32 + 16);
+                    ctx.fillText('S', x + size / 2, y + size / 2);
+
+                    // Draw Character Name if zoomed in enough
+                    if (zoom > 0.8) {
+                        const charName = characters.find((c: any) => c.id === spawn.characterId)?.name || 'Unknown';
+                        ctx.fillStyle = '#fff';
+                        ctx.font = `${10 * zoom}px sans-serif`;
+                        ctx.strokeStyle = '#000';
+                        ctx.lineWidth = 2;
+                        ctx.strokeText(charName, x + size / 2, y - 5);
+                        ctx.fillText(charName, x + size / 2, y - 5);
+                    }
                 }
             }
-        });
+
+            // Draw NPC Instances
+            if (localMapData.npc_instances) {
+                for (const npc of localMapData.npc_instances) {
+                    const x = (npc.x * 32 * zoom) + pan.x;
+                    const y = (npc.y * 32 * zoom) + pan.y;
+                    const size = 32 * zoom;
+
+                    // Check if visible
+                    if (x + size < 0 || x > canvas.width || y + size < 0 || y > canvas.height) continue;
+
+                    // Get color based on preset
+                    let color = 'rgba(128, 128, 128, 0.8)';
+                    let label = 'N';
+                    const preset = NPC_PRESETS.find((p: NPCPreset) => p.id === npc.presetId);
+                    if (preset) {
+                        switch (preset.id) {
+                            case 'guard': color = 'rgba(59, 130, 246, 0.8)'; label = 'G'; break; // Blue
+                            case 'shopkeeper': color = 'rgba(234, 179, 8, 0.8)'; label = 'S'; break; // Yellow
+                            case 'quest_giver': color = 'rgba(168, 85, 247, 0.8)'; label = 'Q'; break; // Purple
+                            case 'hostile': color = 'rgba(239, 68, 68, 0.8)'; label = 'H'; break; // Red
+                            case 'villager': color = 'rgba(34, 197, 94, 0.8)'; label = 'V'; break; // Green
+                        }
+                    }
+
+                    // Draw NPC marker (square with rounded corners)
+                    ctx.fillStyle = color;
+                    ctx.beginPath();
+                    const r = 4 * zoom;
+                    ctx.roundRect(x + 2 * zoom, y + 2 * zoom, size - 4 * zoom, size - 4 * zoom, r);
+                    ctx.fill();
+                    // NPC open in the inspector gets a highlighted outline
+                    ctx.strokeStyle = npc.id === inspectedNpcId ? '#facc15' : '#fff';
+                    ctx.lineWidth = (npc.id === inspectedNpcId ? 3 : 2) * zoom;
+                    ctx.stroke();
+
+                    // Draw letter label
+                    ctx.fillStyle = '#fff';
+                    ctx.font = `bold ${16 * zoom}px sans-serif`;
+                    ctx.textAlign = 'center';
+                    ctx.textBaseline = 'middle';
+                    ctx.fillText(label, x + size / 2, y + size / 2);
+
+                    // Draw NPC Name if zoomed in enough
+                    if (zoom > 0.8) {
+                        ctx.fillStyle = '#fff';
+                        ctx.font = `${10 * zoom}px sans-serif`;
+                        ctx.strokeStyle = '#000';
+                        ctx.lineWidth = 2;
+                        ctx.strokeText(npc.name, x + size / 2, y - 5);
+                        ctx.fillText(npc.name, x + size / 2, y - 5);
+                    }
+                }
+            }
+        };
+
+        // Collision overrides - red blocks a cell, green clears a solid tile
+        const drawCollisionLayer = (layer: EditorLayer) => {
+            ctx.lineWidth = 1 / zoom;
+            for (const override of layer.collision) {
+                ctx.fillStyle = override.solid ? 'rgba(239, 68, 68, 0.4)' : 'rgba(34, 197, 94, 0.4)';
+                ctx.strokeStyle = override.solid ? 'rgba(239, 68, 68, 0.9)' : 'rgba(34, 197, 94, 0.9)';
+                ctx.fillRect(override.x * 32, override.y * 32, 32, 32);
+                ctx.strokeRect(override.x * 32, override.y * 32, 32, 32);
+            }
+        };
+
+        // Draw layers in render order (bottom first)
+        for (const layer of localMapData.layers as EditorLayer[]) {
+            if (!layer.visible) continue;
+            if (layer.kind === 'tile') {
+                drawTileLayer(layer);
+            } else if (layer.kind === 'object') {
+                drawEntities();
+            } else {
+                drawCollisionLayer(layer);
+            }
+        }
 
         // Draw Grid
         if (showGrid) {
@@ -378,129 +658,6 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
             }
         }
 
-        // Draw Objects
-        localMapData.object_instances.forEach((instance: any) => {
-            const obj = objects.find((o: any) => o.id === instance.objectId);
-            const img = objectImages[instance.objectId];
-
-            if (img) {
-                // Draw image centered on the grid cell (supports transparency)
-                const drawX = instance.x * 32;
-                const drawY = instance.y * 32;
-                ctx.drawImage(img, drawX, drawY, 32, 32);
-            } else {
-                // Fallback to circle rendering
-                ctx.fillStyle = getObjectColor(instance.objectId);
-                ctx.beginPath();
-                ctx.arc(instance.x * 32 + 16, instance.y * 32 + 16, 12, 0, Math.PI * 2);
-                ctx.fill();
-                ctx.strokeStyle = '#000';
-                ctx.lineWidth = 2;
-                ctx.stroke();
-
-                // Draw Object Label (fallback)
-                if (obj) {
-                    ctx.fillStyle = '#000';
-                    ctx.font = 'bold 12px sans-serif';
-                    ctx.textAlign = 'center';
-                    ctx.textBaseline = 'middle';
-                    ctx.fillText(obj.name.substring(0, 1).toUpperCase(), instance.x * 32 + 16, instance.y * 32 + 16);
-                }
-            }
-        });
-
-        // Draw Spawn Points
-        if (localMapData.spawn_points) {
-            for (const spawn of localMapData.spawn_points) {
-                const x = (spawn.x * 32 * zoom) + pan.x;
-                const y = (spawn.y * 32 * zoom) + pan.y;
-                const size = 32 * zoom;
-
-                // Check if visible
-                if (x + size < 0 || x > canvas.width || y + size < 0 || y > canvas.height) continue;
-
-                // Draw spawn point marker
-                ctx.fillStyle = 'rgba(0, 255, 0, 0.6)';
-                ctx.beginPath();
-                ctx.arc(x + size / 2, y + size / 2, size / 3, 0, Math.PI * 2);
-                ctx.fill();
-                ctx.strokeStyle = '#fff';
-                ctx.lineWidth = 2 * zoom;
-                ctx.stroke();
-
-                // Draw "S" label
-                ctx.fillStyle = '#fff';
-                ctx.font = `bold ${14 * zoom}px sans-serif`;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-                ctx.fillText('S', x + size / 2, y + size / 2);
-
-                // Draw Character Name if zoomed in enough
-                if (zoom > 0.8) {
-                    const charName = characters.find((c: any) => c.id === spawn.characterId)?.name || 'Unknown';
-                    ctx.fillStyle = '#fff';
-                    ctx.font = `${10 * zoom}px sans-serif`;
-                    ctx.strokeStyle = '#000';
-                    ctx.lineWidth = 2;
-                    ctx.strokeText(charName, x + size / 2, y - 5);
-                    ctx.fillText(charName, x + size / 2, y - 5);
-                }
-            }
-        }
-
-        // Draw NPC Instances
-        if (localMapData.npc_instances) {
-            for (const npc of localMapData.npc_instances) {
-                const x = (npc.x * 32 * zoom) + pan.x;
-                const y = (npc.y * 32 * zoom) + pan.y;
-                const size = 32 * zoom;
-
-                // Check if visible
-                if (x + size < 0 || x > canvas.width || y + size < 0 || y > canvas.height) continue;
-
-                // Get color based on preset
-                let color = 'rgba(128, 128, 128, 0.8)';
-                let label = 'N';
-                const preset = NPC_PRESETS.find((p: NPCPreset) => p.id === npc.presetId);
-                if (preset) {
-                    switch (preset.id) {
-                        case 'guard': color = 'rgba(59, 130, 246, 0.8)'; label = 'G'; break; // Blue
-                        case 'shopkeeper': color = 'rgba(234, 179, 8, 0.8)'; label = 'S'; break; // Yellow
-                        case 'quest_giver': color = 'rgba(168, 85, 247, 0.8)'; label = 'Q'; break; // Purple
-                        case 'hostile': color = 'rgba(239, 68, 68, 0.8)'; label = 'H'; break; // Red
-                        case 'villager': color = 'rgba(34, 197, 94, 0.8)'; label = 'V'; break; // Green
-                    }
-                }
-
-                // Draw NPC marker (square with rounded corners)
-                ctx.fillStyle = color;
-                ctx.beginPath();
-                const r = 4 * zoom;
-                ctx.roundRect(x + 2 * zoom, y + 2 * zoom, size - 4 * zoom, size - 4 * zoom, r);
-                ctx.fill();
-                ctx.strokeStyle = '#fff';
-                ctx.lineWidth = 2 * zoom;
-                ctx.stroke();
-
-                // Draw letter label
-                ctx.fillStyle = '#fff';
-                ctx.font = `bold ${16 * zoom}px sans-serif`;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-                ctx.fillText(label, x + size / 2, y + size / 2);
-
-                // Draw NPC Name if zoomed in enough
-                if (zoom > 0.8) {
-                    ctx.fillStyle = '#fff';
-                    ctx.font = `${10 * zoom}px sans-serif`;
-                    ctx.strokeStyle = '#000';
-                    ctx.lineWidth = 2;
-                    ctx.strokeText(npc.name, x + size / 2, y - 5);
-                    ctx.fillText(npc.name, x + size / 2, y - 5);
-                }
-            }
-        }
-
         // Draw Map Border
         ctx.strokeStyle = '#666';
         ctx.lineWidth = 2 / zoom;
@@ -519,9 +676,13 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
             ctx.strokeStyle = 'rgba(59, 130, 246, 0.8)';
             ctx.lineWidth = 2;
 
-            if (activeTool === 'rectangle') {
+            if (activeTool === 'rectangle' || activeTool === 'warp') {
                 ctx.fillRect(startX, startY, width, height);
                 ctx.strokeRect(startX, startY, width, height);
+            } else if (activeTool === 'line') {
+                for (const cell of bresenhamLine(dragStart, currentMousePos)) {
+                    ctx.fillRect(cell.x * 32, cell.y * 32, 32, 32);
+                }
             } else if (activeTool === 'circle') {
                 const centerX = startX + width / 2;
                 const centerY = startY + height / 2;
@@ -535,9 +696,83 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
             }
         }
 
+        // Draw Stamp Capture Rectangle
+        if (isCapturingStamp && dragStart && currentMousePos) {
+            const rect = rectFromPoints(dragStart, currentMousePos);
+            ctx.strokeStyle = 'rgba(234, 179, 8, 0.9)'; // Yellow
+            ctx.lineWidth = 2 / zoom;
+            ctx.setLineDash([6 / zoom, 4 / zoom]);
+            ctx.strokeRect(rect.x * 32, rect.y * 32, rect.width * 32, rect.height * 32);
+            ctx.setLineDash([]);
+        }
+
+        // Draw Stamp Ghost under the cursor
+        if (activeTool === 'stamp' && stamp && hoverPos && !isCapturingStamp) {
+            ctx.globalAlpha = 0.5;
+            for (const cell of stampCells(stamp, hoverPos)) {
+                const img = tileImages[cell.tileId];
+                if (img) {
+                    ctx.drawImage(img, cell.x * 32, cell.y * 32, 32, 32);
+                } else {
+                    ctx.fillStyle = getTileColor(cell.tileId);
+                    ctx.fillRect(cell.x * 32, cell.y * 32, 32, 32);
+                }
+            }
+            ctx.globalAlpha = 1;
+            ctx.strokeStyle = 'rgba(234, 179, 8, 0.9)';
+            ctx.lineWidth = 1 / zoom;
+            ctx.strokeRect(hoverPos.x * 32, hoverPos.y * 32, stamp.width * 32, stamp.height * 32);
+        }
+
+        // Draw Selection (following the cursor while it is being moved)
+        const selectionRect = selectionBounds(selection);
+        if (selectionRect) {
+            const moving = isMovingSelection && dragStart && currentMousePos;
+            const offsetX = moving ? currentMousePos.x - dragStart.x : 0;
+            const offsetY = moving ? currentMousePos.y - dragStart.y : 0;
+
+            ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+            for (const cell of selection) {
+                ctx.fillRect((cell.x + offsetX) * 32, (cell.y + offsetY) * 32, 32, 32);
+            }
+            ctx.strokeStyle = 'rgba(59, 130, 246, 0.9)';
+            ctx.lineWidth = 2 / zoom;
+            ctx.setLineDash([6 / zoom, 4 / zoom]);
+            ctx.strokeRect(
+                (selectionRect.x + offsetX) * 32,
+                (selectionRect.y + offsetY) * 32,
+                selectionRect.width * 32,
+                selectionRect.height * 32
+            );
+            ctx.setLineDash([]);
+        }
+
+        // Draw Selection in progress
+        if (isSelecting && dragStart && currentMousePos) {
+            ctx.strokeStyle = 'rgba(59, 130, 246, 0.9)';
+            ctx.lineWidth = 2 / zoom;
+            ctx.setLineDash([6 / zoom, 4 / zoom]);
+            if (selectionMode === 'rect') {
+                const rect = rectFromPoints(dragStart, currentMousePos);
+                ctx.strokeRect(rect.x * 32, rect.y * 32, rect.width * 32, rect.height * 32);
+            } else if (lassoPath.length > 0) {
+                ctx.beginPath();
+                lassoPath.forEach((point, i) => {
+                    if (i === 0) {
+                        ctx.moveTo(point.x * 32 + 16, point.y * 32 + 16);
+                    } else {
+                        ctx.lineTo(point.x * 32 + 16, point.y * 32 + 16);
+                    }
+                });
+                ctx.closePath();
+                ctx.stroke();
+            }
+            ctx.setLineDash([]);
+        }
+
         ctx.restore();
 
-    }, [localMapData, zoom, pan, showGrid, tiles, objects, characters, isDraggingShape, dragStart, currentMousePos, activeTool, tileImages, objectImages]);
+    }, [localMapData, zoom, pan, showGrid, tiles, objects, characters, isDraggingShape, dragStart, currentMousePos, activeTool, tileImages, objectImages, isCapturingStamp, stamp, hoverPos, selection, selectionMode, lassoPath, isSelecting, isMovingSelection, inspectedNpcId, inspectedWarpId]);
 
     // Interaction Handlers
     const getGridPos = (e: React.MouseEvent) => {
@@ -564,31 +799,38 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
         const mapHeight = localMapData.height ? Number(localMapData.height) : 24;
         if (pos.x < 0 || pos.x >= mapWidth || pos.y < 0 || pos.y >= mapHeight) return;
 
+        const layers: EditorLayer[] = localMapData.layers;
+        const activeLayer = getLayer(layers, activeLayerId);
+        const objectLayer = layers.find(l => l.kind === 'object');
+
         const newMapData = {
             ...localMapData,
-            tile_instances: [...localMapData.tile_instances],
+            layers,
             object_instances: [...localMapData.object_instances],
             spawn_points: [...(localMapData.spawn_points || [])],
-            npc_instances: [...(localMapData.npc_instances || [])]
+            npc_instances: [...(localMapData.npc_instances || [])],
+            warps: [...(localMapData.warps || [])]
         };
         let changed = false;
+        let action: HistoryAction = 'paint';
 
-        if (activeTool === 'paint') {
-            if (selectedTileId) {
-                // Remove any existing tile at this position
-                newMapData.tile_instances = newMapData.tile_instances.filter(
-                    (t: any) => !(t.x === pos.x && t.y === pos.y)
-                );
-
-                // Add new tile instance
-                newMapData.tile_instances.push({
-                    tileId: selectedTileId,
-                    x: pos.x,
-                    y: pos.y,
-                    z: 0,
-                });
+        if (activeTool === 'paint' && activeLayer?.kind === 'collision') {
+            // Collision layer: paint an override, regardless of palette selection
+            if (isLayerEditable(activeLayer)) {
+                const updated = setCollisionOverride(activeLayer, pos.x, pos.y, collisionBrush === 'solid');
+                newMapData.layers = layers.map(l => l.id === activeLayer.id ? updated : l);
                 changed = true;
-            } else if (selectedObjectId) {
+                action = 'collision';
+            }
+        } else if (activeTool === 'paint') {
+            if (selectedTileId) {
+                // Tiles go on the active tile layer, replacing only that layer's tile
+                if (activeLayer?.kind === 'tile' && isLayerEditable(activeLayer)) {
+                    const updated = setLayerTile(activeLayer, pos.x, pos.y, selectedTileId);
+                    newMapData.layers = layers.map(l => l.id === activeLayer.id ? updated : l);
+                    changed = true;
+                }
+            } else if (selectedObjectId && isLayerEditable(objectLayer)) {
                 // Check if object already exists at this position (optional, depending on game logic)
                 // For now, allow multiple objects or just add it
                 newMapData.object_instances.push({
@@ -598,7 +840,23 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                     state: 'default'
                 });
                 changed = true;
+                action = 'place-object';
+            }
+        } else if (activeTool === 'autotile') {
+            // Alt+click erases; both re-resolve the neighbouring autotile cells
+            if (autotileConfig && activeLayer?.kind === 'tile' && isLayerEditable(activeLayer)) {
+                const memberIds = autotileTileIds(autotileConfig);
+                const isMember = activeLayer.tiles.some(t => t.x === pos.x && t.y === pos.y && memberIds.has(t.tileId));
+                const brushAction = e.altKey ? 'erase' : 'paint';
+                if (brushAction === 'paint' ? !isMember : isMember) {
+                    const updated = applyAutotileBrush(activeLayer, autotileConfig, [pos], brushAction, mapWidth, mapHeight);
+                    newMapData.layers = layers.map(l => l.id === activeLayer.id ? updated : l);
+                    changed = true;
+                    action = 'autotile';
+                }
             }
+        } else if (activeTool === 'spawn' && !isLayerEditable(objectLayer)) {
+            // Spawn points and NPCs belong to the object layer
         } else if (activeTool === 'spawn' && selectedCharacterId) {
             // Remove any existing spawn point for this character at this position
             newMapData.spawn_points = newMapData.spawn_points.filter(
@@ -613,67 +871,323 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                 y: pos.y
             });
             changed = true;
+            action = 'place-spawn';
         } else if (activeTool === 'spawn' && selectedNpcId) {
-            // Find NPC preset
-            const preset = NPC_PRESETS.find((p: NPCPreset) => p.id === selectedNpcId);
+            // Built-in preset or backend template
+            const preset = NPC_PRESETS.find((p: NPCPreset) => p.id === selectedNpcId)
+                ?? npcTemplates.find(t => t.id === selectedNpcId);
             if (preset) {
+                const id = crypto.randomUUID();
                 // Remove existing NPC at this position
                 newMapData.npc_instances = newMapData.npc_instances.filter(
                     (n: any) => !(n.x === pos.x && n.y === pos.y)
                 );
                 // Add new NPC instance
                 newMapData.npc_instances.push({
-                    id: crypto.randomUUID(),
+                    id,
                     presetId: selectedNpcId,
                     name: preset.name,
                     x: pos.x,
-                    y: pos.y
+                    y: pos.y,
+                    definitionJson: null
                 });
+                setInspectedNpcId(id);
                 changed = true;
+                action = 'place-npc';
             }
-        } else if (activeTool === 'erase') {
-            const beforeTileLength = newMapData.tile_instances.length;
-            const beforeObjectLength = newMapData.object_instances.length;
-            const beforeSpawnLength = newMapData.spawn_points.length;
-
-            // Remove tile at this position
-            newMapData.tile_instances = newMapData.tile_instances.filter(
-                (t: any) => !(t.x === pos.x && t.y === pos.y)
-            );
-
-            // Remove object at this position
-            newMapData.object_instances = newMapData.object_instances.filter(
-                (o: any) => !(Math.abs(o.x - pos.x) < 0.5 && Math.abs(o.y - pos.y) < 0.5) // Simple proximity check for objects
-            );
+        } else if (activeTool === 'erase' && activeLayer && isLayerEditable(activeLayer)) {
+            action = 'erase';
+            // Erase only affects the active layer
+            if (activeLayer.kind === 'tile') {
+                // Erasing part of the selected autotile also fixes up its neighbours
+                const erased = activeLayer.tiles.find(t => t.x === pos.x && t.y === pos.y);
+                const updated = autotileConfig && erased && autotileTileIds(autotileConfig).has(erased.tileId)
+                    ? applyAutotileBrush(activeLayer, autotileConfig, [pos], 'erase', mapWidth, mapHeight)
+                    : setLayerTile(activeLayer, pos.x, pos.y, null);
+                if (updated.tiles.length !== activeLayer.tiles.length) {
+                    newMapData.layers = layers.map(l => l.id === activeLayer.id ? updated : l);
+                    changed = true;
+                }
+            } else if (activeLayer.kind === 'collision') {
+                const updated = setCollisionOverride(activeLayer, pos.x, pos.y, null);
+                if (updated.collision.length !== activeLayer.collision.length) {
+                    newMapData.layers = layers.map(l => l.id === activeLayer.id ? updated : l);
+                    changed = true;
+                }
+            } else {
+                const beforeObjectLength = newMapData.object_instances.length;
+                const beforeSpawnLength = newMapData.spawn_points.length;
+                const beforeNpcLength = newMapData.npc_instances.length;
+                const beforeWarpLength = newMapData.warps.length;
+
+                // Remove object at this position
+                newMapData.object_instances = newMapData.object_instances.filter(
+                    (o: any) => !(Math.abs(o.x - pos.x) < 0.5 && Math.abs(o.y - pos.y) < 0.5) // Simple proximity check for objects
+                );
 
-            // Remove spawn point at this position
-            newMapData.spawn_points = newMapData.spawn_points.filter(
-                (s: any) => !(s.x === pos.x && s.y === pos.y)
-            );
+                // Remove spawn point at this position
+                newMapData.spawn_points = newMapData.spawn_points.filter(
+                    (s: any) => !(s.x === pos.x && s.y === pos.y)
+                );
 
-            // Remove NPC at this position
-            const beforeNpcLength = newMapData.npc_instances.length;
-            newMapData.npc_instances = newMapData.npc_instances.filter(
-                (n: any) => !(n.x === pos.x && n.y === pos.y)
-            );
+                // Remove NPC at this position
+                newMapData.npc_instances = newMapData.npc_instances.filter(
+                    (n: any) => !(n.x === pos.x && n.y === pos.y)
+                );
 
-            if (
-                beforeTileLength !== newMapData.tile_instances.length ||
-                beforeObjectLength !== newMapData.object_instances.length ||
-                beforeSpawnLength !== newMapData.spawn_points.length ||
-                beforeNpcLength !== newMapData.npc_instances.length
-            ) {
-                changed = true;
+                // Remove warps covering this position
+                const erasedWarps = new Set(warpsAt(newMapData.warps, pos));
+                newMapData.warps = newMapData.warps.filter((w: MapWarp) => !erasedWarps.has(w));
+
+                if (
+                    beforeObjectLength !== newMapData.object_instances.length ||
+                    beforeSpawnLength !== newMapData.spawn_points.length ||
+                    beforeNpcLength !== newMapData.npc_instances.length ||
+                    beforeWarpLength !== newMapData.warps.length
+                ) {
+                    changed = true;
+                }
             }
         }
 
         if (changed) {
-            setLocalMapData(newMapData);
-            addToHistory(newMapData);
-            setIsDirty(true);
+            commitMapChange(newMapData, action, `stroke-${strokeRef.current}`);
+        }
+    };
+
+    // Replace the local map and record a single undo step (merged with others sharing the coalesce key)
+    const commitMapChange = (newMapData: any, action: HistoryAction, coalesceKey?: string) => {
+        addToHistory(localMapData, newMapData, action, coalesceKey);
+        setLocalMapData(newMapData);
+        setIsDirty(true);
+    };
+
+    // Replace one layer and record a single undo step
+    const commitLayerChange = (updated: EditorLayer, action: HistoryAction) => {
+        commitMapChange({
+            ...localMapData,
+            layers: localMapData.layers.map((l: EditorLayer) => l.id === updated.id ? updated : l)
+        }, action);
+    };
+
+    // Inspector edits to one NPC; consecutive edits to the same NPC are one undo step
+    const handleNpcChange = (id: string, changes: NpcInstanceChanges) => {
+        if (!localMapData) return;
+        commitMapChange({
+            ...localMapData,
+            npc_instances: localMapData.npc_instances.map((n: EditorNpc) => n.id === id ? { ...n, ...changes } : n)
+        }, 'edit-npc', `npc-${id}`);
+    };
+
+    // Inspector edits to one warp; consecutive edits to the same warp are one undo step
+    const handleWarpChange = (id: string, changes: WarpChanges) => {
+        if (!localMapData) return;
+        commitMapChange({
+            ...localMapData,
+            warps: localMapData.warps.map((w: MapWarp) => w.id === id ? { ...w, ...changes } : w)
+        }, 'edit-warp', `warp-${id}`);
+    };
+
+    // Warp tool click: select the warp under the cursor, or turn the object there into a door
+    const handleWarpClick = (pos: GridPoint) => {
+        const existing = warpsAt(localMapData.warps, pos)[0];
+        if (existing) {
+            setInspectedWarpId(existing.id);
+            return true;
+        }
+
+        const objectLayer = (localMapData.layers as EditorLayer[]).find(l => l.kind === 'object');
+        const instance = [...localMapData.object_instances].reverse().find((o: any) => o.x === pos.x && o.y === pos.y);
+        if (!instance || !isLayerEditable(objectLayer)) return false;
+
+        const warp = createObjectWarp(crypto.randomUUID(), instance);
+        commitMapChange({ ...localMapData, warps: [...localMapData.warps, warp] }, 'place-warp');
+        setInspectedWarpId(warp.id);
+        return true;
+    };
+
+    // Warp tool drag: a region warp over the dragged rectangle
+    const addRegionWarp = (from: GridPoint, to: GridPoint) => {
+        const objectLayer = (localMapData.layers as EditorLayer[]).find(l => l.kind === 'object');
+        if (!isLayerEditable(objectLayer)) return;
+
+        const rect = rectFromPoints(from, to);
+        const x = Math.max(0, rect.x);
+        const y = Math.max(0, rect.y);
+        const width = Math.min(rect.x + rect.width, localMapData.width) - x;
+        const height = Math.min(rect.y + rect.height, localMapData.height) - y;
+        if (width <= 0 || height <= 0) return;
+
+        const warp = createRegionWarp(crypto.randomUUID(), { x, y, width, height });
+        commitMapChange({ ...localMapData, warps: [...localMapData.warps, warp] }, 'place-warp');
+        setInspectedWarpId(warp.id);
+    };
+
+    // Store an NPC's definition as a reusable template and point the NPC at it
+    const handleSaveNpcTemplate = async (npcId: string, name: string, definition: NpcDefinition) => {
+        const now = BigInt(Date.now() * 1_000_000);
+        const id = `npc_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}_${Date.now().toString(36)}`;
+        try {
+            const result = await createNpcTemplate.mutateAsync({
+                id,
+                name,
+                description: '',
+                tags: definition.metadata.tags ?? [],
+                definition_json: serializeNpcDefinition(definition),
+                created_at: now,
+                updated_at: now,
+            });
+            if ('ok' in result) {
+                toast.success(`Saved NPC template "${name}"`);
+                handleNpcChange(npcId, { presetId: id, definitionJson: null });
+            } else {
+                toast.error(`Error: ${result.err.message}`, {
+                    description: `Code: ${result.err.code}`,
+                });
+            }
+        } catch (error) {
+            console.error('Failed to save NPC template:', error);
+            toast.error('Failed to save NPC template', {
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        }
+    };
+
+    // Resize the map, dropping anything outside the new bounds
+    const handleResizeMap = (width: number, height: number) => {
+        if (!localMapData) return;
+        const inMap = (item: { x: number, y: number }) => item.x < width && item.y < height;
+        commitMapChange({
+            ...localMapData,
+            width,
+            height,
+            layers: cropLayers(localMapData.layers, width, height),
+            object_instances: localMapData.object_instances.filter(inMap),
+            spawn_points: localMapData.spawn_points.filter(inMap),
+            npc_instances: localMapData.npc_instances.filter(inMap),
+            warps: localMapData.warps.filter(inMap)
+        }, 'resize');
+        setSelection([]);
+    };
+
+    const isInBounds = (cell: GridPoint) =>
+        cell.x >= 0 && cell.x < localMapData.width && cell.y >= 0 && cell.y < localMapData.height;
+
+    // Bucket fill on the active tile layer
+    const handleFill = (pos: GridPoint) => {
+        const layer = getLayer(localMapData.layers, activeLayerId);
+        if (!selectedTileId || layer?.kind !== 'tile' || !isLayerEditable(layer)) return;
+        if (layer.tiles.some(t => t.x === pos.x && t.y === pos.y && t.tileId === selectedTileId)) return;
+
+        const cells = floodFillCells(layer.tiles, pos, localMapData.width, localMapData.height, fillConnectivity);
+        if (cells.length === 0) return;
+        commitLayerChange(placeLayerTiles(layer, cells.map(c => ({ tileId: selectedTileId, x: c.x, y: c.y }))), 'fill');
+    };
+
+    // Paint the current stamp with its top-left corner at pos
+    const handleStamp = (pos: GridPoint) => {
+        const layer = getLayer(localMapData.layers, activeLayerId);
+        if (!stamp || layer?.kind !== 'tile' || !isLayerEditable(layer)) return;
+
+        const cells = stampCells(stamp, pos).filter(isInBounds);
+        if (cells.length === 0) return;
+        commitLayerChange(placeLayerTiles(layer, cells), 'stamp');
+    };
+
+    const selectTileSetStamp = (tileIds: string[]) => {
+        if (tileIds.length === 0) return;
+        setStamp(stampFromTileIds(tileIds, stampColumns));
+        setSelectedObjectId(null);
+        setSelectedCharacterId(null);
+        setActiveTool('stamp');
+    };
+
+    const selectAutotileSet = (tileSetId: string) => {
+        setAutotileSetId(tileSetId);
+        setSelectedObjectId(null);
+        setSelectedCharacterId(null);
+        setActiveTool('autotile');
+    };
+
+    // Selection - copied content also goes to the system clipboard as JSON so it can be pasted into other maps
+    const copySelection = async (cut: boolean) => {
+        if (!localMapData || selection.length === 0) return;
+        const clipboard = extractSelection(localMapData, selection);
+        if (!clipboard) return;
+
+        clipboardRef.current = clipboard;
+        if (cut) {
+            commitMapChange(removeSelection(localMapData, selection), 'cut');
+        }
+        try {
+            await navigator.clipboard.writeText(serializeClipboard(clipboard));
+        } catch (err) {
+            console.warn('[EditorView] System clipboard unavailable, keeping selection in memory:', err);
         }
+        toast.success(cut ? 'Selection cut' : 'Selection copied');
     };
 
+    const pasteSelection = async () => {
+        if (!localMapData) return;
+        let clipboard = clipboardRef.current;
+        try {
+            clipboard = parseClipboard(await navigator.clipboard.readText()) ?? clipboard;
+        } catch (err) {
+            console.warn('[EditorView] System clipboard unavailable, pasting from memory:', err);
+        }
+        if (!clipboard) {
+            toast.error('Nothing to paste', { description: 'Copy a selection first' });
+            return;
+        }
+
+        // Paste under the cursor, else over the current selection
+        const origin = hoverPos && isInBounds(hoverPos) ? hoverPos : selectionBounds(selection) ?? { x: 0, y: 0 };
+        const result = pasteClipboard(localMapData, clipboard, origin, localMapData.width, localMapData.height, activeLayerId);
+        commitMapChange(result.content, 'paste');
+        setSelection(result.cells);
+        setActiveTool('select');
+    };
+
+    const deleteSelection = () => {
+        if (!localMapData || selection.length === 0) return;
+        commitMapChange(removeSelection(localMapData, selection), 'delete');
+    };
+
+    const transformCurrentSelection = (transform: SelectionTransform) => {
+        if (!localMapData || selection.length === 0) return;
+        const result = transformSelection(localMapData, selection, transform, localMapData.width, localMapData.height);
+        commitMapChange(result.content, 'transform');
+        setSelection(result.cells);
+    };
+
+    // Selection shortcuts - ignored while typing in an input
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const mod = e.metaKey || e.ctrlKey;
+            if (mod && e.key === 'c' && selection.length > 0) {
+                e.preventDefault();
+                copySelection(false);
+            } else if (mod && e.key === 'x' && selection.length > 0) {
+                e.preventDefault();
+                copySelection(true);
+            } else if (mod && e.key === 'v') {
+                e.preventDefault();
+                pasteSelection();
+            } else if ((e.key === 'Delete' || e.key === 'Backspace') && selection.length > 0) {
+                e.preventDefault();
+                deleteSelection();
+            } else if (e.key === 'Escape') {
+                setSelection([]);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selection, localMapData, hoverPos, activeLayerId, history]);
+
     // Mouse Handlers
     const [isPanning, setIsPanning] = useState(false);
     const [lastPanPos, setLastPanPos] = useState({ x: 0, y: 0 });
@@ -683,14 +1197,50 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
             if (activeTool === 'pan') {
                 setIsPanning(true);
                 setLastPanPos({ x: e.clientX, y: e.clientY });
-            } else if (activeTool === 'rectangle' || activeTool === 'circle') {
+            } else if (activeTool === 'rectangle' || activeTool === 'circle' || activeTool === 'line') {
                 const pos = getGridPos(e);
                 if (pos) {
                     setDragStart(pos);
                     setCurrentMousePos(pos);
                     setIsDraggingShape(true);
                 }
+            } else if (activeTool === 'warp') {
+                // Clicks select a warp or make a door; otherwise drag out a region
+                const pos = getGridPos(e);
+                if (!pos || !isInBounds(pos) || handleWarpClick(pos)) return;
+                setDragStart(pos);
+                setCurrentMousePos(pos);
+                setIsDraggingShape(true);
+            } else if (activeTool === 'stamp') {
+                const pos = getGridPos(e);
+                if (!pos) return;
+                if (e.shiftKey) {
+                    // Shift+drag copies a region of the active layer into the stamp
+                    setDragStart(pos);
+                    setCurrentMousePos(pos);
+                    setIsCapturingStamp(true);
+                } else {
+                    handleStamp(pos);
+                }
+            } else if (activeTool === 'select') {
+                const pos = getGridPos(e);
+                if (!pos) return;
+                setDragStart(pos);
+                setCurrentMousePos(pos);
+                if (!e.shiftKey && isCellSelected(selection, pos)) {
+                    // Dragging from inside the selection moves it
+                    setIsMovingSelection(true);
+                } else {
+                    setIsSelecting(true);
+                    setLassoPath([pos]);
+                }
+            } else if (activeTool === 'fill') {
+                const pos = getGridPos(e);
+                if (pos && isInBounds(pos)) {
+                    handleFill(pos);
+                }
             } else {
+                strokeRef.current += 1;
                 setIsDragging(true);
                 handlePaint(e); // Paint immediately on click
             }
@@ -710,13 +1260,28 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
             return;
         }
 
-        if (isDraggingShape) {
+        if (isDraggingShape || isCapturingStamp || isSelecting || isMovingSelection) {
             const pos = getGridPos(e);
             if (pos) {
                 setCurrentMousePos(pos);
             }
         }
 
+        if (isSelecting && selectionMode === 'lasso') {
+            const pos = getGridPos(e);
+            const last = lassoPath[lassoPath.length - 1];
+            if (pos && (!last || last.x !== pos.x || last.y !== pos.y)) {
+                setLassoPath([...lassoPath, pos]);
+            }
+        }
+
+        if (activeTool === 'stamp' || activeTool === 'select') {
+            const pos = getGridPos(e);
+            if (pos && (pos.x !== hoverPos?.x || pos.y !== hoverPos?.y)) {
+                setHoverPos(pos);
+            }
+        }
+
         if (isDragging) {
             handlePaint(e);
         }
@@ -726,23 +1291,64 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
         setIsDragging(false);
         setIsPanning(false);
 
-        if (isDraggingShape && dragStart && currentMousePos && localMapData) {
+        if (isCapturingStamp && dragStart && currentMousePos && localMapData) {
+            const layer = getLayer(localMapData.layers, activeLayerId);
+            if (layer?.kind === 'tile') {
+                const captured = captureStamp(layer.tiles, rectFromPoints(dragStart, currentMousePos));
+                if (isStampEmpty(captured)) {
+                    toast.error('Nothing to copy', { description: `No tiles in that area on "${layer.name}"` });
+                } else {
+                    setStamp(captured);
+                    toast.success(`Stamp copied (${captured.width}×${captured.height})`);
+                }
+            }
+
+            setIsCapturingStamp(false);
+            setDragStart(null);
+            setCurrentMousePos(null);
+        }
+
+        if (isSelecting && dragStart && currentMousePos && localMapData) {
+            setSelection(selectionMode === 'lasso'
+                ? lassoSelectionCells(lassoPath, localMapData.width, localMapData.height)
+                : rectSelectionCells(dragStart, currentMousePos, localMapData.width, localMapData.height));
+            setIsSelecting(false);
+            setLassoPath([]);
+            setDragStart(null);
+            setCurrentMousePos(null);
+        }
+
+        if (isMovingSelection && dragStart && currentMousePos && localMapData) {
+            const offset = { x: currentMousePos.x - dragStart.x, y: currentMousePos.y - dragStart.y };
+            if (offset.x !== 0 || offset.y !== 0) {
+                const result = moveSelection(localMapData, selection, offset, localMapData.width, localMapData.height);
+                commitMapChange(result.content, 'move');
+                setSelection(result.cells);
+            }
+            setIsMovingSelection(false);
+            setDragStart(null);
+            setCurrentMousePos(null);
+        }
+
+        if (isDraggingShape && activeTool === 'warp' && dragStart && currentMousePos && localMapData) {
+            addRegionWarp(dragStart, currentMousePos);
+            setIsDraggingShape(false);
+            setDragStart(null);
+            setCurrentMousePos(null);
+        }
+
+        if (isDraggingShape && activeTool !== 'warp' && dragStart && currentMousePos && localMapData) {
             // Commit shape
             const startX = Math.min(dragStart.x, currentMousePos.x);
             const endX = Math.max(dragStart.x, currentMousePos.x);
             const startY = Math.min(dragStart.y, currentMousePos.y);
             const endY = Math.max(dragStart.y, currentMousePos.y);
 
-            const newMapData = {
-                ...localMapData,
-                tile_instances: [...localMapData.tile_instances],
-                object_instances: [...localMapData.object_instances],
-                spawn_points: [...(localMapData.spawn_points || [])],
-                npc_instances: [...(localMapData.npc_instances || [])]
-            };
-            let changed = false;
-
-            if (selectedTileId) {
+            // Collect the cells covered by the shape
+            let cells: GridPoint[] = [];
+            if (activeTool === 'line') {
+                cells = bresenhamLine(dragStart, currentMousePos);
+            } else {
                 for (let x = startX; x <= endX; x++) {
                     for (let y = startY; y <= endY; y++) {
                         // Check if point is inside shape
@@ -763,33 +1369,25 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                         }
 
                         if (inside) {
-                            // Bounds check
-                            if (x >= 0 && x < localMapData.width && y >= 0 && y < localMapData.height) {
-                                // Remove existing
-                                newMapData.tile_instances = newMapData.tile_instances.filter(
-                                    (t: any) => !(t.x === x && t.y === y)
-                                );
-                                // Add new
-                                newMapData.tile_instances.push({
-                                    tileId: selectedTileId,
-                                    x,
-                                    y,
-                                    z: 0
-                                });
-                                changed = true;
-                            }
+                            cells.push({ x, y });
                         }
                     }
                 }
             }
-
-            // Draw Objects (Removed misplaced code)
-            // Draw Spawn Points (Removed misplaced code)
-
-            if (changed) {
-                setLocalMapData(newMapData);
-                addToHistory(newMapData);
-                setIsDirty(true);
+            cells = cells.filter(isInBounds);
+
+            // Shapes fill the active tile layer, or paint collision overrides
+            const layer = getLayer(localMapData.layers, activeLayerId);
+            if (layer && isLayerEditable(layer) && cells.length > 0) {
+                if (layer.kind === 'collision') {
+                    let updated = layer;
+                    for (const cell of cells) {
+                        updated = setCollisionOverride(updated, cell.x, cell.y, collisionBrush === 'solid');
+                    }
+                    commitLayerChange(updated, 'collision');
+                } else if (layer.kind === 'tile' && selectedTileId) {
+                    commitLayerChange(placeLayerTiles(layer, cells.map(c => ({ tileId: selectedTileId, x: c.x, y: c.y }))), 'shape');
+                }
             }
 
             setIsDraggingShape(false);
@@ -804,20 +1402,20 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
         setZoom(prev => Math.max(0.1, Math.min(5, prev + delta)));
     };
 
-    const handleSave = () => {
-        if (!localMapData) return;
-
-        // Transform local data back to backend format
-        const mapDataForBackend = {
+    // Transform local data back to backend format
+    const toBackendMapData = (localMapData: any) => {
+        return {
             ...localMapData,
             width: BigInt(localMapData.width),
             height: BigInt(localMapData.height),
             created_at: BigInt(localMapData.created_at),
             updated_at: BigInt(Date.now()),
-            tile_instances: localMapData.tile_instances.map((t: any) => ({
+            // Flattened copy for readers that predate layers
+            tile_instances: flattenTileLayers(localMapData.layers).map((t) => ({
                 tile_id: t.tileId,
                 position: { x: BigInt(t.x), y: BigInt(t.y) }
             })),
+            layers: [layersToBackend(localMapData.layers)],
             object_instances: localMapData.object_instances.map((o: any) => ({
                 object_id: o.objectId,
                 state: o.state || 'default',
@@ -838,13 +1436,24 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                     preset_id: n.presetId || n.preset_id || 'villager',
                     name: n.name || 'NPC',
                     x: BigInt(Number(n.x) || 0),
-                    y: BigInt(Number(n.y) || 0)
-                }))]
+                    y: BigInt(Number(n.y) || 0),
+                    definition_json: n.definitionJson ? [n.definitionJson] : []
+                }))],
+            warps: [warpsToBackend(localMapData.warps ?? [])]
         };
+    };
 
-        updateMap.mutate({ id: mapId, mapData: mapDataForBackend });
+    const handleSave = () => {
+        if (!localMapData) return;
+        updateMap.mutate({ id: mapId, mapData: toBackendMapData(localMapData) });
     };
 
+    // Inspector reads the map in backend format
+    const inspectorMap = useMemo(
+        () => localMapData ? toBackendMapData(localMapData) : null,
+        [localMapData]
+    );
+
     console.log('[EditorView] Render - mapId:', mapId, 'isMapLoading:', isMapLoading, 'mapData:', mapData);
 
     if (isMapLoading) {
@@ -921,6 +1530,48 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                                     </button>
                                 ))}
                             </div>
+
+                            {/* Tile Sets - pick one to use as a stamp or autotile brush */}
+                            {tileSets.length > 0 && (
+                                <div className="px-4 pb-4 space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-xs font-semibold text-muted-foreground">Tile Sets (stamp / autotile)</span>
+                                        <label className="text-xs text-muted-foreground flex items-center gap-1">
+                                            Columns
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={16}
+                                                value={stampColumns}
+                                                onChange={(e) => setStampColumns(Math.max(1, Number(e.target.value) || 1))}
+                                                className="w-12 rounded border bg-background px-1 text-foreground"
+                                            />
+                                        </label>
+                                    </div>
+                                    {tileSets.map((tileSet) => (
+                                        <div key={tileSet.id} className="flex gap-1">
+                                            <button
+                                                onClick={() => selectTileSetStamp(tileSet.tile_ids)}
+                                                className="flex-1 min-w-0 text-left px-3 py-2 rounded-md text-sm border hover:bg-accent transition-colors"
+                                            >
+                                                <div className="font-medium truncate">{tileSet.name}</div>
+                                                <div className="text-xs text-muted-foreground">{tileSet.tile_ids.length} tiles</div>
+                                            </button>
+                                            {tileSet.autotile.length > 0 && (
+                                                <Button
+                                                    variant={activeTool === 'autotile' && autotileSetId === tileSet.id ? 'secondary' : 'outline'}
+                                                    size="icon"
+                                                    className="h-auto w-9"
+                                                    onClick={() => selectAutotileSet(tileSet.id)}
+                                                    title={`Autotile brush (${tileSet.autotile[0]?.mode})`}
+                                                >
+                                                    <Wand2 className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </ScrollArea>
                     </TabsContent>
 
@@ -1009,6 +1660,33 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                                         </div>
                                     </button>
                                 ))}
+                                {npcTemplates.length > 0 && (
+                                    <p className="px-3 pt-3 pb-1 text-xs font-medium text-muted-foreground">Templates</p>
+                                )}
+                                {npcTemplates.map(template => (
+                                    <button
+                                        key={template.id}
+                                        onClick={() => {
+                                            setSelectedNpcId(template.id);
+                                            setSelectedTileId(null);
+                                            setSelectedObjectId(null);
+                                            setSelectedCharacterId(null);
+                                            setActiveTool('spawn');
+                                        }}
+                                        className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors flex items-center gap-3 ${selectedNpcId === template.id
+                                            ? 'bg-primary text-primary-foreground shadow-sm'
+                                            : 'hover:bg-accent'
+                                            }`}
+                                    >
+                                        <div className="flex-shrink-0">
+                                            <Users className="w-5 h-5" />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-medium truncate">{template.name}</div>
+                                            <div className="text-xs opacity-70 truncate">{template.description || template.tags.join(', ')}</div>
+                                        </div>
+                                    </button>
+                                ))}
                             </div>
                         </ScrollArea>
                     </TabsContent>
@@ -1025,7 +1703,7 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                                 variant={activeTool === 'select' ? 'secondary' : 'ghost'}
                                 size="sm"
                                 onClick={() => setActiveTool('select')}
-                                title="Select (V)"
+                                title="Select (V) - drag inside the selection to move it"
                             >
                                 <MousePointer2 className="h-4 w-4" />
                             </Button>
@@ -1061,6 +1739,46 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                             >
                                 <Circle className="h-4 w-4" />
                             </Button>
+                            <Button
+                                variant={activeTool === 'line' ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setActiveTool('line')}
+                                title="Line (L)"
+                            >
+                                <Slash className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant={activeTool === 'fill' ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setActiveTool('fill')}
+                                title="Fill (G)"
+                            >
+                                <PaintBucket className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant={activeTool === 'stamp' ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setActiveTool('stamp')}
+                                title="Stamp (S) - Shift+drag to copy from the map"
+                            >
+                                <StampIcon className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant={activeTool === 'autotile' ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setActiveTool('autotile')}
+                                title="Autotile (A) - Alt+click to erase"
+                            >
+                                <Wand2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant={activeTool === 'warp' ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setActiveTool('warp')}
+                                title="Warp - drag out a region, or click an object to make it a door"
+                            >
+                                <DoorOpen className="h-4 w-4" />
+                            </Button>
                             <Button
                                 variant={activeTool === 'pan' ? 'secondary' : 'ghost'}
                                 size="sm"
@@ -1071,6 +1789,74 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                             </Button>
                         </div>
 
+                        {/* Tool Options */}
+                        {activeTool === 'fill' && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setFillConnectivity(fillConnectivity === 4 ? 8 : 4)}
+                                title="Toggle fill connectivity"
+                            >
+                                {fillConnectivity}-way
+                            </Button>
+                        )}
+                        {activeTool === 'stamp' && (
+                            <span className="text-xs text-muted-foreground">
+                                {stamp ? `Stamp ${stamp.width}×${stamp.height}` : 'Shift+drag to copy tiles'}
+                            </span>
+                        )}
+                        {activeTool === 'select' && (
+                            <div className="flex items-center gap-1">
+                                <Button
+                                    variant={selectionMode === 'rect' ? 'secondary' : 'ghost'}
+                                    size="sm"
+                                    onClick={() => setSelectionMode('rect')}
+                                    title="Rectangle selection"
+                                >
+                                    <BoxSelect className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    variant={selectionMode === 'lasso' ? 'secondary' : 'ghost'}
+                                    size="sm"
+                                    onClick={() => setSelectionMode('lasso')}
+                                    title="Lasso selection"
+                                >
+                                    <Lasso className="h-4 w-4" />
+                                </Button>
+                                <Separator orientation="vertical" className="h-6 mx-1" />
+                                <Button variant="ghost" size="sm" onClick={() => copySelection(false)} disabled={selection.length === 0} title="Copy (Ctrl+C)">
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => copySelection(true)} disabled={selection.length === 0} title="Cut (Ctrl+X)">
+                                    <Scissors className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={pasteSelection} title="Paste (Ctrl+V)">
+                                    <ClipboardPaste className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => transformCurrentSelection('flipH')} disabled={selection.length === 0} title="Flip horizontally">
+                                    <FlipHorizontal2 className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => transformCurrentSelection('flipV')} disabled={selection.length === 0} title="Flip vertically">
+                                    <FlipVertical2 className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => transformCurrentSelection('rotateCW')} disabled={selection.length === 0} title="Rotate 90° clockwise">
+                                    <RotateCw className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        )}
+                        {activeTool === 'warp' && (
+                            <span className="text-xs text-muted-foreground">
+                                Drag a region or click an object, then pick its target in the inspector
+                            </span>
+                        )}
+                        {activeTool === 'autotile' && (
+                            <span className="text-xs text-muted-foreground">
+                                {autotileSet && autotileConfig
+                                    ? `${autotileSet.name} (${autotileConfig.mode})`
+                                    : 'Pick an autotile set in the Tiles tab'}
+                            </span>
+                        )}
+
                         <Separator orientation="vertical" className="h-6 mx-2" />
 
                         <div className="flex items-center gap-1">
@@ -1078,7 +1864,7 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                                 variant="ghost"
                                 size="icon"
                                 onClick={undo}
-                                disabled={historyIndex <= 0}
+                                disabled={!canUndo(history)}
                                 title="Undo (Ctrl+Z)"
                             >
                                 <Undo className="h-4 w-4" />
@@ -1087,7 +1873,7 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                                 variant="ghost"
                                 size="icon"
                                 onClick={redo}
-                                disabled={historyIndex >= history.length - 1}
+                                disabled={!canRedo(history)}
                                 title="Redo (Ctrl+Y)"
                             >
                                 <Redo className="h-4 w-4" />
@@ -1131,7 +1917,7 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                 <div className="flex-1 bg-neutral-900 overflow-hidden relative cursor-crosshair">
                     <canvas
                         ref={canvasRef}
-                        width={window.innerWidth - 320} // Subtract sidebar width
+                        width={window.innerWidth - 320 - 288} // Subtract sidebar and inspector width
                         height={window.innerHeight - 56} // Subtract toolbar height
                         className="block touch-none"
                         onMouseDown={handleMouseDown}
@@ -1145,9 +1931,52 @@ export function EditorView({ mapId, onBack }: EditorViewProps) {
                 {/* Status Bar */}
                 <div className="h-6 bg-primary text-primary-foreground text-xs flex items-center px-4 justify-between select-none">
                     <span>{mapData.width}x{mapData.height} Tiles</span>
+                    <span>Layer: {getLayer(localMapData?.layers ?? [], activeLayerId)?.name ?? 'None'}</span>
+                    {selection.length > 0 && <span>Selection: {selection.length} cells</span>}
                     <span>Zoom: {Math.round(zoom * 100)}%</span>
                 </div>
             </div>
+
+            {/* Inspector - layers and map details */}
+            {localMapData && (
+                <Inspector
+                    currentMap={inspectorMap}
+                    selectedObjectIndex={null}
+                    onObjectStateChange={() => { }}
+                    isVisible={isInspectorVisible}
+                    onToggleVisibility={() => setIsInspectorVisible(!isInspectorVisible)}
+                    layerControls={{
+                        layers: localMapData.layers,
+                        activeLayerId,
+                        onSelectLayer: setActiveLayerId,
+                        onLayersChange: (layers: EditorLayer[]) => {
+                            commitMapChange({ ...localMapData, layers }, 'layers');
+                        },
+                        collisionBrush,
+                        onCollisionBrushChange: setCollisionBrush,
+                    }}
+                    historyControls={{
+                        entries: history.entries,
+                        index: history.index,
+                        onJump: jumpTo,
+                    }}
+                    npcControls={{
+                        npcs: localMapData.npc_instances,
+                        selectedNpcId: inspectedNpcId,
+                        onSelect: setInspectedNpcId,
+                        templates: npcTemplates,
+                        onChange: handleNpcChange,
+                        onSaveTemplate: handleSaveNpcTemplate,
+                    }}
+                    warpControls={{
+                        warps: localMapData.warps,
+                        selectedWarpId: inspectedWarpId,
+                        onSelect: setInspectedWarpId,
+                        onChange: handleWarpChange,
+                    }}
+                    onResizeMap={handleResizeMap}
+                />
+            )}
         </div >
     );
 }
@@ -1,15 +1,65 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useActor } from '../hooks/useActor';
-import { useGetCharacterSpriteSheet, useListPlayableCharacters, useGetSpriteSheet } from '../hooks/useQueries';
+import { useGetCharacterSpriteSheet, useListPlayableCharacters, useGetSpriteSheet, useListNpcTemplates, useListQuests, useListItems, useListShops, useListRecipes } from '../hooks/useQueries';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Play, Pause, ZoomIn, ZoomOut, Gauge, Film } from 'lucide-react';
+import { ArrowLeft, Play, Pause, ZoomIn, ZoomOut, Gauge, Film, ScrollText, Backpack, Circle, Square, Upload, X } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { toast } from 'sonner';
-import type { PlayableCharacter, SpriteSheet } from '../backend';
-import type { NPC, DialogueState, DialogueInteractionModule, QuestInteractionModule, QuestState } from '../types/npc';
-import { createOldManNPC, createGuardNPC, createShopkeeperNPC, createHostileWandererNPC, createQuestGiverNPC } from '../utils/npcPresets';
-import { interactWithNPC, endInteraction, getModule, updateNPC } from '../utils/npcController';
+import type { NpcTemplate, ObjectMetadata, PlayableCharacter, SpriteSheet, TileMetadata } from '../backend';
+import type { NPC } from '../types/npc';
+import { BUILTIN_QUESTS, createGuardNPC } from '../utils/npcPresets';
+import { BUILTIN_NPC_DEFINITIONS, instantiateNpc, resolveNpcDefinition } from '../utils/npcDefinitions';
+import { createDialogueWorld } from '../utils/dialogueRuntime';
+import { describeQuestNotice, questLog, type QuestNotice } from '../utils/questEngine';
+import { mergeQuests } from '../utils/questDefinitions';
+import { QuestLogOverlay } from '@/components/game/QuestLogOverlay';
+import { createItemCatalog, findMapPickups, inventorySlots, INVENTORY_SLOTS } from '../utils/inventory';
+import { InventoryOverlay } from '@/components/game/InventoryOverlay';
+import { createShopCatalog, shopBuyOffers, shopSellOffers } from '../utils/shop';
+import { ShopOverlay, type ShopTab } from '@/components/game/ShopOverlay';
+import { craftProgress, createRecipeBook, stationRecipeStatuses } from '../utils/crafting';
+import { CraftingOverlay } from '@/components/game/CraftingOverlay';
+import { ATTACK_ANIMATION_MS, createPlayerCombat, npcHealth, spriteHitbox } from '../utils/combat';
+import {
+    canInteract,
+    createGameWorld,
+    DEFAULT_MOVE_SPEED,
+    enterGameMap,
+    gameNpcs,
+    gameTime,
+    nearbyWarp,
+    presentGameDialogue,
+    setGameMap,
+    setPlayerHitbox,
+    stepGameWorld,
+    type GameContent,
+    type GameEvent,
+    type GameMap,
+    type GameUpdate,
+    type GameWorld,
+} from '../utils/gameWorld';
+import {
+    advancePlayback,
+    applyReplayAction,
+    isPlaybackDone,
+    parseReplay,
+    recordAction,
+    recordFrame,
+    replayDuration,
+    seekPlayback,
+    startPlayback,
+    startRecording,
+    stringifyReplay,
+    type Replay,
+    type ReplayAction,
+    type ReplayPlayback,
+    type ReplayRecorder,
+} from '../utils/replay';
+import { downloadFile } from '../utils/download';
+import { buildCollisionSet, layersFromBackend, type EditorLayer } from '../utils/mapLayers';
+import { warpsFromBackend, type MapWarp } from '../utils/mapWarps';
+import { createAtlasLookup, drawAtlasFrame, loadTileSprites, packAtlas, type AtlasLookup } from '../utils/atlasPacker';
 
 interface GameTestViewProps {
     mapId: string;
@@ -18,9 +68,12 @@ interface GameTestViewProps {
 }
 
 const TILE_SIZE = 32;
-const DEFAULT_MOVE_SPEED = 4; // pixels per frame
+
 const DEFAULT_ANIMATION_FPS = 8; // fps
 
+// Longest frame the world is stepped by, so a stalled tab does not jump ahead on return
+const MAX_FRAME_MS = 100;
+
 // Default character hitbox - used as fallback if sprite sheet doesn't define one
 // This accounts for transparent space around the character sprite
 const DEFAULT_HITBOX = {
@@ -30,6 +83,35 @@ const DEFAULT_HITBOX = {
     height: 24    // Hitbox height in pixels
 };
 
+// How long damage numbers float above their target
+const DAMAGE_NUMBER_MS = 800;
+
+interface DamageNumber {
+    id: number;
+    x: number;
+    y: number;
+    amount: number;
+    target: 'npc' | 'player';
+    /** World time it appeared, see `gameTime` */
+    createdAt: number;
+}
+
+// Seeking a replay back can leave numbers from later in the run
+function isDamageNumberShown(n: DamageNumber, now: number): boolean {
+    return now >= n.createdAt && now - n.createdAt < DAMAGE_NUMBER_MS;
+}
+
+// Replay playback speeds
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+// Stable stand-ins while data loads, so memos keyed on them do not rebuild every render
+const NO_OBJECTS: ObjectMetadata[] = [];
+const NO_TILES: TileMetadata[] = [];
+const NO_COLLISION: ReadonlySet<string> = new Set();
+const NO_NPCS: NPC[] = [];
+const NO_PICKUPS: ReadonlySet<string> = new Set();
+const ORIGIN = { x: 0, y: 0 };
+
 // Tile color fallback map for when images are missing
 const TILE_COLOR_MAP: Record<string, string> = {
     'grass': '#4ade80',  // green
@@ -40,14 +122,75 @@ const TILE_COLOR_MAP: Record<string, string> = {
     'default': '#333',   // dark grey
 };
 
+/** NPCs placed on a map in the editor */
+function placedNpcs(mapData: any, npcTemplates: NpcTemplate[]): NPC[] {
+    // Handle optional Candid format: [] = null, [array] = Some(array)
+    console.log('🔍 DEBUG npc_instances raw:', mapData.npc_instances);
+    const npcList = Array.isArray(mapData.npc_instances)
+        ? (mapData.npc_instances.length > 0 && Array.isArray(mapData.npc_instances[0])
+            ? mapData.npc_instances[0]  // Unwrap from optional format
+            : mapData.npc_instances)
+        : [];
+    console.log('🔍 DEBUG npcList after unwrap:', npcList);
+
+    return npcList.map((npcInstance: any) => {
+        const x = Number(npcInstance.x ?? npcInstance.position?.x ?? 0);
+        const y = Number(npcInstance.y ?? npcInstance.position?.y ?? 0);
+        const presetId = npcInstance.preset_id || npcInstance.presetId;
+
+        // Instance override, then template, then built-in preset
+        const { definition } = resolveNpcDefinition(
+            { presetId, definitionJson: npcInstance.definitionJson },
+            npcTemplates
+        );
+        const npc = instantiateNpc(definition, { x, y }, npcInstance.id);
+        if (npcInstance.name) npc.metadata.name = npcInstance.name;
+        return npc;
+    });
+}
+
+function downloadReplay(replay: Replay) {
+    downloadFile({
+        name: `replay-${replay.mapId}-${replay.recorded_at.replace(/[:.]/g, '-')}.json`,
+        data: stringifyReplay(replay),
+        type: 'application/json',
+    });
+}
+
+function showQuestNotices(notices: QuestNotice[]) {
+    for (const notice of notices) {
+        if (notice.type === 'turned_in') {
+            const { gold, experience, items } = notice.rewards;
+            const rewards = [
+                gold ? `${gold} gold` : '',
+                experience ? `${experience} XP` : '',
+                ...(items ?? []),
+            ].filter(Boolean);
+            toast.success(describeQuestNotice(notice), rewards.length > 0 ? { description: `Rewards: ${rewards.join(', ')}` } : undefined);
+        } else if (notice.type === 'completed') {
+            toast.success(describeQuestNotice(notice));
+        } else {
+            toast(describeQuestNotice(notice));
+        }
+    }
+}
+
 export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps) {
     const { actor } = useActor();
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
-    // Character state
-    const [playerPos, setPlayerPos] = useState({ x: 0, y: 0 });
-    const [playerDirection, setPlayerDirection] = useState<'up' | 'down' | 'left' | 'right'>('down');
-    const [isMoving, setIsMoving] = useState(false);
+    // The running game: player, NPCs, progress and dialogue. The view feeds it input and draws it
+    const [world, setWorld] = useState<GameWorld | null>(null);
+    const worldRef = useRef<GameWorld | null>(null);
+
+    // The map being played - starts on `mapId`, warps move to others
+    const [currentMapId, setCurrentMapId] = useState(mapId);
+    // A warp in progress holds the world still until its target map is entered
+    const warpRef = useRef<MapWarp | null>(null);
+    const [arrivingWarp, setArrivingWarp] = useState<MapWarp | null>(null);
+    const [fade, setFade] = useState({ opacity: 0, ms: 0 });
+
+    // View state
     const [currentFrame, setCurrentFrame] = useState(0);
     const [isPaused, setIsPaused] = useState(false);
     const [showCollisionDebug, setShowCollisionDebug] = useState(false); // Show solid tile overlay (red boxes)
@@ -69,26 +212,67 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
     const animationFPSRef = useRef(animationFPS);
 
     // Image caches
-    const [tileImages, setTileImages] = useState<Record<string, HTMLImageElement>>({});
+    const [tileAtlas, setTileAtlas] = useState<AtlasLookup | null>(null);
     const [objectImages, setObjectImages] = useState<Record<string, HTMLImageElement>>({});
     const [characterImage, setCharacterImage] = useState<HTMLImageElement | null>(null);
 
-    // Collision map - set of "x,y" grid positions that are solid
-    const [collisionMap, setCollisionMap] = useState<Set<string>>(new Set());
-
-    // NPC state
-    const [npcs, setNpcs] = useState<NPC[]>([]);
-    const [dialogueState, setDialogueState] = useState<DialogueState | null>(null);
-
-    // Quest state tracking (keyed by quest id)
-    const [questStates, setQuestStates] = useState<Record<string, QuestState>>({});
+    const [showQuestLog, setShowQuestLog] = useState(false);
+    const [showInventory, setShowInventory] = useState(false);
+
+    // Project quests override built-in ones with the same id
+    const { data: questDefinitions } = useListQuests();
+    const quests = useMemo(() => mergeQuests(BUILTIN_QUESTS, questDefinitions ?? []), [questDefinitions]);
+
+    // Item catalog
+    const { data: itemRecords } = useListItems();
+    const itemCatalog = useMemo(() => createItemCatalog(itemRecords ?? []), [itemRecords]);
+
+    // Shops and the shop being traded with; the world holds their stock
+    const { data: shopRecords } = useListShops();
+    const shops = useMemo(() => createShopCatalog(shopRecords ?? []), [shopRecords]);
+    const [shopSession, setShopSession] = useState<{ shopId: string; npcId: string; tab: ShopTab; index: number } | null>(null);
+
+    // Recipes and the crafting station in use; the world holds the recipe being crafted
+    const { data: recipeRecords } = useListRecipes();
+    const recipes = useMemo(() => createRecipeBook(recipeRecords ?? []), [recipeRecords]);
+    const [craftingSession, setCraftingSession] = useState<{ npcId: string; npcName: string; station: string; index: number } | null>(null);
+
+    // Everything the world reads besides the map
+    const content = useMemo<GameContent>(() => ({ quests, items: itemCatalog, shops, recipes }), [quests, itemCatalog, shops, recipes]);
+
+    // Replay recording, and playback of a loaded replay in place of live play
+    const recorderRef = useRef<ReplayRecorder | null>(null);
+    const [isRecording, setIsRecording] = useState(false);
+    const [playback, setPlayback] = useState<ReplayPlayback | null>(null);
+    const playbackRef = useRef<ReplayPlayback | null>(null);
+    const [isPlaybackPaused, setIsPlaybackPaused] = useState(false);
+    const [playbackSpeed, setPlaybackSpeed] = useState(1);
+    const liveWorldRef = useRef<GameWorld | null>(null); // Restored when playback ends
+    const replayInputRef = useRef<HTMLInputElement>(null);
+
+    // Damage numbers still on screen, timed on the world's clock
+    const [damageNumbers, setDamageNumbers] = useState<DamageNumber[]>([]);
+    const damageNumberIdRef = useRef(0);
+
+    // What the world holds, with stand-ins until it is created
+    const initialProgress = useMemo(() => createDialogueWorld(), []);
+    const initialCombat = useMemo(() => createPlayerCombat(), []);
+    const npcs = world ? gameNpcs(world) : NO_NPCS;
+    const playerPos = world?.player.position ?? ORIGIN;
+    const playerDirection = world?.player.direction ?? 'down';
+    const isMoving = world?.player.moving ?? false;
+    const playerCombat = world?.player.combat ?? initialCombat;
+    const dialogueWorld = world?.progress ?? initialProgress;
+    const collectedPickups = world?.collectedPickups ?? NO_PICKUPS;
+    const craftingJob = world?.crafting ?? null;
+    const now = world ? gameTime(world) : 0;
 
     // Queries
-    const { data: mapData, isLoading: isMapLoading } = useQuery({
-        queryKey: ['map', mapId],
+    const { data: mapData, isLoading: isMapLoading, error: mapError } = useQuery({
+        queryKey: ['map', currentMapId],
         queryFn: async () => {
-            if (!actor || !mapId) return null;
-            const result = await (actor as any).getMap(mapId);
+            if (!actor || !currentMapId) return null;
+            const result = await (actor as any).getMap(currentMapId);
             if (Array.isArray(result) && result.length > 0) {
                 const map = result[0];
                 console.log('🗺️ DEBUG raw map from canister:', map);
@@ -112,6 +296,7 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                         x: Number(t.position.x),
                         y: Number(t.position.y)
                     })),
+                    layers: layersFromBackend(map),
                     object_instances: map.object_instances.map((o: any) => ({
                         objectId: o.object_id,
                         x: Number(o.position.x),
@@ -128,16 +313,20 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                         presetId: n.preset_id,
                         name: n.name,
                         x: Number(n.x),
-                        y: Number(n.y)
-                    }))
+                        y: Number(n.y),
+                        definitionJson: n.definition_json?.[0] ?? null
+                    })),
+                    warps: warpsFromBackend(map)
                 };
             }
             throw new Error("Map not found");
         },
-        enabled: !!actor && !!mapId,
+        enabled: !!actor && !!currentMapId,
+        // Keep drawing the map being left while a warp loads the next one
+        placeholderData: (previous: any) => previous,
     });
 
-    const { data: tiles = [] } = useQuery({
+    const { data: tiles = NO_TILES } = useQuery<TileMetadata[]>({
         queryKey: ['tiles'],
         queryFn: async () => {
             if (!actor) return [];
@@ -146,7 +335,7 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         enabled: !!actor,
     });
 
-    const { data: objects = [] } = useQuery({
+    const { data: objects = NO_OBJECTS } = useQuery<ObjectMetadata[]>({
         queryKey: ['objects'],
         queryFn: async () => {
             if (!actor) return [];
@@ -156,6 +345,7 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
     });
 
     const { data: characters = [] } = useListPlayableCharacters();
+    const { data: npcTemplates = [], isLoading: isNpcTemplatesLoading } = useListNpcTemplates();
 
     // Get selected character
     const selectedCharacter = characters.find((c: PlayableCharacter) => c.id === characterId);
@@ -183,6 +373,9 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         }
     }, [spriteSheet, showCharacterHitbox]);
 
+    // Player hitbox scaled to the drawn sprite size
+    const playerHitbox = useMemo(() => spriteHitbox(spriteSheet, TILE_SIZE, DEFAULT_HITBOX), [spriteSheet]);
+
     // Load sprite sheet image
     const { data: spriteSheetBlob } = useGetCharacterSpriteSheet(spriteSheet?.blob_id || '');
 
@@ -207,99 +400,120 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         }
     }, [spriteSheetBlob]);
 
-    // Initialize player position from spawn point
-    useEffect(() => {
-        if (!mapData) return;
+    // Solid "x,y" cells, derived with the map data so a warp's target map never carries the previous map's walls
+    const collisionMap = useMemo(() => mapData && tiles.length > 0
+        ? buildCollisionSet(mapData.layers, tiles)
+        : NO_COLLISION, [mapData, tiles]);
 
+    // The map as the world sees it; NPCs path around solid tiles and object footprints
+    const gameMap = useMemo<GameMap | null>(() => {
+        if (!mapData) return null;
         const spawn = mapData.spawn_points.find((s: any) => s.characterId === characterId);
-        if (spawn) {
-            setPlayerPos({ x: spawn.x * TILE_SIZE, y: spawn.y * TILE_SIZE });
-            setCamera({
-                x: spawn.x * TILE_SIZE - (canvasRef.current?.width || 800) / 2,
-                y: spawn.y * TILE_SIZE - (canvasRef.current?.height || 600) / 2
-            });
-        }
+        return {
+            id: mapData.id,
+            width: mapData.width,
+            height: mapData.height,
+            tileSize: TILE_SIZE,
+            collision: collisionMap,
+            spawn: spawn ? { x: spawn.x, y: spawn.y } : null,
+            spawnPoints: mapData.spawn_points,
+            objectInstances: mapData.object_instances,
+            objects,
+            warps: mapData.warps,
+        };
+    }, [mapData, characterId, collisionMap, objects]);
 
-        // Initialize NPCs from map data and reference NPCs
-        if (npcs.length === 0) {
-            const allNpcs: NPC[] = [];
-
-            // Spawn NPCs from map data (editor-placed NPCs)
-            // Handle optional Candid format: [] = null, [array] = Some(array)
-            console.log('🔍 DEBUG npc_instances raw:', mapData.npc_instances);
-            const npcList = Array.isArray(mapData.npc_instances)
-                ? (mapData.npc_instances.length > 0 && Array.isArray(mapData.npc_instances[0])
-                    ? mapData.npc_instances[0]  // Unwrap from optional format
-                    : mapData.npc_instances)
-                : [];
-            console.log('🔍 DEBUG npcList after unwrap:', npcList);
-
-            if (npcList.length > 0) {
-                for (const npcInstance of npcList) {
-                    const x = Number(npcInstance.x ?? npcInstance.position?.x ?? 0);
-                    const y = Number(npcInstance.y ?? npcInstance.position?.y ?? 0);
-                    const presetId = npcInstance.preset_id || npcInstance.presetId;
-
-                    // Create NPC based on preset type
-                    switch (presetId) {
-                        case 'villager':
-                            allNpcs.push(createOldManNPC(x, y));
-                            break;
-                        case 'guard':
-                            // Guard with a simple patrol around spawn point
-                            allNpcs.push(createGuardNPC(x, y, [
-                                { x, y },
-                                { x: x + 2, y },
-                                { x: x + 2, y: y + 2 },
-                                { x, y: y + 2 }
-                            ]));
-                            break;
-                        case 'shopkeeper':
-                            allNpcs.push(createShopkeeperNPC(x, y));
-                            break;
-                        case 'quest_giver':
-                            allNpcs.push(createQuestGiverNPC(x, y));
-                            break;
-                        case 'hostile':
-                            allNpcs.push(createHostileWandererNPC(x, y, 2));
-                            break;
-                        default:
-                            // Default to villager for unknown presets
-                            allNpcs.push(createOldManNPC(x, y));
-                    }
-                }
-                console.log('🏠 Spawned NPCs from map data:', allNpcs.length);
-            }
+    // Store a new world; the ref lets the game loop and key handlers act on the latest one
+    const commitWorld = useCallback((next: GameWorld) => {
+        worldRef.current = next;
+        setWorld(next);
+    }, []);
 
-            // Only add hardcoded reference NPCs if no map NPCs exist (for testing)
-            if (allNpcs.length === 0) {
-                // NPC A: Static Dialogue (baseline) - tests idle ↔ interacting
-                allNpcs.push(createOldManNPC(6, 4));
-                // NPC B: Patrol Guard with waypoints - tests Alert state
-                allNpcs.push(createGuardNPC(3, 6, [
-                    { x: 3, y: 6 },
-                    { x: 3, y: 8 },
-                    { x: 6, y: 8 },
-                    { x: 6, y: 6 }
-                ]));
-                // NPC C: Hostile Wanderer - tests Combat state
-                allNpcs.push(createHostileWandererNPC(8, 7, 2));
-                // Shopkeeper for dialogue variety
-                allNpcs.push(createShopkeeperNPC(7, 2));
-                // Quest Giver (Elder) - tests quest dialogue system
-                allNpcs.push(createQuestGiverNPC(2, 4));
-                console.log('🧙 Reference NPCs spawned (no map NPCs found)');
-            }
+    // Create the world once the map, NPC templates and character are in
+    useEffect(() => {
+        if (worldRef.current || !gameMap || !mapData || isNpcTemplatesLoading || !selectedCharacter) return;
+
+        // Spawn NPCs from map data (editor-placed NPCs)
+        const allNpcs = placedNpcs(mapData, npcTemplates);
+        if (allNpcs.length > 0) {
+            console.log('🏠 Spawned NPCs from map data:', allNpcs.length);
+        }
 
-            setNpcs(allNpcs);
+        // Only add hardcoded reference NPCs if no map NPCs exist (for testing)
+        if (allNpcs.length === 0) {
+            // NPC A: Static Dialogue (baseline) - tests idle ↔ interacting
+            allNpcs.push(instantiateNpc(BUILTIN_NPC_DEFINITIONS.villager!, { x: 6, y: 4 }));
+            // NPC B: Patrol Guard with waypoints - tests Alert state
+            allNpcs.push(createGuardNPC(3, 6, [
+                { x: 3, y: 6 },
+                { x: 3, y: 8 },
+                { x: 6, y: 8 },
+                { x: 6, y: 6 }
+            ]));
+            // NPC C: Hostile Wanderer - tests Combat state
+            allNpcs.push(instantiateNpc(BUILTIN_NPC_DEFINITIONS.hostile!, { x: 8, y: 7 }));
+            // Shopkeeper for dialogue variety
+            allNpcs.push(instantiateNpc(BUILTIN_NPC_DEFINITIONS.shopkeeper!, { x: 7, y: 2 }));
+            // Quest Giver (Elder) - tests quest dialogue system
+            allNpcs.push(instantiateNpc(BUILTIN_NPC_DEFINITIONS.quest_giver!, { x: 2, y: 4 }));
+            console.log('🧙 Reference NPCs spawned (no map NPCs found)');
         }
-    }, [mapData, characterId, npcs.length]);
 
-    // Build collision map when map data and tiles are loaded
+        const created = createGameWorld({
+            map: gameMap,
+            npcs: allNpcs,
+            player: { name: selectedCharacter.name, stats: selectedCharacter.stats, hitbox: playerHitbox },
+            seed: Date.now(),
+        });
+        commitWorld(created);
+        setCamera({
+            x: created.player.position.x - (canvasRef.current?.width || 800) / 2,
+            y: created.player.position.y - (canvasRef.current?.height || 600) / 2
+        });
+    }, [gameMap, mapData, npcTemplates, isNpcTemplatesLoading, selectedCharacter, playerHitbox, commitWorld]);
+
+    // Keep the world's map and hitbox in step as tiles and the sprite sheet load
     useEffect(() => {
-        if (!mapData || tiles.length === 0) return;
+        const current = worldRef.current;
+        if (current && gameMap && current.map !== gameMap && current.map.id === gameMap.id) commitWorld(setGameMap(current, gameMap));
+    }, [gameMap, commitWorld]);
 
-        const newCollisionMap = new Set<string>();
+    // Finish a warp once its target map is in: move the world onto it and fade back in.
+    // gameMap's collision comes from the same render's map data, so it is the target map's
+    useEffect(() => {
+        const current = worldRef.current;
+        if (!arrivingWarp || !current || !gameMap || gameMap.id !== arrivingWarp.targetMapId || isNpcTemplatesLoading) return;
+
+        commitWorld(enterGameMap(current, gameMap, placedNpcs(mapData, npcTemplates), arrivingWarp.targetSpawnId));
+        warpRef.current = null;
+        setArrivingWarp(null);
+        setFade({ opacity: 0, ms: arrivingWarp.fadeMs });
+    }, [arrivingWarp, gameMap, mapData, npcTemplates, isNpcTemplatesLoading, commitWorld]);
+
+    // A target map that fails to load leaves the player where they were
+    useEffect(() => {
+        const current = worldRef.current;
+        if (!arrivingWarp || !current || !mapError) return;
+
+        toast.error('Could not follow warp', { description: `Map "${arrivingWarp.targetMapId}" could not be loaded` });
+        setCurrentMapId(current.map.id);
+        warpRef.current = null;
+        setArrivingWarp(null);
+        setFade({ opacity: 0, ms: arrivingWarp.fadeMs });
+    }, [arrivingWarp, mapError]);
+
+    useEffect(() => {
+        const current = worldRef.current;
+        if (current && current.player.hitbox !== playerHitbox) commitWorld(setPlayerHitbox(current, playerHitbox));
+    }, [playerHitbox, commitWorld]);
+
+    // Explain the collision map when debugging it
+    useEffect(() => {
+        if (!mapData || tiles.length === 0 || !showCollisionDebug) return;
+
+        const tileLayerInstances = (mapData.layers as EditorLayer[])
+            .filter(layer => layer.kind === 'tile')
+            .flatMap(layer => layer.tiles);
 
         // Create a lookup map for tiles by ID
         const tileById: Record<string, any> = {};
@@ -309,17 +523,15 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             tileDebugInfo.push({ id: tile.id, name: tile.name, is_solid: tile.is_solid });
         }
 
-        // Log tile solid status as a table (only when debug is enabled)
-        if (showCollisionDebug) {
-            console.log('=== TILE SOLID STATUS ===');
-            console.table(tileDebugInfo);
-        }
+        // Log tile solid status as a table
+        console.log('=== TILE SOLID STATUS ===');
+        console.table(tileDebugInfo);
 
         // Check each tile instance on the map
         const solidPositions: { x: number, y: number, tileId: string, name: string }[] = [];
         const orphanInstances: { x: number, y: number, tileId: string }[] = [];
 
-        for (const instance of mapData.tile_instances) {
+        for (const instance of tileLayerInstances) {
             const tile = tileById[instance.tileId];
             if (!tile) {
                 // Tile instance references unknown tile ID
@@ -327,63 +539,45 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                 continue;
             }
             if (tile?.is_solid) {
-                // Add this grid position to collision map
-                newCollisionMap.add(`${instance.x},${instance.y}`);
                 solidPositions.push({ x: instance.x, y: instance.y, tileId: instance.tileId, name: tile.name });
             }
         }
 
-        // Log solid tile positions as a table (only when debug is enabled)
-        if (showCollisionDebug) {
-            console.log('=== SOLID TILE POSITIONS ===');
-            console.table(solidPositions);
-        }
+        // Log solid tile positions as a table
+        console.log('=== SOLID TILE POSITIONS ===');
+        console.table(solidPositions);
 
-        // Log orphan instances (if any, and only when debug is enabled)
-        if (showCollisionDebug && orphanInstances.length > 0) {
+        // Log orphan instances, if any
+        if (orphanInstances.length > 0) {
             console.log('⚠️ === ORPHAN TILE INSTANCES (unknown tile IDs) ===');
             console.table(orphanInstances);
         }
 
-        setCollisionMap(newCollisionMap);
-        if (showCollisionDebug) {
-            console.log('Collision map built:', newCollisionMap.size, 'solid tiles out of', mapData.tile_instances.length, 'total instances', 'orphans:', orphanInstances.length);
-        }
-    }, [mapData, tiles, showCollisionDebug]);
+        console.log('Collision map built:', collisionMap.size, 'solid cells from', tileLayerInstances.length, 'tile instances', 'orphans:', orphanInstances.length);
+    }, [mapData, tiles, collisionMap, showCollisionDebug]);
 
-    // Load tile images
+    // Pack the tiles this map uses into an atlas - the renderer draws every tile from it
     useEffect(() => {
-        if (!actor || tiles.length === 0) return;
-
-        const loadImages = async () => {
-            const newImages: Record<string, HTMLImageElement> = {};
+        if (!actor || !mapData) return;
 
-            for (const tile of tiles) {
-                if (tileImages[tile.id] || !tile.blob_id) continue;
-
-                try {
-                    const result = await (actor as any).getTileImage(tile.id);
-                    if (Array.isArray(result) && result.length > 0) {
-                        const blobData = result[0];
-                        const blob = new Blob([new Uint8Array(blobData)], { type: 'image/png' });
-                        const url = URL.createObjectURL(blob);
-                        const img = new Image();
-                        img.src = url;
-                        await new Promise((resolve) => { img.onload = resolve; });
-                        newImages[tile.id] = img;
-                    }
-                } catch (err) {
-                    console.error(`Failed to load tile ${tile.id}:`, err);
-                }
-            }
+        let cancelled = false;
+        const buildAtlas = async () => {
+            const tileIds = new Set<string>();
+            (mapData.layers as EditorLayer[]).forEach((layer) => {
+                if (layer.kind === 'tile') layer.tiles.forEach(t => tileIds.add(t.tileId));
+            });
 
-            if (Object.keys(newImages).length > 0) {
-                setTileImages((prev: Record<string, HTMLImageElement>) => ({ ...prev, ...newImages }));
-            }
+            const sprites = await loadTileSprites(Array.from(tileIds), async (tileId) => {
+                const result = await actor.getTileImage(tileId);
+                return result[0] ? new Uint8Array(result[0]) : null;
+            });
+            const atlas = await createAtlasLookup(packAtlas(sprites));
+            if (!cancelled) setTileAtlas(atlas);
         };
 
-        loadImages();
-    }, [tiles, actor]);
+        buildAtlas().catch((err) => console.error('Failed to build tile atlas:', err));
+        return () => { cancelled = true; };
+    }, [mapData, actor]);
 
     // Load object images
     useEffect(() => {
@@ -419,176 +613,310 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         loadImages();
     }, [objects, actor]);
 
-    // Handle NPC interaction when E key is pressed
-    const handleNPCInteraction = useCallback((choiceIndex?: number) => {
-        // If already in dialogue, handle progression
-        if (dialogueState) {
-            const npcIndex = npcs.findIndex((n: NPC) => n.id === dialogueState.npcId);
-            if (npcIndex === -1) {
-                setDialogueState(null);
-                return;
-            }
-
-            const npc = npcs[npcIndex];
-            const currentLine = dialogueState.script.lines[dialogueState.currentLineIndex];
-
-            // If current line has choices and choiceIndex provided, handle choice
-            if (currentLine.choices && currentLine.choices.length > 0) {
-                if (choiceIndex !== undefined && choiceIndex < currentLine.choices.length) {
-                    const choice = currentLine.choices[choiceIndex];
-                    const nextIndex = choice.nextLineIndex ?? dialogueState.currentLineIndex + 1;
-
-                    // Check for quest acceptance (choice 0 typically = accept)
-                    const interactionModule = getModule(npc, 'interaction');
-                    if (interactionModule?.type === 'quest' && choiceIndex === 0) {
-                        const questModule = interactionModule as QuestInteractionModule;
-                        const currentQuestState = questStates[questModule.questId];
-                        if (!currentQuestState || currentQuestState === 'available') {
-                            setQuestStates((prev: Record<string, QuestState>) => ({ ...prev, [questModule.questId]: 'active' }));
-                            console.log(`🎯 Quest accepted: ${questModule.questId}`);
-                        }
-                    }
+    // Floating numbers for damage dealt, positioned in world pixels above the target
+    const spawnDamageNumbers = useCallback((hits: Omit<DamageNumber, 'id' | 'createdAt'>[], now: number) => {
+        if (hits.length === 0) return;
+        const spawned = hits.map((hit) => ({ ...hit, id: ++damageNumberIdRef.current, createdAt: now }));
+        setDamageNumbers((prev: DamageNumber[]) => [
+            ...prev.filter((n: DamageNumber) => isDamageNumberShown(n, now)),
+            ...spawned,
+        ]);
+    }, []);
 
-                    if (nextIndex >= dialogueState.script.lines.length) {
-                        // End dialogue
-                        const updatedNpc = endInteraction(npc);
-                        const newNpcs = [...npcs];
-                        newNpcs[npcIndex] = updatedNpc;
-                        setNpcs(newNpcs);
-                        setDialogueState(null);
-                        console.log('✅ Dialogue ended via choice');
-                    } else {
-                        setDialogueState({ ...dialogueState, currentLineIndex: nextIndex });
-                        console.log(`➡️ Choice selected, jumping to line ${nextIndex}`);
-                    }
-                }
-                return; // Choices require explicit selection, not E to continue
-            }
+    // Fade out, then load the warp's target map; a recording in progress is saved, as replays cover one map
+    const startWarp = useCallback((warp: MapWarp) => {
+        if (warpRef.current) return;
+        warpRef.current = warp;
+        keysPressed.current.clear();
+
+        const recorder = recorderRef.current;
+        if (recorder) {
+            recorderRef.current = null;
+            setIsRecording(false);
+            downloadReplay(recorder.replay);
+            toast('Recording saved before leaving the map');
+        }
 
-            // No choices - E advances to next line (or ends if isEnding)
-            if (currentLine.isEnding) {
-                // This line is marked as ending - close dialogue
-                const updatedNpc = endInteraction(npc);
-                const newNpcs = [...npcs];
-                newNpcs[npcIndex] = updatedNpc;
-                setNpcs(newNpcs);
-                setDialogueState(null);
-                console.log('✅ Dialogue ended (isEnding flag)');
-                return;
-            }
+        setFade({ opacity: 1, ms: warp.fadeMs });
+        window.setTimeout(() => {
+            setCurrentMapId(warp.targetMapId);
+            setArrivingWarp(warp);
+        }, warp.fadeMs);
+    }, []);
 
-            const nextIndex = dialogueState.currentLineIndex + 1;
-            if (nextIndex >= dialogueState.script.lines.length) {
-                // End dialogue
-                const updatedNpc = endInteraction(npc);
-                const newNpcs = [...npcs];
-                newNpcs[npcIndex] = updatedNpc;
-                setNpcs(newNpcs);
-                setDialogueState(null);
-                console.log('✅ Dialogue completed');
-            } else {
-                setDialogueState({ ...dialogueState, currentLineIndex: nextIndex });
-                console.log(`➡️ Advanced to line ${nextIndex}`);
+    // Show what happened in the world: toasts, damage numbers, shop and crafting windows, warps
+    const handleGameEvents = useCallback((events: GameEvent[], current: GameWorld) => {
+        const notices: QuestNotice[] = [];
+        const numbers: Omit<DamageNumber, 'id' | 'createdAt'>[] = [];
+        const { position } = current.player;
+
+        for (const event of events) {
+            switch (event.type) {
+                case 'quest':
+                    notices.push(event.notice);
+                    break;
+                case 'pickup':
+                    toast(`Picked up ${event.name}`);
+                    break;
+                case 'inventory_full':
+                    toast.error('Inventory full', { description: `No room for ${event.name}` });
+                    break;
+                case 'npc_hit':
+                    numbers.push({ x: event.position.x * TILE_SIZE + TILE_SIZE / 2, y: event.position.y * TILE_SIZE, amount: event.damage, target: 'npc' });
+                    break;
+                case 'npc_defeated':
+                    toast(`Defeated ${event.name}`);
+                    break;
+                case 'player_hit':
+                    numbers.push({ x: position.x + TILE_SIZE / 2, y: position.y, amount: event.damage, target: 'player' });
+                    break;
+                case 'player_defeated':
+                    toast.error('You were defeated');
+                    break;
+                case 'npc_response':
+                    toast(`${event.name}: ${event.text}`);
+                    break;
+                case 'open_shop': {
+                    const shop = shops[event.shopId];
+                    if (!shop) break;
+                    keysPressed.current.clear();
+                    setShopSession({ shopId: shop.id, npcId: event.npcId, tab: 'buy', index: 0 });
+                    break;
+                }
+                case 'open_crafting':
+                    keysPressed.current.clear();
+                    setCraftingSession({ npcId: event.npcId, npcName: event.npcName, station: event.station, index: 0 });
+                    break;
+                case 'bought':
+                    toast(`Bought ${event.name} for ${event.price} gold`);
+                    break;
+                case 'sold':
+                    toast(`Sold ${event.name} for ${event.price} gold`);
+                    break;
+                case 'crafted':
+                    toast.success(`Crafted ${event.name}`);
+                    break;
+                case 'action_failed':
+                    toast.error(event.reason);
+                    break;
+                case 'dialogue_action':
+                    console.log('🎬 Dialogue action:', event.action);
+                    break;
+                case 'warp':
+                    startWarp(event.warp);
+                    break;
             }
-            return;
         }
 
-        // Not in dialogue - check for nearby NPC
-        const INTERACTION_DISTANCE = TILE_SIZE * 1.5;
-        const playerCenterX = playerPos.x + TILE_SIZE / 2;
-        const playerCenterY = playerPos.y + TILE_SIZE / 2;
-
-        for (let i = 0; i < npcs.length; i++) {
-            const npc = npcs[i];
-            const npcPixelX = npc.position.x * TILE_SIZE + TILE_SIZE / 2;
-            const npcPixelY = npc.position.y * TILE_SIZE + TILE_SIZE / 2;
-
-            const distance = Math.sqrt(
-                Math.pow(playerCenterX - npcPixelX, 2) +
-                Math.pow(playerCenterY - npcPixelY, 2)
-            );
-
-            if (distance <= INTERACTION_DISTANCE) {
-                console.log(`🎯 Starting interaction with NPC: ${npc.metadata.name}`);
-
-                // Get interaction module
-                const interactionModule = getModule(npc, 'interaction');
+        spawnDamageNumbers(numbers, gameTime(current));
+        showQuestNotices(notices);
+    }, [shops, spawnDamageNumbers, startWarp]);
+
+    // Run a world update from a key press and show its events
+    const applyUpdate = useCallback((update: (current: GameWorld) => GameUpdate) => {
+        const current = worldRef.current;
+        if (!current) return;
+        const result = update(current);
+        commitWorld(result.world);
+        handleGameEvents(result.events, result.world);
+    }, [commitWorld, handleGameEvents]);
+
+    // Key presses go through the replay actions, so a recording plays back the same way
+    const performAction = useCallback((action: ReplayAction) => {
+        if (playbackRef.current || warpRef.current) return;
+        applyUpdate((current: GameWorld) => applyReplayAction(current, content, action));
+        if (recorderRef.current) recordAction(recorderRef.current, action);
+    }, [applyUpdate, content]);
 
-                // Handle quest module
-                if (interactionModule?.type === 'quest') {
-                    const questModule = interactionModule as QuestInteractionModule;
-                    const currentQuestState = questStates[questModule.questId] || 'available';
-
-                    // Pick dialogue based on quest state
-                    let script;
-                    switch (currentQuestState) {
-                        case 'active':
-                            script = questModule.dialogueActive;
-                            break;
-                        case 'completed':
-                        case 'turned_in':
-                            script = questModule.dialogueComplete;
-                            break;
-                        default: // 'available'
-                            script = questModule.dialogueAvailable;
-                            break;
-                    }
-
-                    const newNpcs = [...npcs];
-                    newNpcs[i] = { ...npc, state: 'interacting' };
-                    setNpcs(newNpcs);
-                    setDialogueState({
-                        npcId: npc.id,
-                        script: script,
-                        currentLineIndex: 0
-                    });
-                    console.log(`📜 Started quest dialogue (state: ${currentQuestState})`);
-                    return;
-                }
+    // Handle NPC interaction when E key is pressed
+    const handleNPCInteraction = useCallback((choiceIndex?: number) => {
+        performAction({ type: 'interact', choice: choiceIndex });
+    }, [performAction]);
+
+    // Swing at whatever is in front of the player's hitbox
+    const handleAttack = useCallback(() => {
+        performAction({ type: 'attack' });
+    }, [performAction]);
+
+    // What the open shop offers on the current tab
+    const activeShop = shopSession ? shops[shopSession.shopId] : undefined;
+    const activeShopState = shopSession ? world?.shops[shopSession.shopId] : undefined;
+    const shopOffers = useMemo(() => {
+        if (!shopSession || !activeShop || !activeShopState) return [];
+        return shopSession.tab === 'buy'
+            ? shopBuyOffers(activeShop, activeShopState, itemCatalog)
+            : shopSellOffers(activeShop, dialogueWorld, itemCatalog);
+    }, [shopSession, activeShop, activeShopState, dialogueWorld, itemCatalog]);
+    const shopIndex = Math.max(0, Math.min(shopSession?.index ?? 0, shopOffers.length - 1));
+
+    const closeShop = useCallback(() => {
+        if (!shopSession) return;
+        performAction({ type: 'end_interaction', npcId: shopSession.npcId });
+        setShopSession(null);
+    }, [shopSession, performAction]);
+
+    // Buy or sell one of the selected item
+    const tradeSelected = useCallback(() => {
+        const offer = shopOffers[shopIndex];
+        if (!shopSession || !offer) return;
+        performAction({ type: shopSession.tab, shopId: shopSession.shopId, itemId: offer.itemId });
+    }, [shopSession, shopOffers, shopIndex, performAction]);
+
+    // Keys while the shop is open: select, switch tab, trade, leave
+    const handleShopKey = useCallback((key: string) => {
+        const select = (delta: number) => setShopSession((prev) => prev && ({
+            ...prev,
+            index: Math.max(0, Math.min(shopIndex + delta, shopOffers.length - 1)),
+        }));
+        const switchTab = () => setShopSession((prev) => prev && ({ ...prev, tab: prev.tab === 'buy' ? 'sell' : 'buy', index: 0 }));
+
+        switch (key) {
+            case 'ArrowUp': case 'w': case 'W':
+                select(-1);
+                break;
+            case 'ArrowDown': case 's': case 'S':
+                select(1);
+                break;
+            case 'ArrowLeft': case 'ArrowRight': case 'a': case 'A': case 'd': case 'D': case 'Tab':
+                switchTab();
+                break;
+            case 'Enter': case ' ': case 'e': case 'E':
+                tradeSelected();
+                break;
+            case 'Escape':
+                closeShop();
+                break;
+        }
+    }, [shopIndex, shopOffers.length, tradeSelected, closeShop]);
+
+    // Recipes at the open crafting station, craftable first
+    const craftingStatuses = useMemo(() => craftingSession
+        ? stationRecipeStatuses(dialogueWorld.inventory, recipes, craftingSession.station)
+        : [], [craftingSession, dialogueWorld.inventory, recipes]);
+    const craftingIndex = Math.max(0, Math.min(craftingSession?.index ?? 0, craftingStatuses.length - 1));
+
+    // Leaving the station does not cancel a job in progress
+    const closeCrafting = useCallback(() => {
+        if (!craftingSession) return;
+        performAction({ type: 'end_interaction', npcId: craftingSession.npcId });
+        setCraftingSession(null);
+    }, [craftingSession, performAction]);
+
+    const craftSelected = useCallback(() => {
+        const status = craftingStatuses[craftingIndex];
+        if (!status) return;
+        performAction({ type: 'craft_start', recipeId: status.recipe.id });
+    }, [craftingStatuses, craftingIndex, performAction]);
+
+    const handleCraftingKey = useCallback((key: string) => {
+        const select = (delta: number) => setCraftingSession((prev) => prev && ({
+            ...prev,
+            index: Math.max(0, Math.min(craftingIndex + delta, craftingStatuses.length - 1)),
+        }));
+
+        switch (key) {
+            case 'ArrowUp': case 'w': case 'W':
+                select(-1);
+                break;
+            case 'ArrowDown': case 's': case 'S':
+                select(1);
+                break;
+            case 'Enter': case ' ': case 'e': case 'E':
+                craftSelected();
+                break;
+            case 'Escape':
+                closeCrafting();
+                break;
+        }
+    }, [craftingIndex, craftingStatuses.length, craftSelected, closeCrafting]);
 
-                // Handle dialogue module
-                const dialogueModule = interactionModule as DialogueInteractionModule | undefined;
-                if (dialogueModule?.dialogueScript) {
-                    // Multi-line script
-                    const newNpcs = [...npcs];
-                    newNpcs[i] = { ...npc, state: 'interacting' };
-                    setNpcs(newNpcs);
-                    setDialogueState({
-                        npcId: npc.id,
-                        script: dialogueModule.dialogueScript,
-                        currentLineIndex: 0
-                    });
-                    console.log('📜 Started scripted dialogue');
+    // Hand over the outputs once the world's clock reaches the job's end; a replay has this recorded.
+    // Without room the job waits, and is tried again whenever the inventory changes
+    const craftingDue = !!craftingJob && now >= craftingJob.finishesAt;
+    useEffect(() => {
+        if (!craftingDue) return;
+        performAction({ type: 'craft_finish' });
+    }, [craftingDue, dialogueWorld.inventory, performAction]);
+
+    // Start recording from the current world, or stop and save the replay
+    const toggleRecording = useCallback(() => {
+        const recorder = recorderRef.current;
+        if (recorder) {
+            recorderRef.current = null;
+            setIsRecording(false);
+            downloadReplay(recorder.replay);
+            return;
+        }
 
-                    // Check if talking to Old Man completes a quest
-                    if (npc.metadata.name === 'Old Man' && questStates['tutorial_speak'] === 'active') {
-                        setQuestStates((prev: Record<string, QuestState>) => ({ ...prev, 'tutorial_speak': 'completed' }));
-                        console.log('🎯 Quest objective complete: talked to Old Man');
-                    }
-                } else if (dialogueModule?.dialogueText) {
-                    // Simple legacy dialogue - wrap in script
-                    const newNpcs = [...npcs];
-                    newNpcs[i] = { ...npc, state: 'interacting' };
-                    setNpcs(newNpcs);
-                    setDialogueState({
-                        npcId: npc.id,
-                        script: { lines: [{ speaker: npc.metadata.name, text: dialogueModule.dialogueText }] },
-                        currentLineIndex: 0
-                    });
-                    console.log('💬 Started simple dialogue');
-                } else {
-                    console.log('❌ NPC has no dialogue');
-                }
-                return;
-            }
+        const current = worldRef.current;
+        if (!current || !mapData) return;
+        recorderRef.current = startRecording(current, { mapRevision: String(mapData.updated_at ?? ''), characterId, moveSpeed });
+        setIsRecording(true);
+        toast('Recording input');
+    }, [mapData, characterId, moveSpeed]);
+
+    // Play a replay file in place of live play
+    const handleReplaySelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        const current = worldRef.current;
+        if (!file || !current || !gameMap || !mapData) return;
+
+        const result = parseReplay(await file.text());
+        if ('err' in result) {
+            toast.error('Could not load replay', { description: result.err.message });
+            return;
+        }
+        const replay = result.ok;
+        if (replay.mapId !== current.map.id) {
+            toast.error('Could not load replay', { description: 'It was recorded on another map' });
+            return;
+        }
+        if (replay.mapRevision !== String(mapData.updated_at ?? '')) {
+            toast('The map has changed since this replay was recorded', { description: 'Playback may not match the recording' });
         }
 
-        console.log('❌ No NPC in range');
-    }, [npcs, playerPos, dialogueState, questStates]);
+        keysPressed.current.clear();
+        liveWorldRef.current = current;
+        const started = startPlayback(replay, gameMap, current);
+        playbackRef.current = started;
+        setPlayback(started);
+        setIsPlaybackPaused(false);
+        commitWorld(started.world);
+    }, [gameMap, mapData, commitWorld]);
+
+    const seekReplay = useCallback((frame: number) => {
+        if (!playbackRef.current) return;
+        const sought = seekPlayback(playbackRef.current, content, frame);
+        playbackRef.current = sought;
+        setPlayback(sought);
+        commitWorld(sought.world);
+    }, [content, commitWorld]);
+
+    // Back to the game as it was before playback
+    const exitPlayback = useCallback(() => {
+        playbackRef.current = null;
+        setPlayback(null);
+        if (liveWorldRef.current) commitWorld(liveWorldRef.current);
+        liveWorldRef.current = null;
+    }, [commitWorld]);
+
+    const playbackDuration = useMemo(() => playback ? replayDuration(playback.replay) : 0, [playback?.replay]);
 
     // Keyboard handlers
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            // While trading, keys drive the shop instead of the player
+            if (shopSession) {
+                e.preventDefault();
+                handleShopKey(e.key);
+                return;
+            }
+            if (craftingSession) {
+                e.preventDefault();
+                handleCraftingKey(e.key);
+                return;
+            }
             if (['w', 'a', 's', 'd', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
                 e.preventDefault();
                 keysPressed.current.add(e.key.toLowerCase());
@@ -600,10 +928,21 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             if (e.key === 'e' || e.key === 'E') {
                 handleNPCInteraction();
             }
+            // Space attacks in the direction the player faces
+            if (e.key === ' ') {
+                e.preventDefault();
+                handleAttack();
+            }
             // Number keys for dialogue choices
-            if (e.key === '1') handleNPCInteraction(0);
-            if (e.key === '2') handleNPCInteraction(1);
-            if (e.key === '3') handleNPCInteraction(2);
+            if (/^[1-9]$/.test(e.key)) handleNPCInteraction(Number(e.key) - 1);
+            // Q toggles the quest log
+            if (e.key === 'q' || e.key === 'Q') {
+                setShowQuestLog((prev: boolean) => !prev);
+            }
+            // I toggles the inventory
+            if (e.key === 'i' || e.key === 'I') {
+                setShowInventory((prev: boolean) => !prev);
+            }
         };
 
         const handleKeyUp = (e: KeyboardEvent) => {
@@ -617,48 +956,26 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [handleNPCInteraction]);
-
-    // NPC update loop - runs every frame for movement and state triggers
-    useEffect(() => {
-        if (isPaused || npcs.length === 0) return;
+    }, [handleNPCInteraction, shopSession, handleShopKey, craftingSession, handleCraftingKey, handleAttack]);
 
-        const updateInterval = setInterval(() => {
-            // Get player position in tiles
-            const playerTileX = Math.floor(playerPos.x / TILE_SIZE);
-            const playerTileY = Math.floor(playerPos.y / TILE_SIZE);
-
-            // Update all NPCs with player context
-            const updatedNpcs = npcs.map((npc: NPC) =>
-                updateNPC(npc, 16, { x: playerTileX, y: playerTileY })
-            );
-
-            // Only update state if something changed
-            const hasChanges = updatedNpcs.some((npc: NPC, i: number) =>
-                npc.position.x !== npcs[i].position.x ||
-                npc.position.y !== npcs[i].position.y ||
-                npc.state !== npcs[i].state
-            );
-
-            if (hasChanges) {
-                setNpcs(updatedNpcs);
+    // Get animation for direction; attack animations only play when asked for
+    const getAnimationForDirection = useCallback((direction: string, sheet: SpriteSheet, actionType?: string) => {
+        const directionOf = (anim: SpriteSheet['animations'][number]) => {
+            if (Array.isArray(anim.direction) && anim.direction.length > 0 && anim.direction[0]) {
+                const dirObj = anim.direction[0] as Record<string, unknown>;
+                return Object.keys(dirObj)[0] || null;
             }
-        }, 100); // 10Hz update rate for NPCs
+            return null;
+        };
 
-        return () => clearInterval(updateInterval);
-    }, [isPaused, npcs, playerPos]);
+        if (actionType) {
+            const action = sheet.animations.find((anim) => anim.action_type === actionType && directionOf(anim) === direction);
+            if (action) return action;
+        }
 
-    // Get animation for direction
-    const getAnimationForDirection = useCallback((direction: string, sheet: SpriteSheet) => {
         // Find animation matching direction
         for (const anim of sheet.animations) {
-            let animDir: string | null = null;
-            if (Array.isArray(anim.direction) && anim.direction.length > 0 && anim.direction[0]) {
-                const dirObj = anim.direction[0] as Record<string, unknown>;
-                animDir = Object.keys(dirObj)[0] || null;
-            }
-
-            if (animDir === direction) {
+            if (anim.action_type !== 'attack' && directionOf(anim) === direction) {
                 return anim;
             }
         }
@@ -671,110 +988,65 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         animationFPSRef.current = animationFPS;
     }, [animationFPS]);
 
-    // Game loop
+    // Latest inputs for the game loop, so it keeps running while they change
+    const gameLoopInputRef = useRef({ content, moveSpeed, zoom, handleGameEvents, isPlaybackPaused, playbackSpeed });
+    gameLoopInputRef.current = { content, moveSpeed, zoom, handleGameEvents, isPlaybackPaused, playbackSpeed };
+
+    // Game loop - step the world with the keys held down (or the replay), then follow the player
+    const hasWorld = world !== null;
     useEffect(() => {
-        if (!mapData || isPaused) return;
+        if (!hasWorld || isPaused) return;
 
         let animationId: number;
 
         const gameLoop = (time: number) => {
             const timing = animationTimingRef.current;
-            const deltaTime = time - timing.lastTime;
+            const deltaTime = Math.min(time - timing.lastTime, MAX_FRAME_MS);
             timing.lastTime = time;
             timing.frameTime += deltaTime;
 
-            // Movement
-            let dx = 0, dy = 0;
-            let moving = false;
-            let newDirection = playerDirection;
-
-            const keys = keysPressed.current;
-
-            if (keys.has('w') || keys.has('arrowup')) {
-                dy = -moveSpeed;
-                newDirection = 'up';
-                moving = true;
-            }
-            if (keys.has('s') || keys.has('arrowdown')) {
-                dy = moveSpeed;
-                newDirection = 'down';
-                moving = true;
-            }
-            if (keys.has('a') || keys.has('arrowleft')) {
-                dx = -moveSpeed;
-                newDirection = 'left';
-                moving = true;
-            }
-            if (keys.has('d') || keys.has('arrowright')) {
-                dx = moveSpeed;
-                newDirection = 'right';
-                moving = true;
+            const current = worldRef.current;
+            const { content, moveSpeed, zoom, handleGameEvents, isPlaybackPaused, playbackSpeed } = gameLoopInputRef.current;
+            let next = current;
+            if (playbackRef.current) {
+                // Replays never open shop or crafting windows, or follow warps
+                if (!isPlaybackPaused && !isPlaybackDone(playbackRef.current)) {
+                    const result = advancePlayback(playbackRef.current, content, deltaTime * playbackSpeed);
+                    playbackRef.current = result.playback;
+                    setPlayback(result.playback);
+                    next = result.playback.world;
+                    commitWorld(next);
+                    const events = result.events.filter((event) => event.type !== 'open_shop' && event.type !== 'open_crafting' && event.type !== 'warp');
+                    if (events.length > 0) handleGameEvents(events, next);
+                }
+            } else if (current && !warpRef.current) {
+                const keys = keysPressed.current;
+                const input = {
+                    up: keys.has('w') || keys.has('arrowup'),
+                    down: keys.has('s') || keys.has('arrowdown'),
+                    left: keys.has('a') || keys.has('arrowleft'),
+                    right: keys.has('d') || keys.has('arrowright'),
+                };
+                const result = stepGameWorld(current, content, deltaTime, input, { moveSpeed });
+                if (recorderRef.current) recordFrame(recorderRef.current, deltaTime, input, moveSpeed);
+                next = result.world;
+                commitWorld(next);
+                if (result.events.length > 0) handleGameEvents(result.events, next);
             }
 
-            if (moving) {
-                setPlayerDirection(newDirection);
-                setIsMoving(true);
-
-                // Apply movement with bounds and collision check
-                setPlayerPos((prev: { x: number; y: number }) => {
-                    const newX = Math.max(0, Math.min(prev.x + dx, (mapData.width - 1) * TILE_SIZE));
-                    const newY = Math.max(0, Math.min(prev.y + dy, (mapData.height - 1) * TILE_SIZE));
-
-                    // Get hitbox from sprite sheet or use defaults
-                    let hitbox = DEFAULT_HITBOX;
-                    if (spriteSheet?.hitbox && Array.isArray(spriteSheet.hitbox) && spriteSheet.hitbox.length > 0) {
-                        const sheetHitbox = spriteSheet.hitbox[0];
-                        if (sheetHitbox) {
-                            // Get sprite frame dimensions for scaling
-                            const frameWidth = Number(spriteSheet.frame_width) || TILE_SIZE;
-                            const frameHeight = Number(spriteSheet.frame_height) || TILE_SIZE;
-
-                            // Scale hitbox from sprite frame coordinates to TILE_SIZE
-                            // The sprite is drawn scaled from frameWidth×frameHeight to TILE_SIZE×TILE_SIZE
-                            const scaleX = TILE_SIZE / frameWidth;
-                            const scaleY = TILE_SIZE / frameHeight;
-
-                            hitbox = {
-                                offsetX: Number(sheetHitbox.offset_x) * scaleX,
-                                offsetY: Number(sheetHitbox.offset_y) * scaleY,
-                                width: Number(sheetHitbox.width) * scaleX,
-                                height: Number(sheetHitbox.height) * scaleY
-                            };
-                        }
-                    }
-
-                    // Calculate hitbox corners in world coordinates
-                    const hitboxLeft = newX + hitbox.offsetX;
-                    const hitboxTop = newY + hitbox.offsetY;
-                    const hitboxRight = hitboxLeft + hitbox.width - 1;
-                    const hitboxBottom = hitboxTop + hitbox.height - 1;
-
-                    // Check all tiles the hitbox overlaps - not just corners
-                    // This prevents slipping through walls when hitbox spans multiple tiles
-                    const tileStartX = Math.floor(hitboxLeft / TILE_SIZE);
-                    const tileEndX = Math.floor(hitboxRight / TILE_SIZE);
-                    const tileStartY = Math.floor(hitboxTop / TILE_SIZE);
-                    const tileEndY = Math.floor(hitboxBottom / TILE_SIZE);
-
-                    // Check every tile the hitbox touches
-                    for (let tileX = tileStartX; tileX <= tileEndX; tileX++) {
-                        for (let tileY = tileStartY; tileY <= tileEndY; tileY++) {
-                            const collisionKey = `${tileX},${tileY}`;
-                            if (collisionMap.has(collisionKey)) {
-                                // Debug: Log when collision is detected
-                                console.log('🛑 BLOCKED at tile:', collisionKey,
-                                    'playerPos:', Math.round(newX), Math.round(newY),
-                                    'hitbox:', Math.round(hitboxLeft), Math.round(hitboxTop), '->', Math.round(hitboxRight), Math.round(hitboxBottom),
-                                    'tiles:', tileStartX, tileStartY, '->', tileEndX, tileEndY);
-                                return prev; // Block movement
-                            }
-                        }
-                    }
-
-                    return { x: newX, y: newY };
-                });
-            } else {
-                setIsMoving(false);
+            if (next) {
+                // Update camera - account for zoom level
+                const canvas = canvasRef.current;
+                if (canvas) {
+                    // When zoomed, the visible area is smaller, so divide by zoom
+                    const viewWidth = canvas.width / zoom;
+                    const viewHeight = canvas.height / zoom;
+                    const { position } = next.player;
+                    setCamera({
+                        x: position.x - viewWidth / 2 + TILE_SIZE / 2,
+                        y: position.y - viewHeight / 2 + TILE_SIZE / 2
+                    });
+                }
             }
 
             // Animation frame update - use ref for current FPS value
@@ -784,25 +1056,13 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                 timing.frameTime = 0;
             }
 
-            // Update camera - account for zoom level
-            const canvas = canvasRef.current;
-            if (canvas) {
-                // When zoomed, the visible area is smaller, so divide by zoom
-                const viewWidth = canvas.width / zoom;
-                const viewHeight = canvas.height / zoom;
-                setCamera({
-                    x: playerPos.x - viewWidth / 2 + TILE_SIZE / 2,
-                    y: playerPos.y - viewHeight / 2 + TILE_SIZE / 2
-                });
-            }
-
             animationId = requestAnimationFrame(gameLoop);
         };
 
         animationId = requestAnimationFrame(gameLoop);
 
         return () => cancelAnimationFrame(animationId);
-    }, [mapData, isPaused, playerPos, playerDirection, moveSpeed, zoom, collisionMap]);
+    }, [hasWorld, isPaused, commitWorld]);
 
     // Render
     useEffect(() => {
@@ -821,28 +1081,33 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         ctx.scale(zoom, zoom);
         ctx.translate(-camera.x, -camera.y);
 
-        // Draw tiles
-        mapData.tile_instances.forEach((instance: any) => {
-            const img = tileImages[instance.tileId];
-            const x = instance.x * TILE_SIZE;
-            const y = instance.y * TILE_SIZE;
-
-            if (img) {
-                ctx.drawImage(img, x, y, TILE_SIZE, TILE_SIZE);
-            } else {
-                // Use smart color based on tile name
-                const tileId = instance.tileId.toLowerCase();
-                let color = TILE_COLOR_MAP['default'];
-                for (const [key, value] of Object.entries(TILE_COLOR_MAP)) {
-                    if (tileId.includes(key)) {
-                        color = value;
-                        break;
+        // Tile layers below the object layer are drawn under entities, the rest over them
+        const layers = mapData.layers as EditorLayer[];
+        const objectLayerIndex = layers.findIndex(layer => layer.kind === 'object');
+        const drawTileLayer = (layer: EditorLayer) => {
+            if (!layer.visible || layer.kind !== 'tile') return;
+            layer.tiles.forEach((instance) => {
+                const x = instance.x * TILE_SIZE;
+                const y = instance.y * TILE_SIZE;
+
+                if (!tileAtlas || !drawAtlasFrame(ctx, tileAtlas, instance.tileId, x, y, TILE_SIZE, TILE_SIZE)) {
+                    // Use smart color based on tile name
+                    const tileId = instance.tileId.toLowerCase();
+                    let color = TILE_COLOR_MAP['default'];
+                    for (const [key, value] of Object.entries(TILE_COLOR_MAP)) {
+                        if (tileId.includes(key)) {
+                            color = value;
+                            break;
+                        }
                     }
+                    ctx.fillStyle = color;
+                    ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
                 }
-                ctx.fillStyle = color;
-                ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
-            }
-        });
+            });
+        };
+
+        // Draw tiles
+        layers.slice(0, objectLayerIndex).forEach(drawTileLayer);
 
         // DEBUG: Draw collision map overlay
         if (showCollisionDebug) {
@@ -863,8 +1128,14 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             });
         }
 
-        // Draw objects
-        mapData.object_instances.forEach((instance: any) => {
+        // Draw objects (skipped if the object layer is hidden)
+        // Pickups already taken are no longer drawn
+        const takenPickups = new Set(findMapPickups(mapData.object_instances, itemCatalog)
+            .filter(pickup => collectedPickups.has(`${mapData.id}:${pickup.key}`))
+            .map(pickup => pickup.key));
+        const objectInstances = layers[objectLayerIndex]?.visible === false ? [] : mapData.object_instances;
+        objectInstances.forEach((instance: any) => {
+            if (takenPickups.has(`${instance.objectId}@${instance.x},${instance.y}`)) return;
             const img = objectImages[instance.objectId];
             const x = instance.x * TILE_SIZE;
             const y = instance.y * TILE_SIZE;
@@ -895,6 +1166,18 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             ctx.arc(npcX + TILE_SIZE / 2, npcY + TILE_SIZE / 2, TILE_SIZE / 3, 0, Math.PI * 2);
             ctx.fill();
 
+            // Health bar once the NPC has been hurt or is fighting
+            const health = npcHealth(npc);
+            if (health && npc.state !== 'disabled' && (health.current < health.max || npc.state === 'combat')) {
+                const barWidth = TILE_SIZE * 0.8;
+                const barX = npcX + (TILE_SIZE - barWidth) / 2;
+                const barY = npcY + TILE_SIZE - 3;
+                ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+                ctx.fillRect(barX, barY, barWidth, 3);
+                ctx.fillStyle = '#ef4444';
+                ctx.fillRect(barX, barY, barWidth * (health.current / health.max), 3);
+            }
+
             // Draw NPC name and state above
             ctx.fillStyle = 'white';
             ctx.font = 'bold 10px sans-serif';
@@ -905,14 +1188,8 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             ctx.textAlign = 'left'; // Reset alignment
 
             // Draw interaction hint when player is near and can interact
-            const playerCenterX = playerPos.x + TILE_SIZE / 2;
-            const playerCenterY = playerPos.y + TILE_SIZE / 2;
-            const npcCenterX = npcX + TILE_SIZE / 2;
-            const npcCenterY = npcY + TILE_SIZE / 2;
-            const distance = Math.sqrt(Math.pow(playerCenterX - npcCenterX, 2) + Math.pow(playerCenterY - npcCenterY, 2));
-
             // Only show interaction prompt for idle/alert states (not combat/interacting)
-            if (distance <= TILE_SIZE * 1.5 && (npc.state === 'idle' || npc.state === 'alert')) {
+            if (world && canInteract(world, npc) && (npc.state === 'idle' || npc.state === 'alert')) {
                 ctx.fillStyle = '#22c55e'; // Green
                 ctx.font = 'bold 12px sans-serif';
                 ctx.textAlign = 'center';
@@ -921,9 +1198,20 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             }
         });
 
+        // Draw door hint when an object warp is in reach
+        const warp = world && !world.dialogue ? nearbyWarp(world) : undefined;
+        if (warp) {
+            ctx.fillStyle = '#22c55e'; // Green
+            ctx.font = 'bold 12px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText(`[E] ${warp.name}`, warp.x * TILE_SIZE + TILE_SIZE / 2, warp.y * TILE_SIZE - 4);
+            ctx.textAlign = 'left';
+        }
+
         // Draw character
         if (characterImage && spriteSheet) {
-            const animation = getAnimationForDirection(playerDirection, spriteSheet);
+            const attacking = playerCombat.attackingMs > 0;
+            const animation = getAnimationForDirection(playerDirection, spriteSheet, attacking ? 'attack' : undefined);
             const frameWidth = Number(spriteSheet.frame_width);
             const frameHeight = Number(spriteSheet.frame_height);
             const frameStart = animation ? Number(animation.frame_start) : 0;
@@ -931,7 +1219,10 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             const startX = animation?.start_x !== undefined ? Number(animation.start_x) : 0;
             const startY = animation?.start_y !== undefined ? Number(animation.start_y) : 0;
 
-            const frameIndex = isMoving ? (currentFrame % frameCount) : 0;
+            // The attack animation plays once over the attack's duration
+            const frameIndex = attacking
+                ? Math.min(frameCount - 1, Math.floor((1 - playerCombat.attackingMs / ATTACK_ANIMATION_MS) * frameCount))
+                : isMoving ? (currentFrame % frameCount) : 0;
             const actualFrame = frameStart + frameIndex;
 
             // Calculate frame position in sprite sheet
@@ -973,6 +1264,22 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             ctx.fill();
         }
 
+        // Overhead tile layers (above the object layer)
+        layers.slice(objectLayerIndex + 1).forEach(drawTileLayer);
+
+        // Damage numbers float up and fade out
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'center';
+        damageNumbers.forEach((n: DamageNumber) => {
+            if (!isDamageNumberShown(n, now)) return;
+            const t = (now - n.createdAt) / DAMAGE_NUMBER_MS;
+            ctx.globalAlpha = 1 - t;
+            ctx.fillStyle = n.target === 'player' ? '#f87171' : '#fde047';
+            ctx.fillText(`-${n.amount}`, n.x, n.y - t * 16);
+        });
+        ctx.globalAlpha = 1;
+        ctx.textAlign = 'left';
+
         ctx.restore();
 
         // Draw UI overlay
@@ -985,6 +1292,18 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         ctx.fillText(`Zoom: ${zoom}x | Speed: ${moveSpeed} | FPS: ${animationFPS}`, 20, 70);
         ctx.fillText('Press ESC to pause', 20, 90);
 
+        // Player health, with overshield shown after it
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(10, 100, 220, 24);
+        ctx.fillStyle = '#7f1d1d';
+        ctx.fillRect(16, 106, 208, 12);
+        ctx.fillStyle = '#ef4444';
+        ctx.fillRect(16, 106, 208 * (playerCombat.health / playerCombat.maxHealth), 12);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 10px sans-serif';
+        const shieldLabel = playerCombat.overshield > 0 ? ` +${playerCombat.overshield}` : '';
+        ctx.fillText(`HP ${playerCombat.health}/${playerCombat.maxHealth}${shieldLabel}`, 20, 116);
+
         if (isPaused) {
             ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
             ctx.fillRect(0, 0, canvas.width, canvas.height);
@@ -998,13 +1317,13 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
         }
 
         // Draw dialogue box if in dialogue
-        if (dialogueState) {
-            const currentLine = dialogueState.script.lines[dialogueState.currentLineIndex];
-            const hasChoices = currentLine.choices && currentLine.choices.length > 0;
+        const presented = world ? presentGameDialogue(world) : null;
+        if (presented) {
+            const hasChoices = presented.choices.length > 0;
 
             // Calculate box size based on content
             const boxWidth = 450;
-            const boxHeight = hasChoices ? 120 : 90;
+            const boxHeight = hasChoices ? 72 + presented.choices.length * 18 : 90;
             const boxX = (canvas.width - boxWidth) / 2;
             const boxY = canvas.height - boxHeight - 30;
 
@@ -1016,22 +1335,20 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
             ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
 
             // Speaker name
-            const speaker = currentLine.speaker || 'NPC';
             ctx.fillStyle = '#a78bfa'; // Purple for speaker
             ctx.font = 'bold 14px sans-serif';
             ctx.textAlign = 'left';
-            ctx.fillText(speaker, boxX + 15, boxY + 22);
+            ctx.fillText(presented.speaker, boxX + 15, boxY + 22);
 
             // Dialogue text
             ctx.fillStyle = '#fff';
             ctx.font = '14px sans-serif';
-            ctx.fillText(currentLine.text, boxX + 15, boxY + 45);
+            ctx.fillText(presented.text, boxX + 15, boxY + 45);
 
             if (hasChoices) {
-                // Draw choices
-                ctx.fillStyle = '#9ca3af';
+                // Draw choices, numbered by position among the visible ones
                 ctx.font = '12px sans-serif';
-                currentLine.choices!.forEach((choice: { text: string }, i: number) => {
+                presented.choices.forEach((choice, i: number) => {
                     const choiceY = boxY + 68 + i * 18;
                     ctx.fillStyle = '#22c55e'; // Green for key
                     ctx.fillText(`[${i + 1}]`, boxX + 15, choiceY);
@@ -1042,12 +1359,11 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                 // Show continue hint
                 ctx.fillStyle = '#9ca3af';
                 ctx.font = '12px sans-serif';
-                const isEnding = currentLine.isEnding || dialogueState.currentLineIndex >= dialogueState.script.lines.length - 1;
-                ctx.fillText(isEnding ? '[E] Close' : '[E] Continue', boxX + 15, boxY + 70);
+                ctx.fillText(presented.isLast ? '[E] Close' : '[E] Continue', boxX + 15, boxY + 70);
             }
         }
 
-    }, [mapData, camera, playerPos, playerDirection, currentFrame, isMoving, tileImages, objectImages, characterImage, spriteSheet, isPaused, selectedCharacter, zoom, moveSpeed, showCollisionDebug, showCharacterHitbox, npcs, dialogueState]);
+    }, [mapData, camera, playerPos, playerDirection, currentFrame, isMoving, tileAtlas, objectImages, characterImage, spriteSheet, isPaused, selectedCharacter, zoom, moveSpeed, showCollisionDebug, showCharacterHitbox, world, npcs, itemCatalog, collectedPickups, playerCombat, damageNumbers, now]);
 
     if (isMapLoading) {
         return <div className="flex items-center justify-center h-screen">Loading map...</div>;
@@ -1125,6 +1441,33 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
 
                 {/* Debug Toggle Buttons */}
                 <div className="flex items-center gap-2 ml-4">
+                    <Button
+                        variant={isRecording ? "destructive" : "outline"}
+                        size="sm"
+                        onClick={toggleRecording}
+                        disabled={!world || !!playback}
+                        title="Record input to a replay file"
+                    >
+                        {isRecording ? <Square className="h-4 w-4 mr-2" /> : <Circle className="h-4 w-4 mr-2" />}
+                        {isRecording ? 'Stop & Save' : 'Record'}
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayInputRef.current?.click()}
+                        disabled={!world || isRecording || !!playback || !!shopSession || !!craftingSession}
+                        title="Play back a replay file"
+                    >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Replay
+                    </Button>
+                    <input
+                        ref={replayInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleReplaySelected}
+                    />
                     <Button
                         variant={showCollisionDebug ? "default" : "outline"}
                         size="sm"
@@ -1133,6 +1476,24 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                     >
                         {showCollisionDebug ? '🟥 Tiles On' : '⬜ Tiles Off'}
                     </Button>
+                    <Button
+                        variant={showQuestLog ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setShowQuestLog((prev: boolean) => !prev)}
+                        title="Toggle quest log (Q)"
+                    >
+                        <ScrollText className="h-4 w-4 mr-2" />
+                        Quests
+                    </Button>
+                    <Button
+                        variant={showInventory ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setShowInventory((prev: boolean) => !prev)}
+                        title="Toggle inventory (I)"
+                    >
+                        <Backpack className="h-4 w-4 mr-2" />
+                        Inventory
+                    </Button>
                     <Button
                         variant={showCharacterHitbox ? "default" : "outline"}
                         size="sm"
@@ -1144,8 +1505,48 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                 </div>
             </div>
 
+            {/* Replay playback controls */}
+            {playback && (
+                <div className="flex items-center gap-4 px-4 py-2 border-b bg-muted/50">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsPlaybackPaused((p: boolean) => !p)}
+                    >
+                        {isPlaybackPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </Button>
+                    <Slider
+                        value={[playback.frame]}
+                        min={0}
+                        max={playback.replay.frames.length}
+                        step={1}
+                        onValueChange={(value: number[]) => seekReplay(value[0])}
+                        className="flex-1"
+                    />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                        Frame {playback.frame}/{playback.replay.frames.length} ({(playbackDuration / 1000).toFixed(1)}s)
+                    </span>
+                    <div className="flex items-center gap-1">
+                        {PLAYBACK_SPEEDS.map((speed: number) => (
+                            <Button
+                                key={speed}
+                                variant={playbackSpeed === speed ? "default" : "ghost"}
+                                size="sm"
+                                onClick={() => setPlaybackSpeed(speed)}
+                            >
+                                {speed}x
+                            </Button>
+                        ))}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={exitPlayback}>
+                        <X className="h-4 w-4 mr-2" />
+                        Exit Replay
+                    </Button>
+                </div>
+            )}
+
             {/* Canvas */}
-            <div className="flex-1 flex items-center justify-center bg-black">
+            <div className="relative flex-1 flex items-center justify-center bg-black">
                 <canvas
                     ref={canvasRef}
                     width={960}
@@ -1153,11 +1554,54 @@ export function GameTestView({ mapId, characterId, onBack }: GameTestViewProps)
                     className="border border-border"
                     style={{ imageRendering: 'pixelated' }}
                 />
+                {/* Warp fade */}
+                <div
+                    className="absolute inset-0 bg-black pointer-events-none"
+                    style={{ opacity: fade.opacity, transition: `opacity ${fade.ms}ms ease-in-out` }}
+                />
+                {showQuestLog && (
+                    <QuestLogOverlay
+                        entries={questLog(dialogueWorld, quests)}
+                        gold={dialogueWorld.gold}
+                        experience={dialogueWorld.experience}
+                    />
+                )}
+                {shopSession && activeShop && (
+                    <ShopOverlay
+                        shop={activeShop}
+                        tab={shopSession.tab}
+                        offers={shopOffers}
+                        selectedIndex={shopIndex}
+                        gold={dialogueWorld.gold}
+                        onSelect={(index: number) => setShopSession({ ...shopSession, index })}
+                        onTabChange={(tab: ShopTab) => setShopSession({ ...shopSession, tab, index: 0 })}
+                        onTrade={tradeSelected}
+                    />
+                )}
+                {craftingSession && (
+                    <CraftingOverlay
+                        npcName={craftingSession.npcName}
+                        statuses={craftingStatuses}
+                        selectedIndex={craftingIndex}
+                        inventory={dialogueWorld.inventory}
+                        catalog={itemCatalog}
+                        crafting={craftingJob ? { job: craftingJob, progress: craftProgress(craftingJob, now) } : null}
+                        onSelect={(index: number) => setCraftingSession({ ...craftingSession, index })}
+                        onCraft={craftSelected}
+                    />
+                )}
+                {showInventory && (
+                    <InventoryOverlay
+                        slots={inventorySlots(dialogueWorld.inventory, itemCatalog)}
+                        capacity={INVENTORY_SLOTS}
+                        gold={dialogueWorld.gold}
+                    />
+                )}
             </div>
 
             {/* Controls hint */}
             <div className="p-4 bg-card border-t text-center text-sm text-muted-foreground">
-                Use <kbd className="px-2 py-1 bg-muted rounded">W</kbd> <kbd className="px-2 py-1 bg-muted rounded">A</kbd> <kbd className="px-2 py-1 bg-muted rounded">S</kbd> <kbd className="px-2 py-1 bg-muted rounded">D</kbd> or Arrow Keys to move
+                Use <kbd className="px-2 py-1 bg-muted rounded">W</kbd> <kbd className="px-2 py-1 bg-muted rounded">A</kbd> <kbd className="px-2 py-1 bg-muted rounded">S</kbd> <kbd className="px-2 py-1 bg-muted rounded">D</kbd> or Arrow Keys to move, <kbd className="px-2 py-1 bg-muted rounded">E</kbd> to talk, <kbd className="px-2 py-1 bg-muted rounded">Space</kbd> to attack, <kbd className="px-2 py-1 bg-muted rounded">Q</kbd> for the quest log, <kbd className="px-2 py-1 bg-muted rounded">I</kbd> for the inventory
             </div>
         </div>
     );
@@ -0,0 +1,363 @@
+import { useState } from 'react';
+import {
+  useListItems,
+  useCreateItem,
+  useUpdateItem,
+  useDeleteItem,
+  useListObjects,
+  useListTiles,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Gem, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TagInput } from '../components/TagInput';
+import { ItemIcon } from '../components/ItemIcon';
+import type { Item } from '../backend';
+import { itemFromRecord, itemToRecord, type ItemDefinition } from '../utils/inventory';
+
+const NONE = '__none';
+
+function emptyItem(): ItemDefinition {
+  return { id: '', name: '', description: '', icon: null, stackable: true, maxStack: 99, value: 0, tags: [] };
+}
+
+export function ItemsView() {
+  const { data: items, isLoading } = useListItems();
+  const createItem = useCreateItem();
+  const updateItem = useUpdateItem();
+  const deleteItem = useDeleteItem();
+
+  const [editing, setEditing] = useState<{ item: ItemDefinition; existing?: Item } | null>(null);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const record = itemToRecord(editing.item, editing.existing);
+
+    try {
+      const result = editing.existing
+        ? await updateItem.mutateAsync({ id: editing.existing.id, item: record })
+        : await createItem.mutateAsync(record);
+
+      if ('ok' in result) {
+        toast.success(editing.existing ? 'Item updated successfully' : 'Item created successfully');
+        setEditing(null);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to save item:', error);
+      toast.error('Failed to save item', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const handleDeleteClick = async (item: Item) => {
+    if (!window.confirm(`Are you sure you want to delete the item "${item.name}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const result = await deleteItem.mutateAsync(item.id);
+
+      if ('ok' in result) {
+        toast.success('Item deleted successfully');
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to delete item:', error);
+      toast.error('Failed to delete item', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Items</h2>
+          <p className="text-muted-foreground">
+            Things the player can carry, buy, craft and pick up
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ item: emptyItem() })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Item
+        </Button>
+      </div>
+
+      {editing && (
+        <ItemEditorDialog
+          item={editing.item}
+          isNew={!editing.existing}
+          isSaving={createItem.isPending || updateItem.isPending}
+          onChange={(item) => setEditing({ ...editing, item })}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-5 w-32" />
+                <Skeleton className="h-4 w-24" />
+              </CardHeader>
+              <CardContent>
+                <Skeleton className="h-20 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : items && items.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {items.map((record) => {
+            const item = itemFromRecord(record);
+            return (
+              <Card key={item.id} className="transition-shadow hover:shadow-md">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      <ItemIcon icon={item.icon} size={24} className="rounded bg-muted/50" />
+                      <CardTitle className="text-base">{item.name}</CardTitle>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditing({ item, existing: record })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteClick(record)}
+                        disabled={deleteItem.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription className="text-xs">{item.id}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">{item.description}</p>
+                  <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                    <div>Value: {item.value} gold</div>
+                    <div>{item.stackable ? `Stacks to ${item.maxStack}` : 'Does not stack'}</div>
+                    {item.pickupObjectId && <div className="col-span-2">Pickup: {item.pickupObjectId}</div>}
+                  </div>
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags.map((tag) => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Gem className="mb-4 h-12 w-12 text-muted-foreground" />
+            <h3 className="mb-2 text-lg font-semibold">No items yet</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Create your first item to get started
+            </p>
+            <Button onClick={() => setEditing({ item: emptyItem() })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Item
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface ItemEditorDialogProps {
+  item: ItemDefinition;
+  isNew: boolean;
+  isSaving: boolean;
+  onChange: (item: ItemDefinition) => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+function ItemEditorDialog({ item, isNew, isSaving, onChange, onSave, onClose }: ItemEditorDialogProps) {
+  const { data: objects = [] } = useListObjects();
+  const { data: tiles = [] } = useListTiles();
+  const iconChoices = item.icon?.kind === 'tile' ? tiles : objects;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Create New Item' : 'Edit Item'}</DialogTitle>
+          <DialogDescription>
+            Items live in the player's inventory; a pickup object lets them be found on maps
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="item-id">ID</Label>
+              <Input
+                id="item-id"
+                value={item.id}
+                onChange={(e) => onChange({ ...item, id: e.target.value })}
+                placeholder="item_health_potion"
+                disabled={!isNew}
+                className={!isNew ? 'bg-muted' : undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="item-name">Name</Label>
+              <Input
+                id="item-name"
+                value={item.name}
+                onChange={(e) => onChange({ ...item, name: e.target.value })}
+                placeholder="Health Potion"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="item-description">Description</Label>
+            <Textarea
+              id="item-description"
+              value={item.description}
+              onChange={(e) => onChange({ ...item, description: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex items-center gap-2">
+              <ItemIcon icon={item.icon} size={32} className="shrink-0 rounded border bg-muted/50" />
+              <Select
+                value={item.icon?.kind ?? NONE}
+                onValueChange={(value) => onChange({
+                  ...item,
+                  icon: value === NONE ? null : { kind: value as 'object' | 'tile', id: '' },
+                })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  <SelectItem value="object">Object</SelectItem>
+                  <SelectItem value="tile">Tile</SelectItem>
+                </SelectContent>
+              </Select>
+              {item.icon && (
+                <Select
+                  value={item.icon.id}
+                  onValueChange={(value) => onChange({ ...item, icon: { kind: item.icon!.kind, id: value } })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={`Choose a ${item.icon.kind}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {iconChoices.map((choice) => (
+                      <SelectItem key={choice.id} value={choice.id}>{choice.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pickup Object</Label>
+            <Select
+              value={item.pickupObjectId ?? NONE}
+              onValueChange={(value) => onChange({ ...item, pickupObjectId: value === NONE ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not found on maps</SelectItem>
+                {objects.map((object) => (
+                  <SelectItem key={object.id} value={object.id}>{object.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Walking onto a placed instance of this object picks the item up
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 items-end gap-4">
+            <label className="flex items-center gap-2 pb-2 text-sm">
+              <Checkbox
+                checked={item.stackable}
+                onChange={(e) => onChange({ ...item, stackable: e.target.checked })}
+              />
+              Stackable
+            </label>
+            <div className="space-y-2">
+              <Label htmlFor="item-max-stack">Max Stack</Label>
+              <Input
+                id="item-max-stack"
+                type="number"
+                min={1}
+                value={item.maxStack}
+                disabled={!item.stackable}
+                onChange={(e) => onChange({ ...item, maxStack: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="item-value">Value</Label>
+              <Input
+                id="item-value"
+                type="number"
+                min={0}
+                value={item.value}
+                onChange={(e) => onChange({ ...item, value: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <TagInput tags={item.tags} onTagsChange={(tags) => onChange({ ...item, tags })} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={onSave} disabled={isSaving || !item.id.trim() || !item.name.trim() || (!!item.icon && !item.icon.id)}>
+            {isSaving ? 'Saving...' : isNew ? 'Create Item' : 'Update Item'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
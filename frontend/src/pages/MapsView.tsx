@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { useListMaps, useCreateMap, useUpdateMap, useDeleteMap, useListPlayableCharacters } from '../hooks/useQueries';
+import { useRef, useState } from 'react';
+import { useListMaps, useCreateMap, useUpdateMap, useDeleteMap, useListPlayableCharacters, useListTiles, useListTileSets, useCreateTile, useUploadTileImage } from '../hooks/useQueries';
+import { useActor } from '../hooks/useActor';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,10 +8,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Map, Pencil, Trash2, Edit3, Play } from 'lucide-react';
+import { Plus, Map, Pencil, Trash2, Edit3, Play, Download, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import type { MapData, PlayableCharacter } from '../backend';
+import { exportTiledMap, importTiledMap, type TiledAtlasMode, type TiledFormat, type TiledImportPlan } from '../utils/tiled';
+import { downloadFiles } from '../utils/download';
+import { exportAtlas, loadTileSprites, packAtlas, tileIdsForMap } from '../utils/atlasPacker';
 
 interface MapsViewProps {
   onOpenEditor?: (mapId: string) => void;
@@ -23,12 +27,24 @@ export function MapsView({ onOpenEditor, onOpenGameTest }: MapsViewProps) {
   const createMap = useCreateMap();
   const updateMap = useUpdateMap();
   const deleteMap = useDeleteMap();
+  const { data: tiles = [] } = useListTiles();
+  const { data: tileSets = [] } = useListTileSets();
+  const createTile = useCreateTile();
+  const uploadTileImage = useUploadTileImage();
+  const { actor } = useActor();
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isTestDialogOpen, setIsTestDialogOpen] = useState(false);
   const [selectedMap, setSelectedMap] = useState<MapData | null>(null);
   const [selectedTestCharacterId, setSelectedTestCharacterId] = useState<string>('');
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<TiledFormat>('tmj');
+  const [exportAtlasMode, setExportAtlasMode] = useState<TiledAtlasMode>('embedded');
+  const [isExporting, setIsExporting] = useState(false);
+  const [importPlan, setImportPlan] = useState<TiledImportPlan | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const [formData, setFormData] = useState({
     id: '',
     name: '',
@@ -52,6 +68,8 @@ export function MapsView({ onOpenEditor, onOpenGameTest }: MapsViewProps) {
       object_instances: [],
       spawn_points: [],
       npc_instances: [],
+      layers: [],
+      warps: [],
       created_at: BigInt(Date.now()),
       updated_at: BigInt(Date.now()),
     };
@@ -158,6 +176,124 @@ export function MapsView({ onOpenEditor, onOpenGameTest }: MapsViewProps) {
     onOpenGameTest?.(selectedMap.id, selectedTestCharacterId);
   };
 
+  const handleOpenExport = (map: MapData) => {
+    setSelectedMap(map);
+    setIsExportDialogOpen(true);
+  };
+
+  const handleExport = async () => {
+    if (!selectedMap || !actor) return;
+
+    setIsExporting(true);
+    try {
+      const files = await exportTiledMap(
+        selectedMap,
+        tiles,
+        tileSets,
+        async (tileId) => {
+          const image = await actor.getTileImage(tileId);
+          return image[0] ? new Uint8Array(image[0]) : null;
+        },
+        { format: exportFormat, atlas: exportAtlasMode }
+      );
+      await downloadFiles(files);
+      toast.success(`Exported ${files.length} file${files.length === 1 ? '' : 's'}`);
+      setIsExportDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to export map:', error);
+      toast.error('Failed to export map', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportTextureAtlas = async () => {
+    if (!selectedMap || !actor) return;
+
+    setIsExporting(true);
+    try {
+      const sprites = await loadTileSprites(tileIdsForMap(selectedMap), async (tileId) => {
+        const image = await actor.getTileImage(tileId);
+        return image[0] ? new Uint8Array(image[0]) : null;
+      });
+      if (sprites.length === 0) {
+        toast.error('No tile images to pack');
+        return;
+      }
+      const pages = packAtlas(sprites);
+      await downloadFiles(await exportAtlas(pages, `${selectedMap.id}-atlas`));
+      toast.success(`Exported atlas: ${sprites.length} tiles on ${pages.length} page${pages.length === 1 ? '' : 's'}`);
+      setIsExportDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to export atlas:', error);
+      toast.error('Failed to export atlas', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const result = await importTiledMap(files, tiles, (maps ?? []).map((m) => m.id));
+      if ("ok" in result) {
+        setImportPlan(result.ok);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to read Tiled files:', error);
+      toast.error('Failed to read Tiled files', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importPlan) return;
+
+    setIsImporting(true);
+    try {
+      // Tiles first - the map references them by id
+      for (const { metadata, png } of importPlan.newTiles) {
+        const created = await createTile.mutateAsync(metadata);
+        if (!("ok" in created)) {
+          toast.error(`Error: ${created.err.message}`, {
+            description: `Code: ${created.err.code}`,
+          });
+          return;
+        }
+        await uploadTileImage.mutateAsync({ id: metadata.id, data: png });
+      }
+
+      const result = await createMap.mutateAsync(importPlan.map);
+      if ("ok" in result) {
+        toast.success(`Imported map "${importPlan.map.name}"`);
+        setImportPlan(null);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to import map:', error);
+      toast.error('Failed to import map', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Get characters that have spawn points on the selected map
   const getSpawnCharacters = () => {
     if (!selectedMap) return [];
@@ -175,83 +311,184 @@ export function MapsView({ onOpenEditor, onOpenGameTest }: MapsViewProps) {
             Manage game level layouts
           </p>
         </div>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Create Map
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle>Create New Map</DialogTitle>
-              <DialogDescription>
-                Create a new game level layout
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleCreate} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="create-id">ID</Label>
-                <Input
-                  id="create-id"
-                  value={formData.id}
-                  onChange={(e) => setFormData({ ...formData, id: e.target.value })}
-                  placeholder="map_001"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="create-name">Name</Label>
-                <Input
-                  id="create-name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="Forest Level"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="create-description">Description</Label>
-                <Textarea
-                  id="create-description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="A forest-themed game level"
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            multiple
+            accept=".tmj,.tmx,.tsj,.tsx,.json,.png"
+            className="hidden"
+            onChange={handleImportFiles}
+          />
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import from Tiled
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Map
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Create New Map</DialogTitle>
+                <DialogDescription>
+                  Create a new game level layout
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="create-width">Width (tiles)</Label>
+                  <Label htmlFor="create-id">ID</Label>
                   <Input
-                    id="create-width"
-                    type="number"
-                    min="1"
-                    max="256"
-                    value={formData.width}
-                    onChange={(e) => setFormData({ ...formData, width: parseInt(e.target.value) || 32 })}
+                    id="create-id"
+                    value={formData.id}
+                    onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+                    placeholder="map_001"
                     required
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="create-height">Height (tiles)</Label>
+                  <Label htmlFor="create-name">Name</Label>
                   <Input
-                    id="create-height"
-                    type="number"
-                    min="1"
-                    max="256"
-                    value={formData.height}
-                    onChange={(e) => setFormData({ ...formData, height: parseInt(e.target.value) || 24 })}
+                    id="create-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Forest Level"
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="create-description">Description</Label>
+                  <Textarea
+                    id="create-description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="A forest-themed game level"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="create-width">Width (tiles)</Label>
+                    <Input
+                      id="create-width"
+                      type="number"
+                      min="1"
+                      max="256"
+                      value={formData.width}
+                      onChange={(e) => setFormData({ ...formData, width: parseInt(e.target.value) || 32 })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="create-height">Height (tiles)</Label>
+                    <Input
+                      id="create-height"
+                      type="number"
+                      min="1"
+                      max="256"
+                      value={formData.height}
+                      onChange={(e) => setFormData({ ...formData, height: parseInt(e.target.value) || 24 })}
+                      required
+                    />
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" disabled={createMap.isPending}>
+                  {createMap.isPending ? 'Creating...' : 'Create Map'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {/* Export Dialog - Tiled map or texture atlas */}
+      <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Export: {selectedMap?.name}</DialogTitle>
+            <DialogDescription>
+              Export the map and its tile sets for the Tiled map editor, or its tiles as a texture atlas
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(v) => setExportFormat(v as TiledFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tmj">TMJ / TSJ (JSON)</SelectItem>
+                  <SelectItem value="tmx">TMX / TSX (XML)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tileset atlas</Label>
+              <Select value={exportAtlasMode} onValueChange={(v) => setExportAtlasMode(v as TiledAtlasMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="embedded">Embedded (single file)</SelectItem>
+                  <SelectItem value="sidecar">Side-car tileset + PNG files</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full" onClick={handleExport} disabled={isExporting || !actor}>
+              <Download className="mr-2 h-4 w-4" />
+              {isExporting ? 'Exporting...' : 'Export to Tiled'}
+            </Button>
+            <Button variant="outline" className="w-full" onClick={handleExportTextureAtlas} disabled={isExporting || !actor}>
+              <Download className="mr-2 h-4 w-4" />
+              Export Texture Atlas (TexturePacker JSON)
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Tiled Import Dialog */}
+      <Dialog open={!!importPlan} onOpenChange={(open) => !open && setImportPlan(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Import from Tiled</DialogTitle>
+            <DialogDescription>
+              Review the map before it is created
+            </DialogDescription>
+          </DialogHeader>
+          {importPlan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="text-muted-foreground">Map</div>
+                <div>{importPlan.map.name} ({importPlan.map.id})</div>
+                <div className="text-muted-foreground">Size</div>
+                <div>{Number(importPlan.map.width)} x {Number(importPlan.map.height)}</div>
+                <div className="text-muted-foreground">Existing tiles reused</div>
+                <div>{importPlan.reusedTileCount}</div>
+                <div className="text-muted-foreground">New tiles</div>
+                <div>{importPlan.newTiles.length}</div>
+                <div className="text-muted-foreground">Objects / spawns / NPCs</div>
+                <div>
+                  {importPlan.map.object_instances.length} / {importPlan.map.spawn_points.length} / {importPlan.map.npc_instances[0]?.length ?? 0}
+                </div>
               </div>
-              <Button type="submit" className="w-full" disabled={createMap.isPending}>
-                {createMap.isPending ? 'Creating...' : 'Create Map'}
+              {importPlan.warnings.length > 0 && (
+                <ul className="space-y-1 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-xs">
+                  {importPlan.warnings.map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+              <Button className="w-full" onClick={handleConfirmImport} disabled={isImporting}>
+                <Upload className="mr-2 h-4 w-4" />
+                {isImporting ? 'Importing...' : 'Import Map'}
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -387,6 +624,15 @@ export function MapsView({ onOpenEditor, onOpenGameTest }: MapsViewProps) {
                         <Play className="h-4 w-4" />
                       </Button>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleOpenExport(map)}
+                      title="Export"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useListObjects, useCreateObject, useUpdateObject, useDeleteObject, useUploadObjectImage } from '../hooks/useQueries';
+import { useEffect, useState } from 'react';
+import { useListObjects, useCreateObject, useUpdateObject, useDeleteObject, useUploadObjectStateImage } from '../hooks/useQueries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,14 +10,16 @@ import { Plus, Box, Pencil, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import type { ObjectMetadata } from '../backend';
+import { ObjectStatesEditor, createStateRow, type StateRow } from '@/components/ObjectStatesEditor';
+import { validateObjectStates, type ObjectValidationReport } from '../utils/imageValidation';
+import type { ObjectMetadata, ObjectState } from '../backend';
 
 export function ObjectsView() {
   const { data: objects, isLoading } = useListObjects();
   const createObject = useCreateObject();
   const updateObject = useUpdateObject();
   const deleteObject = useDeleteObject();
-  const uploadObjectImage = useUploadObjectImage();
+  const uploadObjectStateImage = useUploadObjectStateImage();
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -28,23 +30,99 @@ export function ObjectsView() {
     description: '',
     tags: '',
   });
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [stateRows, setStateRows] = useState<StateRow[]>([]);
+  const [stateReport, setStateReport] = useState<ObjectValidationReport | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [replaceStates, setReplaceStates] = useState(false);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+  // Re-validate all states whenever one changes - consistency depends on every image
+  useEffect(() => {
+    if (stateRows.length === 0) {
+      setStateReport(null);
+      setIsValidating(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsValidating(true);
+    validateObjectStates(stateRows).then((report) => {
+      if (!cancelled) {
+        setStateReport(report);
+        setIsValidating(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [stateRows]);
+
+  const resetStates = () => {
+    setStateRows([]);
+    setStateReport(null);
+    setReplaceStates(false);
+  };
+
+  /**
+   * Build state metadata plus validated image bytes. Returns null (and reports the
+   * first per-state error) unless every state passed, so nothing is stored early.
+   */
+  const getValidatedStates = (objectId: string): { states: ObjectState[]; images: Uint8Array[] } | null => {
+    if (isValidating || !stateReport) {
+      toast.error('State images are still being validated');
+      return null;
     }
+
+    const failed = stateReport.states.find(state => state.errors.length > 0);
+    if (failed) {
+      const error = failed.errors[0];
+      toast.error(`Error: State '${failed.name || 'unnamed'}': ${error.message}`, {
+        description: `Code: ${error.code}`,
+      });
+      return null;
+    }
+
+    const states: ObjectState[] = [];
+    const images: Uint8Array[] = [];
+    stateReport.states.forEach((state, i) => {
+      if (!state.result || !('ok' in state.result)) return;
+      const name = state.name.trim();
+      states.push({
+        name,
+        // The first state doubles as the object's default image
+        blob_id: i === 0 ? objectId : `${objectId}__${name}`,
+        width: BigInt(state.result.ok.width),
+        height: BigInt(state.result.ok.height),
+      });
+      images.push(state.result.ok.bytes);
+    });
+
+    return { states, images };
   };
 
+  const uploadStateImages = async (objectId: string, states: ObjectState[], images: Uint8Array[]) => {
+    for (let i = 0; i < states.length; i++) {
+      await uploadObjectStateImage.mutateAsync({
+        objectId,
+        blobId: states[i].blob_id,
+        data: images[i],
+      });
+    }
+  };
+
+  const isStatesBlocked = stateRows.length > 0 && (isValidating || !stateReport?.valid);
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const validated = stateRows.length > 0 ? getValidatedStates(formData.id) : { states: [], images: [] };
+    if (!validated) return;
+
     const metadata: ObjectMetadata = {
       id: formData.id,
       name: formData.name,
       description: formData.description,
       tags: formData.tags.split(',').map(t => t.trim()).filter(Boolean),
-      states: [],
+      states: validated.states,
       anchors: [],
       footprints: [],
       event_hooks: [],
@@ -56,20 +134,12 @@ export function ObjectsView() {
       const result = await createObject.mutateAsync(metadata);
 
       if ("ok" in result) {
-        // Upload image if selected
-        if (selectedFile) {
-          const buffer = await selectedFile.arrayBuffer();
-          const uint8Array = new Uint8Array(buffer);
-          await uploadObjectImage.mutateAsync({
-            id: metadata.id,
-            data: uint8Array
-          });
-        }
+        await uploadStateImages(metadata.id, validated.states, validated.images);
 
         toast.success('Object created successfully');
         setIsCreateDialogOpen(false);
         setFormData({ id: '', name: '', description: '', tags: '' });
-        setSelectedFile(null);
+        resetStates();
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -91,7 +161,7 @@ export function ObjectsView() {
       description: obj.description,
       tags: obj.tags.join(', '),
     });
-    setSelectedFile(null);
+    resetStates();
     setIsEditDialogOpen(true);
   };
 
@@ -99,8 +169,13 @@ export function ObjectsView() {
     e.preventDefault();
     if (!selectedObject) return;
 
+    const validated = !replaceStates ? null
+      : stateRows.length > 0 ? getValidatedStates(selectedObject.id) : { states: [], images: [] };
+    if (replaceStates && !validated) return;
+
     const metadata: ObjectMetadata = {
       ...selectedObject,
+      states: validated ? validated.states : selectedObject.states,
       name: formData.name,
       description: formData.description,
       tags: formData.tags.split(',').map(t => t.trim()).filter(Boolean),
@@ -111,21 +186,15 @@ export function ObjectsView() {
       const result = await updateObject.mutateAsync({ id: selectedObject.id, metadata });
 
       if ("ok" in result) {
-        // Upload image if selected
-        if (selectedFile) {
-          const buffer = await selectedFile.arrayBuffer();
-          const uint8Array = new Uint8Array(buffer);
-          await uploadObjectImage.mutateAsync({
-            id: selectedObject.id,
-            data: uint8Array
-          });
+        if (validated) {
+          await uploadStateImages(selectedObject.id, validated.states, validated.images);
         }
 
         toast.success('Object updated successfully');
         setIsEditDialogOpen(false);
         setSelectedObject(null);
         setFormData({ id: '', name: '', description: '', tags: '' });
-        setSelectedFile(null);
+        resetStates();
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -225,19 +294,18 @@ export function ObjectsView() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="create-image">Object Image (PNG with transparency)</Label>
-                <Input
-                  id="create-image"
-                  type="file"
-                  accept="image/png"
-                  onChange={handleFileChange}
+                <ObjectStatesEditor
+                  rows={stateRows}
+                  onChange={setStateRows}
+                  report={stateReport}
+                  isValidating={isValidating}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Upload a PNG with transparent background
+                  PNGs with transparency. All states must share the same size, in multiples of 32px.
                 </p>
               </div>
-              <Button type="submit" className="w-full" disabled={createObject.isPending || uploadObjectImage.isPending}>
-                {createObject.isPending || uploadObjectImage.isPending ? 'Creating...' : 'Create Object'}
+              <Button type="submit" className="w-full" disabled={createObject.isPending || uploadObjectStateImage.isPending || isStatesBlocked}>
+                {createObject.isPending || uploadObjectStateImage.isPending ? 'Creating...' : 'Create Object'}
               </Button>
             </form>
           </DialogContent>
@@ -288,17 +356,42 @@ export function ObjectsView() {
                 onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-image">Update Image (Optional)</Label>
-              <Input
-                id="edit-image"
-                type="file"
-                accept="image/png"
-                onChange={handleFileChange}
+            {replaceStates ? (
+              <ObjectStatesEditor
+                rows={stateRows}
+                onChange={setStateRows}
+                report={stateReport}
+                isValidating={isValidating}
               />
-            </div>
-            <Button type="submit" className="w-full" disabled={updateObject.isPending || uploadObjectImage.isPending}>
-              {updateObject.isPending || uploadObjectImage.isPending ? 'Updating...' : 'Update Object'}
+            ) : (
+              <div className="space-y-2">
+                <Label>States</Label>
+                {selectedObject && selectedObject.states.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {selectedObject.states.map((state) => (
+                      <Badge key={state.blob_id} variant="outline" className="text-xs">
+                        {state.name} ({Number(state.width)}×{Number(state.height)})
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No states</p>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setReplaceStates(true);
+                    setStateRows((selectedObject?.states ?? []).map(state => createStateRow(state.name)));
+                  }}
+                >
+                  Replace State Images
+                </Button>
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={updateObject.isPending || uploadObjectStateImage.isPending || isStatesBlocked}>
+              {updateObject.isPending || uploadObjectStateImage.isPending ? 'Updating...' : 'Update Object'}
             </Button>
           </form>
         </DialogContent>
@@ -0,0 +1,538 @@
+import { useMemo, useState } from 'react';
+import {
+  useListQuests,
+  useCreateQuest,
+  useUpdateQuest,
+  useDeleteQuest,
+  useListMaps,
+  useListItems,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, Pencil, Plus, ScrollText, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { QuestDefinition } from '../backend';
+import type { Quest, QuestObjective } from '../types/npc';
+import {
+  QUEST_OBJECTIVE_TYPES,
+  listQuestNpcTargets,
+  questFromDefinition,
+  questToDefinition,
+  validateQuest,
+  type QuestIssue,
+  type QuestProject,
+} from '../utils/questDefinitions';
+import { parseQuestRegion } from '../utils/questEngine';
+
+const OBJECTIVE_LABELS: Record<QuestObjective['type'], string> = {
+  talk: 'Talk to',
+  collect: 'Collect',
+  kill: 'Defeat',
+  visit: 'Visit',
+};
+
+const GROUP_TARGET = '__group';
+const ANY_MAP = '__any';
+
+function emptyQuest(): Quest {
+  return { id: '', title: '', description: '', objectives: [], rewards: { gold: 0, experience: 0, items: [] } };
+}
+
+function newObjective(quest: Quest): QuestObjective {
+  let n = quest.objectives.length + 1;
+  while (quest.objectives.some((o) => o.id === `objective_${n}`)) n++;
+  return { id: `objective_${n}`, description: '', type: 'talk', target: '', required: 1, current: 0 };
+}
+
+export function QuestsView() {
+  const { data: quests, isLoading } = useListQuests();
+  const { data: maps } = useListMaps();
+  const { data: items } = useListItems();
+  const createQuest = useCreateQuest();
+  const updateQuest = useUpdateQuest();
+  const deleteQuest = useDeleteQuest();
+
+  const [editing, setEditing] = useState<{ quest: Quest; existing?: QuestDefinition } | null>(null);
+
+  const project: QuestProject = useMemo(() => ({ maps: maps ?? [], items: items ?? [] }), [maps, items]);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const definition = questToDefinition(editing.quest, editing.existing);
+
+    try {
+      const result = editing.existing
+        ? await updateQuest.mutateAsync({ id: editing.existing.id, quest: definition })
+        : await createQuest.mutateAsync(definition);
+
+      if ('ok' in result) {
+        toast.success(editing.existing ? 'Quest updated successfully' : 'Quest created successfully');
+        setEditing(null);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to save quest:', error);
+      toast.error('Failed to save quest', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const handleDeleteClick = async (quest: QuestDefinition) => {
+    if (!window.confirm(`Are you sure you want to delete the quest "${quest.title}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const result = await deleteQuest.mutateAsync(quest.id);
+
+      if ('ok' in result) {
+        toast.success('Quest deleted successfully');
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to delete quest:', error);
+      toast.error('Failed to delete quest', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Quests</h2>
+          <p className="text-muted-foreground">
+            Objectives and rewards for quest-giving NPCs
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ quest: emptyQuest() })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Quest
+        </Button>
+      </div>
+
+      {editing && (
+        <QuestEditorDialog
+          quest={editing.quest}
+          isNew={!editing.existing}
+          project={project}
+          isSaving={createQuest.isPending || updateQuest.isPending}
+          onChange={(quest) => setEditing({ ...editing, quest })}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-5 w-32" />
+                <Skeleton className="h-4 w-24" />
+              </CardHeader>
+              <CardContent>
+                <Skeleton className="h-20 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : quests && quests.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {quests.map((definition) => {
+            const quest = questFromDefinition(definition);
+            const issues = validateQuest(quest, project);
+            return (
+              <Card key={definition.id} className="transition-shadow hover:shadow-md">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      <ScrollText className="h-4 w-4 text-primary" />
+                      <CardTitle className="text-base">{quest.title}</CardTitle>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditing({ quest, existing: definition })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteClick(definition)}
+                        disabled={deleteQuest.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription className="text-xs">{quest.id}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">{quest.description}</p>
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {quest.objectives.map((objective) => (
+                      <li key={objective.id}>
+                        {OBJECTIVE_LABELS[objective.type]} {objective.target} ×{objective.required}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap gap-1">
+                    {!!quest.rewards?.gold && <Badge variant="secondary">{quest.rewards.gold} gold</Badge>}
+                    {!!quest.rewards?.experience && <Badge variant="secondary">{quest.rewards.experience} XP</Badge>}
+                    {(quest.rewards?.items ?? []).map((item) => <Badge key={item} variant="outline">{item}</Badge>)}
+                    {issues.length > 0 && (
+                      <Badge variant="destructive" title={issues.map((i) => i.message).join('\n')}>
+                        {issues.length} problem{issues.length === 1 ? '' : 's'}
+                      </Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ScrollText className="mb-4 h-12 w-12 text-muted-foreground" />
+            <h3 className="mb-2 text-lg font-semibold">No quests yet</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Create your first quest to get started
+            </p>
+            <Button onClick={() => setEditing({ quest: emptyQuest() })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Quest
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface QuestEditorDialogProps {
+  quest: Quest;
+  isNew: boolean;
+  project: QuestProject;
+  isSaving: boolean;
+  onChange: (quest: Quest) => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+function QuestEditorDialog({ quest, isNew, project, isSaving, onChange, onSave, onClose }: QuestEditorDialogProps) {
+  const issues = validateQuest(quest, project);
+  const questIssues = issues.filter((i) => i.objectiveId === undefined);
+  const rewards = quest.rewards ?? {};
+
+  const updateObjective = (index: number, objective: QuestObjective) =>
+    onChange({ ...quest, objectives: quest.objectives.map((o, i) => (i === index ? objective : o)) });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Create New Quest' : 'Edit Quest'}</DialogTitle>
+          <DialogDescription>
+            Objectives point at NPCs placed on maps, items and map regions
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quest-id">ID</Label>
+              <Input
+                id="quest-id"
+                value={quest.id}
+                onChange={(e) => onChange({ ...quest, id: e.target.value })}
+                placeholder="quest_lost_ring"
+                disabled={!isNew}
+                className={!isNew ? 'bg-muted' : undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quest-title">Title</Label>
+              <Input
+                id="quest-title"
+                value={quest.title}
+                onChange={(e) => onChange({ ...quest, title: e.target.value })}
+                placeholder="The Lost Ring"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quest-description">Description</Label>
+            <Textarea
+              id="quest-description"
+              value={quest.description}
+              onChange={(e) => onChange({ ...quest, description: e.target.value })}
+              placeholder="Shown in the quest log"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Objectives</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ ...quest, objectives: [...quest.objectives, newObjective(quest)] })}
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Objective
+              </Button>
+            </div>
+            {quest.objectives.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Without objectives the quest only completes through a "Complete quest" dialogue action.
+              </p>
+            )}
+            {quest.objectives.map((objective, index) => (
+              <ObjectiveRow
+                key={index}
+                objective={objective}
+                project={project}
+                issues={issues.filter((i) => i.objectiveId === objective.id)}
+                onChange={(updated) => updateObjective(index, updated)}
+                onRemove={() => onChange({ ...quest, objectives: quest.objectives.filter((_, i) => i !== index) })}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rewards</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={rewards.gold ?? 0}
+                onChange={(e) => onChange({ ...quest, rewards: { ...rewards, gold: parseInt(e.target.value) || 0 } })}
+                aria-label="Gold"
+                title="Gold"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={rewards.experience ?? 0}
+                onChange={(e) => onChange({ ...quest, rewards: { ...rewards, experience: parseInt(e.target.value) || 0 } })}
+                aria-label="Experience"
+                title="Experience"
+              />
+              <Input
+                value={(rewards.items ?? []).join(', ')}
+                onChange={(e) => onChange({
+                  ...quest,
+                  rewards: { ...rewards, items: e.target.value.split(',').map((s) => s.trim()).filter(Boolean) },
+                })}
+                placeholder="Item ids, comma separated"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">Gold, experience, items</p>
+          </div>
+
+          {questIssues.length > 0 && <IssueList issues={questIssues} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={onSave} disabled={isSaving || issues.length > 0}>
+            {isSaving ? 'Saving...' : isNew ? 'Create Quest' : 'Update Quest'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function IssueList({ issues }: { issues: QuestIssue[] }) {
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, i) => (
+        <li key={i} className="flex items-center gap-1 text-xs text-destructive">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ObjectiveRowProps {
+  objective: QuestObjective;
+  project: QuestProject;
+  issues: QuestIssue[];
+  onChange: (objective: QuestObjective) => void;
+  onRemove: () => void;
+}
+
+function ObjectiveRow({ objective, project, issues, onChange, onRemove }: ObjectiveRowProps) {
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={objective.type}
+          onValueChange={(value) => onChange({
+            ...objective,
+            type: value as QuestObjective['type'],
+            target: value === 'visit' ? '0,0,1,1' : '',
+            mapId: undefined,
+          })}
+        >
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUEST_OBJECTIVE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{OBJECTIVE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="h-8 flex-1"
+          value={objective.description}
+          onChange={(e) => onChange({ ...objective, description: e.target.value })}
+          placeholder="Shown in the quest log"
+        />
+        <Input
+          className="h-8 w-16"
+          type="number"
+          min={1}
+          value={objective.required}
+          onChange={(e) => onChange({ ...objective, required: parseInt(e.target.value) || 0 })}
+          title="How many"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 w-36 text-xs"
+          value={objective.id}
+          onChange={(e) => onChange({ ...objective, id: e.target.value })}
+          placeholder="Objective id"
+        />
+        <div className="flex-1">
+          <ObjectiveTarget objective={objective} project={project} onChange={onChange} />
+        </div>
+      </div>
+      {issues.length > 0 && <IssueList issues={issues} />}
+    </div>
+  );
+}
+
+function ObjectiveTarget({ objective, project, onChange }: Omit<ObjectiveRowProps, 'issues' | 'onRemove'>) {
+  switch (objective.type) {
+    case 'talk':
+    case 'kill': {
+      const npcs = listQuestNpcTargets(project);
+      const isNpc = npcs.some((npc) => npc.id === objective.target);
+      const isGroup = !isNpc && objective.target !== '';
+      return (
+        <div className="flex gap-2">
+          <Select
+            value={isNpc ? objective.target : isGroup ? GROUP_TARGET : ''}
+            onValueChange={(value) => onChange({ ...objective, target: value === GROUP_TARGET ? 'tag:' : value })}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue placeholder="Choose an NPC" />
+            </SelectTrigger>
+            <SelectContent>
+              {npcs.map((npc) => (
+                <SelectItem key={npc.id} value={npc.id}>
+                  {npc.name} ({npc.mapName})
+                </SelectItem>
+              ))}
+              <SelectItem value={GROUP_TARGET}>Any NPC with a tag or faction…</SelectItem>
+            </SelectContent>
+          </Select>
+          {isGroup && (
+            <Input
+              className="h-8 w-40 text-xs"
+              value={objective.target}
+              onChange={(e) => onChange({ ...objective, target: e.target.value })}
+              placeholder="tag:bandit or faction:guards"
+            />
+          )}
+        </div>
+      );
+    }
+    case 'collect':
+      return (
+        <Select value={objective.target} onValueChange={(value) => onChange({ ...objective, target: value })}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Choose an item" />
+          </SelectTrigger>
+          <SelectContent>
+            {project.items.map((item) => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'visit': {
+      const region = parseQuestRegion(objective.target) ?? { x: 0, y: 0, width: 1, height: 1 };
+      const setRegion = (key: keyof typeof region, value: string) => {
+        const next = { ...region, [key]: parseInt(value) || 0 };
+        onChange({ ...objective, target: `${next.x},${next.y},${next.width},${next.height}` });
+      };
+      return (
+        <div className="flex items-center gap-1">
+          <Select
+            value={objective.mapId ?? ANY_MAP}
+            onValueChange={(value) => onChange({ ...objective, mapId: value === ANY_MAP ? undefined : value })}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_MAP}>Any map</SelectItem>
+              {project.maps.map((map) => (
+                <SelectItem key={map.id} value={map.id}>{map.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(['x', 'y', 'width', 'height'] as const).map((key) => (
+            <Input
+              key={key}
+              className="h-8 w-14 text-xs"
+              type="number"
+              min={key === 'width' || key === 'height' ? 1 : 0}
+              value={region[key]}
+              onChange={(e) => setRegion(key, e.target.value)}
+              title={key}
+              aria-label={key}
+            />
+          ))}
+        </div>
+      );
+    }
+  }
+}
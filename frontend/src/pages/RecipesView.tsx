@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import {
+  useListRecipes,
+  useCreateRecipe,
+  useUpdateRecipe,
+  useDeleteRecipe,
+  useListItems,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowRight, Hammer, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Item, Recipe as RecipeRecord } from '../backend';
+import { recipeFromRecord, recipeToRecord, type Recipe, type RecipeIngredient } from '../utils/crafting';
+
+function emptyRecipe(): Recipe {
+  return { id: '', name: '', station: '', inputs: [], outputs: [], craftTimeMs: 1000 };
+}
+
+export function RecipesView() {
+  const { data: recipes, isLoading } = useListRecipes();
+  const { data: items = [] } = useListItems();
+  const createRecipe = useCreateRecipe();
+  const updateRecipe = useUpdateRecipe();
+  const deleteRecipe = useDeleteRecipe();
+
+  const [editing, setEditing] = useState<{ recipe: Recipe; existing?: RecipeRecord } | null>(null);
+
+  const stations = [...new Set((recipes ?? []).map((r) => r.station))].sort();
+  const itemName = (itemId: string) => items.find((i) => i.id === itemId)?.name ?? itemId;
+  const describe = (ingredients: RecipeIngredient[]) =>
+    ingredients.map((i) => `${i.count}× ${itemName(i.itemId)}`).join(', ') || 'nothing';
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const record = recipeToRecord(editing.recipe, editing.existing);
+
+    try {
+      const result = editing.existing
+        ? await updateRecipe.mutateAsync({ id: editing.existing.id, recipe: record })
+        : await createRecipe.mutateAsync(record);
+
+      if ('ok' in result) {
+        toast.success(editing.existing ? 'Recipe updated successfully' : 'Recipe created successfully');
+        setEditing(null);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to save recipe:', error);
+      toast.error('Failed to save recipe', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const handleDeleteClick = async (recipe: RecipeRecord) => {
+    if (!window.confirm(`Are you sure you want to delete the recipe "${recipe.name}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const result = await deleteRecipe.mutateAsync(recipe.id);
+
+      if ('ok' in result) {
+        toast.success('Recipe deleted successfully');
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to delete recipe:', error);
+      toast.error('Failed to delete recipe', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Recipes</h2>
+          <p className="text-muted-foreground">
+            What crafting NPCs make, and from what
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ recipe: emptyRecipe() })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Recipe
+        </Button>
+      </div>
+
+      {editing && (
+        <RecipeEditorDialog
+          recipe={editing.recipe}
+          isNew={!editing.existing}
+          items={items}
+          stations={stations}
+          isSaving={createRecipe.isPending || updateRecipe.isPending}
+          onChange={(recipe) => setEditing({ ...editing, recipe })}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-5 w-32" />
+                <Skeleton className="h-4 w-24" />
+              </CardHeader>
+              <CardContent>
+                <Skeleton className="h-20 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : recipes && recipes.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {recipes.map((record) => {
+            const recipe = recipeFromRecord(record);
+            return (
+              <Card key={recipe.id} className="transition-shadow hover:shadow-md">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-base">{recipe.name}</CardTitle>
+                      <Badge variant="outline">{recipe.station}</Badge>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditing({ recipe, existing: record })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteClick(record)}
+                        disabled={deleteRecipe.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription className="text-xs">{recipe.id}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <span className="flex-1">{describe(recipe.inputs)}</span>
+                    <ArrowRight className="h-4 w-4 shrink-0" />
+                    <span className="flex-1">{describe(recipe.outputs)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">Takes {(recipe.craftTimeMs / 1000).toFixed(1)}s</div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Hammer className="mb-4 h-12 w-12 text-muted-foreground" />
+            <h3 className="mb-2 text-lg font-semibold">No recipes yet</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Create a recipe, then give an NPC a crafting interaction with the same station
+            </p>
+            <Button onClick={() => setEditing({ recipe: emptyRecipe() })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Recipe
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface RecipeEditorDialogProps {
+  recipe: Recipe;
+  isNew: boolean;
+  items: Item[];
+  /** Stations used by existing recipes, offered as suggestions */
+  stations: string[];
+  isSaving: boolean;
+  onChange: (recipe: Recipe) => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+function RecipeEditorDialog({ recipe, isNew, items, stations, isSaving, onChange, onSave, onClose }: RecipeEditorDialogProps) {
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Create New Recipe' : 'Edit Recipe'}</DialogTitle>
+          <DialogDescription>
+            NPCs whose crafting type matches the station can make this recipe
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recipe-id">ID</Label>
+              <Input
+                id="recipe-id"
+                value={recipe.id}
+                onChange={(e) => onChange({ ...recipe, id: e.target.value })}
+                placeholder="recipe_iron_sword"
+                disabled={!isNew}
+                className={!isNew ? 'bg-muted' : undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipe-name">Name</Label>
+              <Input
+                id="recipe-name"
+                value={recipe.name}
+                onChange={(e) => onChange({ ...recipe, name: e.target.value })}
+                placeholder="Iron Sword"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recipe-station">Station</Label>
+              <Input
+                id="recipe-station"
+                list="recipe-stations"
+                value={recipe.station}
+                onChange={(e) => onChange({ ...recipe, station: e.target.value })}
+                placeholder="blacksmith"
+              />
+              <datalist id="recipe-stations">
+                {stations.map((station) => <option key={station} value={station} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipe-time">Craft Time (ms)</Label>
+              <Input
+                id="recipe-time"
+                type="number"
+                min={0}
+                step={100}
+                value={recipe.craftTimeMs}
+                onChange={(e) => onChange({ ...recipe, craftTimeMs: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+
+          <IngredientsEditor
+            label="Inputs"
+            ingredients={recipe.inputs}
+            items={items}
+            onChange={(inputs) => onChange({ ...recipe, inputs })}
+          />
+          <IngredientsEditor
+            label="Outputs"
+            ingredients={recipe.outputs}
+            items={items}
+            onChange={(outputs) => onChange({ ...recipe, outputs })}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={onSave}
+            disabled={isSaving || !recipe.id.trim() || !recipe.name.trim() || !recipe.station.trim() || recipe.outputs.length === 0}
+          >
+            {isSaving ? 'Saving...' : isNew ? 'Create Recipe' : 'Update Recipe'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface IngredientsEditorProps {
+  label: string;
+  ingredients: RecipeIngredient[];
+  items: Item[];
+  onChange: (ingredients: RecipeIngredient[]) => void;
+}
+
+function IngredientsEditor({ label, ingredients, items, onChange }: IngredientsEditorProps) {
+  const unused = items.filter((item) => !ingredients.some((i) => i.itemId === item.id));
+  const update = (index: number, ingredient: RecipeIngredient) =>
+    onChange(ingredients.map((i, n) => (n === index ? ingredient : i)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Select value="" onValueChange={(itemId) => onChange([...ingredients, { itemId, count: 1 }])}>
+          <SelectTrigger className="h-8 w-48">
+            <SelectValue placeholder="Add item" />
+          </SelectTrigger>
+          <SelectContent>
+            {unused.map((item) => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {ingredients.length === 0 && (
+        <p className="text-xs text-muted-foreground">None</p>
+      )}
+      {ingredients.map((ingredient, index) => (
+        <div key={ingredient.itemId} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm">
+            {items.find((i) => i.id === ingredient.itemId)?.name ?? ingredient.itemId}
+          </span>
+          <Input
+            type="number"
+            min={1}
+            value={ingredient.count}
+            onChange={(e) => update(index, { ...ingredient, count: Math.max(1, parseInt(e.target.value) || 1) })}
+            aria-label="Count"
+            className="h-8 w-20"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive hover:text-destructive"
+            onClick={() => onChange(ingredients.filter((_, n) => n !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
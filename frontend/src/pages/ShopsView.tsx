@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import {
+  useListShops,
+  useCreateShop,
+  useUpdateShop,
+  useDeleteShop,
+  useListItems,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Pencil, Plus, Store, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Item, ShopDefinition } from '../backend';
+import { shopFromRecord, shopToRecord, type Shop, type ShopStockLine } from '../utils/shop';
+
+function emptyShop(): Shop {
+  return { id: '', name: '', greeting: '', stock: [], restockSeconds: 300, buyBackPercent: 50 };
+}
+
+/** Blank input = unset */
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Math.max(0, parseInt(value) || 0);
+}
+
+export function ShopsView() {
+  const { data: shops, isLoading } = useListShops();
+  const { data: items = [] } = useListItems();
+  const createShop = useCreateShop();
+  const updateShop = useUpdateShop();
+  const deleteShop = useDeleteShop();
+
+  const [editing, setEditing] = useState<{ shop: Shop; existing?: ShopDefinition } | null>(null);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const record = shopToRecord(editing.shop, editing.existing);
+
+    try {
+      const result = editing.existing
+        ? await updateShop.mutateAsync({ id: editing.existing.id, shop: record })
+        : await createShop.mutateAsync(record);
+
+      if ('ok' in result) {
+        toast.success(editing.existing ? 'Shop updated successfully' : 'Shop created successfully');
+        setEditing(null);
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to save shop:', error);
+      toast.error('Failed to save shop', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const handleDeleteClick = async (shop: ShopDefinition) => {
+    if (!window.confirm(`Are you sure you want to delete the shop "${shop.name}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const result = await deleteShop.mutateAsync(shop.id);
+
+      if ('ok' in result) {
+        toast.success('Shop deleted successfully');
+      } else {
+        toast.error(`Error: ${result.err.message}`, {
+          description: `Code: ${result.err.code}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to delete shop:', error);
+      toast.error('Failed to delete shop', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    }
+  };
+
+  const itemName = (itemId: string) => items.find((i) => i.id === itemId)?.name ?? itemId;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Shops</h2>
+          <p className="text-muted-foreground">
+            Stock and prices for NPCs with a shop interaction
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ shop: emptyShop() })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Shop
+        </Button>
+      </div>
+
+      {editing && (
+        <ShopEditorDialog
+          shop={editing.shop}
+          isNew={!editing.existing}
+          items={items}
+          isSaving={createShop.isPending || updateShop.isPending}
+          onChange={(shop) => setEditing({ ...editing, shop })}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-5 w-32" />
+                <Skeleton className="h-4 w-24" />
+              </CardHeader>
+              <CardContent>
+                <Skeleton className="h-20 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : shops && shops.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {shops.map((record) => {
+            const shop = shopFromRecord(record);
+            return (
+              <Card key={shop.id} className="transition-shadow hover:shadow-md">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <CardTitle className="text-base">{shop.name}</CardTitle>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditing({ shop, existing: record })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteClick(record)}
+                        disabled={deleteShop.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription className="text-xs">{shop.id}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {shop.greeting && <p className="text-sm italic text-muted-foreground">"{shop.greeting}"</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {shop.stock.map((line) => (
+                      <Badge key={line.itemId} variant="secondary">
+                        {itemName(line.itemId)}{line.quantity !== undefined && ` ×${line.quantity}`}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                    <div>Buys at {shop.buyBackPercent}%</div>
+                    <div>{shop.restockSeconds > 0 ? `Restocks every ${shop.restockSeconds}s` : 'Never restocks'}</div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Store className="mb-4 h-12 w-12 text-muted-foreground" />
+            <h3 className="mb-2 text-lg font-semibold">No shops yet</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Create a shop, then pick it on an NPC's shop interaction
+            </p>
+            <Button onClick={() => setEditing({ shop: emptyShop() })}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Shop
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface ShopEditorDialogProps {
+  shop: Shop;
+  isNew: boolean;
+  items: Item[];
+  isSaving: boolean;
+  onChange: (shop: Shop) => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+function ShopEditorDialog({ shop, isNew, items, isSaving, onChange, onSave, onClose }: ShopEditorDialogProps) {
+  const unstocked = items.filter((item) => !shop.stock.some((line) => line.itemId === item.id));
+  const updateLine = (index: number, line: ShopStockLine) =>
+    onChange({ ...shop, stock: shop.stock.map((l, i) => (i === index ? line : l)) });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Create New Shop' : 'Edit Shop'}</DialogTitle>
+          <DialogDescription>
+            Leave a price blank to sell at the item's value, and a quantity blank for unlimited stock
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shop-id">ID</Label>
+              <Input
+                id="shop-id"
+                value={shop.id}
+                onChange={(e) => onChange({ ...shop, id: e.target.value })}
+                placeholder="shop_general_store"
+                disabled={!isNew}
+                className={!isNew ? 'bg-muted' : undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shop-name">Name</Label>
+              <Input
+                id="shop-name"
+                value={shop.name}
+                onChange={(e) => onChange({ ...shop, name: e.target.value })}
+                placeholder="General Store"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shop-greeting">Greeting</Label>
+            <Textarea
+              id="shop-greeting"
+              value={shop.greeting}
+              onChange={(e) => onChange({ ...shop, greeting: e.target.value })}
+              placeholder="Welcome! Have a look around."
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shop-restock">Restock Every (seconds)</Label>
+              <Input
+                id="shop-restock"
+                type="number"
+                min={0}
+                value={shop.restockSeconds}
+                onChange={(e) => onChange({ ...shop, restockSeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+              <p className="text-xs text-muted-foreground">0 = never</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shop-buy-back">Buy-Back (%)</Label>
+              <Input
+                id="shop-buy-back"
+                type="number"
+                min={0}
+                max={100}
+                value={shop.buyBackPercent}
+                onChange={(e) => onChange({ ...shop, buyBackPercent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+              />
+              <p className="text-xs text-muted-foreground">Share of an item's value paid to the player</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Stock</Label>
+              <Select
+                value=""
+                onValueChange={(itemId) => onChange({ ...shop, stock: [...shop.stock, { itemId }] })}
+              >
+                <SelectTrigger className="h-8 w-48">
+                  <SelectValue placeholder="Add item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unstocked.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {shop.stock.length === 0 && (
+              <p className="text-xs text-muted-foreground">Nothing for sale yet</p>
+            )}
+            {shop.stock.map((line, index) => {
+              const item = items.find((i) => i.id === line.itemId);
+              return (
+                <div key={line.itemId} className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-sm">{item?.name ?? line.itemId}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={line.price ?? ''}
+                    onChange={(e) => updateLine(index, { ...line, price: optionalNumber(e.target.value) })}
+                    placeholder={item ? `${item.value}` : 'Price'}
+                    aria-label="Price"
+                    title="Price"
+                    className="h-8 w-24"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={line.quantity ?? ''}
+                    onChange={(e) => updateLine(index, { ...line, quantity: optionalNumber(e.target.value) })}
+                    placeholder="∞"
+                    aria-label="Quantity"
+                    title="Quantity"
+                    className="h-8 w-20"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => onChange({ ...shop, stock: shop.stock.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={onSave} disabled={isSaving || !shop.id.trim() || !shop.name.trim()}>
+            {isSaving ? 'Saving...' : isNew ? 'Create Shop' : 'Update Shop'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,11 +6,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Edit, Trash2, Search, Image as ImageIcon } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Download, Image as ImageIcon } from 'lucide-react';
 import { toast } from 'sonner';
 import { TagInput } from '../components/TagInput';
 import { analyzeSpriteSheet } from '../utils/spriteSheetAnalyzer';
 import type { SpriteSheet } from '../declarations/backend/backend.did.d.ts';
+import { useActor } from '../hooks/useActor';
+import { decodeImage } from '../utils/imageValidation';
+import { exportAtlas, packAtlas, sliceSpriteSheet } from '../utils/atlasPacker';
+import { downloadFiles } from '../utils/download';
 
 // Thumbnail component that loads and displays sprite sheet image
 function SpriteThumbnail({ blobId }: { blobId: string }) {
@@ -62,6 +66,7 @@ export default function SpritesLibraryView({ onNavigate }: { onNavigate?: (sprit
     const uploadSpriteSheet = useUploadCharacterSpriteSheet();
     const createSpriteSheet = useCreateSpriteSheet();
     const deleteSpriteSheet = useDeleteSpriteSheet();
+    const { actor } = useActor();
 
     const [searchQuery, setSearchQuery] = useState('');
     const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
@@ -180,6 +185,26 @@ export default function SpritesLibraryView({ onNavigate }: { onNavigate?: (sprit
         }
     };
 
+    // Repack the sheet's frames into power-of-two pages with a TexturePacker JSON index
+    const handleExportAtlas = async (sprite: SpriteSheet) => {
+        try {
+            const result = await actor.getCharacterSpriteSheet(sprite.blob_id);
+            if (!result[0]) {
+                toast.error('This sprite sheet has no uploaded image');
+                return;
+            }
+            const image = await decodeImage(new Uint8Array(result[0]));
+            const pages = packAtlas(sliceSpriteSheet(sprite, image));
+            await downloadFiles(await exportAtlas(pages, `${sprite.id}-atlas`));
+            toast.success(`Exported atlas with ${pages.reduce((sum, p) => sum + p.frames.length, 0)} frames`);
+        } catch (error) {
+            console.error('Failed to export atlas:', error);
+            toast.error('Failed to export atlas', {
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            });
+        }
+    };
+
     const handleDelete = async (id: string, name: string) => {
         if (!confirm(`Delete sprite "${name}"? This cannot be undone.`)) return;
 
@@ -369,6 +394,14 @@ export default function SpritesLibraryView({ onNavigate }: { onNavigate?: (sprit
                                         <Edit className="w-3 h-3 mr-1" />
                                         Edit Animations
                                     </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => handleExportAtlas(sprite)}
+                                        title="Export Texture Atlas"
+                                    >
+                                        <Download className="w-3 h-3" />
+                                    </Button>
                                     <Button
                                         size="sm"
                                         variant="destructive"
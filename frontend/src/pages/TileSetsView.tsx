@@ -6,17 +6,23 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Layers, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Layers, Pencil, Trash2, Download, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import type { TileSet } from '../backend';
+import { AutotileSlotEditor } from '@/components/AutotileSlotEditor';
+import { autotileFromBackend, autotileToBackend, type AutotileConfig } from '@/utils/autotile';
+import { exportAtlas, loadTileSprites, packAtlas } from '@/utils/atlasPacker';
+import { downloadFiles } from '@/utils/download';
+import { useActor } from '../hooks/useActor';
 
 export function TileSetsView() {
   const { data: tileSets, isLoading } = useListTileSets();
   const createTileSet = useCreateTileSet();
   const updateTileSet = useUpdateTileSet();
   const deleteTileSet = useDeleteTileSet();
+  const { actor } = useActor();
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -27,6 +33,10 @@ export function TileSetsView() {
     description: '',
     tile_ids: '',
   });
+  const [autotile, setAutotile] = useState<AutotileConfig | null>(null);
+  const [exportingSetId, setExportingSetId] = useState<string | null>(null);
+
+  const parseTileIds = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,7 +45,8 @@ export function TileSetsView() {
       id: formData.id,
       name: formData.name,
       description: formData.description,
-      tile_ids: formData.tile_ids.split(',').map(t => t.trim()).filter(Boolean),
+      tile_ids: parseTileIds(formData.tile_ids),
+      autotile: autotileToBackend(autotile),
       created_at: BigInt(Date.now()),
       updated_at: BigInt(Date.now()),
     };
@@ -47,6 +58,7 @@ export function TileSetsView() {
         toast.success('Tile Set created successfully');
         setIsCreateDialogOpen(false);
         setFormData({ id: '', name: '', description: '', tile_ids: '' });
+        setAutotile(null);
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -68,6 +80,7 @@ export function TileSetsView() {
       description: tileSet.description,
       tile_ids: tileSet.tile_ids.join(', '),
     });
+    setAutotile(autotileFromBackend(tileSet));
     setIsEditDialogOpen(true);
   };
 
@@ -79,7 +92,8 @@ export function TileSetsView() {
       ...selectedTileSet,
       name: formData.name,
       description: formData.description,
-      tile_ids: formData.tile_ids.split(',').map(t => t.trim()).filter(Boolean),
+      tile_ids: parseTileIds(formData.tile_ids),
+      autotile: autotileToBackend(autotile),
       updated_at: BigInt(Date.now()),
     };
 
@@ -91,6 +105,7 @@ export function TileSetsView() {
         setIsEditDialogOpen(false);
         setSelectedTileSet(null);
         setFormData({ id: '', name: '', description: '', tile_ids: '' });
+        setAutotile(null);
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -104,6 +119,32 @@ export function TileSetsView() {
     }
   };
 
+  const handleExportAtlas = async (set: TileSet) => {
+    setExportingSetId(set.id);
+    try {
+      const sprites = await loadTileSprites(set.tile_ids, async (tileId) => {
+        const result = await actor.getTileImage(tileId);
+        return result[0] ? new Uint8Array(result[0]) : null;
+      });
+      if (sprites.length === 0) {
+        toast.error('No tile images to pack', {
+          description: 'Upload images for the tiles in this set first',
+        });
+        return;
+      }
+      const pages = packAtlas(sprites);
+      await downloadFiles(await exportAtlas(pages, `${set.id}-atlas`));
+      toast.success(`Exported atlas: ${sprites.length} tiles on ${pages.length} page${pages.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to export atlas:', error);
+      toast.error('Failed to export atlas', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      setExportingSetId(null);
+    }
+  };
+
   const handleDeleteClick = async (tileSet: TileSet) => {
     if (!window.confirm(`Are you sure you want to delete the tile set "${tileSet.name}"? This action cannot be undone.`)) {
       return;
@@ -143,7 +184,7 @@ export function TileSetsView() {
               Create Tile Set
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-md">
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create New Tile Set</DialogTitle>
               <DialogDescription>
@@ -189,6 +230,11 @@ export function TileSetsView() {
                   placeholder="tile_floor_01, tile_wall_01"
                 />
               </div>
+              <AutotileSlotEditor
+                config={autotile}
+                tileIds={parseTileIds(formData.tile_ids)}
+                onChange={setAutotile}
+              />
               <Button type="submit" className="w-full" disabled={createTileSet.isPending}>
                 {createTileSet.isPending ? 'Creating...' : 'Create Tile Set'}
               </Button>
@@ -199,7 +245,7 @@ export function TileSetsView() {
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Tile Set</DialogTitle>
             <DialogDescription>
@@ -241,6 +287,11 @@ export function TileSetsView() {
                 onChange={(e) => setFormData({ ...formData, tile_ids: e.target.value })}
               />
             </div>
+            <AutotileSlotEditor
+              config={autotile}
+              tileIds={parseTileIds(formData.tile_ids)}
+              onChange={setAutotile}
+            />
             <Button type="submit" className="w-full" disabled={updateTileSet.isPending}>
               {updateTileSet.isPending ? 'Updating...' : 'Update Tile Set'}
             </Button>
@@ -273,6 +324,20 @@ export function TileSetsView() {
                     <CardTitle className="text-base">{set.name}</CardTitle>
                   </div>
                   <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleExportAtlas(set)}
+                      disabled={exportingSetId !== null}
+                      title="Export Texture Atlas"
+                    >
+                      {exportingSetId === set.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4" />
+                      )}
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -292,7 +357,14 @@ export function TileSetsView() {
                     </Button>
                   </div>
                 </div>
-                <CardDescription className="text-xs">{set.id}</CardDescription>
+                <CardDescription className="text-xs">
+                  {set.id}
+                  {set.autotile.length > 0 && (
+                    <Badge variant="secondary" className="ml-2 text-xs">
+                      Autotile: {set.autotile[0]?.mode}
+                    </Badge>
+                  )}
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
                 <p className="text-sm text-muted-foreground">{set.description}</p>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useListTiles, useCreateTile, useUpdateTile, useDeleteTile, useUploadTileImage } from '../hooks/useQueries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,6 +11,8 @@ import { Plus, Square, Pencil, Trash2, Ban } from 'lucide-react';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
+import { ImageValidationPreview } from '@/components/ImageValidationPreview';
+import { validateImageFile, TILE_VALIDATION_RULES, type ImageValidationResult } from '../utils/imageValidation';
 import type { TileMetadata } from '../backend';
 
 export function TilesView() {
@@ -32,16 +34,75 @@ export function TilesView() {
     is_solid: false,
   });
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [validation, setValidation] = useState<ImageValidationResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  // Bumped per selected file; a validation that finishes after a newer pick is ignored
+  const validationRequest = useRef(0);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const resetFile = () => {
+    validationRequest.current++;
+    setSelectedFile(null);
+    setValidation(null);
+    setIsValidating(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+      const file = e.target.files[0];
+      const request = ++validationRequest.current;
+      setSelectedFile(file);
+      setValidation(null);
+      setIsValidating(true);
+
+      let result: ImageValidationResult;
+      try {
+        result = await validateImageFile(file, TILE_VALIDATION_RULES);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'The file could not be read';
+        result = {
+          err: {
+            code: 'READ_FAILED',
+            message,
+            fix_attempted: false,
+            issues: [{ code: 'READ_FAILED', message, fix_attempted: false }],
+            original: null,
+            corrected: null,
+          },
+        };
+      }
+
+      if (request !== validationRequest.current) return;
+      setValidation(result);
+      setIsValidating(false);
     }
   };
 
+  /**
+   * Validated bytes for the selected file. Returns null (and reports why) when
+   * validation has not passed, so metadata is never stored for a bad image.
+   */
+  const getValidatedImage = (): Uint8Array | null => {
+    if (!validation) {
+      toast.error('Image is still being validated');
+      return null;
+    }
+    if ('err' in validation) {
+      toast.error(`Error: ${validation.err.message}`, {
+        description: `Code: ${validation.err.code}`,
+      });
+      return null;
+    }
+    return validation.ok.bytes;
+  };
+
+  const isImageBlocked = !!selectedFile && (isValidating || !validation || 'err' in validation);
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const imageData = selectedFile ? getValidatedImage() : null;
+    if (selectedFile && !imageData) return;
+
     const metadata: TileMetadata = {
       id: formData.id,
       name: formData.name,
@@ -57,20 +118,18 @@ export function TilesView() {
       const result = await createTile.mutateAsync(metadata);
 
       if ("ok" in result) {
-        // Upload image if selected
-        if (selectedFile) {
-          const buffer = await selectedFile.arrayBuffer();
-          const uint8Array = new Uint8Array(buffer);
+        // Upload the validated (possibly corrected) image
+        if (imageData) {
           await uploadTileImage.mutateAsync({
             id: metadata.id,
-            data: uint8Array
+            data: imageData
           });
         }
 
         toast.success('Tile created successfully');
         setIsCreateDialogOpen(false);
         setFormData({ id: '', name: '', description: '', tags: '', blob_id: '', is_solid: false });
-        setSelectedFile(null);
+        resetFile();
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -94,7 +153,7 @@ export function TilesView() {
       blob_id: tile.blob_id,
       is_solid: tile.is_solid ?? false,
     });
-    setSelectedFile(null);
+    resetFile();
     setIsEditDialogOpen(true);
   };
 
@@ -102,6 +161,9 @@ export function TilesView() {
     e.preventDefault();
     if (!selectedTile) return;
 
+    const imageData = selectedFile ? getValidatedImage() : null;
+    if (selectedFile && !imageData) return;
+
     const metadata: TileMetadata = {
       ...selectedTile,
       name: formData.name,
@@ -116,13 +178,11 @@ export function TilesView() {
       const result = await updateTile.mutateAsync({ id: selectedTile.id, metadata });
 
       if ("ok" in result) {
-        // Upload image if selected
-        if (selectedFile) {
-          const buffer = await selectedFile.arrayBuffer();
-          const uint8Array = new Uint8Array(buffer);
+        // Upload the validated (possibly corrected) image
+        if (imageData) {
           await uploadTileImage.mutateAsync({
             id: selectedTile.id,
-            data: uint8Array
+            data: imageData
           });
         }
 
@@ -130,7 +190,7 @@ export function TilesView() {
         setIsEditDialogOpen(false);
         setSelectedTile(null);
         setFormData({ id: '', name: '', description: '', tags: '', blob_id: '', is_solid: false });
-        setSelectedFile(null);
+        resetFile();
       } else {
         toast.error(`Error: ${result.err.message}`, {
           description: `Code: ${result.err.code}`,
@@ -248,10 +308,11 @@ export function TilesView() {
                   onChange={handleFileChange}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Recommended size: 32x32 pixels
+                  Must be 32×32 with transparency. White, grey and checkerboard backgrounds are removed automatically where possible.
                 </p>
+                <ImageValidationPreview result={validation} isValidating={isValidating} />
               </div>
-              <Button type="submit" className="w-full" disabled={createTile.isPending || uploadTileImage.isPending}>
+              <Button type="submit" className="w-full" disabled={createTile.isPending || uploadTileImage.isPending || isImageBlocked}>
                 {createTile.isPending || uploadTileImage.isPending ? 'Creating...' : 'Create Tile'}
               </Button>
             </form>
@@ -321,8 +382,9 @@ export function TilesView() {
                 accept="image/png"
                 onChange={handleFileChange}
               />
+              <ImageValidationPreview result={validation} isValidating={isValidating} />
             </div>
-            <Button type="submit" className="w-full" disabled={updateTile.isPending || uploadTileImage.isPending}>
+            <Button type="submit" className="w-full" disabled={updateTile.isPending || uploadTileImage.isPending || isImageBlocked}>
               {updateTile.isPending || uploadTileImage.isPending ? 'Updating...' : 'Update Tile'}
             </Button>
           </form>
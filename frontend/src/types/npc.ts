@@ -86,6 +86,8 @@ export interface InteractionResult {
     handled: boolean;
     response?: string;
     newState?: NPCState;
+    shopId?: string; // Shop to open, for shop modules whose shop exists
+    craftingType?: string; // Station to open, for crafting modules with recipes
 }
 
 // =============================================================================
@@ -105,35 +107,71 @@ export interface PatrolMovementModule extends MovementModule {
     type: 'patrol';
     waypoints: TilePosition[];
     currentWaypointIndex: number;
+    cooldownMs?: number; // Runtime: time until the next step
+    blockedMs?: number;  // Runtime: time spent waiting for NPCs to clear the way
 }
 
 export interface WanderMovementModule extends MovementModule {
     type: 'wander';
     radius: number;
     origin: TilePosition;
+    cooldownMs?: number; // Runtime: time until the next step
 }
 
 export interface FleeMovementModule extends MovementModule {
     type: 'flee';
+    /** Runs from the player (tag "player") and NPCs with any of these tags */
     fleeFromTags: string[];
+    safeDistance?: number; // tiles; flees while a threat is closer
+    moveIntervalMs?: number;
+    /** Movement used while safe; standing still when unset */
+    idleMovement?: StaticMovementModule | PatrolMovementModule | WanderMovementModule;
+    cooldownMs?: number; // Runtime: time until the next step
+    fleeing?: boolean;   // Runtime: the alert state was set by fleeing, not by another module
 }
 
 // =============================================================================
 // Dialogue System Types
 // =============================================================================
 
+/**
+ * A check against game state. A line whose conditions fail is skipped, a
+ * choice whose conditions fail is hidden. `not` inverts the result.
+ */
+export type DialogueCondition = { not?: boolean } & (
+    | { type: 'quest_state'; questId: string; state: QuestState }
+    | { type: 'flag'; flag: string }
+    | { type: 'item_count'; itemId: string; min: number }
+    | { type: 'gold'; min: number }
+    | { type: 'visited'; lineIndex?: number } // Seen this line (or any line) of this NPC before
+);
+
+/** A side effect, run when a line is shown or a choice is picked */
+export type DialogueAction =
+    | { type: 'set_flag'; flag: string; value: boolean }
+    | { type: 'start_quest'; questId: string }
+    | { type: 'complete_quest'; questId: string }
+    | { type: 'turn_in_quest'; questId: string }        // Completed -> turned in; the quest engine grants rewards
+    | { type: 'give_item'; itemId: string; count: number } // Negative count takes items
+    | { type: 'give_gold'; amount: number }                // Negative amount takes gold
+    | { type: 'set_npc_state'; state: NPCState; npcId?: string }; // Defaults to the speaking NPC
+
 /** A single choice in a dialogue */
 export interface DialogueChoice {
     text: string;           // Choice button text (e.g., "Yes, please")
     nextLineIndex?: number; // Jump to specific line (for branching)
+    conditions?: DialogueCondition[]; // Hidden unless all pass
+    actions?: DialogueAction[];       // Run when picked
 }
 
 /** A single line of dialogue */
 export interface DialogueLine {
     speaker?: string;           // Speaker name (defaults to NPC name if not set)
-    text: string;               // The dialogue text
+    text: string;               // The dialogue text, may use {player.name} style placeholders
     choices?: DialogueChoice[]; // Optional choices at this line
     isEnding?: boolean;         // If true, dialogue ends after this line
+    conditions?: DialogueCondition[]; // Skipped unless all pass
+    actions?: DialogueAction[];       // Run when shown
 }
 
 /** A complete dialogue script with multiple lines */
@@ -165,12 +203,12 @@ export interface DialogueInteractionModule extends InteractionModule {
 
 export interface ShopInteractionModule extends InteractionModule {
     type: 'shop';
-    shopId?: string; // Placeholder for future shop system
+    shopId?: string; // Shop definition id (see utils/shop.ts)
 }
 
 export interface CraftingInteractionModule extends InteractionModule {
     type: 'crafting';
-    craftingType?: string; // Placeholder for future crafting system
+    craftingType?: string; // Station name; recipes with this station are made here (see utils/crafting.ts)
 }
 
 // =============================================================================
@@ -183,6 +221,7 @@ export interface QuestObjective {
     description: string;
     type: 'talk' | 'collect' | 'kill' | 'visit';
     target: string;       // NPC id, item id, location id
+    mapId?: string;       // Map a visit region is on (any map when unset)
     required: number;     // How many needed
     current: number;      // Current progress
 }
@@ -227,7 +266,15 @@ export interface NoCombatModule extends CombatModule {
 
 export interface BasicCombatModule extends CombatModule {
     type: 'basic';
-    // Placeholder for future combat stats
+    maxHealth?: number;        // Default 30
+    damage?: number;           // Damage per hit, default 5
+    attackRange?: number;      // Tiles, default 1
+    attackCooldownMs?: number; // Time between attacks, default 1200
+    aggroRange?: number;       // Tiles; enters combat with the player within this range, default 2
+    // Runtime state (see utils/combat.ts)
+    health?: number;           // Current health; maxHealth when unset
+    cooldownMs?: number;       // Time until the next attack
+    moveCooldownMs?: number;   // Time until the next step while chasing the player
 }
 
 // =============================================================================
@@ -0,0 +1,333 @@
+/**
+ * Texture Atlas Packer
+ *
+ * Packs tile images and sprite sheet frames into power-of-two atlas pages.
+ * Each page comes with a frame index, used directly by the game test
+ * renderer (one draw source instead of an image per tile) and exported in
+ * the TexturePacker "JSON hash" format that Phaser, PixiJS and most engines
+ * load as-is.
+ *
+ * Packing is shelf-based: sprites sorted by height fill rows left to right.
+ * For uniform 32x32 tiles this is optimal; for mixed sprite frames it is
+ * close enough and keeps frames in a predictable order.
+ */
+
+import type { MapData, SpriteSheet } from '../backend';
+import type { DownloadFile } from './download';
+import { decodeImage, encodePng, type PixelBuffer } from './imageValidation';
+import { layersFromBackend } from './mapLayers';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AtlasSprite {
+    /** Frame name in the index - tile id, or sheet id + frame number */
+    name: string;
+    image: PixelBuffer;
+}
+
+export interface AtlasFrame {
+    name: string;
+    page: number;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export interface AtlasPage {
+    index: number;
+    width: number;
+    height: number;
+    pixels: PixelBuffer;
+    frames: AtlasFrame[];
+}
+
+export interface AtlasOptions {
+    /** Largest page edge in pixels (default 2048) */
+    maxSize?: number;
+    /** Transparent gap between frames (default 2) */
+    padding?: number;
+    /** Edge pixels repeated around each frame, against sampling bleed (default 1) */
+    extrude?: number;
+}
+
+/** TexturePacker JSON hash, as read by Phaser/PixiJS */
+export interface TexturePackerHash {
+    frames: Record<string, {
+        frame: { x: number; y: number; w: number; h: number };
+        rotated: boolean;
+        trimmed: boolean;
+        spriteSourceSize: { x: number; y: number; w: number; h: number };
+        sourceSize: { w: number; h: number };
+    }>;
+    meta: {
+        app: string;
+        version: string;
+        image: string;
+        format: string;
+        size: { w: number; h: number };
+        scale: string;
+        related_multi_packs?: string[];
+    };
+}
+
+const DEFAULT_MAX_SIZE = 2048;
+const DEFAULT_PADDING = 2;
+const DEFAULT_EXTRUDE = 1;
+
+// =============================================================================
+// Packing
+// =============================================================================
+
+interface Slot {
+    sprite: AtlasSprite;
+    x: number;
+    y: number;
+}
+
+function nextPowerOfTwo(value: number): number {
+    let size = 1;
+    while (size < value) size *= 2;
+    return size;
+}
+
+/**
+ * Shelf-pack as many sprites as fit into a width x maxHeight area. Returns
+ * the placements (in input order) and the height actually used.
+ */
+function shelfPack(sprites: AtlasSprite[], width: number, maxHeight: number, border: number, padding: number): { slots: Slot[]; height: number } {
+    const slots: Slot[] = [];
+    let x = 0;
+    let y = 0;
+    let shelfHeight = 0;
+
+    for (const sprite of sprites) {
+        const w = sprite.image.width + border * 2;
+        const h = sprite.image.height + border * 2;
+        if (w > width) continue;
+
+        if (x + w > width) {
+            x = 0;
+            y += shelfHeight + padding;
+            shelfHeight = 0;
+        }
+        if (y + h > maxHeight) break;
+
+        slots.push({ sprite, x: x + border, y: y + border });
+        x += w + padding;
+        shelfHeight = Math.max(shelfHeight, h);
+    }
+
+    return { slots, height: y + shelfHeight };
+}
+
+/** Copy a sprite into the page, repeating its edge pixels `extrude` times */
+function blit(page: PixelBuffer, image: PixelBuffer, originX: number, originY: number, extrude: number): void {
+    for (let y = -extrude; y < image.height + extrude; y++) {
+        const sy = Math.min(image.height - 1, Math.max(0, y));
+        const ty = originY + y;
+        if (ty < 0 || ty >= page.height) continue;
+        for (let x = -extrude; x < image.width + extrude; x++) {
+            const sx = Math.min(image.width - 1, Math.max(0, x));
+            const tx = originX + x;
+            if (tx < 0 || tx >= page.width) continue;
+            const from = (sy * image.width + sx) * 4;
+            const to = (ty * page.width + tx) * 4;
+            page.data[to] = image.data[from]!;
+            page.data[to + 1] = image.data[from + 1]!;
+            page.data[to + 2] = image.data[from + 2]!;
+            page.data[to + 3] = image.data[from + 3]!;
+        }
+    }
+}
+
+/**
+ * Pack sprites into as few power-of-two pages as possible. Each page is the
+ * smallest power-of-two size that holds its frames; sprites larger than
+ * `maxSize` are dropped with a console warning.
+ */
+export function packAtlas(sprites: AtlasSprite[], options: AtlasOptions = {}): AtlasPage[] {
+    const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    const padding = options.padding ?? DEFAULT_PADDING;
+    const extrude = options.extrude ?? DEFAULT_EXTRUDE;
+
+    const fits = (s: AtlasSprite) => s.image.width + extrude * 2 <= maxSize && s.image.height + extrude * 2 <= maxSize;
+    sprites.filter(s => !fits(s)).forEach(s => console.warn(`[atlas] "${s.name}" is larger than ${maxSize}px and was skipped`));
+
+    // Tallest first keeps shelves tight; names break ties so output is stable
+    let remaining = sprites.filter(fits).sort((a, b) =>
+        b.image.height - a.image.height || b.image.width - a.image.width || a.name.localeCompare(b.name));
+    const pages: AtlasPage[] = [];
+
+    while (remaining.length > 0) {
+        // Try every power-of-two width, keep the smallest page that holds everything left
+        const widest = Math.max(...remaining.map(s => s.image.width + extrude * 2));
+        let best: { slots: Slot[]; width: number; height: number } | null = null;
+        for (let width = nextPowerOfTwo(widest); width <= maxSize; width *= 2) {
+            const packed = shelfPack(remaining, width, maxSize, extrude, padding);
+            const height = nextPowerOfTwo(packed.height);
+            const candidate = { slots: packed.slots, width, height };
+            if (!best
+                || candidate.slots.length > best.slots.length
+                || (candidate.slots.length === best.slots.length && width * height < best.width * best.height)) {
+                best = candidate;
+            }
+        }
+        if (!best || best.slots.length === 0) break;
+
+        const pixels: PixelBuffer = { width: best.width, height: best.height, data: new Uint8ClampedArray(best.width * best.height * 4) };
+        const frames: AtlasFrame[] = best.slots.map((slot) => {
+            blit(pixels, slot.sprite.image, slot.x, slot.y, extrude);
+            return { name: slot.sprite.name, page: pages.length, x: slot.x, y: slot.y, w: slot.sprite.image.width, h: slot.sprite.image.height };
+        });
+        pages.push({ index: pages.length, width: best.width, height: best.height, pixels, frames });
+
+        const placed = new Set(best.slots.map(s => s.sprite));
+        remaining = remaining.filter(s => !placed.has(s));
+    }
+
+    return pages;
+}
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+/** Every tile id the map draws, across all tile layers */
+export function tileIdsForMap(map: MapData): string[] {
+    const ids = new Set<string>();
+    for (const layer of layersFromBackend(map)) {
+        if (layer.kind === 'tile') layer.tiles.forEach(t => ids.add(t.tileId));
+    }
+    return Array.from(ids).sort();
+}
+
+/** Load and decode tile images; tiles without an image are left out */
+export async function loadTileSprites(
+    tileIds: string[],
+    loadTileImage: (tileId: string) => Promise<Uint8Array | null>
+): Promise<AtlasSprite[]> {
+    const sprites: AtlasSprite[] = [];
+    for (const id of tileIds) {
+        try {
+            const bytes = await loadTileImage(id);
+            if (bytes) sprites.push({ name: id, image: await decodeImage(bytes) });
+        } catch (err) {
+            console.warn(`[atlas] Could not load tile ${id}:`, err);
+        }
+    }
+    return sprites;
+}
+
+/** Cut a sprite sheet image into frames named `<sheet id>_<frame index>` */
+export function sliceSpriteSheet(sheet: SpriteSheet, image: PixelBuffer): AtlasSprite[] {
+    const frameWidth = Number(sheet.frame_width);
+    const frameHeight = Number(sheet.frame_height);
+    if (frameWidth <= 0 || frameHeight <= 0) return [];
+
+    const columns = Math.floor(image.width / frameWidth);
+    const rows = Math.floor(image.height / frameHeight);
+    const total = Math.min(Number(sheet.total_frames) || columns * rows, columns * rows);
+    const sprites: AtlasSprite[] = [];
+
+    for (let i = 0; i < total; i++) {
+        const originX = (i % columns) * frameWidth;
+        const originY = Math.floor(i / columns) * frameHeight;
+        const data = new Uint8ClampedArray(frameWidth * frameHeight * 4);
+        for (let y = 0; y < frameHeight; y++) {
+            const from = ((originY + y) * image.width + originX) * 4;
+            data.set(image.data.subarray(from, from + frameWidth * 4), y * frameWidth * 4);
+        }
+        sprites.push({ name: `${sheet.id}_${i}`, image: { width: frameWidth, height: frameHeight, data } });
+    }
+
+    return sprites;
+}
+
+// =============================================================================
+// Runtime Lookup
+// =============================================================================
+
+export interface AtlasLookup {
+    pages: ImageBitmap[];
+    frames: Record<string, AtlasFrame>;
+}
+
+/** Upload pages as bitmaps and index frames by name, for canvas drawing */
+export async function createAtlasLookup(pages: AtlasPage[]): Promise<AtlasLookup> {
+    const bitmaps = await Promise.all(pages.map(page =>
+        createImageBitmap(new ImageData(new Uint8ClampedArray(page.pixels.data), page.width, page.height))));
+    const frames: Record<string, AtlasFrame> = {};
+    pages.forEach(page => page.frames.forEach((frame) => { frames[frame.name] = frame; }));
+    return { pages: bitmaps, frames };
+}
+
+/** Draw a named frame; returns false when the atlas does not have it */
+export function drawAtlasFrame(
+    ctx: CanvasRenderingContext2D,
+    atlas: AtlasLookup,
+    name: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): boolean {
+    const frame = atlas.frames[name];
+    const page = frame ? atlas.pages[frame.page] : undefined;
+    if (!frame || !page) return false;
+    ctx.drawImage(page, frame.x, frame.y, frame.w, frame.h, x, y, width, height);
+    return true;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export function toTexturePackerHash(page: AtlasPage, imageName: string, relatedPacks: string[] = []): TexturePackerHash {
+    const frames: TexturePackerHash['frames'] = {};
+    for (const frame of page.frames) {
+        frames[frame.name] = {
+            frame: { x: frame.x, y: frame.y, w: frame.w, h: frame.h },
+            rotated: false,
+            trimmed: false,
+            spriteSourceSize: { x: 0, y: 0, w: frame.w, h: frame.h },
+            sourceSize: { w: frame.w, h: frame.h },
+        };
+    }
+    return {
+        frames,
+        meta: {
+            app: 'Tile Smith',
+            version: '1.0',
+            image: imageName,
+            format: 'RGBA8888',
+            size: { w: page.width, h: page.height },
+            scale: '1',
+            ...(relatedPacks.length > 0 ? { related_multi_packs: relatedPacks } : {}),
+        },
+    };
+}
+
+/**
+ * PNG + JSON hash per page. Multi-page atlases are numbered and list their
+ * sibling JSON files under `meta.related_multi_packs`, as TexturePacker does.
+ */
+export async function exportAtlas(pages: AtlasPage[], baseName: string): Promise<DownloadFile[]> {
+    const names = pages.map(page => pages.length === 1 ? baseName : `${baseName}-${page.index}`);
+    const files: DownloadFile[] = [];
+
+    for (const page of pages) {
+        const name = names[page.index]!;
+        const related = names.filter(n => n !== name).map(n => `${n}.json`);
+        files.push({ name: `${name}.png`, data: await encodePng(page.pixels), type: 'image/png' });
+        files.push({
+            name: `${name}.json`,
+            data: JSON.stringify(toTexturePackerHash(page, `${name}.png`, related), null, 2),
+            type: 'application/json',
+        });
+    }
+
+    return files;
+}
@@ -0,0 +1,251 @@
+/**
+ * Autotiling
+ *
+ * Rule-based tile selection for tile sets that carry an autotile rule. Every
+ * painted cell looks at which neighbours belong to the same tile set, turns
+ * that into a bitmask and picks the tile assigned to that mask.
+ *
+ * Two rule modes are supported:
+ * - wang16: 4-neighbour (edges only), 16 masks - marching-squares style paths
+ * - blob47: 8-neighbour, corners only count when both adjacent edges are set,
+ *   which leaves 47 distinct masks - cliffs, water edges, etc.
+ *
+ * Bits (blob47): N=1 NE=2 E=4 SE=8 S=16 SW=32 W=64 NW=128
+ * Bits (wang16): N=1 E=2 S=4 W=8
+ */
+
+import type { AutotileRule, TileSet } from '../backend';
+import type { GridPoint } from './editorTools';
+import { placeLayerTiles, type EditorLayer, type LayerTile } from './mapLayers';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AutotileMode = 'blob47' | 'wang16';
+
+/** Autotile rule in the editor's local format - mask to tile id */
+export interface AutotileConfig {
+    mode: AutotileMode;
+    slots: Record<number, string>;
+}
+
+export const AUTOTILE_MODE_LABELS: Record<AutotileMode, string> = {
+    blob47: '47-tile blob (8 neighbours)',
+    wang16: '16-tile Wang (4 neighbours)',
+};
+
+// =============================================================================
+// Masks
+// =============================================================================
+
+const BLOB = { N: 1, NE: 2, E: 4, SE: 8, S: 16, SW: 32, W: 64, NW: 128 } as const;
+const WANG = { N: 1, E: 2, S: 4, W: 8 } as const;
+
+/** Neighbour offsets and the bit each one sets, per mode */
+const NEIGHBOR_BITS: Record<AutotileMode, Array<{ dx: number; dy: number; bit: number }>> = {
+    blob47: [
+        { dx: 0, dy: -1, bit: BLOB.N },
+        { dx: 1, dy: -1, bit: BLOB.NE },
+        { dx: 1, dy: 0, bit: BLOB.E },
+        { dx: 1, dy: 1, bit: BLOB.SE },
+        { dx: 0, dy: 1, bit: BLOB.S },
+        { dx: -1, dy: 1, bit: BLOB.SW },
+        { dx: -1, dy: 0, bit: BLOB.W },
+        { dx: -1, dy: -1, bit: BLOB.NW },
+    ],
+    wang16: [
+        { dx: 0, dy: -1, bit: WANG.N },
+        { dx: 1, dy: 0, bit: WANG.E },
+        { dx: 0, dy: 1, bit: WANG.S },
+        { dx: -1, dy: 0, bit: WANG.W },
+    ],
+};
+
+/**
+ * Drop corner bits whose adjacent edges are not both set - a corner only
+ * changes the tile's look when it sits between two connected edges
+ */
+export function normalizeBlobMask(mask: number): number {
+    let result = mask & (BLOB.N | BLOB.E | BLOB.S | BLOB.W);
+    if ((mask & BLOB.NE) && (mask & BLOB.N) && (mask & BLOB.E)) result |= BLOB.NE;
+    if ((mask & BLOB.SE) && (mask & BLOB.S) && (mask & BLOB.E)) result |= BLOB.SE;
+    if ((mask & BLOB.SW) && (mask & BLOB.S) && (mask & BLOB.W)) result |= BLOB.SW;
+    if ((mask & BLOB.NW) && (mask & BLOB.N) && (mask & BLOB.W)) result |= BLOB.NW;
+    return result;
+}
+
+export const BLOB47_MASKS: number[] = Array.from(
+    new Set(Array.from({ length: 256 }, (_, mask) => normalizeBlobMask(mask)))
+).sort((a, b) => a - b);
+
+export const WANG16_MASKS: number[] = Array.from({ length: 16 }, (_, mask) => mask);
+
+/** Every mask a rule of this mode can assign a tile to */
+export function autotileMasks(mode: AutotileMode): number[] {
+    return mode === 'blob47' ? BLOB47_MASKS : WANG16_MASKS;
+}
+
+/**
+ * 3x3 row-major preview of a mask (centre always set), for slot editors
+ */
+export function maskToGrid(mode: AutotileMode, mask: number): boolean[] {
+    const grid = new Array(9).fill(false);
+    grid[4] = true;
+    for (const { dx, dy, bit } of NEIGHBOR_BITS[mode]) {
+        if (mask & bit) grid[(dy + 1) * 3 + (dx + 1)] = true;
+    }
+    return grid;
+}
+
+/**
+ * Mask for a cell given a membership test. Cells outside the map count as
+ * members so filled areas run cleanly off the map edge.
+ */
+export function neighborMask(
+    mode: AutotileMode,
+    x: number,
+    y: number,
+    isMember: (x: number, y: number) => boolean,
+    mapWidth: number,
+    mapHeight: number
+): number {
+    let mask = 0;
+    for (const { dx, dy, bit } of NEIGHBOR_BITS[mode]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const outside = nx < 0 || ny < 0 || nx >= mapWidth || ny >= mapHeight;
+        if (outside || isMember(nx, ny)) mask |= bit;
+    }
+    return mode === 'blob47' ? normalizeBlobMask(mask) : mask;
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+function toAutotileMode(mode: string): AutotileMode | null {
+    return mode === 'blob47' || mode === 'wang16' ? mode : null;
+}
+
+/** Read a tile set's autotile rule, or null if it has none (or an unknown mode) */
+export function autotileFromBackend(tileSet: TileSet): AutotileConfig | null {
+    const rule = tileSet.autotile?.[0];
+    if (!rule) return null;
+    const mode = toAutotileMode(rule.mode);
+    if (!mode) return null;
+
+    const slots: Record<number, string> = {};
+    for (const slot of rule.slots) {
+        slots[Number(slot.mask)] = slot.tile_id;
+    }
+    return { mode, slots };
+}
+
+/** Convert to the Candid optional, dropping unassigned slots */
+export function autotileToBackend(config: AutotileConfig | null): [] | [AutotileRule] {
+    if (!config) return [];
+    const slots = autotileMasks(config.mode)
+        .filter(mask => !!config.slots[mask])
+        .map(mask => ({ mask: BigInt(mask), tile_id: config.slots[mask] }));
+    return [{ mode: config.mode, slots }];
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/** Tile ids assigned to any slot - a cell is part of the autotile if it holds one */
+export function autotileTileIds(config: AutotileConfig): Set<string> {
+    return new Set(Object.values(config.slots).filter(Boolean));
+}
+
+function countBits(value: number): number {
+    let count = 0;
+    for (let v = value; v; v >>= 1) count += v & 1;
+    return count;
+}
+
+/**
+ * Tile for a mask. Falls back to the assigned slot sharing the most neighbour
+ * bits so incomplete rules still paint something sensible.
+ */
+export function resolveAutotileTile(config: AutotileConfig, mask: number): string | null {
+    if (config.slots[mask]) return config.slots[mask];
+
+    const allBits = config.mode === 'blob47' ? 0xff : 0xf;
+    let best: string | null = null;
+    let bestScore = -1;
+    for (const slotMask of autotileMasks(config.mode)) {
+        const tileId = config.slots[slotMask];
+        if (!tileId) continue;
+        // Prefer slots that don't claim connections the cell doesn't have
+        const score = countBits(~(slotMask ^ mask) & allBits) * 2 + ((slotMask & ~mask) === 0 ? 1 : 0);
+        if (score > bestScore) {
+            bestScore = score;
+            best = tileId;
+        }
+    }
+    return best;
+}
+
+/**
+ * Paint or erase autotile cells on a tile layer, then re-resolve the changed
+ * cells and their neighbours. Tiles that aren't part of the autotile are left
+ * alone (erasing only removes autotile tiles).
+ */
+export function applyAutotileBrush(
+    layer: EditorLayer,
+    config: AutotileConfig,
+    cells: GridPoint[],
+    action: 'paint' | 'erase',
+    mapWidth: number,
+    mapHeight: number
+): EditorLayer {
+    const memberIds = autotileTileIds(config);
+    if (memberIds.size === 0) return layer;
+
+    const key = (x: number, y: number) => `${x},${y}`;
+    const members = new Set(layer.tiles.filter(t => memberIds.has(t.tileId)).map(t => key(t.x, t.y)));
+    const changed = cells.filter(c => c.x >= 0 && c.y >= 0 && c.x < mapWidth && c.y < mapHeight);
+
+    for (const cell of changed) {
+        if (action === 'paint') {
+            members.add(key(cell.x, cell.y));
+        } else {
+            members.delete(key(cell.x, cell.y));
+        }
+    }
+
+    // Changed cells plus their 8 neighbours may need a different tile
+    const affected = new Map<string, GridPoint>();
+    for (const cell of changed) {
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const x = cell.x + dx;
+                const y = cell.y + dy;
+                if (x < 0 || y < 0 || x >= mapWidth || y >= mapHeight) continue;
+                affected.set(key(x, y), { x, y });
+            }
+        }
+    }
+
+    const isMember = (x: number, y: number) => members.has(key(x, y));
+    const placed: LayerTile[] = [];
+    for (const cell of affected.values()) {
+        if (!isMember(cell.x, cell.y)) continue;
+        const mask = neighborMask(config.mode, cell.x, cell.y, isMember, mapWidth, mapHeight);
+        const tileId = resolveAutotileTile(config, mask);
+        if (tileId) placed.push({ tileId, x: cell.x, y: cell.y });
+    }
+
+    let result = placeLayerTiles(layer, placed);
+    if (action === 'erase') {
+        const erased = new Set(changed.map(c => key(c.x, c.y)));
+        result = {
+            ...result,
+            tiles: result.tiles.filter(t => !(erased.has(key(t.x, t.y)) && memberIds.has(t.tileId))),
+        };
+    }
+    return result;
+}
@@ -0,0 +1,266 @@
+/**
+ * Combat
+ *
+ * Health, damage and attack timing for the player and for NPCs with a basic
+ * combat module, independent of any view.
+ *
+ * - The player attacks the area in front of their hitbox. NPCs whose
+ *   hitbox overlaps it take the player's damage and turn on the player.
+ * - NPCs in combat hit the player whenever they are within attack range and
+ *   their cooldown has run out. Overshield soaks damage before health.
+ * - An NPC at 0 health is disabled through `forceStateChange`.
+ *
+ * NPC combat state (health, cooldown) lives on its combat module, like the
+ * patrol module's waypoint index. Player stats come from the character's
+ * CharacterStats: health, strength (damage), speed (attack rate) and
+ * overshield.
+ */
+
+import type { CharacterStats, SpriteSheet } from '../backend';
+import type { BasicCombatModule, NPC, NPCDirection, NPCModuleInstance } from '../types/npc';
+import { forceStateChange, getModule } from './npcController';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Hitbox relative to the top-left of the drawn sprite, in world pixels */
+export interface HitboxOffsets {
+    offsetX: number;
+    offsetY: number;
+    width: number;
+    height: number;
+}
+
+export interface PlayerCombat {
+    health: number;
+    maxHealth: number;
+    overshield: number;
+    damage: number;
+    attackCooldownMs: number;
+    /** Time until the player can attack again */
+    cooldownMs: number;
+    /** Time left on the attack animation */
+    attackingMs: number;
+}
+
+export interface CombatHit {
+    npcId: string;
+    damage: number;
+    killed: boolean;
+}
+
+/** An NPC attack that landed on the player */
+export interface CombatAttack {
+    npcId: string;
+    damage: number;
+}
+
+export const DEFAULT_NPC_COMBAT: Required<Pick<BasicCombatModule, 'maxHealth' | 'damage' | 'attackRange' | 'attackCooldownMs' | 'aggroRange'>> = {
+    maxHealth: 30,
+    damage: 5,
+    attackRange: 1,
+    attackCooldownMs: 1200,
+    aggroRange: 2,
+};
+
+const DEFAULT_PLAYER_STATS = { health: 100, strength: 5, speed: 5, overshield: 0 };
+
+/** How long the attack animation plays */
+export const ATTACK_ANIMATION_MS = 300;
+
+// =============================================================================
+// NPC Stats
+// =============================================================================
+
+/** The NPC's combat module, if it can fight */
+export function getCombatModule(npc: NPC): BasicCombatModule | undefined {
+    const module = getModule<BasicCombatModule>(npc, 'combat');
+    return module?.type === 'basic' ? module : undefined;
+}
+
+export function npcCombatStats(module: BasicCombatModule): typeof DEFAULT_NPC_COMBAT {
+    return {
+        maxHealth: module.maxHealth ?? DEFAULT_NPC_COMBAT.maxHealth,
+        damage: module.damage ?? DEFAULT_NPC_COMBAT.damage,
+        attackRange: module.attackRange ?? DEFAULT_NPC_COMBAT.attackRange,
+        attackCooldownMs: module.attackCooldownMs ?? DEFAULT_NPC_COMBAT.attackCooldownMs,
+        aggroRange: module.aggroRange ?? DEFAULT_NPC_COMBAT.aggroRange,
+    };
+}
+
+/** Current and max health; null for NPCs that cannot fight */
+export function npcHealth(npc: NPC): { current: number; max: number } | null {
+    const module = getCombatModule(npc);
+    if (!module) return null;
+    const max = npcCombatStats(module).maxHealth;
+    return { current: module.health ?? max, max };
+}
+
+function withCombatModule(npc: NPC, module: BasicCombatModule): NPC {
+    return {
+        ...npc,
+        modules: npc.modules.map((m: NPCModuleInstance) => m.category === 'combat' ? module : m),
+    };
+}
+
+// =============================================================================
+// Player Stats
+// =============================================================================
+
+export function createPlayerCombat(stats?: CharacterStats): PlayerCombat {
+    const health = Math.max(1, Number(stats?.health[0] ?? DEFAULT_PLAYER_STATS.health));
+    const speed = Number(stats?.speed[0] ?? DEFAULT_PLAYER_STATS.speed);
+    return {
+        health,
+        maxHealth: health,
+        overshield: Number(stats?.overshield[0] ?? DEFAULT_PLAYER_STATS.overshield),
+        damage: Number(stats?.strength[0] ?? DEFAULT_PLAYER_STATS.strength),
+        // Speed 5 attacks every 600ms; faster characters attack more often
+        attackCooldownMs: Math.min(1500, Math.max(200, 3000 / Math.max(1, speed))),
+        cooldownMs: 0,
+        attackingMs: 0,
+    };
+}
+
+export function tickPlayerCombat(player: PlayerCombat, delta: number): PlayerCombat {
+    if (player.cooldownMs <= 0 && player.attackingMs <= 0) return player;
+    return {
+        ...player,
+        cooldownMs: Math.max(0, player.cooldownMs - delta),
+        attackingMs: Math.max(0, player.attackingMs - delta),
+    };
+}
+
+/** Overshield takes the damage first */
+export function damagePlayer(player: PlayerCombat, amount: number): PlayerCombat {
+    const absorbed = Math.min(player.overshield, amount);
+    return {
+        ...player,
+        overshield: player.overshield - absorbed,
+        health: Math.max(0, player.health - (amount - absorbed)),
+    };
+}
+
+// =============================================================================
+// Hitboxes
+// =============================================================================
+
+/**
+ * The sprite sheet's hitbox scaled from frame pixels to the size the sprite
+ * is drawn at, or `fallback` when the sheet has none.
+ */
+export function spriteHitbox(sheet: SpriteSheet | undefined, drawSize: number, fallback: HitboxOffsets): HitboxOffsets {
+    const hitbox = sheet?.hitbox?.[0];
+    if (!sheet || !hitbox) return fallback;
+    const scaleX = drawSize / (Number(sheet.frame_width) || drawSize);
+    const scaleY = drawSize / (Number(sheet.frame_height) || drawSize);
+    return {
+        offsetX: Number(hitbox.offset_x) * scaleX,
+        offsetY: Number(hitbox.offset_y) * scaleY,
+        width: Number(hitbox.width) * scaleX,
+        height: Number(hitbox.height) * scaleY,
+    };
+}
+
+export function hitboxRect(position: { x: number; y: number }, hitbox: HitboxOffsets): Rect {
+    return { x: position.x + hitbox.offsetX, y: position.y + hitbox.offsetY, width: hitbox.width, height: hitbox.height };
+}
+
+/** NPCs have no sprites yet: the circle they are drawn as, as a square */
+export function npcHitboxRect(npc: NPC, tileSize: number): Rect {
+    const size = (tileSize * 2) / 3;
+    return {
+        x: npc.position.x * tileSize + (tileSize - size) / 2,
+        y: npc.position.y * tileSize + (tileSize - size) / 2,
+        width: size,
+        height: size,
+    };
+}
+
+/** The strip `reach` pixels deep in front of `body`, as wide as the body faces */
+export function attackRect(body: Rect, direction: NPCDirection, reach: number): Rect {
+    switch (direction) {
+        case 'up':
+            return { x: body.x, y: body.y - reach, width: body.width, height: reach };
+        case 'down':
+            return { x: body.x, y: body.y + body.height, width: body.width, height: reach };
+        case 'left':
+            return { x: body.x - reach, y: body.y, width: reach, height: body.height };
+        case 'right':
+            return { x: body.x + body.width, y: body.y, width: reach, height: body.height };
+    }
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Swing at `area`. Returns null while the player's attack is cooling down;
+ * otherwise the NPCs after the hits (an empty `hits` is a miss).
+ */
+export function playerAttack(
+    player: PlayerCombat,
+    npcs: NPC[],
+    area: Rect,
+    tileSize: number
+): { player: PlayerCombat; npcs: NPC[]; hits: CombatHit[] } | null {
+    if (player.cooldownMs > 0) return null;
+
+    const hits: CombatHit[] = [];
+    const updated = npcs.map((npc: NPC) => {
+        const module = getCombatModule(npc);
+        if (!module || npc.state === 'disabled' || !rectsOverlap(area, npcHitboxRect(npc, tileSize))) return npc;
+
+        const health = Math.max(0, (module.health ?? npcCombatStats(module).maxHealth) - player.damage);
+        const killed = health === 0;
+        hits.push({ npcId: npc.id, damage: player.damage, killed });
+        // Being hit draws aggro, whatever the range
+        return forceStateChange(withCombatModule(npc, { ...module, health }), killed ? 'disabled' : 'combat');
+    });
+
+    return {
+        player: { ...player, cooldownMs: player.attackCooldownMs, attackingMs: ATTACK_ANIMATION_MS },
+        npcs: updated,
+        hits,
+    };
+}
+
+/**
+ * Advance the cooldowns of NPCs in combat and let those in range attack
+ * the player. `playerTile` is the player's position in tiles.
+ */
+export function tickNpcCombat(
+    npcs: NPC[],
+    playerTile: { x: number; y: number },
+    delta: number
+): { npcs: NPC[]; attacks: CombatAttack[] } {
+    const attacks: CombatAttack[] = [];
+    const updated = npcs.map((npc: NPC) => {
+        const module = getCombatModule(npc);
+        if (!module || npc.state !== 'combat') return npc;
+
+        const stats = npcCombatStats(module);
+        const cooldownMs = Math.max(0, (module.cooldownMs ?? 0) - delta);
+        const distance = Math.hypot(npc.position.x - playerTile.x, npc.position.y - playerTile.y);
+        if (cooldownMs > 0 || distance > stats.attackRange) {
+            return cooldownMs === module.cooldownMs ? npc : withCombatModule(npc, { ...module, cooldownMs });
+        }
+
+        attacks.push({ npcId: npc.id, damage: stats.damage });
+        return withCombatModule(npc, { ...module, cooldownMs: stats.attackCooldownMs });
+    });
+    return { npcs: attacks.length > 0 || updated.some((n, i) => n !== npcs[i]) ? updated : npcs, attacks };
+}
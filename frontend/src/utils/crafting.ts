@@ -0,0 +1,196 @@
+/**
+ * Crafting
+ *
+ * Recipe definitions and crafting rules for the game test runtime. A recipe
+ * is made at NPCs whose crafting module's `craftingType` equals the
+ * recipe's `station`.
+ *
+ * Crafting takes time: `startCraft` checks the ingredients, takes them and
+ * returns a job; `finishCraft` hands over the outputs once the job is done.
+ * The job carries the outputs it was started with, so editing or deleting
+ * the recipe meanwhile does not take back what the ingredients paid for.
+ * Room for the outputs is checked when the job starts, counting the slots
+ * the ingredients free up, and again when it finishes, as items picked up
+ * or bought in between may have filled the inventory.
+ *
+ * Like the other runtime modules every function is pure and the caller
+ * passes the current time.
+ */
+
+import type { Recipe as RecipeRecord } from '../backend';
+import type { DialogueWorld } from './dialogueRuntime';
+import { addItems, countItem, removeItems, type Inventory, type ItemCatalog, INVENTORY_SLOTS } from './inventory';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RecipeIngredient {
+    itemId: string;
+    count: number;
+}
+
+export interface Recipe {
+    id: string;
+    name: string;
+    /** craftingType of the NPCs that craft it */
+    station: string;
+    inputs: RecipeIngredient[];
+    outputs: RecipeIngredient[];
+    craftTimeMs: number;
+}
+
+export interface MissingIngredient extends RecipeIngredient {
+    held: number;
+}
+
+export interface RecipeStatus {
+    recipe: Recipe;
+    craftable: boolean;
+    missing: MissingIngredient[];
+}
+
+/** A recipe being crafted */
+export interface CraftingJob {
+    recipeId: string;
+    /** The recipe's name and outputs when the job started */
+    name: string;
+    outputs: RecipeIngredient[];
+    startedAt: number;
+    finishesAt: number;
+}
+
+export type CraftStartResult =
+    | { ok: { world: DialogueWorld; job: CraftingJob } }
+    | { err: string };
+
+export type CraftFinishResult =
+    | { ok: DialogueWorld }
+    | { err: string };
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+function ingredientsFromRecord(ingredients: RecipeRecord['inputs']): RecipeIngredient[] {
+    return ingredients.map(i => ({ itemId: i.item_id, count: Number(i.count) }));
+}
+
+function ingredientsToRecord(ingredients: RecipeIngredient[]): RecipeRecord['inputs'] {
+    return ingredients.map(i => ({ item_id: i.itemId, count: BigInt(Math.max(1, Math.trunc(i.count))) }));
+}
+
+export function recipeFromRecord(record: RecipeRecord): Recipe {
+    return {
+        id: record.id,
+        name: record.name,
+        station: record.station,
+        inputs: ingredientsFromRecord(record.inputs),
+        outputs: ingredientsFromRecord(record.outputs),
+        craftTimeMs: Number(record.craft_time_ms),
+    };
+}
+
+/** `existing` keeps the original creation time when updating */
+export function recipeToRecord(recipe: Recipe, existing?: RecipeRecord): RecipeRecord {
+    const now = BigInt(Date.now());
+    return {
+        id: recipe.id,
+        name: recipe.name,
+        station: recipe.station,
+        inputs: ingredientsToRecord(recipe.inputs),
+        outputs: ingredientsToRecord(recipe.outputs),
+        craft_time_ms: BigInt(Math.max(0, Math.trunc(recipe.craftTimeMs))),
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+    };
+}
+
+export function createRecipeBook(records: RecipeRecord[]): Record<string, Recipe> {
+    return Object.fromEntries(records.map(record => [record.id, recipeFromRecord(record)]));
+}
+
+/** Recipes made at a station, by name */
+export function recipesForStation(recipes: Record<string, Recipe>, station: string): Recipe[] {
+    return Object.values(recipes)
+        .filter(recipe => recipe.station === station)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// =============================================================================
+// Crafting
+// =============================================================================
+
+export function recipeStatus(inventory: Inventory, recipe: Recipe): RecipeStatus {
+    const missing = recipe.inputs
+        .map(input => ({ ...input, held: countItem(inventory, input.itemId) }))
+        .filter(input => input.held < input.count);
+    return { recipe, craftable: missing.length === 0, missing };
+}
+
+/** Craftable recipes first, each group by name */
+export function stationRecipeStatuses(inventory: Inventory, recipes: Record<string, Recipe>, station: string): RecipeStatus[] {
+    return recipesForStation(recipes, station)
+        .map(recipe => recipeStatus(inventory, recipe))
+        .sort((a, b) => Number(b.craftable) - Number(a.craftable));
+}
+
+function takeIngredients(inventory: Inventory, ingredients: RecipeIngredient[]): Inventory {
+    return ingredients.reduce((inv, input) => removeItems(inv, input.itemId, input.count).inventory, inventory);
+}
+
+/** The inventory with every output added, or null if they do not all fit */
+function withOutputs(inventory: Inventory, catalog: ItemCatalog, outputs: RecipeIngredient[], capacity: number): Inventory | null {
+    for (const output of outputs) {
+        const result = addItems(inventory, catalog, output.itemId, output.count, capacity);
+        if (result.added < output.count) return null;
+        inventory = result.inventory;
+    }
+    return inventory;
+}
+
+/** Take the ingredients and start the job */
+export function startCraft(
+    world: DialogueWorld,
+    catalog: ItemCatalog,
+    recipe: Recipe,
+    now: number,
+    capacity: number = INVENTORY_SLOTS
+): CraftStartResult {
+    if (!recipeStatus(world.inventory, recipe).craftable) return { err: 'Missing ingredients' };
+
+    const inventory = takeIngredients(world.inventory, recipe.inputs);
+    if (!withOutputs(inventory, catalog, recipe.outputs, capacity)) return { err: 'Inventory full' };
+
+    return {
+        ok: {
+            world: { ...world, inventory },
+            job: {
+                recipeId: recipe.id,
+                name: recipe.name,
+                outputs: recipe.outputs.map(output => ({ ...output })),
+                startedAt: now,
+                finishesAt: now + recipe.craftTimeMs,
+            },
+        },
+    };
+}
+
+/** Hand over a finished job's outputs; nothing is handed over unless they all fit */
+export function finishCraft(
+    world: DialogueWorld,
+    catalog: ItemCatalog,
+    job: CraftingJob,
+    capacity: number = INVENTORY_SLOTS
+): CraftFinishResult {
+    const inventory = withOutputs(world.inventory, catalog, job.outputs, capacity);
+    if (!inventory) return { err: 'Inventory full' };
+    return { ok: { ...world, inventory } };
+}
+
+/** 0 to 1 */
+export function craftProgress(job: CraftingJob, now: number): number {
+    const duration = job.finishesAt - job.startedAt;
+    if (duration <= 0) return 1;
+    return Math.min(1, Math.max(0, (now - job.startedAt) / duration));
+}
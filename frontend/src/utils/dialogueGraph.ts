@@ -0,0 +1,268 @@
+/**
+ * Dialogue Graph
+ *
+ * Graph view of a DialogueScript for the node editor: lines are nodes,
+ * choices are edges. Lines without choices continue to the next line unless
+ * marked `isEnding`, and a choice without `nextLineIndex` also continues to
+ * the next line - the same rules the game test runtime follows.
+ *
+ * Editing helpers return new scripts and keep every `nextLineIndex` pointing
+ * at the same line when lines are added, removed or reordered.
+ */
+
+import type { DialogueChoice, DialogueLine, DialogueScript } from '../types/npc';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DialogueEdge {
+    from: number;
+    /** Target line, or null when the edge ends the conversation */
+    to: number | null;
+    /** Choice the edge belongs to; null for the implicit "continue" edge */
+    choiceIndex: number | null;
+    label: string;
+}
+
+export type DialogueIssueKind = 'unreachable' | 'dangling' | 'empty-text' | 'ignored-ending';
+
+export interface DialogueIssue {
+    kind: DialogueIssueKind;
+    severity: 'error' | 'warning';
+    lineIndex: number;
+    choiceIndex?: number;
+    message: string;
+}
+
+export interface NodePosition {
+    x: number;
+    y: number;
+}
+
+/** Where a preview or runtime step leads: another line, or the end */
+export type DialogueStep = { line: number } | { end: true };
+
+// =============================================================================
+// Traversal
+// =============================================================================
+
+/** Where the conversation goes from a line, optionally via one of its choices */
+export function nextDialogueStep(script: DialogueScript, lineIndex: number, choiceIndex?: number): DialogueStep {
+    const line = script.lines[lineIndex];
+    if (!line) return { end: true };
+
+    let next: number;
+    if (line.choices && line.choices.length > 0) {
+        const choice = choiceIndex !== undefined ? line.choices[choiceIndex] : undefined;
+        if (!choice) return { line: lineIndex };
+        next = choice.nextLineIndex ?? lineIndex + 1;
+    } else {
+        if (line.isEnding) return { end: true };
+        next = lineIndex + 1;
+    }
+    return next >= 0 && next < script.lines.length ? { line: next } : { end: true };
+}
+
+/** Every edge leaving every line, in line order */
+export function dialogueEdges(script: DialogueScript): DialogueEdge[] {
+    const edges: DialogueEdge[] = [];
+    script.lines.forEach((line, from) => {
+        if (line.choices && line.choices.length > 0) {
+            line.choices.forEach((choice, choiceIndex) => {
+                const step = nextDialogueStep(script, from, choiceIndex);
+                edges.push({ from, to: 'line' in step ? step.line : null, choiceIndex, label: choice.text });
+            });
+        } else if (!line.isEnding) {
+            const step = nextDialogueStep(script, from);
+            edges.push({ from, to: 'line' in step ? step.line : null, choiceIndex: null, label: '' });
+        }
+    });
+    return edges;
+}
+
+/** Lines reachable from the first line */
+export function reachableLines(script: DialogueScript): Set<number> {
+    const reached = new Set<number>();
+    if (script.lines.length === 0) return reached;
+
+    const edges = dialogueEdges(script);
+    const queue = [0];
+    reached.add(0);
+    while (queue.length > 0) {
+        const from = queue.shift()!;
+        for (const edge of edges) {
+            if (edge.from === from && edge.to !== null && !reached.has(edge.to)) {
+                reached.add(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return reached;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Problems worth fixing before a script ships. Dangling targets are errors
+ * (the runtime silently ends the conversation there); unreachable lines,
+ * empty text and `isEnding` on a line with choices are warnings.
+ */
+export function validateDialogueScript(script: DialogueScript): DialogueIssue[] {
+    const issues: DialogueIssue[] = [];
+    const reached = reachableLines(script);
+
+    script.lines.forEach((line, lineIndex) => {
+        if (!reached.has(lineIndex)) {
+            issues.push({ kind: 'unreachable', severity: 'warning', lineIndex, message: `Line ${lineIndex} can never be reached` });
+        }
+        if (line.text.trim() === '') {
+            issues.push({ kind: 'empty-text', severity: 'warning', lineIndex, message: `Line ${lineIndex} has no text` });
+        }
+        if (line.isEnding && line.choices && line.choices.length > 0) {
+            issues.push({
+                kind: 'ignored-ending',
+                severity: 'warning',
+                lineIndex,
+                message: `Line ${lineIndex} has choices, so "ends dialogue" is ignored`,
+            });
+        }
+        line.choices?.forEach((choice, choiceIndex) => {
+            const target = choice.nextLineIndex;
+            if (target !== undefined && (!Number.isInteger(target) || target < 0 || target >= script.lines.length)) {
+                issues.push({
+                    kind: 'dangling',
+                    severity: 'error',
+                    lineIndex,
+                    choiceIndex,
+                    message: `Choice "${choice.text || choiceIndex + 1}" on line ${lineIndex} points to missing line ${target}`,
+                });
+            }
+        });
+    });
+
+    return issues;
+}
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+export const NODE_WIDTH = 220;
+export const NODE_GAP_X = 80;
+export const NODE_GAP_Y = 40;
+export const NODE_BASE_HEIGHT = 96;
+export const NODE_CHOICE_HEIGHT = 24;
+
+export function nodeHeight(line: DialogueLine): number {
+    return NODE_BASE_HEIGHT + (line.choices?.length ?? 0) * NODE_CHOICE_HEIGHT;
+}
+
+/**
+ * Left-to-right layout: each line sits one column after the first line that
+ * reaches it (breadth-first), unreachable lines go in a last column.
+ */
+export function layoutDialogueGraph(script: DialogueScript): NodePosition[] {
+    const edges = dialogueEdges(script);
+    const depth = new Map<number, number>();
+    if (script.lines.length > 0) {
+        depth.set(0, 0);
+        const queue = [0];
+        while (queue.length > 0) {
+            const from = queue.shift()!;
+            for (const edge of edges) {
+                if (edge.from === from && edge.to !== null && !depth.has(edge.to)) {
+                    depth.set(edge.to, depth.get(from)! + 1);
+                    queue.push(edge.to);
+                }
+            }
+        }
+    }
+
+    const lastColumn = Math.max(-1, ...depth.values()) + 1;
+    const columnHeights: number[] = [];
+    return script.lines.map((line, i) => {
+        const column = depth.get(i) ?? lastColumn;
+        const y = columnHeights[column] ?? 0;
+        columnHeights[column] = y + nodeHeight(line) + NODE_GAP_Y;
+        return { x: column * (NODE_WIDTH + NODE_GAP_X), y };
+    });
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+function withoutTarget(choice: DialogueChoice): DialogueChoice {
+    const { nextLineIndex: _target, ...rest } = choice;
+    return rest;
+}
+
+/** Rewrite every choice target through `map`; null drops the explicit target */
+function remapTargets(lines: DialogueLine[], map: (index: number) => number | null): DialogueLine[] {
+    return lines.map((line) => {
+        if (!line.choices) return line;
+        const choices = line.choices.map((choice): DialogueChoice => {
+            if (choice.nextLineIndex === undefined) return choice;
+            const target = map(choice.nextLineIndex);
+            return target === null ? withoutTarget(choice) : { ...choice, nextLineIndex: target };
+        });
+        return { ...line, choices };
+    });
+}
+
+export function updateLine(script: DialogueScript, index: number, line: DialogueLine): DialogueScript {
+    return { lines: script.lines.map((l, i) => (i === index ? line : l)) };
+}
+
+/** Append a line; returns the new script and the new line's index */
+export function addLine(script: DialogueScript, line: DialogueLine = { text: '' }): { script: DialogueScript; index: number } {
+    return { script: { lines: [...script.lines, line] }, index: script.lines.length };
+}
+
+/** Remove a line; choices that pointed at it fall back to "next line" */
+export function removeLine(script: DialogueScript, index: number): DialogueScript {
+    const lines = script.lines.filter((_, i) => i !== index);
+    return {
+        lines: remapTargets(lines, target => (target === index ? null : target > index ? target - 1 : target)),
+    };
+}
+
+/**
+ * Move a line to another position. Explicit targets follow their lines;
+ * implicit "next line" flow is positional, so it may change.
+ */
+export function moveLine(script: DialogueScript, from: number, to: number): DialogueScript {
+    if (from === to || to < 0 || to >= script.lines.length) return script;
+    const order = script.lines.map((_, i) => i);
+    order.splice(to, 0, order.splice(from, 1)[0]!);
+    const newIndex = new Map(order.map((oldIndex, i) => [oldIndex, i]));
+    return { lines: remapTargets(order.map(i => script.lines[i]!), target => newIndex.get(target) ?? target) };
+}
+
+/** Point a choice at a line, or with null make it continue to the next line */
+export function connectChoice(script: DialogueScript, lineIndex: number, choiceIndex: number, target: number | null): DialogueScript {
+    const line = script.lines[lineIndex];
+    const choice = line?.choices?.[choiceIndex];
+    if (!line || !choice) return script;
+    const updated: DialogueChoice = target === null ? withoutTarget(choice) : { ...choice, nextLineIndex: target };
+    return updateLine(script, lineIndex, {
+        ...line,
+        choices: line.choices!.map((c, i) => (i === choiceIndex ? updated : c)),
+    });
+}
+
+export function addChoice(script: DialogueScript, lineIndex: number, choice: DialogueChoice = { text: '' }): DialogueScript {
+    const line = script.lines[lineIndex];
+    if (!line) return script;
+    return updateLine(script, lineIndex, { ...line, choices: [...(line.choices ?? []), choice] });
+}
+
+export function removeChoice(script: DialogueScript, lineIndex: number, choiceIndex: number): DialogueScript {
+    const line = script.lines[lineIndex];
+    if (!line?.choices) return script;
+    const choices = line.choices.filter((_, i) => i !== choiceIndex);
+    return updateLine(script, lineIndex, { ...line, choices: choices.length > 0 ? choices : undefined });
+}
@@ -0,0 +1,292 @@
+/**
+ * Dialogue Runtime
+ *
+ * Plays a DialogueScript against game state, independent of any view.
+ * Every function is pure: it takes the current session and world and returns
+ * new ones, so the game test view (or a test harness) just stores results.
+ *
+ * - Conditions on a line skip it (the conversation moves on to the next
+ *   line); conditions on a choice hide it.
+ * - Actions on a line run when it is shown, actions on a choice when it is
+ *   picked.
+ * - `{player.name}`, `{npc.name}`, `{gold}`, `{flag.<id>}`, `{item.<id>}` and
+ *   `{quest.<id>}` in speaker names and text are filled in when a line is
+ *   presented. Unknown placeholders are left as written.
+ */
+
+import type {
+    DialogueAction,
+    DialogueCondition,
+    DialogueLine,
+    DialogueScript,
+    DialogueState,
+    NPCState,
+    QuestState,
+} from '../types/npc';
+import { nextDialogueStep } from './dialogueGraph';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The game state dialogue can read and change (the quest engine shares it) */
+export interface DialogueWorld {
+    flags: Record<string, boolean>;
+    questStates: Record<string, QuestState>;
+    /** Objective progress per quest id, then objective id */
+    questProgress: Record<string, Record<string, number>>;
+    inventory: Record<string, number>;
+    gold: number;
+    experience: number;
+    /** Line indices seen per NPC id, for `visited` conditions */
+    visited: Record<string, number[]>;
+}
+
+/** Names available to text placeholders */
+export interface DialogueNames {
+    playerName: string;
+    npcName: string;
+}
+
+/** A line ready to show: placeholders filled, hidden choices removed */
+export interface PresentedLine {
+    speaker: string;
+    text: string;
+    /** `index` is the choice's position in the script, to pass back to `advanceDialogue` */
+    choices: Array<{ index: number; text: string }>;
+    /** True when continuing from this line ends the conversation */
+    isLast: boolean;
+}
+
+export interface DialogueStepResult {
+    /** null once the conversation is over */
+    state: DialogueState | null;
+    world: DialogueWorld;
+    /** NPC state changes requested by actions, for the caller to apply */
+    npcStateChanges: Array<{ npcId: string; state: NPCState }>;
+    /** Actions that ran, in order - e.g. to show "Received 2 potions" */
+    actions: DialogueAction[];
+}
+
+export const DIALOGUE_CONDITION_TYPES: DialogueCondition['type'][] = ['quest_state', 'flag', 'item_count', 'gold', 'visited'];
+
+export const DIALOGUE_ACTION_TYPES: DialogueAction['type'][] = [
+    'set_flag',
+    'start_quest',
+    'complete_quest',
+    'turn_in_quest',
+    'give_item',
+    'give_gold',
+    'set_npc_state',
+];
+
+export function createDialogueWorld(overrides: Partial<DialogueWorld> = {}): DialogueWorld {
+    return { flags: {}, questStates: {}, questProgress: {}, inventory: {}, gold: 0, experience: 0, visited: {}, ...overrides };
+}
+
+// =============================================================================
+// Conditions
+// =============================================================================
+
+function checkCondition(condition: DialogueCondition, world: DialogueWorld, npcId: string): boolean {
+    let result: boolean;
+    switch (condition.type) {
+        case 'quest_state':
+            result = (world.questStates[condition.questId] ?? 'available') === condition.state;
+            break;
+        case 'flag':
+            result = !!world.flags[condition.flag];
+            break;
+        case 'item_count':
+            result = (world.inventory[condition.itemId] ?? 0) >= condition.min;
+            break;
+        case 'gold':
+            result = world.gold >= condition.min;
+            break;
+        case 'visited': {
+            const seen = world.visited[npcId] ?? [];
+            result = condition.lineIndex === undefined ? seen.length > 0 : seen.includes(condition.lineIndex);
+            break;
+        }
+    }
+    return condition.not ? !result : result;
+}
+
+/** True when every condition passes (no conditions always passes) */
+export function checkConditions(conditions: DialogueCondition[] | undefined, world: DialogueWorld, npcId: string): boolean {
+    return (conditions ?? []).every(c => checkCondition(c, world, npcId));
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+interface ActionOutcome {
+    world: DialogueWorld;
+    npcStateChanges: DialogueStepResult['npcStateChanges'];
+}
+
+/**
+ * Apply actions in order. Quests only move forward: start_quest needs the
+ * quest to be available, complete_quest needs it to be active and
+ * turn_in_quest needs it to be completed.
+ */
+export function applyDialogueActions(actions: DialogueAction[] | undefined, world: DialogueWorld, npcId: string): ActionOutcome {
+    let next = world;
+    const npcStateChanges: ActionOutcome['npcStateChanges'] = [];
+
+    for (const action of actions ?? []) {
+        switch (action.type) {
+            case 'set_flag':
+                next = { ...next, flags: { ...next.flags, [action.flag]: action.value } };
+                break;
+            case 'start_quest':
+                if ((next.questStates[action.questId] ?? 'available') === 'available') {
+                    next = { ...next, questStates: { ...next.questStates, [action.questId]: 'active' } };
+                }
+                break;
+            case 'complete_quest':
+                if (next.questStates[action.questId] === 'active') {
+                    next = { ...next, questStates: { ...next.questStates, [action.questId]: 'completed' } };
+                }
+                break;
+            case 'turn_in_quest':
+                if (next.questStates[action.questId] === 'completed') {
+                    next = { ...next, questStates: { ...next.questStates, [action.questId]: 'turned_in' } };
+                }
+                break;
+            case 'give_item': {
+                const count = Math.max(0, (next.inventory[action.itemId] ?? 0) + action.count);
+                next = { ...next, inventory: { ...next.inventory, [action.itemId]: count } };
+                break;
+            }
+            case 'give_gold':
+                next = { ...next, gold: Math.max(0, next.gold + action.amount) };
+                break;
+            case 'set_npc_state':
+                npcStateChanges.push({ npcId: action.npcId ?? npcId, state: action.state });
+                break;
+        }
+    }
+
+    return { world: next, npcStateChanges };
+}
+
+// =============================================================================
+// Interpolation
+// =============================================================================
+
+/** Fill `{player.name}` style placeholders from the world and names */
+export function interpolateDialogueText(text: string, world: DialogueWorld, names: DialogueNames): string {
+    return text.replace(/\{([a-z_]+)(?:\.([^{}]+))?\}/gi, (match, root: string, key?: string) => {
+        switch (root) {
+            case 'player': return key === 'name' ? names.playerName : match;
+            case 'npc': return key === 'name' ? names.npcName : match;
+            case 'gold': return key === undefined ? String(world.gold) : match;
+            case 'flag': return key !== undefined ? String(!!world.flags[key]) : match;
+            case 'item': return key !== undefined ? String(world.inventory[key] ?? 0) : match;
+            case 'quest': return key !== undefined ? (world.questStates[key] ?? 'available') : match;
+            default: return match;
+        }
+    });
+}
+
+// =============================================================================
+// Playback
+// =============================================================================
+
+/**
+ * Enter `index`, skipping lines whose conditions fail. Runs the entered
+ * line's actions and records it as visited. The conversation ends when it
+ * runs off the end of the script.
+ */
+function enterLine(
+    script: DialogueScript,
+    npcId: string,
+    index: number,
+    world: DialogueWorld,
+    ran: DialogueAction[],
+    npcStateChanges: DialogueStepResult['npcStateChanges']
+): DialogueStepResult {
+    // Each skip moves forward, so this visits every line at most once
+    let lineIndex = index;
+    while (lineIndex < script.lines.length && !checkConditions(script.lines[lineIndex]!.conditions, world, npcId)) {
+        lineIndex++;
+    }
+    if (lineIndex >= script.lines.length) {
+        return { state: null, world, npcStateChanges, actions: ran };
+    }
+
+    const line = script.lines[lineIndex]!;
+    const outcome = applyDialogueActions(line.actions, world, npcId);
+    const seen = outcome.world.visited[npcId] ?? [];
+    const visited = seen.includes(lineIndex) ? outcome.world.visited : { ...outcome.world.visited, [npcId]: [...seen, lineIndex] };
+
+    return {
+        state: { npcId, script, currentLineIndex: lineIndex },
+        world: { ...outcome.world, visited },
+        npcStateChanges: [...npcStateChanges, ...outcome.npcStateChanges],
+        actions: [...ran, ...(line.actions ?? [])],
+    };
+}
+
+/** Start a conversation at the first line whose conditions pass */
+export function startDialogue(script: DialogueScript, npcId: string, world: DialogueWorld): DialogueStepResult {
+    return enterLine(script, npcId, 0, world, [], []);
+}
+
+function visibleChoices(line: DialogueLine, world: DialogueWorld, npcId: string): Array<{ index: number; text: string }> {
+    return (line.choices ?? [])
+        .map((choice, index) => ({ choice, index }))
+        .filter(({ choice }) => checkConditions(choice.conditions, world, npcId))
+        .map(({ choice, index }) => ({ index, text: choice.text }));
+}
+
+/**
+ * Move the conversation on. Lines with visible choices need a `choiceIndex`
+ * (the script index from `PresentedLine.choices`); anything else leaves the
+ * session where it is. Lines whose choices are all hidden continue like
+ * lines without choices.
+ */
+export function advanceDialogue(state: DialogueState, world: DialogueWorld, choiceIndex?: number): DialogueStepResult {
+    const { script, npcId, currentLineIndex } = state;
+    const line = script.lines[currentLineIndex];
+    if (!line) return { state: null, world, npcStateChanges: [], actions: [] };
+
+    const choices = visibleChoices(line, world, npcId);
+    if (choices.length > 0) {
+        const choice = choiceIndex !== undefined && choices.some(c => c.index === choiceIndex)
+            ? line.choices![choiceIndex]!
+            : undefined;
+        if (!choice) return { state, world, npcStateChanges: [], actions: [] };
+
+        const outcome = applyDialogueActions(choice.actions, world, npcId);
+        const step = nextDialogueStep(script, currentLineIndex, choiceIndex);
+        if ('end' in step) {
+            return { state: null, world: outcome.world, npcStateChanges: outcome.npcStateChanges, actions: choice.actions ?? [] };
+        }
+        return enterLine(script, npcId, step.line, outcome.world, choice.actions ?? [], outcome.npcStateChanges);
+    }
+
+    if (line.isEnding) return { state: null, world, npcStateChanges: [], actions: [] };
+    return enterLine(script, npcId, currentLineIndex + 1, world, [], []);
+}
+
+/** The current line as the player should see it */
+export function presentDialogueLine(state: DialogueState, world: DialogueWorld, names: DialogueNames): PresentedLine | null {
+    const line = state.script.lines[state.currentLineIndex];
+    if (!line) return null;
+
+    const choices = visibleChoices(line, world, state.npcId)
+        .map(choice => ({ ...choice, text: interpolateDialogueText(choice.text, world, names) }));
+    const remaining = state.script.lines
+        .slice(state.currentLineIndex + 1)
+        .some(l => checkConditions(l.conditions, world, state.npcId));
+
+    return {
+        speaker: interpolateDialogueText(line.speaker || names.npcName, world, names),
+        text: interpolateDialogueText(line.text, world, names),
+        choices,
+        isLast: choices.length === 0 && (!!line.isEnding || !remaining),
+    };
+}
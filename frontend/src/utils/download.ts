@@ -0,0 +1,33 @@
+/**
+ * Download
+ *
+ * Save generated files from the browser.
+ */
+
+export interface DownloadFile {
+    name: string;
+    data: string | Uint8Array;
+    type: string;
+}
+
+/** Trigger a browser download for a single file */
+export function downloadFile(file: DownloadFile): void {
+    const part = typeof file.data === 'string' ? file.data : new Uint8Array(file.data);
+    const url = URL.createObjectURL(new Blob([part], { type: file.type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Download several files one after another (browsers drop rapid-fire downloads) */
+export async function downloadFiles(files: DownloadFile[]): Promise<void> {
+    for (const file of files) {
+        downloadFile(file);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+}
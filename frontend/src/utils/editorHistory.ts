@@ -0,0 +1,413 @@
+/**
+ * Editor History
+ *
+ * Patch-based undo/redo for the map editor. Instead of snapshotting the whole
+ * map, each history entry stores the cells, entities and fields an action
+ * changed with their before/after values, so entries stay small on large maps
+ * and can be applied in either direction.
+ *
+ * Entries recorded with the same coalesce key (e.g. every cell of one brush
+ * stroke) are merged into a single step.
+ */
+
+import type { CollisionOverride, EditorLayer, LayerTile } from './mapLayers';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The parts of the editor's local map data that history tracks */
+export interface HistoryMapState {
+    width: number;
+    height: number;
+    layers: EditorLayer[];
+    object_instances: unknown[];
+    spawn_points: unknown[];
+    npc_instances: unknown[];
+    warps: unknown[];
+}
+
+export type HistoryAction =
+    | 'paint'
+    | 'erase'
+    | 'fill'
+    | 'shape'
+    | 'stamp'
+    | 'autotile'
+    | 'collision'
+    | 'place-object'
+    | 'place-spawn'
+    | 'place-npc'
+    | 'edit-npc'
+    | 'place-warp'
+    | 'edit-warp'
+    | 'move'
+    | 'cut'
+    | 'paste'
+    | 'delete'
+    | 'transform'
+    | 'layers'
+    | 'resize';
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+    paint: 'Paint tiles',
+    erase: 'Erase',
+    fill: 'Fill',
+    shape: 'Draw shape',
+    stamp: 'Stamp',
+    autotile: 'Autotile',
+    collision: 'Paint collision',
+    'place-object': 'Place object',
+    'place-spawn': 'Place spawn point',
+    'place-npc': 'Place NPC',
+    'edit-npc': 'Edit NPC',
+    'place-warp': 'Place warp',
+    'edit-warp': 'Edit warp',
+    move: 'Move selection',
+    cut: 'Cut',
+    paste: 'Paste',
+    delete: 'Delete selection',
+    transform: 'Flip/rotate selection',
+    layers: 'Edit layers',
+    resize: 'Resize map',
+};
+
+type FieldKey = 'width' | 'height';
+type EntityListKey = 'object_instances' | 'spawn_points' | 'npc_instances' | 'warps';
+type LayerMeta = Omit<EditorLayer, 'tiles' | 'collision'>;
+
+const FIELD_KEYS: FieldKey[] = ['width', 'height'];
+const ENTITY_LISTS: EntityListKey[] = ['object_instances', 'spawn_points', 'npc_instances', 'warps'];
+
+export interface TileChange {
+    layerId: string;
+    x: number;
+    y: number;
+    before: string | null;
+    after: string | null;
+}
+
+export interface CollisionChange {
+    layerId: string;
+    x: number;
+    y: number;
+    before: boolean | null;
+    after: boolean | null;
+}
+
+/** Entities are tracked by reference - the editor never mutates them in place */
+export interface EntityChange {
+    list: EntityListKey;
+    removed: unknown[];
+    added: unknown[];
+}
+
+export interface MapPatch {
+    fields: Array<{ key: FieldKey; before: number; after: number }>;
+    layers: { before: LayerMeta[]; after: LayerMeta[] } | null;
+    tiles: TileChange[];
+    collision: CollisionChange[];
+    entities: EntityChange[];
+}
+
+export interface HistoryEntry {
+    id: number;
+    action: HistoryAction;
+    label: string;
+    patch: MapPatch;
+    timestamp: number;
+    coalesceKey: string | null;
+}
+
+/** `index` is the number of entries currently applied (0 = initial state) */
+export interface EditorHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+const cellKey = (x: number, y: number) => `${x},${y}`;
+
+function layerMeta(layers: EditorLayer[]): LayerMeta[] {
+    return layers.map(({ tiles: _tiles, collision: _collision, ...meta }) => meta);
+}
+
+function sameLayerMeta(a: LayerMeta[], b: LayerMeta[]): boolean {
+    return a.length === b.length && a.every((meta, i) => {
+        const other = b[i]!;
+        return meta.id === other.id && meta.name === other.name && meta.kind === other.kind &&
+            meta.visible === other.visible && meta.locked === other.locked;
+    });
+}
+
+function diffCells<T extends { x: number; y: number }, V>(
+    layerId: string,
+    before: T[],
+    after: T[],
+    value: (item: T) => V
+): Array<{ layerId: string; x: number; y: number; before: V | null; after: V | null }> {
+    const beforeMap = new Map(before.map(item => [cellKey(item.x, item.y), item]));
+    const afterMap = new Map(after.map(item => [cellKey(item.x, item.y), item]));
+    const changes: Array<{ layerId: string; x: number; y: number; before: V | null; after: V | null }> = [];
+
+    for (const [key, item] of afterMap) {
+        const previous = beforeMap.get(key);
+        const next = value(item);
+        if (!previous || value(previous) !== next) {
+            changes.push({ layerId, x: item.x, y: item.y, before: previous ? value(previous) : null, after: next });
+        }
+    }
+    for (const [key, item] of beforeMap) {
+        if (!afterMap.has(key)) {
+            changes.push({ layerId, x: item.x, y: item.y, before: value(item), after: null });
+        }
+    }
+    return changes;
+}
+
+/** Everything that changed between two map states */
+export function diffMaps(before: HistoryMapState, after: HistoryMapState): MapPatch {
+    const fields = FIELD_KEYS
+        .filter(key => before[key] !== after[key])
+        .map(key => ({ key, before: before[key], after: after[key] }));
+
+    const beforeMeta = layerMeta(before.layers);
+    const afterMeta = layerMeta(after.layers);
+    const layers = sameLayerMeta(beforeMeta, afterMeta) ? null : { before: beforeMeta, after: afterMeta };
+
+    const tiles: TileChange[] = [];
+    const collision: CollisionChange[] = [];
+    const layerIds = new Set([...before.layers, ...after.layers].map(l => l.id));
+    for (const id of layerIds) {
+        const previous = before.layers.find(l => l.id === id);
+        const next = after.layers.find(l => l.id === id);
+        if (previous?.tiles !== next?.tiles) {
+            tiles.push(...diffCells(id, previous?.tiles ?? [], next?.tiles ?? [], (t: LayerTile) => t.tileId));
+        }
+        if (previous?.collision !== next?.collision) {
+            collision.push(...diffCells(id, previous?.collision ?? [], next?.collision ?? [], (c: CollisionOverride) => c.solid));
+        }
+    }
+
+    const entities: EntityChange[] = [];
+    for (const list of ENTITY_LISTS) {
+        if (before[list] === after[list]) continue;
+        const beforeSet = new Set(before[list]);
+        const afterSet = new Set(after[list]);
+        const removed = before[list].filter(item => !afterSet.has(item));
+        const added = after[list].filter(item => !beforeSet.has(item));
+        if (removed.length > 0 || added.length > 0) {
+            entities.push({ list, removed, added });
+        }
+    }
+
+    return { fields, layers, tiles, collision, entities };
+}
+
+export function isPatchEmpty(patch: MapPatch): boolean {
+    return patch.fields.length === 0 && !patch.layers && patch.tiles.length === 0 &&
+        patch.collision.length === 0 && patch.entities.length === 0;
+}
+
+/** One patch equivalent to applying `a` then `b` */
+export function mergePatches(a: MapPatch, b: MapPatch): MapPatch {
+    const fields = new Map(a.fields.map(f => [f.key, { ...f }]));
+    for (const field of b.fields) {
+        const existing = fields.get(field.key);
+        fields.set(field.key, { key: field.key, before: existing ? existing.before : field.before, after: field.after });
+    }
+
+    const mergeCells = <C extends { layerId: string; x: number; y: number; before: unknown; after: unknown }>(first: C[], second: C[]): C[] => {
+        const merged = new Map(first.map(c => [`${c.layerId}|${c.x},${c.y}`, { ...c }]));
+        for (const change of second) {
+            const key = `${change.layerId}|${change.x},${change.y}`;
+            const existing = merged.get(key);
+            merged.set(key, existing ? { ...existing, after: change.after } : { ...change });
+        }
+        return Array.from(merged.values()).filter(c => c.before !== c.after);
+    };
+
+    const entities: EntityChange[] = [];
+    for (const list of ENTITY_LISTS) {
+        const first = a.entities.find(e => e.list === list);
+        const second = b.entities.find(e => e.list === list);
+        if (!first || !second) {
+            const only = first ?? second;
+            if (only) entities.push(only);
+            continue;
+        }
+        const secondRemoved = new Set(second.removed);
+        const firstAdded = new Set(first.added);
+        const added = [...first.added.filter(item => !secondRemoved.has(item)), ...second.added];
+        const removed = [...first.removed, ...second.removed.filter(item => !firstAdded.has(item))];
+        if (added.length > 0 || removed.length > 0) {
+            entities.push({ list, removed, added });
+        }
+    }
+
+    const layerBefore = a.layers?.before ?? b.layers?.before;
+    const layerAfter = b.layers?.after ?? a.layers?.after;
+
+    return {
+        fields: Array.from(fields.values()).filter(f => f.before !== f.after),
+        layers: layerBefore && layerAfter && !sameLayerMeta(layerBefore, layerAfter)
+            ? { before: layerBefore, after: layerAfter }
+            : null,
+        tiles: mergeCells(a.tiles, b.tiles),
+        collision: mergeCells(a.collision, b.collision),
+        entities,
+    };
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/** Apply a patch forwards (redo) or backwards (undo) */
+export function applyPatch<T extends HistoryMapState>(state: T, patch: MapPatch, direction: 'undo' | 'redo'): T {
+    const forward = direction === 'redo';
+    const result: T = { ...state };
+
+    for (const field of patch.fields) {
+        result[field.key] = forward ? field.after : field.before;
+    }
+
+    // Layer order and properties first, so cell changes land on the right layers
+    let layers = state.layers;
+    if (patch.layers) {
+        const target = forward ? patch.layers.after : patch.layers.before;
+        layers = target.map((meta) => {
+            const existing = layers.find(l => l.id === meta.id);
+            return existing ? { ...existing, ...meta } : { ...meta, tiles: [], collision: [] };
+        });
+    }
+
+    const touched = new Set([...patch.tiles, ...patch.collision].map(c => c.layerId));
+    layers = layers.map((layer) => {
+        if (!touched.has(layer.id)) return layer;
+
+        const tiles = new Map(layer.tiles.map(t => [cellKey(t.x, t.y), t]));
+        for (const change of patch.tiles) {
+            if (change.layerId !== layer.id) continue;
+            const tileId = forward ? change.after : change.before;
+            const key = cellKey(change.x, change.y);
+            if (tileId === null) {
+                tiles.delete(key);
+            } else {
+                tiles.set(key, { tileId, x: change.x, y: change.y });
+            }
+        }
+
+        const collision = new Map(layer.collision.map(c => [cellKey(c.x, c.y), c]));
+        for (const change of patch.collision) {
+            if (change.layerId !== layer.id) continue;
+            const solid = forward ? change.after : change.before;
+            const key = cellKey(change.x, change.y);
+            if (solid === null) {
+                collision.delete(key);
+            } else {
+                collision.set(key, { x: change.x, y: change.y, solid });
+            }
+        }
+
+        return { ...layer, tiles: Array.from(tiles.values()), collision: Array.from(collision.values()) };
+    });
+    result.layers = layers;
+
+    for (const change of patch.entities) {
+        const remove = new Set(forward ? change.removed : change.added);
+        const add = forward ? change.added : change.removed;
+        result[change.list] = [...state[change.list].filter(item => !remove.has(item)), ...add];
+    }
+
+    return result;
+}
+
+// =============================================================================
+// History Stack
+// =============================================================================
+
+let nextEntryId = 1;
+
+export function createHistory(): EditorHistory {
+    return { entries: [], index: 0 };
+}
+
+/**
+ * Record the change from `before` to `after`. Anything after the current
+ * position is discarded. If the latest entry has the same coalesce key the
+ * change is merged into it instead of adding a step.
+ */
+export function recordChange(
+    history: EditorHistory,
+    before: HistoryMapState,
+    after: HistoryMapState,
+    action: HistoryAction,
+    options: { label?: string; coalesceKey?: string } = {}
+): EditorHistory {
+    const patch = diffMaps(before, after);
+    if (isPatchEmpty(patch)) return history;
+
+    const entries = history.entries.slice(0, history.index);
+    const last = entries[entries.length - 1];
+    const coalesceKey = options.coalesceKey ?? null;
+
+    if (last && coalesceKey && last.coalesceKey === coalesceKey) {
+        const merged = mergePatches(last.patch, patch);
+        entries[entries.length - 1] = { ...last, patch: merged, timestamp: Date.now() };
+        if (isPatchEmpty(merged)) entries.pop();
+    } else {
+        entries.push({
+            id: nextEntryId++,
+            action,
+            label: options.label ?? HISTORY_ACTION_LABELS[action],
+            patch,
+            timestamp: Date.now(),
+            coalesceKey,
+        });
+    }
+
+    const trimmed = entries.slice(Math.max(0, entries.length - MAX_HISTORY_ENTRIES));
+    return { entries: trimmed, index: trimmed.length };
+}
+
+export function canUndo(history: EditorHistory): boolean {
+    return history.index > 0;
+}
+
+export function canRedo(history: EditorHistory): boolean {
+    return history.index < history.entries.length;
+}
+
+/**
+ * Move to a point in history (0 = initial state), undoing or redoing every
+ * entry in between
+ */
+export function jumpToHistory<T extends HistoryMapState>(
+    history: EditorHistory,
+    state: T,
+    index: number
+): { history: EditorHistory; state: T } {
+    const target = Math.max(0, Math.min(index, history.entries.length));
+    let current = state;
+    for (let i = history.index; i > target; i--) {
+        current = applyPatch(current, history.entries[i - 1]!.patch, 'undo');
+    }
+    for (let i = history.index; i < target; i++) {
+        current = applyPatch(current, history.entries[i]!.patch, 'redo');
+    }
+    return { history: { ...history, index: target }, state: current };
+}
+
+export function undoHistory<T extends HistoryMapState>(history: EditorHistory, state: T) {
+    return jumpToHistory(history, state, history.index - 1);
+}
+
+export function redoHistory<T extends HistoryMapState>(history: EditorHistory, state: T) {
+    return jumpToHistory(history, state, history.index + 1);
+}
@@ -0,0 +1,181 @@
+/**
+ * Editor Tools
+ *
+ * Grid algorithms behind the map editor's multi-cell tools: flood fill,
+ * Bresenham lines and stamp brushes. Everything here is pure and works in
+ * grid coordinates - EditorView applies the resulting cells to a layer.
+ */
+
+import type { LayerTile } from './mapLayers';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GridPoint {
+    x: number;
+    y: number;
+}
+
+export interface GridRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type Connectivity = 4 | 8;
+
+/** Rectangular multi-tile brush. Cells are row-major; null leaves the map untouched */
+export interface Stamp {
+    width: number;
+    height: number;
+    cells: Array<string | null>;
+}
+
+// =============================================================================
+// Flood Fill
+// =============================================================================
+
+const NEIGHBORS_4: GridPoint[] = [
+    { x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 },
+];
+
+const NEIGHBORS_8: GridPoint[] = [
+    ...NEIGHBORS_4,
+    { x: 1, y: 1 }, { x: -1, y: 1 }, { x: 1, y: -1 }, { x: -1, y: -1 },
+];
+
+/**
+ * Cells connected to `start` that hold the same tile as `start` (empty cells
+ * count as a region too). Bounded by the map size.
+ */
+export function floodFillCells(
+    tiles: LayerTile[],
+    start: GridPoint,
+    mapWidth: number,
+    mapHeight: number,
+    connectivity: Connectivity = 4
+): GridPoint[] {
+    if (start.x < 0 || start.y < 0 || start.x >= mapWidth || start.y >= mapHeight) return [];
+
+    const grid: Array<string | null> = new Array(mapWidth * mapHeight).fill(null);
+    for (const tile of tiles) {
+        if (tile.x >= 0 && tile.y >= 0 && tile.x < mapWidth && tile.y < mapHeight) {
+            grid[tile.y * mapWidth + tile.x] = tile.tileId;
+        }
+    }
+
+    const target = grid[start.y * mapWidth + start.x];
+    const neighbors = connectivity === 8 ? NEIGHBORS_8 : NEIGHBORS_4;
+    const visited = new Uint8Array(mapWidth * mapHeight);
+    const result: GridPoint[] = [];
+    const stack: GridPoint[] = [start];
+    visited[start.y * mapWidth + start.x] = 1;
+
+    while (stack.length > 0) {
+        const cell = stack.pop()!;
+        result.push(cell);
+
+        for (const offset of neighbors) {
+            const x = cell.x + offset.x;
+            const y = cell.y + offset.y;
+            if (x < 0 || y < 0 || x >= mapWidth || y >= mapHeight) continue;
+
+            const index = y * mapWidth + x;
+            if (visited[index] || grid[index] !== target) continue;
+            visited[index] = 1;
+            stack.push({ x, y });
+        }
+    }
+
+    return result;
+}
+
+// =============================================================================
+// Line
+// =============================================================================
+
+/**
+ * Cells on the line between two points (inclusive), using Bresenham's algorithm
+ */
+export function bresenhamLine(from: GridPoint, to: GridPoint): GridPoint[] {
+    const points: GridPoint[] = [];
+    let x = from.x;
+    let y = from.y;
+    const dx = Math.abs(to.x - from.x);
+    const dy = -Math.abs(to.y - from.y);
+    const stepX = from.x < to.x ? 1 : -1;
+    const stepY = from.y < to.y ? 1 : -1;
+    let error = dx + dy;
+
+    while (true) {
+        points.push({ x, y });
+        if (x === to.x && y === to.y) break;
+        const doubled = 2 * error;
+        if (doubled >= dy) {
+            error += dy;
+            x += stepX;
+        }
+        if (doubled <= dx) {
+            error += dx;
+            y += stepY;
+        }
+    }
+
+    return points;
+}
+
+// =============================================================================
+// Stamps
+// =============================================================================
+
+/** Rectangle spanning two corner cells (inclusive) */
+export function rectFromPoints(a: GridPoint, b: GridPoint): GridRect {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return { x, y, width: Math.abs(a.x - b.x) + 1, height: Math.abs(a.y - b.y) + 1 };
+}
+
+/** Copy the tiles inside a rectangle of a layer into a stamp */
+export function captureStamp(tiles: LayerTile[], rect: GridRect): Stamp {
+    const cells: Array<string | null> = new Array(rect.width * rect.height).fill(null);
+    for (const tile of tiles) {
+        const cx = tile.x - rect.x;
+        const cy = tile.y - rect.y;
+        if (cx >= 0 && cy >= 0 && cx < rect.width && cy < rect.height) {
+            cells[cy * rect.width + cx] = tile.tileId;
+        }
+    }
+    return { width: rect.width, height: rect.height, cells };
+}
+
+/** Lay a tile set's tiles out row by row into a stamp */
+export function stampFromTileIds(tileIds: string[], columns: number): Stamp {
+    const width = Math.max(1, Math.min(columns, tileIds.length));
+    const height = Math.max(1, Math.ceil(tileIds.length / width));
+    const cells: Array<string | null> = new Array(width * height).fill(null);
+    tileIds.forEach((id, i) => {
+        cells[i] = id;
+    });
+    return { width, height, cells };
+}
+
+/** Cells a stamp paints when its top-left corner is placed at `origin` */
+export function stampCells(stamp: Stamp, origin: GridPoint): LayerTile[] {
+    const result: LayerTile[] = [];
+    for (let y = 0; y < stamp.height; y++) {
+        for (let x = 0; x < stamp.width; x++) {
+            const tileId = stamp.cells[y * stamp.width + x];
+            if (tileId) {
+                result.push({ tileId, x: origin.x + x, y: origin.y + y });
+            }
+        }
+    }
+    return result;
+}
+
+/** True if the stamp has no tiles */
+export function isStampEmpty(stamp: Stamp): boolean {
+    return stamp.cells.every(cell => cell === null);
+}
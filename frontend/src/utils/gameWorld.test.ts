@@ -0,0 +1,302 @@
+import { describe, expect, it } from 'vitest';
+import type { NPC, NPCModuleInstance, Quest, TilePosition } from '../types/npc';
+import { createDialogueWorld } from './dialogueRuntime';
+import { INVENTORY_SLOTS, type ItemDefinition } from './inventory';
+import { createNPC } from './npcController';
+import { createCraftingInteraction, createDialogueInteraction, createShopInteraction, createStaticMovement } from './npcModules';
+import {
+    buyGameItem,
+    createGameWorld,
+    endGameInteraction,
+    enterGameMap,
+    finishGameCraft,
+    gameNpcs,
+    gameTime,
+    interactGameWorld,
+    playerTile,
+    presentGameDialogue,
+    remainingPickups,
+    sellGameItem,
+    startGameCraft,
+    stepGameWorld,
+    type GameContent,
+    type GameInput,
+    type GameMap,
+    type GameWorld,
+} from './gameWorld';
+
+const TILE = 32;
+const FRAME_MS = 1000 / 60;
+const HITBOX = { offsetX: 8, offsetY: 8, width: 16, height: 16 };
+
+/** Map from rows of text: "#" is solid, "P" the player's spawn, anything else walkable */
+function sampleMap(id: string, rows: string[], extra: Partial<GameMap> = {}): GameMap {
+    const collision = new Set<string>();
+    let spawn: TilePosition | null = null;
+    rows.forEach((row, y) => [...row].forEach((cell, x) => {
+        if (cell === '#') collision.add(`${x},${y}`);
+        if (cell === 'P') spawn = { x, y };
+    }));
+    return {
+        id,
+        width: rows[0]!.length,
+        height: rows.length,
+        tileSize: TILE,
+        collision,
+        spawn,
+        spawnPoints: [],
+        objectInstances: [],
+        warps: [],
+        ...extra,
+    };
+}
+
+function item(id: string, overrides: Partial<ItemDefinition> = {}): ItemDefinition {
+    return { id, name: id, description: '', icon: null, stackable: true, maxStack: 99, value: 10, tags: [], ...overrides };
+}
+
+function npcAt(id: string, position: TilePosition, interaction: NPCModuleInstance): NPC {
+    return createNPC({ id, position, modules: [createStaticMovement(), interaction], metadata: { name: id } });
+}
+
+const COLLECT_ORE: Quest = {
+    id: 'collect_ore',
+    title: 'Ore',
+    description: '',
+    objectives: [{ id: 'ore', description: '', type: 'collect', target: 'ore', required: 1, current: 0 }],
+};
+
+const CONTENT: GameContent = {
+    quests: { [COLLECT_ORE.id]: COLLECT_ORE },
+    items: {
+        coin: item('coin', { name: 'Coin', pickupObjectId: 'coin_object' }),
+        ore: item('ore', { name: 'Ore', value: 20 }),
+        bar: item('bar', { name: 'Bar' }),
+    },
+    shops: {
+        smith: {
+            id: 'smith',
+            name: 'Smithy',
+            greeting: 'Hot iron!',
+            stock: [{ itemId: 'ore', price: 5, quantity: 1 }],
+            restockSeconds: 1,
+            buyBackPercent: 50,
+        },
+    },
+    recipes: {
+        bar: {
+            id: 'bar',
+            name: 'Iron Bar',
+            station: 'forge',
+            inputs: [{ itemId: 'ore', count: 2 }],
+            outputs: [{ itemId: 'bar', count: 1 }],
+            craftTimeMs: 500,
+        },
+    },
+};
+
+const ROOM = [
+    '.....',
+    '.P#..',
+    '.....',
+];
+
+function createWorld(npcs: NPC[] = [], map: GameMap = sampleMap('room', ROOM), progress = createDialogueWorld()): GameWorld {
+    return createGameWorld({ map, npcs, player: { name: 'Hero', hitbox: HITBOX }, seed: 1, progress });
+}
+
+/** Hold `input` for `frames` frames of 1/60 s */
+function hold(world: GameWorld, input: GameInput, frames: number, content: GameContent = CONTENT) {
+    const events = [];
+    for (let i = 0; i < frames; i++) {
+        const result = stepGameWorld(world, content, FRAME_MS, input);
+        world = result.world;
+        events.push(...result.events);
+    }
+    return { world, events };
+}
+
+/** Let `ms` of game time pass without moving */
+function wait(world: GameWorld, ms: number): GameWorld {
+    for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+        world = stepGameWorld(world, CONTENT, 100, {}).world;
+    }
+    return world;
+}
+
+describe('player movement', () => {
+    it('stops the hitbox at solid cells', () => {
+        const { world } = hold(createWorld(), { right: true }, 30);
+
+        const hitboxRight = world.player.position.x + HITBOX.offsetX + HITBOX.width;
+        expect(world.player.position.x).toBeGreaterThan(TILE);
+        expect(hitboxRight).toBeLessThanOrEqual(2 * TILE);
+        expect(world.player.direction).toBe('right');
+    });
+
+    it('walks past the wall along open cells', () => {
+        const { world } = hold(createWorld(), { down: true }, 8);
+        const passed = hold(world, { right: true }, 30).world;
+
+        expect(playerTile(passed).x).toBeGreaterThan(2);
+    });
+
+    it('stays on the map', () => {
+        const { world } = hold(createWorld(), { up: true, left: true }, 60);
+        expect(world.player.position).toEqual({ x: 0, y: 0 });
+    });
+});
+
+describe('pickups', () => {
+    const map = sampleMap('room', ['.P...'], { objectInstances: [{ objectId: 'coin_object', x: 2, y: 0 }] });
+
+    it('picks up items on entering their tile, once', () => {
+        const there = hold(createWorld([], map), { right: true }, 10);
+        expect(playerTile(there.world)).toEqual({ x: 2, y: 0 });
+        expect(there.events).toContainEqual({ type: 'pickup', itemId: 'coin', name: 'Coin' });
+        expect(there.world.progress.inventory.coin).toBe(1);
+        expect(remainingPickups(there.world, CONTENT)).toEqual([]);
+
+        const back = hold(hold(there.world, { left: true }, 10).world, { right: true }, 10);
+        expect(back.world.progress.inventory.coin).toBe(1);
+        expect(back.events.some(event => event.type === 'pickup')).toBe(false);
+    });
+});
+
+describe('NPC interaction', () => {
+    it('talks to NPCs in range and ends the conversation', () => {
+        const world = createWorld([npcAt('villager', { x: 1, y: 2 }, createDialogueInteraction('Nice day.'))]);
+
+        const talking = interactGameWorld(world, CONTENT).world;
+        expect(presentGameDialogue(talking)?.text).toBe('Nice day.');
+        expect(gameNpcs(talking)[0]!.state).toBe('interacting');
+
+        const done = interactGameWorld(talking, CONTENT).world;
+        expect(done.dialogue).toBeNull();
+        expect(gameNpcs(done)[0]!.state).toBe('idle');
+    });
+
+    it('ignores NPCs out of range', () => {
+        const world = createWorld([npcAt('villager', { x: 4, y: 2 }, createDialogueInteraction('Nice day.'))]);
+        const result = interactGameWorld(world, CONTENT);
+
+        expect(result.world.dialogue).toBeNull();
+        expect(result.events).toEqual([]);
+    });
+});
+
+describe('shops', () => {
+    const shopkeeper = npcAt('smith', { x: 1, y: 2 }, createShopInteraction('smith'));
+    const progress = createDialogueWorld({ gold: 20, questStates: { collect_ore: 'active' } });
+
+    it('opens with fresh stock and trades on the world', () => {
+        const opened = interactGameWorld(createWorld([shopkeeper], undefined, progress), CONTENT);
+        expect(opened.events).toContainEqual({ type: 'open_shop', shopId: 'smith', npcId: 'smith' });
+        expect(opened.world.shops.smith).toEqual({ remaining: { ore: 1 }, restockedAt: gameTime(opened.world) });
+
+        const bought = buyGameItem(opened.world, CONTENT, 'smith', 'ore');
+        expect(bought.events[0]).toEqual({ type: 'bought', shopId: 'smith', itemId: 'ore', name: 'Ore', price: 5 });
+        expect(bought.events.some(event => event.type === 'quest')).toBe(true);
+        expect(bought.world.progress.gold).toBe(15);
+        expect(bought.world.progress.inventory.ore).toBe(1);
+        expect(bought.world.shops.smith!.remaining.ore).toBe(0);
+
+        const soldOut = buyGameItem(bought.world, CONTENT, 'smith', 'ore');
+        expect(soldOut.world).toBe(bought.world);
+        expect(soldOut.events).toEqual([{ type: 'action_failed', reason: 'Sold out' }]);
+
+        const sold = sellGameItem(bought.world, CONTENT, 'smith', 'ore');
+        expect(sold.events).toEqual([{ type: 'sold', shopId: 'smith', itemId: 'ore', name: 'Ore', price: 10 }]);
+        expect(sold.world.progress.gold).toBe(25);
+        expect(sold.world.shops.smith!.remaining.ore).toBe(1);
+    });
+
+    it('restocks on the game clock', () => {
+        const opened = interactGameWorld(createWorld([shopkeeper], undefined, progress), CONTENT).world;
+        const bought = endGameInteraction(buyGameItem(opened, CONTENT, 'smith', 'ore').world, 'smith');
+
+        const soon = interactGameWorld(wait(bought, 500), CONTENT).world;
+        expect(soon.shops.smith!.remaining.ore).toBe(0);
+
+        const later = interactGameWorld(wait(endGameInteraction(soon, 'smith'), 500), CONTENT).world;
+        expect(later.shops.smith).toEqual({ remaining: { ore: 1 }, restockedAt: gameTime(later) });
+    });
+});
+
+describe('crafting', () => {
+    const crafter = npcAt('forge', { x: 1, y: 2 }, createCraftingInteraction('forge'));
+    const progress = createDialogueWorld({ inventory: { ore: 2 } });
+
+    it('opens the station window', () => {
+        const opened = interactGameWorld(createWorld([crafter], undefined, progress), CONTENT);
+        expect(opened.events).toContainEqual({ type: 'open_crafting', npcId: 'forge', npcName: 'forge', station: 'forge' });
+    });
+
+    it('takes the ingredients and hands over the outputs when due', () => {
+        const started = startGameCraft(createWorld([crafter], undefined, progress), CONTENT, 'bar').world;
+        expect(started.progress.inventory.ore ?? 0).toBe(0);
+        expect(started.crafting).toEqual({ recipeId: 'bar', name: 'Iron Bar', outputs: [{ itemId: 'bar', count: 1 }], startedAt: 0, finishesAt: 500 });
+
+        expect(startGameCraft(started, CONTENT, 'bar').events).toEqual([{ type: 'action_failed', reason: 'Already crafting' }]);
+        expect(finishGameCraft(wait(started, 400), CONTENT).world.crafting).not.toBeNull();
+
+        const finished = finishGameCraft(wait(started, 500), CONTENT);
+        expect(finished.events).toEqual([{ type: 'crafted', recipeId: 'bar', name: 'Iron Bar' }]);
+        expect(finished.world.progress.inventory.bar).toBe(1);
+        expect(finished.world.crafting).toBeNull();
+    });
+
+    it('hands over the outputs it started with when the recipe is gone', () => {
+        const started = startGameCraft(createWorld([crafter], undefined, progress), CONTENT, 'bar').world;
+        const finished = finishGameCraft(wait(started, 500), { ...CONTENT, recipes: {} });
+
+        expect(finished.events).toEqual([{ type: 'crafted', recipeId: 'bar', name: 'Iron Bar' }]);
+        expect(finished.world.progress.inventory.bar).toBe(1);
+    });
+
+    it('keeps the job until there is room for the outputs', () => {
+        const gems = Array.from({ length: INVENTORY_SLOTS }, (_, i) => item(`gem${i}`, { stackable: false, maxStack: 1 }));
+        const content = { ...CONTENT, items: { ...CONTENT.items, ...Object.fromEntries(gems.map(gem => [gem.id, gem])) } };
+        const started = startGameCraft(createWorld([crafter], undefined, progress), content, 'bar').world;
+
+        // Picking up enough to fill every slot while the job runs
+        const full = { ...started, progress: { ...started.progress, inventory: Object.fromEntries(gems.map(gem => [gem.id, 1])) } };
+        const blocked = finishGameCraft(wait(full, 500), content);
+        expect(blocked.events).toEqual([{ type: 'action_failed', reason: 'Inventory full' }]);
+        expect(blocked.world.crafting).toBe(full.crafting);
+
+        const { gem0: _dropped, ...fewer } = blocked.world.progress.inventory;
+        const room = { ...blocked.world, progress: { ...blocked.world.progress, inventory: fewer } };
+        const finished = finishGameCraft(room, content);
+        expect(finished.world.progress.inventory.bar).toBe(1);
+        expect(finished.world.crafting).toBeNull();
+    });
+
+    it('refuses without the ingredients', () => {
+        const result = startGameCraft(createWorld([crafter]), CONTENT, 'bar');
+        expect(result.events).toEqual([{ type: 'action_failed', reason: 'Missing ingredients' }]);
+        expect(result.world.crafting).toBeNull();
+    });
+});
+
+describe('enterGameMap', () => {
+    it('collides with the new map and keeps the clock, shops and crafting job', () => {
+        const cave = sampleMap('cave', [
+            '#####',
+            '#...#',
+            '#####',
+        ], { spawnPoints: [{ id: 'entrance', x: 1, y: 1 }] });
+        const before = startGameCraft(wait(createWorld([], undefined, createDialogueWorld({ inventory: { ore: 2 } })), 300), CONTENT, 'bar').world;
+
+        const entered = enterGameMap(before, cave, [], 'entrance');
+        expect(playerTile(entered)).toEqual({ x: 1, y: 1 });
+        expect(gameTime(entered)).toBe(gameTime(before));
+        expect(entered.crafting).toBe(before.crafting);
+
+        // The old map's wall at 2,1 is open floor here; the cave's walls stop the player
+        const walked = hold(entered, { right: true }, 60).world;
+        expect(playerTile(walked)).toEqual({ x: 3, y: 1 });
+        const blocked = hold(walked, { up: true }, 30).world;
+        expect(blocked.player.position.y + HITBOX.offsetY).toBeGreaterThanOrEqual(TILE);
+    });
+});
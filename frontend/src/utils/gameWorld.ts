@@ -0,0 +1,734 @@
+/**
+ * Game World
+ *
+ * The game test's rules, independent of React and the canvas: player
+ * movement with hitbox collision, pickups, combat, the NPC simulation,
+ * dialogue and quests. A view loads the map and content, feeds input to
+ * `stepGameWorld` every frame and draws the world it gets back.
+ *
+ * Everything that happens comes back as events, for the view to show
+ * (toasts, damage numbers) or act on (opening a shop window). Shops and
+ * crafting stations open as windows, but trading and crafting are world
+ * actions too: the world holds each shop's stock and the crafting job in
+ * progress.
+ *
+ * Time is the NPC simulation's clock (`gameTime`), never wall time: shops
+ * restock and crafting jobs finish as the world is stepped, so pausing
+ * pauses them.
+ *
+ * Warps are events too: the view loads the target map and moves the world
+ * onto it with `enterGameMap`, which keeps the player and their progress and
+ * replaces the NPCs with the new map's.
+ *
+ * Like the other runtime modules every function is pure and returns a new
+ * world. The player is positioned in pixels (the top-left of the drawn
+ * sprite), NPCs in tiles.
+ */
+
+import type { CharacterStats } from '../backend';
+import type {
+    DialogueAction,
+    DialogueInteractionModule,
+    DialogueScript,
+    DialogueState,
+    NPC,
+    NPCDirection,
+    Quest,
+    QuestInteractionModule,
+    TilePosition,
+} from '../types/npc';
+import {
+    advanceDialogue,
+    createDialogueWorld,
+    presentDialogueLine,
+    startDialogue,
+    type DialogueStepResult,
+    type DialogueWorld,
+    type PresentedLine,
+} from './dialogueRuntime';
+import { applyQuestEvent, syncQuests, type QuestNotice } from './questEngine';
+import { addItems, findMapPickups, type ItemCatalog, type MapPickup } from './inventory';
+import { buyFromShop, openShop, sellToShop, type Shop, type ShopStates } from './shop';
+import { finishCraft, startCraft, type CraftingJob, type Recipe } from './crafting';
+import { endInteraction, forceStateChange, getModule, interactWithNPC } from './npcController';
+import { advanceNPCSimulation, createNPCSimulation, type NPCSimulation } from './npcSimulation';
+import { getNavigationGrid, type NavigationGrid, type NavigationSource, type PlacedObject } from './pathfinding';
+import { hasWarpObject, regionWarpAt, type MapWarp } from './mapWarps';
+import {
+    attackRect,
+    createPlayerCombat,
+    damagePlayer,
+    hitboxRect,
+    playerAttack,
+    tickPlayerCombat,
+    type HitboxOffsets,
+    type PlayerCombat,
+} from './combat';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GameMap {
+    id: string;
+    /** Size in tiles */
+    width: number;
+    height: number;
+    tileSize: number;
+    /** Solid cells as "x,y" keys */
+    collision: ReadonlySet<string>;
+    /** Where the player starts and respawns, in tiles */
+    spawn: TilePosition | null;
+    /** Spawn points by id, where warps from other maps arrive */
+    spawnPoints: (TilePosition & { id: string })[];
+    objectInstances: PlacedObject[];
+    /** Object definitions, for footprints that block NPCs */
+    objects?: NavigationSource['objects'];
+    warps: MapWarp[];
+}
+
+/** Definitions the world reads; they load separately and may change while it runs */
+export interface GameContent {
+    quests: Record<string, Quest>;
+    items: ItemCatalog;
+    shops: Record<string, Shop>;
+    recipes: Record<string, Recipe>;
+}
+
+export interface GamePlayer {
+    name: string;
+    /** Character stats, to restore health on respawn */
+    stats?: CharacterStats;
+    position: { x: number; y: number };
+    direction: NPCDirection;
+    moving: boolean;
+    /** Relative to the drawn sprite, already scaled to the tile size */
+    hitbox: HitboxOffsets;
+    combat: PlayerCombat;
+}
+
+export interface GameWorld {
+    map: GameMap;
+    navigation: NavigationGrid;
+    player: GamePlayer;
+    /** The NPCs with their clock and random source */
+    simulation: NPCSimulation;
+    /** Flags, quest states, inventory and gold that dialogue reads and changes */
+    progress: DialogueWorld;
+    dialogue: DialogueState | null;
+    /** Pickups already taken, keyed `${mapId}:${pickup.key}` */
+    collectedPickups: ReadonlySet<string>;
+    /** Tile the player last entered, as "x,y" */
+    lastTile: string;
+    /** Stock of the shops visited so far, by shop id */
+    shops: ShopStates;
+    /** The recipe being crafted, timed on `gameTime` */
+    crafting: CraftingJob | null;
+}
+
+/** Directions held down this frame */
+export interface GameInput {
+    up?: boolean;
+    down?: boolean;
+    left?: boolean;
+    right?: boolean;
+}
+
+export interface GameStepOptions {
+    /** Pixels per 1/60 s */
+    moveSpeed?: number;
+}
+
+export type GameEvent =
+    | { type: 'quest'; notice: QuestNotice }
+    | { type: 'pickup'; itemId: string; name: string }
+    | { type: 'inventory_full'; itemId: string; name: string }
+    | { type: 'npc_hit'; npcId: string; damage: number; position: TilePosition }
+    | { type: 'npc_defeated'; npcId: string; name: string }
+    | { type: 'player_hit'; npcId: string; damage: number }
+    | { type: 'player_defeated' }
+    /** An NPC's reply that is not a conversation, e.g. a closed shop */
+    | { type: 'npc_response'; npcId: string; name: string; text: string }
+    | { type: 'open_shop'; shopId: string; npcId: string }
+    | { type: 'open_crafting'; npcId: string; npcName: string; station: string }
+    | { type: 'bought'; shopId: string; itemId: string; name: string; price: number }
+    | { type: 'sold'; shopId: string; itemId: string; name: string; price: number }
+    | { type: 'crafted'; recipeId: string; name: string }
+    /** A trade or craft that could not be made, with the reason to show */
+    | { type: 'action_failed'; reason: string }
+    | { type: 'dialogue_action'; action: DialogueAction }
+    /** The player walked into or used a warp; the view loads its target map */
+    | { type: 'warp'; warp: MapWarp };
+
+export interface GameUpdate {
+    world: GameWorld;
+    events: GameEvent[];
+}
+
+export interface GameWorldOptions {
+    map: GameMap;
+    npcs: NPC[];
+    player: { name: string; stats?: CharacterStats; hitbox: HitboxOffsets };
+    /** Seed for the NPC simulation */
+    seed: number;
+    /** Progress carried in, e.g. from a save; a fresh start by default */
+    progress?: DialogueWorld;
+}
+
+export const DEFAULT_MOVE_SPEED = 4; // pixels per frame at 60fps
+
+const FRAME_MS = 1000 / 60;
+const INTERACTION_DISTANCE = 1.5; // tiles between centers
+const ATTACK_REACH = 0.75; // tiles in front of the hitbox
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+function navigationFor(map: GameMap): NavigationGrid {
+    return getNavigationGrid(map.id, {
+        width: map.width,
+        height: map.height,
+        collision: map.collision,
+        objectInstances: map.objectInstances,
+        objects: map.objects,
+    });
+}
+
+function spawnPosition(map: GameMap): { x: number; y: number } {
+    return map.spawn
+        ? { x: map.spawn.x * map.tileSize, y: map.spawn.y * map.tileSize }
+        : { x: 0, y: 0 };
+}
+
+export function createGameWorld(options: GameWorldOptions): GameWorld {
+    const { map, player } = options;
+    return {
+        map,
+        navigation: navigationFor(map),
+        player: {
+            name: player.name,
+            stats: player.stats,
+            position: spawnPosition(map),
+            direction: 'down',
+            moving: false,
+            hitbox: player.hitbox,
+            combat: createPlayerCombat(player.stats),
+        },
+        simulation: createNPCSimulation(options.npcs, options.seed),
+        progress: options.progress ?? createDialogueWorld(),
+        dialogue: null,
+        collectedPickups: new Set(),
+        lastTile: '',
+        shops: {},
+        crafting: null,
+    };
+}
+
+/** Swap in a new version of the same map (e.g. once its tiles have loaded) */
+export function setGameMap(world: GameWorld, map: GameMap): GameWorld {
+    return { ...world, map, navigation: navigationFor(map) };
+}
+
+/**
+ * Move onto another map at the warp target `spawnId` (the map's default
+ * spawn when it has no such point). The player keeps their stats, health,
+ * inventory and quests; the NPCs are the new map's, on a simulation whose
+ * clock and random source carry on from the old one.
+ */
+export function enterGameMap(world: GameWorld, map: GameMap, npcs: NPC[], spawnId: string): GameWorld {
+    const target = map.spawnPoints.find(s => s.id === spawnId) ?? map.spawn;
+    const position = target ? { x: target.x * map.tileSize, y: target.y * map.tileSize } : spawnPosition(map);
+    return {
+        ...world,
+        map,
+        navigation: navigationFor(map),
+        player: { ...world.player, position, moving: false },
+        simulation: {
+            ...createNPCSimulation(npcs, world.simulation.randomState),
+            tick: world.simulation.tick,
+            time: world.simulation.time,
+            accumulator: world.simulation.accumulator,
+        },
+        dialogue: null,
+        // Arriving on a warp region does not send the player straight back
+        lastTile: target ? `${target.x},${target.y}` : '0,0',
+    };
+}
+
+/** Use a new hitbox, e.g. once the character's sprite sheet has loaded */
+export function setPlayerHitbox(world: GameWorld, hitbox: HitboxOffsets): GameWorld {
+    return { ...world, player: { ...world.player, hitbox } };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function gameNpcs(world: GameWorld): NPC[] {
+    return world.simulation.npcs;
+}
+
+/** Time the world has run, in ms, including the part of a step not yet simulated */
+export function gameTime(world: GameWorld): number {
+    return world.simulation.time + world.simulation.accumulator;
+}
+
+export function playerTile(world: GameWorld): TilePosition {
+    const { tileSize } = world.map;
+    return {
+        x: Math.floor(world.player.position.x / tileSize),
+        y: Math.floor(world.player.position.y / tileSize),
+    };
+}
+
+/** Pickups on the map that have not been taken yet */
+export function remainingPickups(world: GameWorld, content: GameContent): MapPickup[] {
+    return findMapPickups(world.map.objectInstances, content.items)
+        .filter(pickup => !world.collectedPickups.has(`${world.map.id}:${pickup.key}`));
+}
+
+/** Distance between the player's and the NPC's tile-sized squares, center to center, in tiles */
+export function npcDistance(world: GameWorld, npc: NPC): number {
+    const { tileSize } = world.map;
+    const { x, y } = world.player.position;
+    return Math.hypot(x / tileSize - npc.position.x, y / tileSize - npc.position.y);
+}
+
+export function canInteract(world: GameWorld, npc: NPC): boolean {
+    return npc.state !== 'disabled' && npcDistance(world, npc) <= INTERACTION_DISTANCE;
+}
+
+/** The object warp the interact key would use */
+export function nearbyWarp(world: GameWorld): MapWarp | undefined {
+    const { tileSize } = world.map;
+    const { x, y } = world.player.position;
+    return world.map.warps.find(warp => warp.kind === 'object'
+        && warp.targetMapId !== ''
+        && hasWarpObject(warp, world.map.objectInstances)
+        && Math.hypot(x / tileSize - warp.x, y / tileSize - warp.y) <= INTERACTION_DISTANCE);
+}
+
+/** The current dialogue line, ready to show */
+export function presentGameDialogue(world: GameWorld): PresentedLine | null {
+    if (!world.dialogue) return null;
+    const npc = gameNpcs(world).find((n: NPC) => n.id === world.dialogue!.npcId);
+    return presentDialogueLine(world.dialogue, world.progress, {
+        playerName: world.player.name,
+        npcName: npc?.metadata.name ?? 'NPC',
+    });
+}
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+function withNpcs(world: GameWorld, npcs: NPC[]): GameWorld {
+    return { ...world, simulation: { ...world.simulation, npcs } };
+}
+
+/** Return an NPC the player was trading or crafting with to idle */
+export function endGameInteraction(world: GameWorld, npcId: string): GameWorld {
+    return withNpcs(world, gameNpcs(world).map((n: NPC) => n.id === npcId ? endInteraction(n) : n));
+}
+
+function questEvents(notices: QuestNotice[]): GameEvent[] {
+    return notices.map((notice): GameEvent => ({ type: 'quest', notice }));
+}
+
+/** Move by the held directions, blocked by solid cells under the hitbox */
+function movePlayer(player: GamePlayer, map: GameMap, dt: number, input: GameInput, moveSpeed: number): GamePlayer {
+    const speed = moveSpeed * dt / FRAME_MS;
+    let dx = 0, dy = 0;
+    let direction = player.direction;
+
+    if (input.up) {
+        dy = -speed;
+        direction = 'up';
+    }
+    if (input.down) {
+        dy = speed;
+        direction = 'down';
+    }
+    if (input.left) {
+        dx = -speed;
+        direction = 'left';
+    }
+    if (input.right) {
+        dx = speed;
+        direction = 'right';
+    }
+
+    const moving = !!(input.up || input.down || input.left || input.right);
+    if (!moving) {
+        return player.moving ? { ...player, moving: false } : player;
+    }
+
+    const { tileSize } = map;
+    const newX = Math.max(0, Math.min(player.position.x + dx, (map.width - 1) * tileSize));
+    const newY = Math.max(0, Math.min(player.position.y + dy, (map.height - 1) * tileSize));
+
+    // Check every tile the hitbox overlaps - not just corners
+    // This prevents slipping through walls when hitbox spans multiple tiles
+    const hitbox = hitboxRect({ x: newX, y: newY }, player.hitbox);
+    const tileStartX = Math.floor(hitbox.x / tileSize);
+    const tileEndX = Math.floor((hitbox.x + hitbox.width - 1) / tileSize);
+    const tileStartY = Math.floor(hitbox.y / tileSize);
+    const tileEndY = Math.floor((hitbox.y + hitbox.height - 1) / tileSize);
+
+    for (let tileX = tileStartX; tileX <= tileEndX; tileX++) {
+        for (let tileY = tileStartY; tileY <= tileEndY; tileY++) {
+            if (map.collision.has(`${tileX},${tileY}`)) {
+                return { ...player, direction, moving }; // Blocked
+            }
+        }
+    }
+
+    return { ...player, position: { x: newX, y: newY }, direction, moving };
+}
+
+/** Entering a tile picks up items on it, counts towards visit objectives and takes region warps */
+function enterTile(world: GameWorld, content: GameContent, events: GameEvent[]): GameWorld {
+    const tile = playerTile(world);
+    const key = `${tile.x},${tile.y}`;
+    if (world.lastTile === key) return world;
+
+    let progress = world.progress;
+    const taken: string[] = [];
+    for (const pickup of remainingPickups(world, content)) {
+        if (pickup.x !== tile.x || pickup.y !== tile.y) continue;
+        const { inventory, added } = addItems(progress.inventory, content.items, pickup.itemId, 1);
+        const name = content.items[pickup.itemId]?.name ?? pickup.itemId;
+        if (added === 0) {
+            events.push({ type: 'inventory_full', itemId: pickup.itemId, name });
+            continue;
+        }
+        taken.push(`${world.map.id}:${pickup.key}`);
+        events.push({ type: 'pickup', itemId: pickup.itemId, name });
+        const collected = applyQuestEvent({ ...progress, inventory }, content.quests, { type: 'collect', itemId: pickup.itemId });
+        progress = collected.world;
+        events.push(...questEvents(collected.notices));
+    }
+
+    const visited = applyQuestEvent(progress, content.quests, { type: 'visit', mapId: world.map.id, x: tile.x, y: tile.y });
+    events.push(...questEvents(visited.notices));
+
+    const warp = regionWarpAt(world.map.warps, tile);
+    if (warp) events.push({ type: 'warp', warp });
+
+    return {
+        ...world,
+        progress: visited.world,
+        collectedPickups: taken.length > 0 ? new Set([...world.collectedPickups, ...taken]) : world.collectedPickups,
+        lastTile: key,
+    };
+}
+
+/** Advance the NPCs; those in combat attack the player when in range */
+function stepNpcs(world: GameWorld, dt: number, events: GameEvent[]): GameWorld {
+    const result = advanceNPCSimulation(world.simulation, dt, {
+        player: playerTile(world),
+        navigation: world.navigation,
+    });
+
+    let combat = world.player.combat;
+    for (const attack of result.attacks) {
+        combat = damagePlayer(combat, attack.damage);
+        events.push({ type: 'player_hit', npcId: attack.npcId, damage: attack.damage });
+    }
+
+    return { ...world, simulation: result.simulation, player: { ...world.player, combat } };
+}
+
+/** Defeat sends the player back to the spawn point at full health */
+function checkDefeat(world: GameWorld, events: GameEvent[]): GameWorld {
+    if (world.player.combat.health > 0) return world;
+
+    events.push({ type: 'player_defeated' });
+    const respawned = {
+        ...world,
+        player: {
+            ...world.player,
+            position: spawnPosition(world.map),
+            combat: createPlayerCombat(world.player.stats),
+        },
+    };
+    return withNpcs(respawned, gameNpcs(world).map((n: NPC) => n.state === 'combat' ? forceStateChange(n, 'idle') : n));
+}
+
+/** Advance the world by `dt` ms with the directions held down */
+export function stepGameWorld(
+    world: GameWorld,
+    content: GameContent,
+    dt: number,
+    input: GameInput,
+    options: GameStepOptions = {}
+): GameUpdate {
+    const events: GameEvent[] = [];
+    const player = movePlayer(world.player, world.map, dt, input, options.moveSpeed ?? DEFAULT_MOVE_SPEED);
+
+    let next: GameWorld = { ...world, player: { ...player, combat: tickPlayerCombat(player.combat, dt) } };
+    next = enterTile(next, content, events);
+    next = stepNpcs(next, dt, events);
+    next = checkDefeat(next, events);
+
+    return { world: next, events };
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/** Swing at whatever is in front of the player's hitbox */
+export function attackGameWorld(world: GameWorld, content: GameContent): GameUpdate {
+    if (world.dialogue) return { world, events: [] };
+
+    const { player } = world;
+    const { tileSize } = world.map;
+    const area = attackRect(hitboxRect(player.position, player.hitbox), player.direction, tileSize * ATTACK_REACH);
+    const result = playerAttack(player.combat, gameNpcs(world), area, tileSize);
+    if (!result) return { world, events: [] };
+
+    const events: GameEvent[] = [];
+    let progress = world.progress;
+    for (const hit of result.hits) {
+        const npc = gameNpcs(world).find((n: NPC) => n.id === hit.npcId);
+        if (!npc) continue;
+        events.push({ type: 'npc_hit', npcId: npc.id, damage: hit.damage, position: npc.position });
+        if (!hit.killed) continue;
+
+        // Kills count towards quests
+        events.push({ type: 'npc_defeated', npcId: npc.id, name: npc.metadata.name ?? 'NPC' });
+        const killed = applyQuestEvent(progress, content.quests, { type: 'kill', npc });
+        progress = killed.world;
+        events.push(...questEvents(killed.notices));
+    }
+
+    return {
+        world: { ...withNpcs(world, result.npcs), player: { ...player, combat: result.player }, progress },
+        events,
+    };
+}
+
+/**
+ * Store a dialogue step: world changes, NPC state changes, end of
+ * conversation. Quest state changes made by dialogue actions are settled
+ * against `previous`.
+ */
+function applyDialogueStep(
+    world: GameWorld,
+    content: GameContent,
+    result: DialogueStepResult,
+    speakerId: string,
+    previous: DialogueWorld,
+    events: GameEvent[]
+): GameWorld {
+    const synced = syncQuests(previous, result.world, content.quests);
+    events.push(...questEvents(synced.notices));
+    events.push(...result.actions.map((action): GameEvent => ({ type: 'dialogue_action', action })));
+
+    const npcs = gameNpcs(world).map((n: NPC) => {
+        let updated = n;
+        for (const change of result.npcStateChanges) {
+            if (change.npcId === n.id) updated = forceStateChange(updated, change.state);
+        }
+        if (n.id === speakerId) {
+            updated = result.state ? { ...updated, state: 'interacting' } : endInteraction(updated);
+        }
+        return updated;
+    });
+
+    return { ...withNpcs(world, npcs), progress: synced.world, dialogue: result.state };
+}
+
+/** The script an NPC's interaction module offers, given the quest states */
+function dialogueScriptFor(npc: NPC, progress: DialogueWorld): DialogueScript | undefined {
+    const interactionModule = getModule(npc, 'interaction');
+    if (interactionModule?.type === 'quest') {
+        // Pick dialogue based on quest state
+        const questModule = interactionModule as QuestInteractionModule;
+        switch (progress.questStates[questModule.questId] || 'available') {
+            case 'active':
+                return questModule.dialogueActive;
+            case 'completed':
+            case 'turned_in':
+                return questModule.dialogueComplete;
+            default: // 'available'
+                return questModule.dialogueAvailable;
+        }
+    }
+
+    const dialogueModule = interactionModule as DialogueInteractionModule | undefined;
+    if (dialogueModule?.dialogueScript) {
+        return dialogueModule.dialogueScript;
+    }
+    if (dialogueModule?.dialogueText) {
+        // Simple legacy dialogue - wrap in script
+        return { lines: [{ speaker: npc.metadata.name, text: dialogueModule.dialogueText }] };
+    }
+    return undefined;
+}
+
+/**
+ * The interact key: advance the conversation in progress (`choiceIndex`
+ * picks among the choices shown), or start one with the nearest NPC in
+ * range. Shopkeepers and crafters open their window instead. With no NPC in
+ * range it uses an object warp in range.
+ */
+export function interactGameWorld(world: GameWorld, content: GameContent, choiceIndex?: number): GameUpdate {
+    const events: GameEvent[] = [];
+
+    // If already in dialogue, handle progression
+    if (world.dialogue) {
+        const dialogue = world.dialogue;
+        const npc = gameNpcs(world).find((n: NPC) => n.id === dialogue.npcId);
+        if (!npc) return { world: { ...world, dialogue: null }, events };
+
+        // Number keys pick among the choices that are actually shown
+        const presented = presentGameDialogue(world);
+        if (presented && presented.choices.length > 0) {
+            const choice = choiceIndex !== undefined ? presented.choices[choiceIndex] : undefined;
+            if (!choice) return { world, events }; // Choices require explicit selection, not E to continue
+            const result = advanceDialogue(dialogue, world.progress, choice.index);
+            return { world: applyDialogueStep(world, content, result, npc.id, world.progress, events), events };
+        }
+        if (choiceIndex !== undefined) return { world, events };
+
+        const result = advanceDialogue(dialogue, world.progress);
+        return { world: applyDialogueStep(world, content, result, npc.id, world.progress, events), events };
+    }
+    if (choiceIndex !== undefined) return { world, events };
+
+    // Not in dialogue - check for nearby NPC, then for a door
+    const npc = gameNpcs(world).find((n: NPC) => canInteract(world, n));
+    if (!npc) {
+        const warp = nearbyWarp(world);
+        if (warp) events.push({ type: 'warp', warp });
+        return { world, events };
+    }
+
+    // Talking counts towards quests before the NPC picks what to say
+    const talked = applyQuestEvent(world.progress, content.quests, { type: 'talk', npc });
+    events.push(...questEvents(talked.notices));
+    const name = npc.metadata.name ?? 'NPC';
+
+    const interactionModule = getModule(npc, 'interaction');
+    if (interactionModule?.type === 'shop' || interactionModule?.type === 'crafting') {
+        // Shops and crafters open their window instead of a conversation
+        const interaction = interactWithNPC(npc, { shops: content.shops, recipes: content.recipes });
+        if (interaction.response) {
+            events.push({ type: 'npc_response', npcId: npc.id, name, text: interaction.response });
+        }
+
+        const shop = interaction.shopId ? content.shops[interaction.shopId] : undefined;
+        let shops = world.shops;
+        if (shop) {
+            shops = { ...shops, [shop.id]: openShop(shop, shops[shop.id], gameTime(world)) };
+            events.push({ type: 'open_shop', shopId: shop.id, npcId: npc.id });
+        } else if (interaction.craftingType) {
+            events.push({ type: 'open_crafting', npcId: npc.id, npcName: npc.metadata.name ?? 'Crafter', station: interaction.craftingType });
+        } else {
+            return { world: { ...world, progress: talked.world }, events };
+        }
+
+        const npcs = gameNpcs(world).map((n: NPC) => n.id === npc.id && interaction.newState
+            ? forceStateChange(n, interaction.newState)
+            : n);
+        return { world: { ...withNpcs(world, npcs), progress: talked.world, shops }, events };
+    }
+
+    const script = dialogueScriptFor(npc, talked.world);
+    if (!script) {
+        return { world: { ...world, progress: talked.world }, events };
+    }
+
+    const result = startDialogue(script, npc.id, talked.world);
+    return { world: applyDialogueStep(world, content, result, npc.id, talked.world, events), events };
+}
+
+// =============================================================================
+// Shops and Crafting
+// =============================================================================
+
+function actionFailed(world: GameWorld, reason: string): GameUpdate {
+    return { world, events: [{ type: 'action_failed', reason }] };
+}
+
+/** Buy one `itemId` from a shop; bought items count towards collect objectives */
+export function buyGameItem(world: GameWorld, content: GameContent, shopId: string, itemId: string): GameUpdate {
+    const shop = content.shops[shopId];
+    if (!shop) return actionFailed(world, 'That shop is closed');
+
+    const state = world.shops[shopId] ?? openShop(shop, undefined, gameTime(world));
+    const result = buyFromShop(world.progress, content.items, shop, state, itemId);
+    if ('err' in result) return actionFailed(world, result.err);
+
+    const collected = applyQuestEvent(result.ok.world, content.quests, { type: 'collect', itemId });
+    const events: GameEvent[] = [{
+        type: 'bought',
+        shopId,
+        itemId,
+        name: content.items[itemId]?.name ?? itemId,
+        price: world.progress.gold - result.ok.world.gold,
+    }, ...questEvents(collected.notices)];
+
+    return {
+        world: { ...world, progress: collected.world, shops: { ...world.shops, [shopId]: result.ok.state } },
+        events,
+    };
+}
+
+/** Sell one `itemId` to a shop */
+export function sellGameItem(world: GameWorld, content: GameContent, shopId: string, itemId: string): GameUpdate {
+    const shop = content.shops[shopId];
+    if (!shop) return actionFailed(world, 'That shop is closed');
+
+    const state = world.shops[shopId] ?? openShop(shop, undefined, gameTime(world));
+    const result = sellToShop(world.progress, content.items, shop, state, itemId);
+    if ('err' in result) return actionFailed(world, result.err);
+
+    const events: GameEvent[] = [{
+        type: 'sold',
+        shopId,
+        itemId,
+        name: content.items[itemId]?.name ?? itemId,
+        price: result.ok.world.gold - world.progress.gold,
+    }];
+    return {
+        world: { ...world, progress: result.ok.world, shops: { ...world.shops, [shopId]: result.ok.state } },
+        events,
+    };
+}
+
+/** Take a recipe's ingredients and start crafting it; one job runs at a time */
+export function startGameCraft(world: GameWorld, content: GameContent, recipeId: string): GameUpdate {
+    const recipe = content.recipes[recipeId];
+    if (!recipe) return actionFailed(world, 'Unknown recipe');
+    if (world.crafting) return actionFailed(world, 'Already crafting');
+
+    const result = startCraft(world.progress, content.items, recipe, gameTime(world));
+    if ('err' in result) return actionFailed(world, result.err);
+    return { world: { ...world, progress: result.ok.world, crafting: result.ok.job }, events: [] };
+}
+
+/**
+ * Hand over the crafting job's outputs once it is due; they count towards
+ * collect objectives. Nothing happens before then. Without room for them
+ * the job stays pending until there is.
+ */
+export function finishGameCraft(world: GameWorld, content: GameContent): GameUpdate {
+    const job = world.crafting;
+    if (!job || gameTime(world) < job.finishesAt) return { world, events: [] };
+
+    const result = finishCraft(world.progress, content.items, job);
+    if ('err' in result) return actionFailed(world, result.err);
+
+    const events: GameEvent[] = [{ type: 'crafted', recipeId: job.recipeId, name: job.name }];
+    let progress = result.ok;
+    for (const output of job.outputs) {
+        const collected = applyQuestEvent(progress, content.quests, { type: 'collect', itemId: output.itemId });
+        progress = collected.world;
+        events.push(...questEvents(collected.notices));
+    }
+    return { world: { ...world, progress, crafting: null }, events };
+}
@@ -0,0 +1,669 @@
+/**
+ * Image Validation
+ *
+ * Client-side validation pipeline for PNG assets, following the rules in spec.md:
+ * PNG format, exact (or grid-aligned) dimensions, preserved alpha, and rejection of
+ * white/grey/checkerboard backgrounds. Where it is safe to do so the pipeline
+ * attempts an automatic fix (background removal and centering) and reports the
+ * outcome as a ValidationError-shaped result with `fix_attempted` set.
+ */
+
+import type { ValidationError } from '../backend';
+
+export const TILE_PIXEL_SIZE = 32;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Raw RGBA pixels, layout-compatible with ImageData */
+export interface PixelBuffer {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/** Header information read straight from the PNG byte stream */
+export interface PngInfo {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    hasAlphaChannel: boolean; // Colour type 4/6, or a tRNS chunk
+}
+
+export type BackgroundKind = 'none' | 'solid' | 'checkerboard';
+
+export interface BackgroundAnalysis {
+    kind: BackgroundKind;
+    colors: RGB[];     // Detected background colour(s)
+    coverage: number;  // Fraction of border pixels matching the background
+}
+
+/** Rules applied by the pipeline - see TILE_VALIDATION_RULES / OBJECT_VALIDATION_RULES */
+export interface ImageValidationRules {
+    width?: number;        // Exact width required
+    height?: number;       // Exact height required
+    multipleOf?: number;   // Both dimensions must be a multiple of this
+    requireAlpha: boolean;
+    rejectBackgrounds: boolean;
+    autoFix: boolean;
+}
+
+export const TILE_VALIDATION_RULES: ImageValidationRules = {
+    width: TILE_PIXEL_SIZE,
+    height: TILE_PIXEL_SIZE,
+    requireAlpha: true,
+    rejectBackgrounds: true,
+    autoFix: true,
+};
+
+export const OBJECT_VALIDATION_RULES: ImageValidationRules = {
+    multipleOf: TILE_PIXEL_SIZE,
+    requireAlpha: true,
+    rejectBackgrounds: true,
+    autoFix: true,
+};
+
+/** Small data-URL preview for before/after display */
+export interface ImagePreview {
+    url: string;
+    width: number;
+    height: number;
+}
+
+/** A validated (and possibly corrected) image, ready for upload */
+export interface ValidatedImage {
+    bytes: Uint8Array;
+    width: number;
+    height: number;
+    hasTransparency: boolean;   // At least one pixel is not fully opaque
+    fix_attempted: boolean;
+    issues: ValidationError[];  // Problems found on the original (all fixed)
+    original: ImagePreview;
+    corrected: ImagePreview | null;
+}
+
+/** Validation failure - the primary error plus everything else that was found */
+export interface ImageValidationFailure extends ValidationError {
+    issues: ValidationError[];
+    original: ImagePreview | null;
+    corrected: ImagePreview | null;
+}
+
+export type ImageValidationResult =
+    | { ok: ValidatedImage }
+    | { err: ImageValidationFailure };
+
+// =============================================================================
+// PNG Header Parsing
+// =============================================================================
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Read the IHDR chunk (and scan for tRNS) without decoding the image.
+ * Returns null if the bytes are not a PNG.
+ */
+export function readPngHeader(bytes: Uint8Array): PngInfo | null {
+    if (bytes.length < 33) return null;
+    for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+        if (bytes[i] !== PNG_SIGNATURE[i]) return null;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunkType = (offset: number) => String.fromCharCode(
+        bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]
+    );
+
+    if (chunkType(12) !== 'IHDR') return null;
+
+    const width = view.getUint32(16);
+    const height = view.getUint32(20);
+    const bitDepth = bytes[24];
+    const colorType = bytes[25];
+
+    // Walk the chunk list looking for tRNS before the image data starts
+    let hasTransparencyChunk = false;
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = chunkType(offset + 4);
+        if (type === 'tRNS') {
+            hasTransparencyChunk = true;
+            break;
+        }
+        if (type === 'IDAT' || type === 'IEND') break;
+        offset += 12 + length;
+    }
+
+    return {
+        width,
+        height,
+        bitDepth,
+        colorType,
+        hasAlphaChannel: colorType === 4 || colorType === 6 || hasTransparencyChunk,
+    };
+}
+
+// =============================================================================
+// Pixel Analysis (pure - no DOM access)
+// =============================================================================
+
+const COLOR_TOLERANCE = 12;   // Max per-channel difference to count as "same colour"
+const NEUTRAL_CHROMA = 24;    // Max channel spread for white/grey
+const NEUTRAL_MIN_LIGHTNESS = 96;
+
+function colorAt(buffer: PixelBuffer, x: number, y: number): RGB & { a: number } {
+    const i = (y * buffer.width + x) * 4;
+    return { r: buffer.data[i], g: buffer.data[i + 1], b: buffer.data[i + 2], a: buffer.data[i + 3] };
+}
+
+function colorsMatch(a: RGB, b: RGB, tolerance: number = COLOR_TOLERANCE): boolean {
+    return Math.abs(a.r - b.r) <= tolerance &&
+        Math.abs(a.g - b.g) <= tolerance &&
+        Math.abs(a.b - b.b) <= tolerance;
+}
+
+/** White or grey: low chroma and not too dark */
+function isNeutral(color: RGB): boolean {
+    const max = Math.max(color.r, color.g, color.b);
+    const min = Math.min(color.r, color.g, color.b);
+    return max - min <= NEUTRAL_CHROMA && max >= NEUTRAL_MIN_LIGHTNESS;
+}
+
+/** Border pixels in clockwise order, starting top-left */
+function borderCoordinates(width: number, height: number): Array<[number, number]> {
+    const coords: Array<[number, number]> = [];
+    for (let x = 0; x < width; x++) coords.push([x, 0]);
+    for (let y = 1; y < height; y++) coords.push([width - 1, y]);
+    if (height > 1) {
+        for (let x = width - 2; x >= 0; x--) coords.push([x, height - 1]);
+    }
+    if (width > 1) {
+        for (let y = height - 2; y > 0; y--) coords.push([0, y]);
+    }
+    return coords;
+}
+
+/**
+ * Detect a white/grey solid or checkerboard background by looking at the border.
+ * A uniform image with no foreground is treated as art, not as a background.
+ */
+export function detectBackground(buffer: PixelBuffer): BackgroundAnalysis {
+    const none: BackgroundAnalysis = { kind: 'none', colors: [], coverage: 0 };
+    const border = borderCoordinates(buffer.width, buffer.height).map(([x, y]) => colorAt(buffer, x, y));
+    if (border.length === 0) return none;
+
+    // Mostly transparent border - the background is already removed
+    const opaque = border.filter(c => c.a === 255);
+    if (opaque.length < border.length * 0.5) return none;
+
+    // Cluster border colours
+    const clusters: Array<{ color: RGB; count: number }> = [];
+    for (const c of opaque) {
+        const cluster = clusters.find(k => colorsMatch(k.color, c));
+        if (cluster) {
+            cluster.count++;
+        } else {
+            clusters.push({ color: { r: c.r, g: c.g, b: c.b }, count: 1 });
+        }
+    }
+    clusters.sort((a, b) => b.count - a.count);
+
+    const [first, second] = clusters;
+    let analysis: BackgroundAnalysis = none;
+
+    if (first && first.count >= border.length * 0.9 && isNeutral(first.color)) {
+        analysis = { kind: 'solid', colors: [first.color], coverage: first.count / border.length };
+    } else if (
+        first && second &&
+        first.count + second.count >= border.length * 0.9 &&
+        second.count >= border.length * 0.25 &&
+        isNeutral(first.color) && isNeutral(second.color)
+    ) {
+        // Two neutral colours - require them to alternate along the border
+        let transitions = 0;
+        for (let i = 1; i < border.length; i++) {
+            const prevIsFirst = colorsMatch(border[i - 1], first.color);
+            const currIsFirst = colorsMatch(border[i], first.color);
+            if (prevIsFirst !== currIsFirst) transitions++;
+        }
+        if (transitions >= 4) {
+            analysis = {
+                kind: 'checkerboard',
+                colors: [first.color, second.color],
+                coverage: (first.count + second.count) / border.length,
+            };
+        }
+    }
+
+    if (analysis.kind === 'none') return analysis;
+
+    // Only a background if something else is in front of it
+    const region = backgroundRegion(buffer, analysis.colors);
+    const total = buffer.width * buffer.height;
+    let covered = 0;
+    for (let i = 0; i < region.length; i++) if (region[i]) covered++;
+    if (covered >= total) return none;
+
+    return analysis;
+}
+
+/**
+ * Flood-fill from the border over pixels matching the background colours.
+ * Only connected pixels are marked, so matching colours inside the sprite survive.
+ */
+function backgroundRegion(buffer: PixelBuffer, colors: RGB[]): Uint8Array {
+    const { width, height } = buffer;
+    const marked = new Uint8Array(width * height);
+    const stack: number[] = [];
+
+    const isBackground = (x: number, y: number) => {
+        const c = colorAt(buffer, x, y);
+        return c.a === 0 || colors.some(bg => colorsMatch(bg, c));
+    };
+
+    for (const [x, y] of borderCoordinates(width, height)) {
+        const index = y * width + x;
+        if (!marked[index] && isBackground(x, y)) {
+            marked[index] = 1;
+            stack.push(index);
+        }
+    }
+
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = Math.floor(index / width);
+        const neighbors: Array<[number, number]> = [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]];
+        for (const [nx, ny] of neighbors) {
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const next = ny * width + nx;
+            if (!marked[next] && isBackground(nx, ny)) {
+                marked[next] = 1;
+                stack.push(next);
+            }
+        }
+    }
+
+    return marked;
+}
+
+/** Make the detected background transparent. Returns a new buffer. */
+export function removeBackground(buffer: PixelBuffer, analysis: BackgroundAnalysis): PixelBuffer {
+    const data = new Uint8ClampedArray(buffer.data);
+    if (analysis.kind === 'none') return { width: buffer.width, height: buffer.height, data };
+
+    const region = backgroundRegion(buffer, analysis.colors);
+    for (let i = 0; i < region.length; i++) {
+        if (region[i]) data[i * 4 + 3] = 0;
+    }
+    return { width: buffer.width, height: buffer.height, data };
+}
+
+/** Bounding box of non-transparent pixels, or null for an empty image */
+export function contentBounds(buffer: PixelBuffer): { x: number; y: number; width: number; height: number } | null {
+    let minX = buffer.width, minY = buffer.height, maxX = -1, maxY = -1;
+    for (let y = 0; y < buffer.height; y++) {
+        for (let x = 0; x < buffer.width; x++) {
+            if (buffer.data[(y * buffer.width + x) * 4 + 3] > 0) {
+                if (x < minX) minX = x;
+                if (y < minY) minY = y;
+                if (x > maxX) maxX = x;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    if (maxX < 0) return null;
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Copy the visible content into a transparent canvas of the target size, centered.
+ * Never scales - returns null when the content does not fit.
+ */
+export function centerContent(buffer: PixelBuffer, targetWidth: number, targetHeight: number): PixelBuffer | null {
+    const bounds = contentBounds(buffer);
+    const data = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+    if (!bounds) return { width: targetWidth, height: targetHeight, data };
+    if (bounds.width > targetWidth || bounds.height > targetHeight) return null;
+
+    const offsetX = Math.floor((targetWidth - bounds.width) / 2);
+    const offsetY = Math.floor((targetHeight - bounds.height) / 2);
+
+    for (let y = 0; y < bounds.height; y++) {
+        for (let x = 0; x < bounds.width; x++) {
+            const src = ((bounds.y + y) * buffer.width + (bounds.x + x)) * 4;
+            const dst = ((offsetY + y) * targetWidth + (offsetX + x)) * 4;
+            data[dst] = buffer.data[src];
+            data[dst + 1] = buffer.data[src + 1];
+            data[dst + 2] = buffer.data[src + 2];
+            data[dst + 3] = buffer.data[src + 3];
+        }
+    }
+
+    return { width: targetWidth, height: targetHeight, data };
+}
+
+/** True if any pixel is not fully opaque */
+export function hasTransparentPixels(buffer: PixelBuffer): boolean {
+    for (let i = 3; i < buffer.data.length; i += 4) {
+        if (buffer.data[i] < 255) return true;
+    }
+    return false;
+}
+
+/** Target dimensions required by the rules, or null if the size is already valid */
+function requiredDimensions(width: number, height: number, rules: ImageValidationRules): { width: number; height: number } | null {
+    if (rules.width !== undefined || rules.height !== undefined) {
+        const w = rules.width ?? width;
+        const h = rules.height ?? height;
+        return w === width && h === height ? null : { width: w, height: h };
+    }
+    if (rules.multipleOf) {
+        const m = rules.multipleOf;
+        const w = Math.max(m, Math.ceil(width / m) * m);
+        const h = Math.max(m, Math.ceil(height / m) * m);
+        return w === width && h === height ? null : { width: w, height: h };
+    }
+    return null;
+}
+
+function dimensionMessage(width: number, height: number, rules: ImageValidationRules): string {
+    if (rules.width !== undefined || rules.height !== undefined) {
+        return `Image is ${width}×${height}px, expected ${rules.width ?? width}×${rules.height ?? height}px`;
+    }
+    return `Image is ${width}×${height}px, dimensions must be multiples of ${rules.multipleOf}px`;
+}
+
+/**
+ * Check decoded pixels against the rules (alpha is checked on the PNG header separately).
+ */
+export function checkPixels(buffer: PixelBuffer, rules: ImageValidationRules): ValidationError[] {
+    const issues: ValidationError[] = [];
+
+    if (rules.rejectBackgrounds) {
+        const background = detectBackground(buffer);
+        if (background.kind === 'solid') {
+            issues.push({ code: 'SOLID_BACKGROUND', message: 'Image has a white or grey background', fix_attempted: false });
+        } else if (background.kind === 'checkerboard') {
+            issues.push({ code: 'CHECKERBOARD_BACKGROUND', message: 'Image has a baked-in checkerboard background', fix_attempted: false });
+        }
+    }
+
+    if (requiredDimensions(buffer.width, buffer.height, rules)) {
+        issues.push({ code: 'INVALID_DIMENSIONS', message: dimensionMessage(buffer.width, buffer.height, rules), fix_attempted: false });
+    }
+
+    return issues;
+}
+
+/**
+ * Attempt a safe correction: strip the background, then re-center the content
+ * (into the required size, if the size is wrong). Returns null if no safe fix exists.
+ */
+export function correctPixels(buffer: PixelBuffer, rules: ImageValidationRules): PixelBuffer | null {
+    const background = rules.rejectBackgrounds ? detectBackground(buffer) : { kind: 'none' as const, colors: [], coverage: 0 };
+    let working = background.kind === 'none' ? buffer : removeBackground(buffer, background);
+
+    const target = requiredDimensions(working.width, working.height, rules);
+    if (target) {
+        const centered = centerContent(working, target.width, target.height);
+        if (!centered) return null;
+        working = centered;
+    } else if (background.kind !== 'none') {
+        // Background removed from a correctly sized image - re-center what is left
+        working = centerContent(working, working.width, working.height) ?? working;
+    }
+
+    return working;
+}
+
+// =============================================================================
+// Browser Decode / Encode
+// =============================================================================
+
+/** Decode image bytes into RGBA pixels using an offscreen canvas */
+export async function decodeImage(bytes: Uint8Array, type: string = 'image/png'): Promise<PixelBuffer> {
+    const bitmap = await createImageBitmap(new Blob([new Uint8Array(bytes)], { type }));
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { width: imageData.width, height: imageData.height, data: imageData.data };
+}
+
+function bufferToCanvas(buffer: PixelBuffer): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = buffer.width;
+    canvas.height = buffer.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(buffer.data), buffer.width, buffer.height), 0, 0);
+    return canvas;
+}
+
+/** Encode pixels as an RGBA PNG (canvas output always carries an alpha channel) */
+export async function encodePng(buffer: PixelBuffer): Promise<Uint8Array> {
+    const canvas = bufferToCanvas(buffer);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to encode PNG');
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function createPreview(buffer: PixelBuffer): ImagePreview {
+    return { url: bufferToCanvas(buffer).toDataURL('image/png'), width: buffer.width, height: buffer.height };
+}
+
+// =============================================================================
+// Pipeline
+// =============================================================================
+
+function failure(issues: ValidationError[], fixAttempted: boolean, original: ImagePreview | null, corrected: ImagePreview | null): { err: ImageValidationFailure } {
+    const primary = issues[0];
+    return {
+        err: {
+            code: primary.code,
+            message: primary.message,
+            fix_attempted: fixAttempted,
+            issues: issues.map(issue => ({ ...issue, fix_attempted: fixAttempted })),
+            original,
+            corrected,
+        },
+    };
+}
+
+/**
+ * Validate raw image bytes against the rules, attempting a safe fix if allowed.
+ */
+export async function validateImageBytes(bytes: Uint8Array, rules: ImageValidationRules): Promise<ImageValidationResult> {
+    const header = readPngHeader(bytes);
+    if (!header) {
+        return failure([{ code: 'INVALID_FORMAT', message: 'File is not a PNG image', fix_attempted: false }], false, null, null);
+    }
+
+    let pixels: PixelBuffer;
+    try {
+        pixels = await decodeImage(bytes);
+    } catch (error) {
+        console.error('Failed to decode image:', error);
+        return failure([{ code: 'DECODE_FAILED', message: 'PNG could not be decoded', fix_attempted: false }], false, null, null);
+    }
+
+    const original = createPreview(pixels);
+    const issues: ValidationError[] = [];
+    if (rules.requireAlpha && !header.hasAlphaChannel) {
+        issues.push({ code: 'MISSING_ALPHA', message: 'PNG has no alpha channel', fix_attempted: false });
+    }
+    issues.push(...checkPixels(pixels, rules));
+
+    if (issues.length === 0) {
+        return {
+            ok: {
+                bytes,
+                width: pixels.width,
+                height: pixels.height,
+                hasTransparency: hasTransparentPixels(pixels),
+                fix_attempted: false,
+                issues: [],
+                original,
+                corrected: null,
+            },
+        };
+    }
+
+    if (!rules.autoFix) {
+        return failure(issues, false, original, null);
+    }
+
+    // Re-encoding through the canvas restores the alpha channel, so MISSING_ALPHA
+    // is always fixable - only pixel-level issues need to be re-checked.
+    const corrected = correctPixels(pixels, rules);
+    if (!corrected) {
+        return failure(issues, true, original, null);
+    }
+
+    const correctedPreview = createPreview(corrected);
+    const remaining = checkPixels(corrected, rules);
+    if (remaining.length > 0) {
+        return failure(remaining, true, original, correctedPreview);
+    }
+
+    return {
+        ok: {
+            bytes: await encodePng(corrected),
+            width: corrected.width,
+            height: corrected.height,
+            hasTransparency: hasTransparentPixels(corrected),
+            fix_attempted: true,
+            issues: issues.map(issue => ({ ...issue, fix_attempted: true })),
+            original,
+            corrected: correctedPreview,
+        },
+    };
+}
+
+/** Validate a user-selected file */
+export async function validateImageFile(file: File, rules: ImageValidationRules): Promise<ImageValidationResult> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return validateImageBytes(bytes, rules);
+}
+
+// =============================================================================
+// Object State Validation
+// =============================================================================
+
+export interface ObjectStateInput {
+    name: string;
+    file: File | null;
+}
+
+/** Per-state outcome: the image result plus any cross-state errors */
+export interface ObjectStateReport {
+    name: string;
+    result: ImageValidationResult | null;  // Null when no image was provided
+    stateErrors: ValidationError[];        // Naming and cross-state problems
+    errors: ValidationError[];             // Everything - empty when the state is valid
+}
+
+export interface ObjectValidationReport {
+    valid: boolean;
+    width: number;   // Shared state dimensions (0 if unknown)
+    height: number;
+    states: ObjectStateReport[];
+}
+
+/**
+ * Check states against each other. States are compared to the first valid
+ * state: dimensions must match exactly and transparency must be consistent.
+ */
+export function checkStateConsistency(
+    states: Array<{ name: string; image: ValidatedImage | null }>
+): ValidationError[][] {
+    const errors: ValidationError[][] = states.map(() => []);
+    const names = new Set<string>();
+
+    states.forEach((state, i) => {
+        const name = state.name.trim();
+        if (!name) {
+            errors[i].push({ code: 'INVALID_STATE_NAME', message: 'State name is required', fix_attempted: false });
+        } else if (names.has(name)) {
+            errors[i].push({ code: 'DUPLICATE_STATE_NAME', message: `State name '${name}' is used more than once`, fix_attempted: false });
+        }
+        names.add(name);
+    });
+
+    const referenceIndex = states.findIndex(state => state.image !== null);
+    if (referenceIndex < 0) return errors;
+    const reference = states[referenceIndex];
+    const ref = reference.image!;
+
+    states.forEach((state, i) => {
+        if (i === referenceIndex || !state.image) return;
+        if (state.image.width !== ref.width || state.image.height !== ref.height) {
+            errors[i].push({
+                code: 'DIMENSION_MISMATCH',
+                message: `${state.image.width}×${state.image.height}px does not match '${reference.name}' (${ref.width}×${ref.height}px)`,
+                fix_attempted: state.image.fix_attempted,
+            });
+        }
+        if (state.image.hasTransparency !== ref.hasTransparency) {
+            errors[i].push({
+                code: 'INCONSISTENT_TRANSPARENCY',
+                message: state.image.hasTransparency
+                    ? `Has transparent pixels but '${reference.name}' is fully opaque`
+                    : `Is fully opaque but '${reference.name}' has transparent pixels`,
+                fix_attempted: state.image.fix_attempted,
+            });
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Validate every state image of an object. Each image runs through the tile
+ * pipeline (with grid-aligned rather than exact dimensions), then the states
+ * are checked against each other.
+ */
+export async function validateObjectStates(
+    states: ObjectStateInput[],
+    rules: ImageValidationRules = OBJECT_VALIDATION_RULES
+): Promise<ObjectValidationReport> {
+    const results = await Promise.all(
+        states.map(state => state.file ? validateImageFile(state.file, rules) : Promise.resolve(null))
+    );
+    const images = results.map((result, i) => ({
+        name: states[i].name,
+        image: result && 'ok' in result ? result.ok : null,
+    }));
+    const consistency = checkStateConsistency(images);
+
+    const reports: ObjectStateReport[] = states.map((state, i) => {
+        const result = results[i];
+        const stateErrors = result
+            ? consistency[i]
+            : [{ code: 'MISSING_IMAGE', message: 'State has no image', fix_attempted: false }, ...consistency[i]];
+        const errors = result && 'err' in result ? [...result.err.issues, ...stateErrors] : stateErrors;
+        return { name: state.name, result, stateErrors, errors };
+    });
+
+    const reference = images.find(state => state.image !== null)?.image;
+    return {
+        valid: reports.every(report => report.errors.length === 0),
+        width: reference?.width ?? 0,
+        height: reference?.height ?? 0,
+        states: reports,
+    };
+}
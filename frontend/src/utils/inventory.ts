@@ -0,0 +1,202 @@
+/**
+ * Inventory
+ *
+ * Item catalog and player inventory rules for the game test runtime.
+ *
+ * The inventory itself is a plain count per item id - the same record that
+ * dialogue conditions, dialogue actions and quest objectives read. Slots are
+ * derived from it: stackable items fill slots of up to `maxStack`, other
+ * items take a slot each. Ids missing from the catalog (e.g. given by a
+ * hand-written dialogue action) share a single slot.
+ *
+ * Pickups are object instances on a map whose object is an item's
+ * `pickupObjectId`.
+ */
+
+import type { Item } from '../backend';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Inventory = Record<string, number>;
+
+export interface ItemIconRef {
+    kind: 'object' | 'tile';
+    id: string;
+}
+
+export interface ItemDefinition {
+    id: string;
+    name: string;
+    description: string;
+    icon: ItemIconRef | null;
+    /** Map instances of this object are picked up as this item */
+    pickupObjectId?: string;
+    stackable: boolean;
+    /** Items per slot when stackable */
+    maxStack: number;
+    /** Base price in gold */
+    value: number;
+    tags: string[];
+}
+
+export type ItemCatalog = Record<string, ItemDefinition>;
+
+export interface InventorySlot {
+    itemId: string;
+    count: number;
+    item?: ItemDefinition;
+}
+
+/** An object instance on the map that can be picked up */
+export interface MapPickup {
+    /** Stable per map: object id and tile */
+    key: string;
+    itemId: string;
+    objectId: string;
+    x: number;
+    y: number;
+}
+
+export const INVENTORY_SLOTS = 24;
+
+// =============================================================================
+// Catalog
+// =============================================================================
+
+export function itemFromRecord(record: Item): ItemDefinition {
+    const kind = record.icon_kind;
+    return {
+        id: record.id,
+        name: record.name,
+        description: record.description,
+        icon: (kind === 'object' || kind === 'tile') && record.icon_id ? { kind, id: record.icon_id } : null,
+        pickupObjectId: record.pickup_object_id[0],
+        stackable: record.stackable,
+        maxStack: Math.max(1, Number(record.max_stack)),
+        value: Number(record.value),
+        tags: [...record.tags],
+    };
+}
+
+/** `existing` keeps the original creation time when updating */
+export function itemToRecord(item: ItemDefinition, existing?: Item): Item {
+    const now = BigInt(Date.now());
+    return {
+        id: item.id,
+        name: item.name,
+        description: item.description,
+        icon_kind: item.icon?.kind ?? 'none',
+        icon_id: item.icon?.id ?? '',
+        pickup_object_id: item.pickupObjectId ? [item.pickupObjectId] : [],
+        stackable: item.stackable,
+        max_stack: BigInt(item.stackable ? Math.max(1, Math.trunc(item.maxStack)) : 1),
+        value: BigInt(Math.max(0, Math.trunc(item.value))),
+        tags: item.tags,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+    };
+}
+
+export function createItemCatalog(records: Item[]): ItemCatalog {
+    return Object.fromEntries(records.map(record => [record.id, itemFromRecord(record)]));
+}
+
+// =============================================================================
+// Slots
+// =============================================================================
+
+function slotSize(item: ItemDefinition | undefined): number {
+    if (!item) return Infinity;
+    return item.stackable ? item.maxStack : 1;
+}
+
+/** The inventory as the slots a player would see, in item id order */
+export function inventorySlots(inventory: Inventory, catalog: ItemCatalog): InventorySlot[] {
+    const slots: InventorySlot[] = [];
+    for (const itemId of Object.keys(inventory).sort()) {
+        const item = catalog[itemId];
+        const size = slotSize(item);
+        let remaining = inventory[itemId] ?? 0;
+        while (remaining > 0) {
+            const count = Math.min(size, remaining);
+            slots.push({ itemId, count, item });
+            remaining -= count;
+        }
+    }
+    return slots;
+}
+
+export function usedSlots(inventory: Inventory, catalog: ItemCatalog): number {
+    return Object.entries(inventory).reduce((total, [itemId, count]) => {
+        const size = slotSize(catalog[itemId]);
+        return total + (count > 0 ? Math.ceil(count / size) : 0);
+    }, 0);
+}
+
+export function countItem(inventory: Inventory, itemId: string): number {
+    return inventory[itemId] ?? 0;
+}
+
+/**
+ * Add up to `count` items, as many as free slots (and free room in the
+ * item's last stack) allow. `added` says how many fit. Dialogue actions and
+ * quest rewards skip this check, so the inventory may go over capacity.
+ */
+export function addItems(
+    inventory: Inventory,
+    catalog: ItemCatalog,
+    itemId: string,
+    count: number,
+    capacity: number = INVENTORY_SLOTS
+): { inventory: Inventory; added: number } {
+    if (count <= 0) return { inventory, added: 0 };
+
+    const size = slotSize(catalog[itemId]);
+    const held = countItem(inventory, itemId);
+    const freeSlots = capacity - usedSlots(inventory, catalog);
+    const roomInLastStack = held > 0 && Number.isFinite(size) ? (size - (held % size)) % size : 0;
+    const room = size === Infinity
+        ? (held > 0 || freeSlots > 0 ? count : 0)
+        : roomInLastStack + Math.max(0, freeSlots) * size;
+
+    const added = Math.min(count, room);
+    if (added === 0) return { inventory, added: 0 };
+    return { inventory: { ...inventory, [itemId]: held + added }, added };
+}
+
+/** Remove up to `count` items; `removed` says how many were held */
+export function removeItems(inventory: Inventory, itemId: string, count: number): { inventory: Inventory; removed: number } {
+    const held = countItem(inventory, itemId);
+    const removed = Math.min(held, Math.max(0, count));
+    if (removed === 0) return { inventory, removed: 0 };
+
+    const next = { ...inventory };
+    if (held - removed > 0) {
+        next[itemId] = held - removed;
+    } else {
+        delete next[itemId];
+    }
+    return { inventory: next, removed };
+}
+
+// =============================================================================
+// Pickups
+// =============================================================================
+
+/** Object instances that are some item's pickup object */
+export function findMapPickups(objectInstances: Array<{ objectId: string; x: number; y: number }>, catalog: ItemCatalog): MapPickup[] {
+    const itemByObject = new Map<string, string>();
+    for (const item of Object.values(catalog)) {
+        if (item.pickupObjectId && !itemByObject.has(item.pickupObjectId)) {
+            itemByObject.set(item.pickupObjectId, item.id);
+        }
+    }
+
+    return objectInstances.flatMap((instance) => {
+        const itemId = itemByObject.get(instance.objectId);
+        if (!itemId) return [];
+        return [{ key: `${instance.objectId}@${instance.x},${instance.y}`, itemId, objectId: instance.objectId, x: instance.x, y: instance.y }];
+    });
+}
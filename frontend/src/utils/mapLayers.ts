@@ -0,0 +1,263 @@
+/**
+ * Map Layers
+ *
+ * Layer model shared by the editor and the game test renderer. Layers are
+ * stored in render order (bottom first). Tile layers hold tile instances, the
+ * object layer marks where objects/NPCs/the player are drawn, and the collision
+ * layer holds per-cell overrides of tile `is_solid`.
+ *
+ * Maps saved before layers existed (layers = null) are migrated on load: their
+ * flat tile_instances become the ground layer.
+ */
+
+import type { MapLayer, TileMetadata } from '../backend';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LayerKind = 'tile' | 'object' | 'collision';
+
+/** Tile instance in the editor's local (number-based) format */
+export interface LayerTile {
+    tileId: string;
+    x: number;
+    y: number;
+}
+
+/** Collision override - solid: true blocks the cell, false clears a solid tile */
+export interface CollisionOverride {
+    x: number;
+    y: number;
+    solid: boolean;
+}
+
+export interface EditorLayer {
+    id: string;
+    name: string;
+    kind: LayerKind;
+    visible: boolean;
+    locked: boolean;
+    tiles: LayerTile[];
+    collision: CollisionOverride[];
+}
+
+export const DEFAULT_LAYER_IDS = {
+    ground: 'ground',
+    decoration: 'decoration',
+    objects: 'objects',
+    collision: 'collision',
+} as const;
+
+// =============================================================================
+// Creation & Migration
+// =============================================================================
+
+export function createLayer(id: string, name: string, kind: LayerKind, tiles: LayerTile[] = []): EditorLayer {
+    return { id, name, kind, visible: true, locked: false, tiles, collision: [] };
+}
+
+/**
+ * Default stack: ground, decoration, objects, collision
+ */
+export function createDefaultLayers(groundTiles: LayerTile[] = []): EditorLayer[] {
+    return [
+        createLayer(DEFAULT_LAYER_IDS.ground, 'Ground', 'tile', groundTiles),
+        createLayer(DEFAULT_LAYER_IDS.decoration, 'Decoration', 'tile'),
+        createLayer(DEFAULT_LAYER_IDS.objects, 'Objects', 'object'),
+        createLayer(DEFAULT_LAYER_IDS.collision, 'Collision', 'collision'),
+    ];
+}
+
+function toLayerKind(kind: string): LayerKind {
+    return kind === 'object' || kind === 'collision' ? kind : 'tile';
+}
+
+/**
+ * Read layers from a backend map (Candid format). Legacy maps - or maps saved
+ * with an empty layer list - get the default stack with their tiles on ground.
+ */
+export function layersFromBackend(map: { tile_instances: any[]; layers?: [] | [MapLayer[]] }): EditorLayer[] {
+    const stored = Array.isArray(map.layers) && map.layers.length > 0 ? map.layers[0] : null;
+
+    if (!stored || stored.length === 0) {
+        return createDefaultLayers(map.tile_instances.map((t: any) => ({
+            tileId: t.tile_id,
+            x: Number(t.position.x),
+            y: Number(t.position.y),
+        })));
+    }
+
+    const layers: EditorLayer[] = stored.map((layer) => ({
+        id: layer.id,
+        name: layer.name,
+        kind: toLayerKind(layer.kind),
+        visible: layer.visible,
+        locked: layer.locked,
+        tiles: layer.tile_instances.map((t) => ({
+            tileId: t.tile_id,
+            x: Number(t.position.x),
+            y: Number(t.position.y),
+        })),
+        collision: layer.collision_tiles.map((c) => ({
+            x: Number(c.x),
+            y: Number(c.y),
+            solid: c.solid,
+        })),
+    }));
+
+    // Every map needs somewhere to draw entities and a collision layer
+    if (!layers.some(l => l.kind === 'object')) {
+        layers.push(createLayer(DEFAULT_LAYER_IDS.objects, 'Objects', 'object'));
+    }
+    if (!layers.some(l => l.kind === 'collision')) {
+        layers.push(createLayer(DEFAULT_LAYER_IDS.collision, 'Collision', 'collision'));
+    }
+
+    return layers;
+}
+
+/** Convert layers back to the Candid format */
+export function layersToBackend(layers: EditorLayer[]): MapLayer[] {
+    return layers.map((layer) => ({
+        id: layer.id,
+        name: layer.name,
+        kind: layer.kind,
+        visible: layer.visible,
+        locked: layer.locked,
+        tile_instances: layer.tiles.map((t) => ({
+            tile_id: t.tileId,
+            position: { x: BigInt(t.x), y: BigInt(t.y) },
+        })),
+        collision_tiles: layer.collision.map((c) => ({
+            x: BigInt(c.x),
+            y: BigInt(c.y),
+            solid: c.solid,
+        })),
+    }));
+}
+
+/**
+ * Flatten tile layers to one tile per cell (top-most wins). Written to the map's
+ * top-level tile_instances so code that predates layers still sees the map.
+ */
+export function flattenTileLayers(layers: EditorLayer[]): LayerTile[] {
+    const byCell = new Map<string, LayerTile>();
+    for (const layer of layers) {
+        if (layer.kind !== 'tile') continue;
+        for (const tile of layer.tiles) {
+            byCell.set(`${tile.x},${tile.y}`, tile);
+        }
+    }
+    return Array.from(byCell.values());
+}
+
+// =============================================================================
+// Layer Operations (immutable)
+// =============================================================================
+
+export function getLayer(layers: EditorLayer[], id: string | null): EditorLayer | undefined {
+    return layers.find(l => l.id === id);
+}
+
+export function updateLayer(layers: EditorLayer[], id: string, changes: Partial<EditorLayer>): EditorLayer[] {
+    return layers.map(l => l.id === id ? { ...l, ...changes } : l);
+}
+
+/** Move a layer one step up (towards the top of the render order) or down */
+export function moveLayer(layers: EditorLayer[], id: string, direction: 'up' | 'down'): EditorLayer[] {
+    const index = layers.findIndex(l => l.id === id);
+    const target = direction === 'up' ? index + 1 : index - 1;
+    if (index < 0 || target < 0 || target >= layers.length) return layers;
+
+    const result = [...layers];
+    [result[index], result[target]] = [result[target], result[index]];
+    return result;
+}
+
+/** Add an empty tile layer directly above the given layer (or on top) */
+export function addTileLayer(layers: EditorLayer[], name: string, aboveId?: string): EditorLayer[] {
+    let id = name.toLowerCase().replace(/[^a-z0-9]+/g, '_') || 'layer';
+    let suffix = 2;
+    const baseId = id;
+    while (layers.some(l => l.id === id)) {
+        id = `${baseId}_${suffix++}`;
+    }
+
+    const layer = createLayer(id, name, 'tile');
+    const index = aboveId ? layers.findIndex(l => l.id === aboveId) : -1;
+    if (index < 0) return [...layers, layer];
+    return [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)];
+}
+
+/** Place (or with null, remove) a tile at a cell on a tile layer */
+export function setLayerTile(layer: EditorLayer, x: number, y: number, tileId: string | null): EditorLayer {
+    const tiles = layer.tiles.filter(t => !(t.x === x && t.y === y));
+    if (tileId) tiles.push({ tileId, x, y });
+    return { ...layer, tiles };
+}
+
+/** Place many tiles at once, replacing whatever the layer had at those cells */
+export function placeLayerTiles(layer: EditorLayer, placed: LayerTile[]): EditorLayer {
+    const cells = new Set(placed.map(t => `${t.x},${t.y}`));
+    const tiles = layer.tiles.filter(t => !cells.has(`${t.x},${t.y}`));
+    return { ...layer, tiles: [...tiles, ...placed] };
+}
+
+/** Set (or with null, clear) a collision override at a cell */
+export function setCollisionOverride(layer: EditorLayer, x: number, y: number, solid: boolean | null): EditorLayer {
+    const collision = layer.collision.filter(c => !(c.x === x && c.y === y));
+    if (solid !== null) collision.push({ x, y, solid });
+    return { ...layer, collision };
+}
+
+/** Drop tiles and collision overrides that fall outside a (resized) map */
+export function cropLayers(layers: EditorLayer[], width: number, height: number): EditorLayer[] {
+    const inMap = (cell: { x: number; y: number }) => cell.x >= 0 && cell.y >= 0 && cell.x < width && cell.y < height;
+    return layers.map(layer => ({
+        ...layer,
+        tiles: layer.tiles.filter(inMap),
+        collision: layer.collision.filter(inMap),
+    }));
+}
+
+/** True if the layer can be painted on */
+export function isLayerEditable(layer: EditorLayer | undefined): boolean {
+    return !!layer && layer.visible && !layer.locked;
+}
+
+// =============================================================================
+// Collision
+// =============================================================================
+
+/**
+ * Solid cells as "x,y" keys: any tile layer holding a solid tile blocks the
+ * cell, then collision layer overrides are applied on top.
+ */
+export function buildCollisionSet(layers: EditorLayer[], tiles: TileMetadata[]): Set<string> {
+    const solidTiles = new Set(tiles.filter(t => t.is_solid).map(t => t.id));
+    const solid = new Set<string>();
+
+    for (const layer of layers) {
+        if (layer.kind !== 'tile') continue;
+        for (const tile of layer.tiles) {
+            if (solidTiles.has(tile.tileId)) {
+                solid.add(`${tile.x},${tile.y}`);
+            }
+        }
+    }
+
+    for (const layer of layers) {
+        if (layer.kind !== 'collision') continue;
+        for (const override of layer.collision) {
+            const key = `${override.x},${override.y}`;
+            if (override.solid) {
+                solid.add(key);
+            } else {
+                solid.delete(key);
+            }
+        }
+    }
+
+    return solid;
+}
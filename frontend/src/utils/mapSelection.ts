@@ -0,0 +1,413 @@
+/**
+ * Map Selection
+ *
+ * Region selection for the map editor: rectangular and lasso selection of
+ * cells, plus copy/cut/paste, move, flip and rotate of everything inside them
+ * (tiles and collision overrides on every editable layer, objects, spawn points,
+ * NPC instances and warps). A warp belongs to the cell of its top-left corner
+ * and keeps its size; rotating swaps its width and height.
+ *
+ * Selected content is lifted into a MapClipboard with coordinates relative to
+ * the selection's top-left corner. The clipboard is plain JSON so it can go
+ * through the system clipboard and be pasted into another map. Locked and
+ * hidden layers are never read or written.
+ */
+
+import { bresenhamLine, rectFromPoints, type GridPoint, type GridRect } from './editorTools';
+import { isLayerEditable, type CollisionOverride, type EditorLayer, type LayerKind, type LayerTile } from './mapLayers';
+import type { MapWarp } from './mapWarps';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SelectionMode = 'rect' | 'lasso';
+
+export type SelectionTransform = 'flipH' | 'flipV' | 'rotateCW';
+
+/** Entity formats used by the editor's local map data */
+export interface PlacedObject {
+    objectId: string;
+    state: string;
+    x: number;
+    y: number;
+}
+
+export interface PlacedSpawn {
+    id: string;
+    name: string;
+    characterId: string;
+    x: number;
+    y: number;
+}
+
+export interface PlacedNpc {
+    id: string;
+    presetId: string;
+    name: string;
+    x: number;
+    y: number;
+}
+
+/** The parts of the editor's map data a selection touches */
+export interface EditableMapContent {
+    layers: EditorLayer[];
+    object_instances: PlacedObject[];
+    spawn_points: PlacedSpawn[];
+    npc_instances: PlacedNpc[];
+    warps: MapWarp[];
+}
+
+export interface ClipboardLayer {
+    id: string;
+    name: string;
+    kind: LayerKind;
+    tiles: LayerTile[];
+    collision: CollisionOverride[];
+}
+
+export const CLIPBOARD_FORMAT = 'ts-map-selection/v1';
+
+/** Copied region, relative to the selection's top-left corner */
+export interface MapClipboard {
+    format: typeof CLIPBOARD_FORMAT;
+    width: number;
+    height: number;
+    cells: GridPoint[];
+    layers: ClipboardLayer[];
+    objects: PlacedObject[];
+    spawns: Array<Omit<PlacedSpawn, 'id'>>;
+    npcs: Array<Omit<PlacedNpc, 'id'>>;
+    warps: Array<Omit<MapWarp, 'id'>>;
+}
+
+// =============================================================================
+// Selecting
+// =============================================================================
+
+const cellKey = (x: number, y: number) => `${x},${y}`;
+
+/** Entities can sit between cells; they belong to the cell they start in */
+const entityKey = (entity: { x: number; y: number }) => cellKey(Math.floor(entity.x), Math.floor(entity.y));
+
+function clampToMap(cells: GridPoint[], mapWidth: number, mapHeight: number): GridPoint[] {
+    return cells.filter(c => c.x >= 0 && c.y >= 0 && c.x < mapWidth && c.y < mapHeight);
+}
+
+/** Cells inside the rectangle spanned by two corners */
+export function rectSelectionCells(a: GridPoint, b: GridPoint, mapWidth: number, mapHeight: number): GridPoint[] {
+    const rect = rectFromPoints(a, b);
+    const cells: GridPoint[] = [];
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+        for (let x = rect.x; x < rect.x + rect.width; x++) {
+            cells.push({ x, y });
+        }
+    }
+    return clampToMap(cells, mapWidth, mapHeight);
+}
+
+/**
+ * Cells enclosed by a freehand path (closed back to its start). The path
+ * itself is always included, so a short scribble still selects what it touched.
+ */
+export function lassoSelectionCells(path: GridPoint[], mapWidth: number, mapHeight: number): GridPoint[] {
+    if (path.length === 0) return [];
+
+    const selected = new Map<string, GridPoint>();
+    const closed = [...path, path[0]!];
+    for (let i = 0; i < closed.length - 1; i++) {
+        for (const cell of bresenhamLine(closed[i]!, closed[i + 1]!)) {
+            selected.set(cellKey(cell.x, cell.y), cell);
+        }
+    }
+
+    // Ray casting against the polygon through the path's cell centres
+    const bounds = selectionBounds(path)!;
+    for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+        for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+            let inside = false;
+            for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+                const a = path[i]!;
+                const b = path[j]!;
+                if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+                    inside = !inside;
+                }
+            }
+            if (inside) selected.set(cellKey(x, y), { x, y });
+        }
+    }
+
+    return clampToMap(Array.from(selected.values()), mapWidth, mapHeight);
+}
+
+/** Bounding rectangle of a set of cells, or null if empty */
+export function selectionBounds(cells: GridPoint[]): GridRect | null {
+    if (cells.length === 0) return null;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const cell of cells) {
+        minX = Math.min(minX, cell.x);
+        minY = Math.min(minY, cell.y);
+        maxX = Math.max(maxX, cell.x);
+        maxY = Math.max(maxY, cell.y);
+    }
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+export function isCellSelected(cells: GridPoint[], cell: GridPoint): boolean {
+    return cells.some(c => c.x === cell.x && c.y === cell.y);
+}
+
+// =============================================================================
+// Copy & Remove
+// =============================================================================
+
+/** Copy everything inside the selection on editable layers */
+export function extractSelection(content: EditableMapContent, cells: GridPoint[]): MapClipboard | null {
+    const bounds = selectionBounds(cells);
+    if (!bounds) return null;
+
+    const keys = new Set(cells.map(c => cellKey(c.x, c.y)));
+    const relative = <T extends { x: number; y: number }>(item: T): T => ({ ...item, x: item.x - bounds.x, y: item.y - bounds.y });
+    const objectLayer = content.layers.find(l => l.kind === 'object');
+    const includeEntities = isLayerEditable(objectLayer);
+
+    const layers: ClipboardLayer[] = content.layers
+        .filter(layer => layer.kind !== 'object' && isLayerEditable(layer))
+        .map(layer => ({
+            id: layer.id,
+            name: layer.name,
+            kind: layer.kind,
+            tiles: layer.tiles.filter(t => keys.has(cellKey(t.x, t.y))).map(relative),
+            collision: layer.collision.filter(c => keys.has(cellKey(c.x, c.y))).map(relative),
+        }))
+        .filter(layer => layer.tiles.length > 0 || layer.collision.length > 0);
+
+    return {
+        format: CLIPBOARD_FORMAT,
+        width: bounds.width,
+        height: bounds.height,
+        cells: cells.map(relative),
+        layers,
+        objects: includeEntities
+            ? content.object_instances.filter(o => keys.has(entityKey(o))).map(relative)
+            : [],
+        spawns: includeEntities
+            ? content.spawn_points.filter(s => keys.has(entityKey(s))).map(({ id: _id, ...s }) => relative(s))
+            : [],
+        npcs: includeEntities
+            ? content.npc_instances.filter(n => keys.has(entityKey(n))).map(({ id: _id, ...n }) => relative(n))
+            : [],
+        warps: includeEntities
+            ? content.warps.filter(w => keys.has(entityKey(w))).map(({ id: _id, ...w }) => relative(w))
+            : [],
+    };
+}
+
+/** Clear the selection on editable layers (cut / delete) */
+export function removeSelection<T extends EditableMapContent>(content: T, cells: GridPoint[]): T {
+    const keys = new Set(cells.map(c => cellKey(c.x, c.y)));
+    const objectLayer = content.layers.find(l => l.kind === 'object');
+    const includeEntities = isLayerEditable(objectLayer);
+
+    return {
+        ...content,
+        layers: content.layers.map(layer => layer.kind === 'object' || !isLayerEditable(layer) ? layer : {
+            ...layer,
+            tiles: layer.tiles.filter(t => !keys.has(cellKey(t.x, t.y))),
+            collision: layer.collision.filter(c => !keys.has(cellKey(c.x, c.y))),
+        }),
+        object_instances: includeEntities
+            ? content.object_instances.filter(o => !keys.has(entityKey(o)))
+            : content.object_instances,
+        spawn_points: includeEntities
+            ? content.spawn_points.filter(s => !keys.has(entityKey(s)))
+            : content.spawn_points,
+        npc_instances: includeEntities
+            ? content.npc_instances.filter(n => !keys.has(entityKey(n)))
+            : content.npc_instances,
+        warps: includeEntities
+            ? content.warps.filter(w => !keys.has(entityKey(w)))
+            : content.warps,
+    };
+}
+
+// =============================================================================
+// Paste
+// =============================================================================
+
+/**
+ * Layer a copied layer pastes into: same id, then same name and kind, then
+ * (tiles only) the preferred layer, then any editable layer of that kind
+ */
+function resolveTargetLayer(layers: EditorLayer[], source: ClipboardLayer, preferredLayerId: string | null): EditorLayer | undefined {
+    const editable = layers.filter(l => l.kind === source.kind && isLayerEditable(l));
+    return editable.find(l => l.id === source.id)
+        ?? editable.find(l => l.name === source.name)
+        ?? (source.kind === 'tile' ? editable.find(l => l.id === preferredLayerId) : undefined)
+        ?? editable[0];
+}
+
+/**
+ * Paste a clipboard with its top-left corner at `origin`. Content that falls
+ * outside the map is dropped, and warps are cut to the map's edge. Pasted spawn
+ * points, NPCs and warps get new ids.
+ * Returns the updated content and the cells the paste covers (the new selection).
+ */
+export function pasteClipboard<T extends EditableMapContent>(
+    content: T,
+    clipboard: MapClipboard,
+    origin: GridPoint,
+    mapWidth: number,
+    mapHeight: number,
+    preferredLayerId: string | null = null
+): { content: T; cells: GridPoint[] } {
+    const inMap = (item: { x: number; y: number }) =>
+        item.x >= 0 && item.y >= 0 && item.x < mapWidth && item.y < mapHeight;
+    const place = <U extends { x: number; y: number }>(item: U): U => ({ ...item, x: item.x + origin.x, y: item.y + origin.y });
+
+    const cells = clipboard.cells.map(place).filter(inMap);
+    const keys = new Set(cells.map(c => cellKey(c.x, c.y)));
+
+    // Pasted cells replace what the target layers had there
+    let layers = content.layers;
+    for (const source of clipboard.layers) {
+        const target = resolveTargetLayer(layers, source, preferredLayerId);
+        if (!target) continue;
+        const tiles = source.tiles.map(place).filter(inMap);
+        const collision = source.collision.map(place).filter(inMap);
+        layers = layers.map(l => l.id !== target.id ? l : {
+            ...l,
+            tiles: [...l.tiles.filter(t => !keys.has(cellKey(t.x, t.y))), ...tiles],
+            collision: [...l.collision.filter(c => !keys.has(cellKey(c.x, c.y))), ...collision],
+        });
+    }
+
+    let result: T = { ...content, layers };
+    if (isLayerEditable(layers.find(l => l.kind === 'object'))) {
+        result = {
+            ...result,
+            object_instances: [...content.object_instances, ...clipboard.objects.map(place).filter(inMap)],
+            spawn_points: [
+                ...content.spawn_points,
+                ...clipboard.spawns.map(place).filter(inMap).map(s => ({ ...s, id: crypto.randomUUID() })),
+            ],
+            npc_instances: [
+                ...content.npc_instances,
+                ...clipboard.npcs.map(place).filter(inMap).map(n => ({ ...n, id: crypto.randomUUID() })),
+            ],
+            warps: [
+                ...content.warps,
+                ...clipboard.warps.map(place).filter(inMap).map(w => ({
+                    ...w,
+                    id: crypto.randomUUID(),
+                    width: Math.min(w.width, mapWidth - w.x),
+                    height: Math.min(w.height, mapHeight - w.y),
+                })),
+            ],
+        };
+    }
+
+    return { content: result, cells };
+}
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+/** Flip or rotate (90° clockwise) a clipboard within its own bounds */
+export function transformClipboard(clipboard: MapClipboard, transform: SelectionTransform): MapClipboard {
+    const { width, height } = clipboard;
+    const map = <U extends { x: number; y: number }>(item: U): U => {
+        switch (transform) {
+            case 'flipH': return { ...item, x: width - 1 - item.x };
+            case 'flipV': return { ...item, y: height - 1 - item.y };
+            case 'rotateCW': return { ...item, x: height - 1 - item.y, y: item.x };
+        }
+    };
+    // A warp's corner maps to the corner of its area that is now top-left;
+    // areas reaching past the selection are kept inside it
+    const mapWarp = (warp: Omit<MapWarp, 'id'>): Omit<MapWarp, 'id'> => {
+        switch (transform) {
+            case 'flipH': return { ...warp, x: Math.max(0, width - warp.x - warp.width) };
+            case 'flipV': return { ...warp, y: Math.max(0, height - warp.y - warp.height) };
+            case 'rotateCW': return { ...warp, x: Math.max(0, height - warp.y - warp.height), y: warp.x, width: warp.height, height: warp.width };
+        }
+    };
+
+    return {
+        ...clipboard,
+        width: transform === 'rotateCW' ? height : width,
+        height: transform === 'rotateCW' ? width : height,
+        cells: clipboard.cells.map(map),
+        layers: clipboard.layers.map(layer => ({
+            ...layer,
+            tiles: layer.tiles.map(map),
+            collision: layer.collision.map(map),
+        })),
+        objects: clipboard.objects.map(map),
+        spawns: clipboard.spawns.map(map),
+        npcs: clipboard.npcs.map(map),
+        warps: clipboard.warps.map(mapWarp),
+    };
+}
+
+/** Move the selected content by an offset */
+export function moveSelection<T extends EditableMapContent>(
+    content: T,
+    cells: GridPoint[],
+    offset: GridPoint,
+    mapWidth: number,
+    mapHeight: number
+): { content: T; cells: GridPoint[] } {
+    const clipboard = extractSelection(content, cells);
+    const bounds = selectionBounds(cells);
+    if (!clipboard || !bounds) return { content, cells };
+
+    const origin = { x: bounds.x + offset.x, y: bounds.y + offset.y };
+    return pasteClipboard(removeSelection(content, cells), clipboard, origin, mapWidth, mapHeight);
+}
+
+/** Flip or rotate the selected content in place (anchored at its top-left) */
+export function transformSelection<T extends EditableMapContent>(
+    content: T,
+    cells: GridPoint[],
+    transform: SelectionTransform,
+    mapWidth: number,
+    mapHeight: number
+): { content: T; cells: GridPoint[] } {
+    const clipboard = extractSelection(content, cells);
+    const bounds = selectionBounds(cells);
+    if (!clipboard || !bounds) return { content, cells };
+
+    const transformed = transformClipboard(clipboard, transform);
+    return pasteClipboard(removeSelection(content, cells), transformed, bounds, mapWidth, mapHeight);
+}
+
+// =============================================================================
+// System Clipboard
+// =============================================================================
+
+export function serializeClipboard(clipboard: MapClipboard): string {
+    return JSON.stringify(clipboard);
+}
+
+/** Parse clipboard text; null if it isn't a copied map selection */
+export function parseClipboard(text: string): MapClipboard | null {
+    try {
+        const data = JSON.parse(text);
+        if (
+            data?.format !== CLIPBOARD_FORMAT ||
+            !Array.isArray(data.cells) ||
+            !Array.isArray(data.layers) ||
+            !Array.isArray(data.objects) ||
+            !Array.isArray(data.spawns) ||
+            !Array.isArray(data.npcs)
+        ) {
+            return null;
+        }
+        // Selections copied before warps were selectable have none
+        return { ...data, warps: Array.isArray(data.warps) ? data.warps : [] } as MapClipboard;
+    } catch {
+        return null;
+    }
+}
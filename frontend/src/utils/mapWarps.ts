@@ -0,0 +1,135 @@
+/**
+ * Map Warps
+ *
+ * Doors and map edges that move the player to another map. A warp is either
+ * a region of tiles the player walks into, or an object instance (a door, a
+ * ladder) the player uses with the interact key. Either way it names the map
+ * to load and the spawn point there to arrive at, and how long to fade out
+ * and back in.
+ *
+ * Object warps point at their instance by position and object id: object
+ * instances have no ids of their own. A warp whose object has been moved or
+ * removed no longer fires.
+ */
+
+import type { Warp } from '../backend';
+import type { TilePosition } from '../types/npc';
+import type { PlacedObject } from './pathfinding';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WarpKind = 'region' | 'object';
+
+/** Warp in the editor's and game's local (number-based) format */
+export interface MapWarp {
+    id: string;
+    name: string;
+    kind: WarpKind;
+    /** Region in tiles; object warps cover the instance's anchor tile */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Object of the instance at x, y, for object warps */
+    objectId: string | null;
+    targetMapId: string;
+    /** Spawn point on the target map; empty for the map's default spawn */
+    targetSpawnId: string;
+    /** Fade out and back in, in ms; 0 cuts straight to the target map */
+    fadeMs: number;
+}
+
+export const DEFAULT_WARP_FADE_MS = 300;
+
+// =============================================================================
+// Creation & Conversion
+// =============================================================================
+
+export function createRegionWarp(id: string, rect: { x: number; y: number; width: number; height: number }): MapWarp {
+    return {
+        id,
+        name: 'Warp',
+        kind: 'region',
+        ...rect,
+        objectId: null,
+        targetMapId: '',
+        targetSpawnId: '',
+        fadeMs: DEFAULT_WARP_FADE_MS,
+    };
+}
+
+export function createObjectWarp(id: string, object: { objectId: string; x: number; y: number }): MapWarp {
+    return {
+        id,
+        name: 'Door',
+        kind: 'object',
+        x: object.x,
+        y: object.y,
+        width: 1,
+        height: 1,
+        objectId: object.objectId,
+        targetMapId: '',
+        targetSpawnId: '',
+        fadeMs: DEFAULT_WARP_FADE_MS,
+    };
+}
+
+/** Read warps from a backend map (Candid format); maps saved before warps have none */
+export function warpsFromBackend(map: { warps?: [] | [Warp[]] }): MapWarp[] {
+    const stored = map.warps?.[0] ?? [];
+    return stored.map((warp) => ({
+        id: warp.id,
+        name: warp.name,
+        kind: warp.kind === 'object' ? 'object' : 'region',
+        x: Number(warp.x),
+        y: Number(warp.y),
+        width: Number(warp.width),
+        height: Number(warp.height),
+        objectId: warp.object_id[0] ?? null,
+        targetMapId: warp.target_map_id,
+        targetSpawnId: warp.target_spawn_id,
+        fadeMs: Number(warp.fade_ms),
+    }));
+}
+
+export function warpsToBackend(warps: MapWarp[]): Warp[] {
+    return warps.map((warp) => ({
+        id: warp.id,
+        name: warp.name,
+        kind: warp.kind,
+        x: BigInt(warp.x),
+        y: BigInt(warp.y),
+        width: BigInt(Math.max(1, warp.width)),
+        height: BigInt(Math.max(1, warp.height)),
+        object_id: warp.objectId ? [warp.objectId] : [],
+        target_map_id: warp.targetMapId,
+        target_spawn_id: warp.targetSpawnId,
+        fade_ms: BigInt(Math.max(0, Math.round(warp.fadeMs))),
+    }));
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function warpContains(warp: MapWarp, position: TilePosition): boolean {
+    return position.x >= warp.x && position.x < warp.x + warp.width
+        && position.y >= warp.y && position.y < warp.y + warp.height;
+}
+
+/** Warps covering a tile, topmost (last placed) first */
+export function warpsAt(warps: MapWarp[], position: TilePosition): MapWarp[] {
+    return warps.filter(warp => warpContains(warp, position)).reverse();
+}
+
+/** The region warp the player enters by stepping onto a tile */
+export function regionWarpAt(warps: MapWarp[], position: TilePosition): MapWarp | undefined {
+    return warpsAt(warps, position).find(warp => warp.kind === 'region' && warp.targetMapId !== '');
+}
+
+/** Whether the object instance an object warp points at is still on the map */
+export function hasWarpObject(warp: MapWarp, objectInstances: PlacedObject[]): boolean {
+    return objectInstances.some(o => o.objectId === warp.objectId && o.x === warp.x && o.y === warp.y);
+}
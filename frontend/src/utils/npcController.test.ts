@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import type { FleeMovementModule, NPC, NPCModuleInstance, PatrolMovementModule, TilePosition } from '../types/npc';
+import { createNPC, getModule, updateNPC, type NPCWorldContext } from './npcController';
+import {
+    createFleeMovement,
+    createGuardAuthority,
+    createPatrolMovement,
+} from './npcModules';
+import { buildNavigationGrid, isWalkable } from './pathfinding';
+import { sampleMap } from './testGrids';
+
+const STEP_MS = 100;
+
+function fleeingNPC(position: TilePosition, ...modules: NPCModuleInstance[]): NPC {
+    return createNPC({
+        id: 'villager',
+        position,
+        modules: modules.length > 0 ? modules : [createFleeMovement(['player', 'hostile'])],
+        metadata: { name: 'Villager', tags: ['villager'] },
+    });
+}
+
+function hostileAt(position: TilePosition): NPC {
+    return createNPC({ id: 'wolf', position, modules: [], metadata: { name: 'Wolf', tags: ['hostile'] } });
+}
+
+/** Run `npc` for `steps` fixed steps with a still player and world */
+function run(npc: NPC, steps: number, player?: TilePosition, world: NPCWorldContext = {}): NPC[] {
+    const history: NPC[] = [];
+    for (let i = 0; i < steps; i++) {
+        const npcs = world.npcs?.map(other => other.id === npc.id ? npc : other);
+        npc = updateNPC(npc, STEP_MS, player, { ...world, npcs });
+        history.push(npc);
+    }
+    return history;
+}
+
+const distance = (a: TilePosition, b: TilePosition) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('flee movement', () => {
+    it('flees from the player until at the safe distance', () => {
+        const player = { x: 10, y: 10 };
+        const history = run(fleeingNPC({ x: 11, y: 10 }), 40, player);
+
+        expect(history[0]!.state).toBe('alert');
+        expect(distance(history[4]!.position, player)).toBeGreaterThan(1);
+        const last = history[history.length - 1]!;
+        expect(distance(last.position, player)).toBeGreaterThanOrEqual(5);
+        expect(last.state).toBe('idle');
+    });
+
+    it('flees from NPCs carrying one of its tags', () => {
+        const wolf = hostileAt({ x: 5, y: 5 });
+        const villager = fleeingNPC({ x: 5, y: 6 });
+        const history = run(villager, 20, undefined, { npcs: [villager, wolf] });
+
+        expect(history[0]!.state).toBe('alert');
+        expect(distance(history[19]!.position, wolf.position)).toBeGreaterThan(1);
+    });
+
+    it('ignores NPCs without its tags', () => {
+        const friend = createNPC({ id: 'friend', position: { x: 5, y: 5 }, modules: [], metadata: { tags: ['villager'] } });
+        const villager = fleeingNPC({ x: 5, y: 6 });
+        const history = run(villager, 10, undefined, { npcs: [villager, friend] });
+
+        expect(history.every(npc => npc.state === 'idle')).toBe(true);
+        expect(history[9]!.position).toEqual({ x: 5, y: 6 });
+    });
+
+    it('never steps onto walls', () => {
+        // Corridor open only to the left: walls above, below and to the right
+        const collision = new Set<string>();
+        for (let x = 0; x < 10; x++) {
+            collision.add(`${x},0`);
+            collision.add(`${x},2`);
+        }
+        collision.add('9,1');
+        const navigation = buildNavigationGrid({ width: 10, height: 3, collision });
+        const player = { x: 9, y: 1 };
+        const history = run(fleeingNPC({ x: 8, y: 1 }), 40, player, { navigation });
+
+        expect(history.every(npc => isWalkable(navigation, npc.position))).toBe(true);
+        expect(history[history.length - 1]!.position.x).toBeLessThan(5);
+    });
+
+    it('returns to its idle movement once safe', () => {
+        const patrol = createPatrolMovement([{ x: 0, y: 0 }, { x: 0, y: 4 }]);
+        const npc = fleeingNPC({ x: 0, y: 1 }, createFleeMovement(['player'], patrol));
+
+        const fled = run(npc, 5, { x: 0, y: 2 });
+        expect(fled[4]!.state).toBe('alert');
+
+        // The player leaves: the NPC calms down and patrols again
+        const calmed = run(fled[4]!, 80, { x: 30, y: 30 });
+        expect(calmed[0]!.state).toBe('idle');
+        expect(getModule<FleeMovementModule>(calmed[0]!, 'movement')!.fleeing).toBe(false);
+        const visited = calmed.map(n => `${n.position.x},${n.position.y}`);
+        expect(new Set(visited).size).toBeGreaterThan(1);
+        expect(visited).toContain('0,4');
+    });
+
+    it('finds its way out of a dead end', () => {
+        // A cup open toward the player: running straight away ends at its bottom
+        const navigation = sampleMap([
+            '...........',
+            '...........',
+            '...........',
+            '...#...#...',
+            '...#...#...',
+            '...#...#...',
+            '...#####...',
+            '...........',
+            '...........',
+            '...........',
+            '...........',
+            '...........',
+        ]);
+        const player = { x: 5, y: 0 };
+        const flee: FleeMovementModule = { ...createFleeMovement(['player']), safeDistance: 8 };
+        const npc = fleeingNPC({ x: 5, y: 3 }, flee);
+        const history = run(npc, 200, player, { navigation });
+
+        expect(history.every(n => isWalkable(navigation, n.position))).toBe(true);
+        const last = history[history.length - 1]!;
+        expect(distance(last.position, player)).toBeGreaterThanOrEqual(8);
+        expect(last.state).toBe('idle');
+    });
+
+    it('leaves an alert set by a guard module alone', () => {
+        // Flees from hostiles only, so the nearby player is no threat to it
+        const guard = fleeingNPC({ x: 5, y: 5 }, createFleeMovement(['hostile']), createGuardAuthority(3));
+        const history = run(guard, 5, { x: 5, y: 7 });
+
+        expect(history.every(npc => npc.state === 'alert')).toBe(true);
+        expect(history[4]!.position).toEqual({ x: 5, y: 5 });
+    });
+
+    it('is deterministic', () => {
+        const wolf = hostileAt({ x: 4, y: 4 });
+        const villager = fleeingNPC({ x: 4, y: 5 });
+        const world = { npcs: [villager, wolf] };
+        const positions = () => run(villager, 30, { x: 6, y: 5 }, world).map(npc => npc.position);
+
+        expect(positions()).toEqual(positions());
+    });
+});
+
+describe('patrol movement', () => {
+    const corridor = sampleMap([
+        '#######',
+        '.......',
+        '#######',
+    ]);
+
+    function patroller(position: TilePosition, waypoints: TilePosition[]): NPC {
+        return createNPC({ id: 'guard', position, modules: [createPatrolMovement(waypoints)], metadata: {} });
+    }
+
+    it('waits for an NPC in the way instead of skipping the waypoint', () => {
+        const guard = patroller({ x: 0, y: 1 }, [{ x: 6, y: 1 }, { x: 0, y: 1 }]);
+        const blocker = createNPC({ id: 'cart', position: { x: 3, y: 1 }, modules: [], metadata: {} });
+
+        const waited = run(guard, 30, undefined, { navigation: corridor, npcs: [guard, blocker] });
+        const stuck = waited[waited.length - 1]!;
+        expect(stuck.position).toEqual({ x: 2, y: 1 });
+        expect(getModule<PatrolMovementModule>(stuck, 'movement')!.currentWaypointIndex).toBe(0);
+
+        // The way clears: the guard carries on to the same waypoint
+        const moved = run(stuck, 50, undefined, { navigation: corridor, npcs: [stuck] });
+        expect(moved.map(n => n.position)).toContainEqual({ x: 6, y: 1 });
+    });
+
+    it('gives up on a waypoint NPCs never clear', () => {
+        const guard = patroller({ x: 0, y: 1 }, [{ x: 6, y: 1 }, { x: 0, y: 1 }]);
+        const blocker = createNPC({ id: 'cart', position: { x: 3, y: 1 }, modules: [], metadata: {} });
+        const history = run(guard, 100, undefined, { navigation: corridor, npcs: [guard, blocker] });
+
+        expect(history.map(n => n.position)).toContainEqual({ x: 0, y: 1 });
+        expect(history.every(n => n.position.x < 3)).toBe(true);
+    });
+
+    it('skips waypoints walls cut off', () => {
+        const walled = sampleMap([
+            '#######',
+            '...#...',
+            '#######',
+        ]);
+        const guard = patroller({ x: 0, y: 1 }, [{ x: 5, y: 1 }, { x: 2, y: 1 }]);
+        const history = run(guard, 40, undefined, { navigation: walled });
+
+        expect(getModule<PatrolMovementModule>(history[10]!, 'movement')!.currentWaypointIndex).toBe(1);
+        expect(history.map(n => n.position)).toContainEqual({ x: 2, y: 1 });
+    });
+});
@@ -15,7 +15,16 @@ import {
     InteractionResult,
     STATE_PRIORITY,
     TilePosition,
+    ShopInteractionModule,
+    CraftingInteractionModule,
+    BasicCombatModule,
+    FleeMovementModule,
+    PatrolMovementModule,
+    WanderMovementModule,
 } from '../types/npc';
+import type { Shop } from './shop';
+import { recipesForStation, type Recipe } from './crafting';
+import { findPath, isWalkable, nextStepToward, occupiedCells, type NavigationGrid } from './pathfinding';
 
 // =============================================================================
 // NPC Factory
@@ -142,11 +151,17 @@ export function getModule<T extends NPCModuleInstance>(
 // Interaction Routing
 // =============================================================================
 
+/** Definitions that interaction modules refer to by id */
+export interface InteractionContext {
+    shops?: Record<string, Shop>;
+    recipes?: Record<string, Recipe>;
+}
+
 /**
  * Route a player interaction to the NPC's modules.
  * Modules are checked in order; first handler wins.
  */
-export function interactWithNPC(npc: NPC): InteractionResult {
+export function interactWithNPC(npc: NPC, context: InteractionContext = {}): InteractionResult {
     // Cannot interact with disabled NPCs
     if (npc.state === 'disabled') {
         return { handled: false };
@@ -172,7 +187,7 @@ export function interactWithNPC(npc: NPC): InteractionResult {
     }
 
     // Route to specific interaction handler
-    return handleInteraction(npc, interactionModule);
+    return handleInteraction(npc, interactionModule, context);
 }
 
 /**
@@ -181,7 +196,8 @@ export function interactWithNPC(npc: NPC): InteractionResult {
  */
 function handleInteraction(
     npc: NPC,
-    module: NPCModuleInstance
+    module: NPCModuleInstance,
+    context: InteractionContext
 ): InteractionResult {
     switch (module.type) {
         case 'dialogue': {
@@ -195,18 +211,31 @@ function handleInteraction(
         }
 
         case 'shop': {
+            const { shopId } = module as ShopInteractionModule;
+            const shop = shopId ? context.shops?.[shopId] : undefined;
+            if (!shop) {
+                // Unknown or unset shop - nothing to trade
+                return { handled: true, response: 'Sorry, the shop is closed.' };
+            }
             return {
                 handled: true,
-                response: 'Welcome to my shop!',
+                response: shop.greeting || `Welcome to ${shop.name}!`,
                 newState: 'interacting',
+                shopId: shop.id,
             };
         }
 
         case 'crafting': {
+            const { craftingType } = module as CraftingInteractionModule;
+            if (!craftingType || recipesForStation(context.recipes ?? {}, craftingType).length === 0) {
+                // No recipes for this station - nothing to craft
+                return { handled: true, response: 'I have nothing to craft right now.' };
+            }
             return {
                 handled: true,
                 response: 'What would you like me to craft?',
                 newState: 'interacting',
+                craftingType,
             };
         }
 
@@ -225,6 +254,13 @@ interface PlayerContext {
     y: number;
 }
 
+/** The map and the other NPCs, for movement that has to get around them */
+export interface NPCWorldContext {
+    npcs?: NPC[];
+    navigation?: NavigationGrid; // Walkable cells; without it NPCs ignore walls
+    random?: () => number;       // Seeded source in [0, 1) for wandering
+}
+
 /**
  * Update an NPC for one game tick.
  * Handles movement, state triggers, and module behaviors.
@@ -232,7 +268,8 @@ interface PlayerContext {
 export function updateNPC(
     npc: NPC,
     delta: number,
-    playerContext?: PlayerContext
+    playerContext?: PlayerContext,
+    world: NPCWorldContext = {}
 ): NPC {
     // Disabled NPCs don't update
     if (npc.state === 'disabled') {
@@ -245,10 +282,13 @@ export function updateNPC(
     if (playerContext) {
         updatedNpc = checkStateTriggers(updatedNpc, playerContext);
     }
+    updatedNpc = checkFleeTrigger(updatedNpc, playerContext, world);
 
     // Process movement if not interacting or in higher priority state
     if (updatedNpc.state === 'idle' || updatedNpc.state === 'alert') {
-        updatedNpc = processMovement(updatedNpc, delta);
+        updatedNpc = processMovement(updatedNpc, delta, playerContext, world);
+    } else if (updatedNpc.state === 'combat' && playerContext) {
+        updatedNpc = processChase(updatedNpc, delta, playerContext, world);
     }
 
     return updatedNpc;
@@ -261,9 +301,9 @@ function checkStateTriggers(npc: NPC, player: PlayerContext): NPC {
     const distance = getDistanceToPlayer(npc, player);
 
     // Check for combat trigger (hostile NPCs)
-    const combatModule = getModule(npc, 'combat');
+    const combatModule = getModule<BasicCombatModule>(npc, 'combat');
     if (combatModule && combatModule.type === 'basic') {
-        const combatRange = 2; // tiles
+        const combatRange = combatModule.aggroRange ?? 2; // tiles (default matches utils/combat.ts)
         if (distance <= combatRange && npc.state !== 'combat') {
             // Enter combat - highest priority
             return requestStateChange(npc, {
@@ -295,6 +335,36 @@ function checkStateTriggers(npc: NPC, player: PlayerContext): NPC {
     return npc;
 }
 
+/**
+ * Fleeing NPCs go alert while a threat is closer than their safe distance,
+ * and back to idle once every threat is at least that far away. Only an
+ * alert the flee set itself is cleared - a guard's alert is left to its
+ * authority module.
+ */
+function checkFleeTrigger(npc: NPC, player: PlayerContext | undefined, world: NPCWorldContext): NPC {
+    const fleeModule = getModule<FleeMovementModule>(npc, 'movement');
+    if (!fleeModule || fleeModule.type !== 'flee') return npc;
+
+    const distance = getNearestDistance(npc.position, getThreatPositions(npc, fleeModule, player, world));
+    const safeDistance = fleeModule.safeDistance ?? DEFAULT_FLEE_SAFE_DISTANCE;
+    if (distance < safeDistance && npc.state === 'idle') {
+        const alerted = requestStateChange(npc, {
+            requestedState: 'alert',
+            priority: STATE_PRIORITY.alert
+        });
+        return alerted.state === 'alert' ? replaceModule(alerted, { ...fleeModule, fleeing: true }) : alerted;
+    } else if (distance >= safeDistance && fleeModule.fleeing) {
+        // Wandering resumes around the spot the NPC fled to
+        const idleMovement = fleeModule.idleMovement?.type === 'wander'
+            ? { ...fleeModule.idleMovement, origin: { ...npc.position } }
+            : fleeModule.idleMovement;
+        const calmed = replaceModule(npc, { ...fleeModule, idleMovement, fleeing: false });
+        // Something else (combat, an interaction) may have taken over meanwhile
+        return npc.state === 'alert' ? forceStateChange(calmed, 'idle') : calmed;
+    }
+    return npc;
+}
+
 /**
  * Calculate distance from NPC to player (in tiles).
  */
@@ -307,23 +377,32 @@ function getDistanceToPlayer(npc: NPC, player: PlayerContext): number {
 /**
  * Process NPC movement based on movement module.
  */
-function processMovement(npc: NPC, delta: number): NPC {
+function processMovement(
+    npc: NPC,
+    delta: number,
+    player: PlayerContext | undefined,
+    world: NPCWorldContext
+): NPC {
     const movementModule = getModule(npc, 'movement');
     if (!movementModule) return npc;
 
     switch (movementModule.type) {
         case 'patrol':
-            return processPatrolMovement(npc, movementModule, delta);
+            return processPatrolMovement(npc, movementModule, delta, world);
         case 'wander':
-            return processWanderMovement(npc, movementModule, delta);
+            return processWanderMovement(npc, movementModule, delta, world);
+        case 'flee':
+            return processFleeMovement(npc, movementModule as FleeMovementModule, delta, player, world);
         case 'static':
         default:
             return npc; // No movement
     }
 }
 
-// Patrol timing - track last move time per NPC
-const patrolTimers = new Map<string, number>();
+// Movement timing (ms between moves)
+const PATROL_MOVE_INTERVAL_MS = 1000;
+const WANDER_MOVE_INTERVAL_MS = 1500; // slower than patrol
+const PATROL_GIVE_UP_MS = 5000; // waiting on NPCs longer than this skips the waypoint
 
 /**
  * Process patrol movement - move between waypoints.
@@ -331,102 +410,82 @@ const patrolTimers = new Map<string, number>();
 function processPatrolMovement(
     npc: NPC,
     module: NPCModuleInstance,
-    delta: number
+    delta: number,
+    world: NPCWorldContext
 ): NPC {
-    const patrolModule = module as {
-        waypoints: TilePosition[];
-        currentWaypointIndex: number
-    } & NPCModuleInstance;
+    const patrolModule = module as PatrolMovementModule;
 
     if (!patrolModule.waypoints || patrolModule.waypoints.length === 0) {
         return npc;
     }
 
-    // Get or initialize timer
-    const lastMove = patrolTimers.get(npc.id) || 0;
-    const moveInterval = 1000; // ms between moves
-    const now = Date.now();
-
-    if (now - lastMove < moveInterval) {
-        return npc; // Not time to move yet
+    // Wait out the time between moves
+    const cooldownMs = Math.max(0, (patrolModule.cooldownMs ?? 0) - delta);
+    if (cooldownMs > 0) {
+        return replaceModule(npc, { ...patrolModule, cooldownMs });
     }
-
-    patrolTimers.set(npc.id, now);
+    const rested: PatrolMovementModule = { ...patrolModule, cooldownMs: PATROL_MOVE_INTERVAL_MS };
 
     // Get current waypoint
     const waypoint = patrolModule.waypoints[patrolModule.currentWaypointIndex];
+    const atWaypoint = npc.position.x === waypoint.x && npc.position.y === waypoint.y;
+    const nextWaypoint: PatrolMovementModule = {
+        ...rested,
+        currentWaypointIndex: (patrolModule.currentWaypointIndex + 1) % patrolModule.waypoints.length,
+        blockedMs: 0,
+    };
+    if (atWaypoint) {
+        return replaceModule(npc, nextWaypoint);
+    }
 
-    // Check if at waypoint
-    if (npc.position.x === waypoint.x && npc.position.y === waypoint.y) {
-        // Move to next waypoint
-        const nextIndex = (patrolModule.currentWaypointIndex + 1) % patrolModule.waypoints.length;
-
-        // Update module with new index
-        const updatedModules = npc.modules.map((m: NPCModuleInstance) =>
-            m.category === 'movement'
-                ? { ...patrolModule, currentWaypointIndex: nextIndex }
-                : m
-        );
+    // Move toward waypoint (one tile at a time, around walls and NPCs)
+    const moved = walkNPCToward(npc, waypoint, world);
+    if (moved && moved !== npc) {
+        return replaceModule(moved, { ...rested, blockedMs: 0 });
+    }
 
-        return { ...npc, modules: updatedModules };
+    // Walls cut the waypoint off - go on to the next one
+    if (!moved) {
+        return replaceModule(npc, nextWaypoint);
     }
 
-    // Move toward waypoint (one tile at a time)
-    const newPos = { ...npc.position };
-    let newDirection = npc.direction;
-
-    if (npc.position.x < waypoint.x) {
-        newPos.x++;
-        newDirection = 'right';
-    } else if (npc.position.x > waypoint.x) {
-        newPos.x--;
-        newDirection = 'left';
-    } else if (npc.position.y < waypoint.y) {
-        newPos.y++;
-        newDirection = 'down';
-    } else if (npc.position.y > waypoint.y) {
-        newPos.y--;
-        newDirection = 'up';
-    }
-
-    return { ...npc, position: newPos, direction: newDirection };
+    // NPCs are in the way: wait and re-plan next move, unless they never clear
+    const blockedMs = (patrolModule.blockedMs ?? 0) + PATROL_MOVE_INTERVAL_MS;
+    if (blockedMs >= PATROL_GIVE_UP_MS) {
+        return replaceModule(npc, nextWaypoint);
+    }
+    return replaceModule(npc, { ...rested, blockedMs });
 }
 
-// Wander timing
-const wanderTimers = new Map<string, number>();
-
 /**
- * Process wander movement - random movement within radius.
+ * Process wander movement - random movement within radius. The random
+ * source comes from the world (see utils/npcSimulation.ts); without one
+ * the NPC stays put.
  */
 function processWanderMovement(
     npc: NPC,
     module: NPCModuleInstance,
-    delta: number
+    delta: number,
+    world: NPCWorldContext
 ): NPC {
-    const wanderModule = module as {
-        origin: TilePosition;
-        radius: number
-    } & NPCModuleInstance;
+    const wanderModule = module as WanderMovementModule;
 
-    // Get or initialize timer
-    const lastMove = wanderTimers.get(npc.id) || 0;
-    const moveInterval = 1500; // ms between moves (slower than patrol)
-    const now = Date.now();
-
-    if (now - lastMove < moveInterval) {
-        return npc; // Not time to move yet
+    // Wait out the time between moves
+    const cooldownMs = Math.max(0, (wanderModule.cooldownMs ?? 0) - delta);
+    if (cooldownMs > 0) {
+        return replaceModule(npc, { ...wanderModule, cooldownMs });
     }
-
-    wanderTimers.set(npc.id, now);
+    const rested = replaceModule(npc, { ...wanderModule, cooldownMs: WANDER_MOVE_INTERVAL_MS });
 
     // 50% chance to move
-    if (Math.random() > 0.5) {
-        return npc;
+    const random = world.random;
+    if (!random || random() > 0.5) {
+        return rested;
     }
 
     // Random direction
     const directions = ['up', 'down', 'left', 'right'] as const;
-    const dir = directions[Math.floor(Math.random() * 4)];
+    const dir = directions[Math.floor(random() * 4)];
 
     const newPos = { ...npc.position };
     switch (dir) {
@@ -440,10 +499,236 @@ function processWanderMovement(
     const dx = newPos.x - wanderModule.origin.x;
     const dy = newPos.y - wanderModule.origin.y;
     if (Math.sqrt(dx * dx + dy * dy) > wanderModule.radius) {
-        return npc; // Would go out of bounds, stay put
+        return rested; // Would go out of bounds, stay put
+    }
+    if (isTileBlocked(newPos, npc.id, world)) {
+        return rested; // Wall or another NPC in the way
+    }
+
+    return { ...rested, position: newPos, direction: dir };
+}
+
+// Flee defaults
+export const DEFAULT_FLEE_SAFE_DISTANCE = 5; // tiles
+const DEFAULT_FLEE_MOVE_INTERVAL_MS = 400; // faster than patrol
+
+// Checked in this order, so ties always go the same way
+const FLEE_DIRECTIONS: NPCDirection[] = ['up', 'down', 'left', 'right'];
+// Refuges are looked for this many tiles past the safe distance
+const FLEE_SEARCH_MARGIN = 3;
+// Refuges tried (best first) before the NPC stays put, and the search size for each
+const FLEE_PATH_ATTEMPTS = 8;
+const FLEE_PATH_MAX_NODES = 512;
+
+/**
+ * Positions of everything the NPC flees from: the player when its tags
+ * include "player", and other NPCs carrying any of its tags.
+ */
+function getThreatPositions(
+    npc: NPC,
+    module: FleeMovementModule,
+    player: PlayerContext | undefined,
+    world: NPCWorldContext
+): TilePosition[] {
+    const threats: TilePosition[] = [];
+    if (player && module.fleeFromTags.includes('player')) {
+        threats.push(player);
+    }
+    for (const other of world.npcs ?? []) {
+        if (other.id === npc.id || other.state === 'disabled') continue;
+        if (other.metadata.tags?.some((tag: string) => module.fleeFromTags.includes(tag))) {
+            threats.push(other.position);
+        }
+    }
+    return threats;
+}
+
+/** Distance to the closest position (Infinity when there are none) */
+function getNearestDistance(from: TilePosition, positions: TilePosition[]): number {
+    return positions.reduce(
+        (nearest: number, p: TilePosition) => Math.min(nearest, Math.hypot(from.x - p.x, from.y - p.y)),
+        Infinity
+    );
+}
+
+/** Solid tiles, tiles off the map and tiles other NPCs stand on */
+function isTileBlocked(position: TilePosition, npcId: string, world: NPCWorldContext): boolean {
+    if (world.navigation && !isWalkable(world.navigation, position)) {
+        return true;
+    }
+    return (world.npcs ?? []).some((other: NPC) =>
+        other.id !== npcId && other.position.x === position.x && other.position.y === position.y
+    );
+}
+
+/** Swap in a module for the one of the same category */
+function replaceModule<T extends NPCModuleInstance>(npc: NPC, module: T): NPC {
+    return {
+        ...npc,
+        modules: npc.modules.map((m: NPCModuleInstance) => m.category === module.category ? module : m),
+    };
+}
+
+/**
+ * Process flee movement - while alert, step along the path to the reachable
+ * tile furthest from the threats, so the NPC runs around walls instead of
+ * into dead ends; while idle, run the module's idle movement. Timing runs
+ * on `delta`, so the same inputs always give the same path.
+ */
+function processFleeMovement(
+    npc: NPC,
+    module: FleeMovementModule,
+    delta: number,
+    player: PlayerContext | undefined,
+    world: NPCWorldContext
+): NPC {
+    if (npc.state !== 'alert') {
+        if (!module.idleMovement) return npc;
+
+        // Run the idle movement as the NPC's movement, then store its runtime state back
+        const moved = processMovement(replaceModule(npc, module.idleMovement), delta, player, world);
+        const idleMovement = getModule<NonNullable<FleeMovementModule['idleMovement']>>(moved, 'movement');
+        return replaceModule(moved, { ...module, idleMovement });
+    }
+
+    const cooldownMs = Math.max(0, (module.cooldownMs ?? 0) - delta);
+    if (cooldownMs > 0) {
+        return replaceModule(npc, { ...module, cooldownMs });
+    }
+    const rested = replaceModule(npc, {
+        ...module,
+        cooldownMs: module.moveIntervalMs ?? DEFAULT_FLEE_MOVE_INTERVAL_MS,
+    });
+
+    const threats = getThreatPositions(npc, module, player, world);
+    // No reachable refuge among the best few: fall back to the best open neighbour
+    const step = (world.navigation
+        && findFleeStep(npc, threats, module.safeDistance ?? DEFAULT_FLEE_SAFE_DISTANCE, world.navigation, world))
+        || findFleeNeighbour(npc, threats, world);
+
+    if (!step) {
+        return rested; // Cornered - nowhere further away to go
+    }
+    const { x, y } = npc.position;
+    const direction: NPCDirection = step.x > x ? 'right' : step.x < x ? 'left' : step.y > y ? 'down' : 'up';
+    return { ...rested, position: step, direction };
+}
+
+/**
+ * First step toward the best refuge: the walkable tiles around the NPC are
+ * ranked by distance from the nearest threat (further first, then closer to
+ * the NPC, then top-left first) and the first one `findPath` reaches wins.
+ * Threats and other NPCs block the way, so the NPC never runs through them.
+ */
+function findFleeStep(
+    npc: NPC,
+    threats: TilePosition[],
+    safeDistance: number,
+    grid: NavigationGrid,
+    world: NPCWorldContext
+): TilePosition | null {
+    const current = getNearestDistance(npc.position, threats);
+    const range = Math.ceil(safeDistance) + FLEE_SEARCH_MARGIN;
+    const refuges: { position: TilePosition; distance: number; steps: number }[] = [];
+
+    for (let y = npc.position.y - range; y <= npc.position.y + range; y++) {
+        for (let x = npc.position.x - range; x <= npc.position.x + range; x++) {
+            const position = { x, y };
+            if (!isWalkable(grid, position)) continue;
+            const distance = getNearestDistance(position, threats);
+            if (distance <= current) continue;
+            refuges.push({ position, distance, steps: Math.abs(x - npc.position.x) + Math.abs(y - npc.position.y) });
+        }
+    }
+    refuges.sort((a, b) => b.distance - a.distance || a.steps - b.steps
+        || a.position.y - b.position.y || a.position.x - b.position.x);
+
+    const blocked = occupiedCells(world.npcs ?? [], npc.id);
+    threats.forEach(t => blocked.add(`${t.x},${t.y}`));
+
+    for (const refuge of refuges.slice(0, FLEE_PATH_ATTEMPTS)) {
+        if (blocked.has(`${refuge.position.x},${refuge.position.y}`)) continue;
+        const path = findPath(grid, npc.position, refuge.position, { blocked, maxNodes: FLEE_PATH_MAX_NODES });
+        if (path && path.length > 0) return path[0];
+    }
+    return null;
+}
+
+/** The open neighbouring tile furthest from the nearest threat */
+function findFleeNeighbour(npc: NPC, threats: TilePosition[], world: NPCWorldContext): TilePosition | null {
+    let bestDistance = getNearestDistance(npc.position, threats);
+    let best: TilePosition | null = null;
+
+    for (const direction of FLEE_DIRECTIONS) {
+        const position = { ...npc.position };
+        switch (direction) {
+            case 'up': position.y--; break;
+            case 'down': position.y++; break;
+            case 'left': position.x--; break;
+            case 'right': position.x++; break;
+        }
+        if (isTileBlocked(position, npc.id, world)) continue;
+
+        const distance = getNearestDistance(position, threats);
+        if (distance > bestDistance) {
+            bestDistance = distance;
+            best = position;
+        }
+    }
+    return best;
+}
+
+// Chase timing
+const CHASE_MOVE_INTERVAL_MS = 500;
+
+/**
+ * Take one step toward `target` along the shortest open path, going around
+ * other NPCs where the map allows and waiting where they block the only way.
+ * Returns null when walls leave no path. Without a navigation grid the NPC
+ * walks straight at the target, x first.
+ */
+export function walkNPCToward(npc: NPC, target: TilePosition, world: NPCWorldContext = {}): NPC | null {
+    const { x, y } = npc.position;
+    if (x === target.x && y === target.y) return npc;
+
+    let step: TilePosition | null;
+    if (world.navigation) {
+        step = nextStepToward(world.navigation, npc.position, target, {
+            blocked: occupiedCells(world.npcs ?? [], npc.id),
+        }) ?? nextStepToward(world.navigation, npc.position, target);
+    } else {
+        step = x !== target.x
+            ? { x: x + Math.sign(target.x - x), y }
+            : { x, y: y + Math.sign(target.y - y) };
+    }
+    if (!step) return null;
+    if (isTileBlocked(step, npc.id, world)) return npc;
+
+    const direction: NPCDirection = step.x > x ? 'right' : step.x < x ? 'left' : step.y > y ? 'down' : 'up';
+    return { ...npc, position: step, direction };
+}
+
+/**
+ * Process chasing - NPCs in combat close in on the player until within
+ * attack range. Static NPCs hold their ground.
+ */
+function processChase(npc: NPC, delta: number, player: PlayerContext, world: NPCWorldContext): NPC {
+    const movementModule = getModule(npc, 'movement');
+    const combatModule = getModule<BasicCombatModule>(npc, 'combat');
+    if (!movementModule || movementModule.type === 'static' || combatModule?.type !== 'basic') {
+        return npc;
+    }
+
+    const moveCooldownMs = Math.max(0, (combatModule.moveCooldownMs ?? 0) - delta);
+    if (moveCooldownMs > 0) {
+        return replaceModule(npc, { ...combatModule, moveCooldownMs });
+    }
+    if (getDistanceToPlayer(npc, player) <= (combatModule.attackRange ?? 1)) {
+        return npc; // Close enough to attack (default matches utils/combat.ts)
     }
 
-    return { ...npc, position: newPos, direction: dir };
+    const rested = replaceModule(npc, { ...combatModule, moveCooldownMs: CHASE_MOVE_INTERVAL_MS });
+    return walkNPCToward(rested, player, world) ?? rested;
 }
 
 /**
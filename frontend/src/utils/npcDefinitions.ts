@@ -0,0 +1,362 @@
+/**
+ * NPC Definitions
+ *
+ * A definition is everything about an NPC except where it stands: its
+ * modules (movement, interaction, combat, authority), facing and metadata.
+ * Definitions are stored as JSON - on the backend as reusable NPC templates,
+ * or on a single map NPC instance as an override of its template.
+ *
+ * Positions inside a definition are relative to the NPC's spawn tile: patrol
+ * waypoints are offsets, and a wander area is centered on the spawn. This is
+ * what lets one template be placed anywhere on any map.
+ */
+
+import type { NpcTemplate, ValidationError } from '../backend';
+import type {
+    DialogueScript,
+    FleeMovementModule,
+    NPC,
+    NPCDirection,
+    NPCMetadata,
+    NPCModuleInstance,
+    NPCState,
+    PatrolMovementModule,
+    TilePosition,
+    WanderMovementModule,
+} from '../types/npc';
+import { createNPC } from './npcController';
+import { DIALOGUE_ACTION_TYPES, DIALOGUE_CONDITION_TYPES } from './dialogueRuntime';
+import {
+    createGuardNPC,
+    createHostileWandererNPC,
+    createOldManNPC,
+    createQuestGiverNPC,
+    createShopkeeperNPC,
+} from './npcPresets';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NpcDefinition {
+    direction: NPCDirection;
+    modules: NPCModuleInstance[];
+    metadata: NPCMetadata;
+}
+
+/** The parts of a map NPC instance that decide its definition */
+export interface NpcDefinitionSource {
+    presetId: string;
+    definitionJson?: string | null;
+}
+
+export type NpcDefinitionResult = { ok: NpcDefinition } | { err: ValidationError };
+
+/** Where a resolved definition came from, for the inspector */
+export type NpcDefinitionOrigin = 'instance' | 'template' | 'builtin' | 'fallback';
+
+const DEFAULT_PRESET_ID = 'villager';
+
+const DIRECTIONS: NPCDirection[] = ['up', 'down', 'left', 'right'];
+
+const MODULE_TYPES: Record<NPCModuleInstance['category'], string[]> = {
+    movement: ['static', 'patrol', 'wander', 'flee'],
+    interaction: ['dialogue', 'shop', 'crafting', 'quest'],
+    combat: ['none', 'basic'],
+    authority: ['none', 'guard'],
+};
+
+const NPC_STATES: NPCState[] = ['idle', 'interacting', 'alert', 'combat', 'disabled'];
+
+// =============================================================================
+// Built-in Definitions
+// =============================================================================
+
+function fromPreset(npc: NPC): NpcDefinition {
+    return { direction: npc.direction, modules: npc.modules, metadata: npc.metadata };
+}
+
+/**
+ * The original presets, built at the origin so their positions are already
+ * relative. The guard walks a 2x2 square starting on its spawn tile.
+ */
+export const BUILTIN_NPC_DEFINITIONS: Record<string, NpcDefinition> = {
+    villager: fromPreset(createOldManNPC(0, 0)),
+    guard: fromPreset(createGuardNPC(0, 0, [
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 2 },
+        { x: 0, y: 2 },
+    ])),
+    shopkeeper: fromPreset(createShopkeeperNPC(0, 0)),
+    quest_giver: fromPreset(createQuestGiverNPC(0, 0)),
+    hostile: fromPreset(createHostileWandererNPC(0, 0, 2)),
+};
+
+export function isBuiltinNpcPreset(presetId: string): boolean {
+    return presetId in BUILTIN_NPC_DEFINITIONS;
+}
+
+// =============================================================================
+// Parsing and Validation
+// =============================================================================
+
+function definitionError(message: string): { err: ValidationError } {
+    return { err: { code: 'INVALID_NPC_DEFINITION', message, fix_attempted: false } };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is TilePosition =>
+    isRecord(value) && Number.isInteger(value.x) && Number.isInteger(value.y);
+
+/** Conditions and actions only need a known type; missing fields read as empty at runtime */
+function validateRules(owner: Record<string, unknown>, where: string): string | null {
+    for (const [key, types] of [['conditions', DIALOGUE_CONDITION_TYPES], ['actions', DIALOGUE_ACTION_TYPES]] as const) {
+        const rules = owner[key];
+        if (rules === undefined) continue;
+        if (!Array.isArray(rules)) return `${where} ${key} must be a list`;
+        for (const rule of rules as unknown[]) {
+            if (!isRecord(rule) || !(types as readonly string[]).includes(rule.type as string)) {
+                return `${where} has an unknown ${key === 'conditions' ? 'condition' : 'action'} "${isRecord(rule) ? String(rule.type) : String(rule)}"`;
+            }
+        }
+    }
+    return null;
+}
+
+function validateScript(script: unknown, label: string): string | null {
+    if (!isRecord(script) || !Array.isArray(script.lines) || script.lines.length === 0) {
+        return `${label} needs at least one line`;
+    }
+    const lines = script.lines as unknown[];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!isRecord(line) || typeof line.text !== 'string') {
+            return `${label} line ${i + 1} has no text`;
+        }
+        const lineRules = validateRules(line, `${label} line ${i + 1}`);
+        if (lineRules) return lineRules;
+        if (line.choices !== undefined) {
+            if (!Array.isArray(line.choices)) return `${label} line ${i + 1} choices must be a list`;
+            for (const choice of line.choices as unknown[]) {
+                if (!isRecord(choice) || typeof choice.text !== 'string') {
+                    return `${label} line ${i + 1} has a choice without text`;
+                }
+                const choiceRules = validateRules(choice, `${label} line ${i + 1} choice`);
+                if (choiceRules) return choiceRules;
+                const next = choice.nextLineIndex;
+                if (next !== undefined && (!Number.isInteger(next) || (next as number) < 0 || (next as number) >= lines.length)) {
+                    return `${label} line ${i + 1} has a choice pointing to a missing line`;
+                }
+            }
+        }
+    }
+    return null;
+}
+
+/** Check the fields each module type relies on at runtime */
+function validateModule(module: unknown, index: number): string | null {
+    if (!isRecord(module)) return `Module ${index + 1} is not an object`;
+    const category = module.category as NPCModuleInstance['category'];
+    const types = MODULE_TYPES[category];
+    if (!types) return `Module ${index + 1} has unknown category "${String(module.category)}"`;
+    if (!types.includes(module.type as string)) {
+        return `Unknown ${category} module type "${String(module.type)}"`;
+    }
+    if (!Array.isArray(module.handlesStates) || !module.handlesStates.every(s => NPC_STATES.includes(s as NPCState))) {
+        return `${category} module has invalid handlesStates`;
+    }
+
+    switch (`${category}:${module.type}`) {
+        case 'movement:patrol':
+            if (!Array.isArray(module.waypoints) || module.waypoints.length === 0 || !module.waypoints.every(isPosition)) {
+                return 'Patrol movement needs at least one waypoint with whole-number x and y';
+            }
+            break;
+        case 'movement:wander':
+            if (typeof module.radius !== 'number' || module.radius < 0) {
+                return 'Wander radius must be zero or more';
+            }
+            break;
+        case 'movement:flee':
+            if (!Array.isArray(module.fleeFromTags) || !module.fleeFromTags.every(t => typeof t === 'string')) {
+                return 'Flee movement needs a list of tags to flee from';
+            }
+            if (module.safeDistance !== undefined && (typeof module.safeDistance !== 'number' || module.safeDistance <= 0)) {
+                return 'Flee safe distance must be more than zero';
+            }
+            if (module.idleMovement !== undefined) {
+                const idle = module.idleMovement;
+                if (!isRecord(idle) || idle.category !== 'movement' || idle.type === 'flee') {
+                    return 'Flee idle movement must be static, patrol or wander';
+                }
+                return validateModule(idle, index);
+            }
+            break;
+        case 'interaction:dialogue':
+            if (module.dialogueScript !== undefined) {
+                return validateScript(module.dialogueScript, 'Dialogue');
+            }
+            if (typeof module.dialogueText !== 'string') {
+                return 'Dialogue needs either text or a script';
+            }
+            break;
+        case 'interaction:quest':
+            if (typeof module.questId !== 'string') {
+                return 'Quest interaction needs a quest id';
+            }
+            return validateScript(module.dialogueAvailable, 'Quest offer dialogue')
+                ?? validateScript(module.dialogueActive, 'Quest in-progress dialogue')
+                ?? validateScript(module.dialogueComplete, 'Quest turn-in dialogue');
+        case 'authority:guard':
+            if (module.guardRadius !== undefined && (typeof module.guardRadius !== 'number' || module.guardRadius < 0)) {
+                return 'Guard radius must be zero or more';
+            }
+            break;
+    }
+    return null;
+}
+
+/** Validate an already-parsed definition */
+export function validateNpcDefinition(value: unknown): NpcDefinitionResult {
+    if (!isRecord(value)) return definitionError('NPC definition must be an object');
+    if (!DIRECTIONS.includes(value.direction as NPCDirection)) {
+        return definitionError(`Invalid direction "${String(value.direction)}"`);
+    }
+    if (!Array.isArray(value.modules)) return definitionError('NPC definition needs a modules list');
+    if (!isRecord(value.metadata)) return definitionError('NPC definition needs metadata');
+
+    const seen = new Set<string>();
+    for (let i = 0; i < value.modules.length; i++) {
+        const error = validateModule(value.modules[i], i);
+        if (error) return definitionError(error);
+        const category = (value.modules[i] as NPCModuleInstance).category;
+        if (seen.has(category)) return definitionError(`More than one ${category} module`);
+        seen.add(category);
+    }
+
+    const metadata = value.metadata;
+    if (metadata.tags !== undefined && (!Array.isArray(metadata.tags) || !metadata.tags.every(t => typeof t === 'string'))) {
+        return definitionError('Tags must be a list of strings');
+    }
+
+    return { ok: value as unknown as NpcDefinition };
+}
+
+export function parseNpcDefinition(json: string): NpcDefinitionResult {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        return definitionError('NPC definition is not valid JSON');
+    }
+    return validateNpcDefinition(value);
+}
+
+export function serializeNpcDefinition(definition: NpcDefinition): string {
+    return JSON.stringify(definition);
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Pick the definition an NPC instance uses. Precedence: the instance's own
+ * override, then a backend template with the preset id, then a built-in
+ * preset, then the villager. Invalid JSON falls through to the next source
+ * with a console warning, so one bad record never stops a map from loading.
+ */
+export function resolveNpcDefinition(
+    source: NpcDefinitionSource,
+    templates: NpcTemplate[]
+): { definition: NpcDefinition; origin: NpcDefinitionOrigin } {
+    if (source.definitionJson) {
+        const result = parseNpcDefinition(source.definitionJson);
+        if ('ok' in result) return { definition: result.ok, origin: 'instance' };
+        console.warn(`[npc] Ignoring invalid definition override: ${result.err.message}`);
+    }
+
+    const template = templates.find(t => t.id === source.presetId);
+    if (template) {
+        const result = parseNpcDefinition(template.definition_json);
+        if ('ok' in result) return { definition: result.ok, origin: 'template' };
+        console.warn(`[npc] Ignoring invalid template "${template.id}": ${result.err.message}`);
+    }
+
+    const builtin = BUILTIN_NPC_DEFINITIONS[source.presetId];
+    if (builtin) return { definition: builtin, origin: 'builtin' };
+    return { definition: BUILTIN_NPC_DEFINITIONS[DEFAULT_PRESET_ID]!, origin: 'fallback' };
+}
+
+// =============================================================================
+// Instantiation
+// =============================================================================
+
+/** Deep copy so runtime state (waypoint index etc.) never leaks into definitions */
+function cloneModules(modules: NPCModuleInstance[]): NPCModuleInstance[] {
+    return JSON.parse(JSON.stringify(modules));
+}
+
+/** Place a definition on the map: waypoints become absolute, wander centers on the spawn */
+export function instantiateNpc(definition: NpcDefinition, position: TilePosition, id?: string): NPC {
+    type PlacedModule = NPCModuleInstance | PatrolMovementModule | WanderMovementModule | FleeMovementModule;
+    const place = (module: NPCModuleInstance): PlacedModule => {
+        if (module.category === 'movement' && module.type === 'patrol') {
+            const patrol = module as PatrolMovementModule;
+            return {
+                ...patrol,
+                currentWaypointIndex: 0,
+                waypoints: patrol.waypoints.map(w => ({ x: position.x + w.x, y: position.y + w.y })),
+            };
+        }
+        if (module.category === 'movement' && module.type === 'wander') {
+            return { ...(module as WanderMovementModule), origin: { ...position } };
+        }
+        if (module.category === 'movement' && module.type === 'flee') {
+            const flee = module as FleeMovementModule;
+            return flee.idleMovement
+                ? { ...flee, idleMovement: place(flee.idleMovement) as FleeMovementModule['idleMovement'] }
+                : flee;
+        }
+        return module;
+    };
+    const modules = cloneModules(definition.modules).map(place);
+
+    return createNPC({
+        id,
+        position,
+        direction: definition.direction,
+        initialState: 'idle',
+        modules,
+        metadata: { ...definition.metadata, tags: [...(definition.metadata.tags ?? [])] },
+    });
+}
+
+// =============================================================================
+// Editing Helpers
+// =============================================================================
+
+export function getDefinitionModule<T extends NPCModuleInstance>(
+    definition: NpcDefinition,
+    category: NPCModuleInstance['category']
+): T | undefined {
+    return definition.modules.find(m => m.category === category) as T | undefined;
+}
+
+/** Replace (or add, or with null remove) the module of a category */
+export function setDefinitionModule<T extends NPCModuleInstance>(
+    definition: NpcDefinition,
+    category: NPCModuleInstance['category'],
+    module: T | null
+): NpcDefinition {
+    const others = definition.modules.filter(m => m.category !== category);
+    return { ...definition, modules: module ? [...others, module] : others };
+}
+
+/** A one-line script, used when switching an NPC to scripted dialogue */
+export function createEmptyScript(speaker?: string): DialogueScript {
+    return { lines: [{ speaker, text: '', isEnding: true }] };
+}
@@ -67,15 +67,17 @@ export function createWanderMovement(
     };
 }
 
-/** Create a flee movement module - NPC runs from threats */
+/** Create a flee movement module - NPC runs from threats, then goes back to `idleMovement` */
 export function createFleeMovement(
-    fleeFromTags: string[] = ['player', 'hostile']
+    fleeFromTags: string[] = ['player', 'hostile'],
+    idleMovement?: FleeMovementModule['idleMovement']
 ): FleeMovementModule {
     return {
         category: 'movement',
         type: 'flee',
-        handlesStates: ['alert'] as NPCState[],
+        handlesStates: (idleMovement ? ['idle', 'alert'] : ['alert']) as NPCState[],
         fleeFromTags,
+        ...(idleMovement ? { idleMovement } : {}),
     };
 }
 
@@ -162,12 +164,15 @@ export function createNoCombat(): NoCombatModule {
     };
 }
 
-/** Create a basic combat module - placeholder for future combat */
-export function createBasicCombat(): BasicCombatModule {
+/** Create a basic combat module; unset stats use the defaults in utils/combat.ts */
+export function createBasicCombat(
+    stats: Pick<BasicCombatModule, 'maxHealth' | 'damage' | 'attackRange' | 'attackCooldownMs' | 'aggroRange'> = {}
+): BasicCombatModule {
     return {
         category: 'combat',
         type: 'basic',
         handlesStates: ['combat', 'alert'] as NPCState[],
+        ...stats,
     };
 }
 
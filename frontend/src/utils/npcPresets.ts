@@ -5,7 +5,7 @@
  * Shows how NPCs are just "modules + initial state".
  */
 
-import { NPC, NPCConfig, DialogueScript } from '../types/npc';
+import { NPC, NPCConfig, DialogueScript, Quest } from '../types/npc';
 import { createNPC } from './npcController';
 import {
     createStaticMovement,
@@ -75,7 +75,7 @@ export function createOldManNPC(
         metadata: {
             name: 'Old Man',
             faction: 'villager',
-            tags: ['friendly', 'npc'],
+            tags: ['friendly', 'npc', 'old_man'], // old_man: target of the tutorial quest
         },
     };
 
@@ -221,22 +221,24 @@ export function createHostileWandererNPC(
 // =============================================================================
 
 /** Quest dialogue - when quest is available */
-const QUEST_AVAILABLE: DialogueScript = {
-    lines: [
-        { speaker: 'Elder', text: 'Greetings, young one.' },
-        { speaker: 'Elder', text: 'I have a task for you, if you are willing.' },
-        {
-            speaker: 'Elder',
-            text: 'Will you speak to the Old Man by the stone wall?',
-            choices: [
-                { text: 'I accept this task', nextLineIndex: 3 },
-                { text: 'Not right now', nextLineIndex: 4 }
-            ]
-        },
-        { speaker: 'Elder', text: 'Wonderful! Return when you have spoken to him.', isEnding: true },
-        { speaker: 'Elder', text: 'Come back when you are ready.', isEnding: true }
-    ]
-};
+function questAvailableDialogue(questId: string): DialogueScript {
+    return {
+        lines: [
+            { speaker: 'Elder', text: 'Greetings, {player.name}.' },
+            { speaker: 'Elder', text: 'I have a task for you, if you are willing.' },
+            {
+                speaker: 'Elder',
+                text: 'Will you speak to the Old Man by the stone wall?',
+                choices: [
+                    { text: 'I accept this task', nextLineIndex: 3, actions: [{ type: 'start_quest', questId }] },
+                    { text: 'Not right now', nextLineIndex: 4 }
+                ]
+            },
+            { speaker: 'Elder', text: 'Wonderful! Return when you have spoken to him.', isEnding: true },
+            { speaker: 'Elder', text: 'Come back when you are ready.', isEnding: true }
+        ]
+    };
+}
 
 /** Quest dialogue - when quest is active */
 const QUEST_ACTIVE: DialogueScript = {
@@ -247,12 +249,35 @@ const QUEST_ACTIVE: DialogueScript = {
 };
 
 /** Quest dialogue - when quest is complete */
-const QUEST_COMPLETE: DialogueScript = {
-    lines: [
-        { speaker: 'Elder', text: 'You have returned!' },
-        { speaker: 'Elder', text: 'The Old Man told me of your visit.' },
-        { speaker: 'Elder', text: 'You have proven yourself. Thank you, adventurer.', isEnding: true }
-    ]
+function questCompleteDialogue(questId: string): DialogueScript {
+    return {
+        lines: [
+            { speaker: 'Elder', text: 'You have returned!' },
+            { speaker: 'Elder', text: 'The Old Man told me of your visit.' },
+            {
+                speaker: 'Elder',
+                text: 'You have proven yourself. Thank you, adventurer.',
+                isEnding: true,
+                actions: [{ type: 'turn_in_quest', questId }]
+            }
+        ]
+    };
+}
+
+/** The quest the Elder gives by default */
+export const TUTORIAL_QUEST: Quest = {
+    id: 'tutorial_speak',
+    title: 'A Word with the Old Man',
+    description: 'The Elder wants you to speak to the Old Man by the stone wall.',
+    objectives: [
+        { id: 'talk_old_man', description: 'Speak to the Old Man', type: 'talk', target: 'tag:old_man', required: 1, current: 0 }
+    ],
+    rewards: { gold: 10, experience: 50 }
+};
+
+/** Quests the built-in NPCs refer to, by id */
+export const BUILTIN_QUESTS: Record<string, Quest> = {
+    [TUTORIAL_QUEST.id]: TUTORIAL_QUEST,
 };
 
 /**
@@ -261,7 +286,7 @@ const QUEST_COMPLETE: DialogueScript = {
 export function createQuestGiverNPC(
     x: number,
     y: number,
-    questId: string = 'tutorial_speak'
+    questId: string = TUTORIAL_QUEST.id
 ): NPC {
     const config: NPCConfig = {
         position: { x, y },
@@ -269,7 +294,7 @@ export function createQuestGiverNPC(
         initialState: 'idle',
         modules: [
             createStaticMovement(),
-            createQuestInteraction(questId, QUEST_AVAILABLE, QUEST_ACTIVE, QUEST_COMPLETE),
+            createQuestInteraction(questId, questAvailableDialogue(questId), QUEST_ACTIVE, questCompleteDialogue(questId)),
             createNoCombat(),
             createNoAuthority(),
         ],
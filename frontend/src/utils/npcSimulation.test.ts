@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { TilePosition } from '../types/npc';
+import { createHostileWandererNPC, createOldManNPC } from './npcPresets';
+import { buildNavigationGrid } from './pathfinding';
+import {
+    advanceNPCSimulation,
+    createNPCSimulation,
+    stepNPCSimulation,
+    SIMULATION_STEP_MS,
+    type NPCSimulation,
+} from './npcSimulation';
+
+const navigation = buildNavigationGrid({ width: 12, height: 12, collision: new Set(['5,5', '5,6', '6,5']) });
+
+function createWorld(seed: number): NPCSimulation {
+    return createNPCSimulation([
+        { ...createHostileWandererNPC(3, 3, 3), id: 'wanderer_a' },
+        { ...createHostileWandererNPC(8, 8, 3), id: 'wanderer_b' },
+        { ...createOldManNPC(2, 9), id: 'old_man' },
+    ], seed);
+}
+
+/** Player walks a fixed route, one tile every few steps */
+function playerAt(tick: number): TilePosition {
+    const offset = Math.floor(tick / 5) % 8;
+    return { x: 1 + offset, y: 1 };
+}
+
+/** Positions of every NPC after each step */
+function trajectory(seed: number, steps: number): TilePosition[][] {
+    let simulation = createWorld(seed);
+    const positions: TilePosition[][] = [];
+    for (let i = 0; i < steps; i++) {
+        simulation = stepNPCSimulation(simulation, { player: playerAt(i), navigation }).simulation;
+        positions.push(simulation.npcs.map(npc => ({ ...npc.position })));
+    }
+    return positions;
+}
+
+describe('npcSimulation', () => {
+    it('gives the same trajectory for the same seed and inputs', () => {
+        const first = trajectory(1234, 300);
+        const second = trajectory(1234, 300);
+
+        expect(second).toEqual(first);
+        // The wanderers actually moved, so the comparison means something
+        expect(new Set(first.map(step => JSON.stringify(step[0]))).size).toBeGreaterThan(1);
+    });
+
+    it('gives a different trajectory for a different seed', () => {
+        expect(trajectory(99, 300)).not.toEqual(trajectory(1234, 300));
+    });
+
+    it('continues a run from its random state', () => {
+        let whole = createWorld(7);
+        for (let i = 0; i < 100; i++) {
+            whole = stepNPCSimulation(whole, { player: playerAt(i), navigation }).simulation;
+        }
+
+        let resumed = createWorld(7);
+        for (let i = 0; i < 50; i++) {
+            resumed = stepNPCSimulation(resumed, { player: playerAt(i), navigation }).simulation;
+        }
+        resumed = { ...resumed, npcs: structuredClone(resumed.npcs) };
+        for (let i = 50; i < 100; i++) {
+            resumed = stepNPCSimulation(resumed, { player: playerAt(i), navigation }).simulation;
+        }
+
+        expect(resumed.randomState).toBe(whole.randomState);
+        expect(resumed.npcs.map(npc => npc.position)).toEqual(whole.npcs.map(npc => npc.position));
+    });
+
+    it('runs the same steps whatever the frame timing', () => {
+        const frames = [16, 17, 33, 250, 5, 100, 16, 16, 400, 83];
+        let bySteps = createWorld(42);
+        let byFrames = createWorld(42);
+        const input = { player: { x: 4, y: 4 }, navigation };
+
+        for (const elapsed of frames) {
+            byFrames = advanceNPCSimulation(byFrames, elapsed, input).simulation;
+        }
+        while (bySteps.tick < byFrames.tick) {
+            bySteps = stepNPCSimulation(bySteps, input).simulation;
+        }
+
+        expect(byFrames.tick).toBe(Math.floor(frames.reduce((a, b) => a + b, 0) / SIMULATION_STEP_MS));
+        expect(byFrames.npcs.map(npc => npc.position)).toEqual(bySteps.npcs.map(npc => npc.position));
+        expect(byFrames.randomState).toBe(bySteps.randomState);
+    });
+});
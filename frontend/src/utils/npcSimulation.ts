@@ -0,0 +1,126 @@
+/**
+ * NPC Simulation
+ *
+ * Runs the NPCs of one map on a fixed-timestep clock. The simulation owns
+ * everything NPC behaviour depends on besides its inputs: the NPCs (whose
+ * modules carry their movement and attack timers), the clock and a seeded
+ * random source. The same seed, NPCs and per-step inputs always give the
+ * same run, so behaviour can be replayed and run without a view.
+ *
+ * - `stepNPCSimulation` advances exactly one step of SIMULATION_STEP_MS.
+ * - `advanceNPCSimulation` turns elapsed real time into whole steps and
+ *   carries the remainder over to the next call.
+ *
+ * NPCs are updated in list order and each sees the others' positions from
+ * earlier in the same step, so two NPCs never step onto the same tile.
+ */
+
+import type { NPC, TilePosition } from '../types/npc';
+import { updateNPC, type NPCWorldContext } from './npcController';
+import { tickNpcCombat, type CombatAttack } from './combat';
+import { createRandom } from './random';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NPCSimulation {
+    npcs: NPC[];
+    seed: number;
+    /** Generator state after the last step */
+    randomState: number;
+    /** Steps taken so far */
+    tick: number;
+    /** Simulated time in ms (tick * SIMULATION_STEP_MS) */
+    time: number;
+    /** Elapsed time not yet simulated, less than one step */
+    accumulator: number;
+}
+
+/** What the simulation needs from outside for a step */
+export interface NPCSimulationInput {
+    /** Player position in tiles */
+    player?: TilePosition;
+    navigation?: NPCWorldContext['navigation'];
+}
+
+export interface NPCSimulationResult {
+    simulation: NPCSimulation;
+    /** NPC attacks that landed on the player during the steps */
+    attacks: CombatAttack[];
+}
+
+/** Fixed step, matching the game test's 10Hz NPC update */
+export const SIMULATION_STEP_MS = 100;
+
+/** Most steps one `advanceNPCSimulation` call runs, so a stalled tab does not freeze on return */
+const MAX_STEPS_PER_ADVANCE = 10;
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+export function createNPCSimulation(npcs: NPC[], seed: number): NPCSimulation {
+    return {
+        npcs,
+        seed: seed >>> 0,
+        randomState: seed >>> 0,
+        tick: 0,
+        time: 0,
+        accumulator: 0,
+    };
+}
+
+/** Advance one fixed step */
+export function stepNPCSimulation(simulation: NPCSimulation, input: NPCSimulationInput = {}): NPCSimulationResult {
+    const random = createRandom(simulation.randomState);
+    const npcs = [...simulation.npcs];
+    for (let i = 0; i < npcs.length; i++) {
+        npcs[i] = updateNPC(npcs[i], SIMULATION_STEP_MS, input.player, {
+            npcs,
+            navigation: input.navigation,
+            random: random.next,
+        });
+    }
+
+    const combat = input.player
+        ? tickNpcCombat(npcs, input.player, SIMULATION_STEP_MS)
+        : { npcs, attacks: [] };
+
+    return {
+        simulation: {
+            ...simulation,
+            npcs: combat.npcs,
+            randomState: random.state(),
+            tick: simulation.tick + 1,
+            time: simulation.time + SIMULATION_STEP_MS,
+        },
+        attacks: combat.attacks,
+    };
+}
+
+/** Run as many whole steps as `elapsedMs` (plus the carried remainder) covers */
+export function advanceNPCSimulation(
+    simulation: NPCSimulation,
+    elapsedMs: number,
+    input: NPCSimulationInput = {}
+): NPCSimulationResult {
+    let current = simulation;
+    const attacks: CombatAttack[] = [];
+    let accumulator = simulation.accumulator + Math.max(0, elapsedMs);
+    let steps = 0;
+
+    while (accumulator >= SIMULATION_STEP_MS && steps < MAX_STEPS_PER_ADVANCE) {
+        const result = stepNPCSimulation(current, input);
+        current = result.simulation;
+        attacks.push(...result.attacks);
+        accumulator -= SIMULATION_STEP_MS;
+        steps++;
+    }
+
+    // Time beyond the step limit is dropped rather than caught up later
+    return {
+        simulation: { ...current, accumulator: Math.min(accumulator, SIMULATION_STEP_MS - 1) },
+        attacks,
+    };
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { TilePosition } from '../types/npc';
+import {
+    buildNavigationGrid,
+    clearNavigationCache,
+    findPath,
+    getNavigationGrid,
+    isWalkable,
+    nextStepToward,
+    objectFootprintCells,
+    type NavigationGrid,
+} from './pathfinding';
+import { sampleMap } from './testGrids';
+
+/** Every step moves one tile and stays on walkable cells */
+function expectValidPath(grid: NavigationGrid, start: TilePosition, path: TilePosition[], diagonal = false): void {
+    let previous = start;
+    for (const cell of path) {
+        expect(isWalkable(grid, cell)).toBe(true);
+        const dx = Math.abs(cell.x - previous.x);
+        const dy = Math.abs(cell.y - previous.y);
+        expect(diagonal ? Math.max(dx, dy) : dx + dy).toBe(1);
+        previous = cell;
+    }
+}
+
+const ROOMS = [
+    '..........',
+    '.####.###.',
+    '.#......#.',
+    '.#..##..#.',
+    '.#..##..#.',
+    '.####.###.',
+    '..........',
+];
+
+describe('buildNavigationGrid', () => {
+    it('blocks collision cells and solid object footprint cells', () => {
+        const objects = [{
+            id: 'table',
+            footprints: [{
+                width: 2n,
+                height: 1n,
+                collision_tiles: [{ x: 0n, y: 0n, solid: true }, { x: 1n, y: 0n, solid: false }],
+            }],
+        }];
+        const grid = buildNavigationGrid({
+            width: 5,
+            height: 5,
+            collision: new Set(['0,0']),
+            objectInstances: [{ objectId: 'table', x: 2, y: 3 }],
+            objects,
+        });
+
+        expect(isWalkable(grid, { x: 0, y: 0 })).toBe(false);
+        expect(isWalkable(grid, { x: 2, y: 3 })).toBe(false);
+        expect(isWalkable(grid, { x: 3, y: 3 })).toBe(true);
+        expect(objectFootprintCells([{ objectId: 'missing', x: 1, y: 1 }], objects)).toEqual([]);
+    });
+
+    it('treats cells off the map as blocked', () => {
+        const grid = sampleMap(['...']);
+        expect(isWalkable(grid, { x: -1, y: 0 })).toBe(false);
+        expect(isWalkable(grid, { x: 3, y: 0 })).toBe(false);
+    });
+
+    it('caches grids per map until their inputs change', () => {
+        clearNavigationCache();
+        const collision = new Set(['1,1']);
+        const first = getNavigationGrid('town', { width: 4, height: 4, collision });
+
+        expect(getNavigationGrid('town', { width: 4, height: 4, collision })).toBe(first);
+        expect(getNavigationGrid('town', { width: 4, height: 4, collision: new Set(['2,2']) })).not.toBe(first);
+        clearNavigationCache('town');
+    });
+});
+
+describe('findPath', () => {
+    it('finds the shortest way around walls', () => {
+        const grid = sampleMap(ROOMS);
+        const start = { x: 0, y: 3 };
+        const goal = { x: 3, y: 3 };
+        const path = findPath(grid, start, goal)!;
+
+        expectValidPath(grid, start, path);
+        expect(path[path.length - 1]).toEqual(goal);
+        // The bottom door opens onto the pillar: up, along the top and in through the top door
+        expect(path).toHaveLength(13);
+        expect(path).toContainEqual({ x: 5, y: 1 });
+    });
+
+    it('returns an empty path when already at the goal', () => {
+        expect(findPath(sampleMap(ROOMS), { x: 0, y: 0 }, { x: 0, y: 0 })).toEqual([]);
+    });
+
+    it('returns null for solid or walled-off goals', () => {
+        const grid = sampleMap([
+            '.....',
+            '.###.',
+            '.#.#.',
+            '.###.',
+        ]);
+        expect(findPath(grid, { x: 0, y: 0 }, { x: 1, y: 1 })).toBeNull();
+        expect(findPath(grid, { x: 0, y: 0 }, { x: 2, y: 2 })).toBeNull();
+    });
+
+    it('routes around blocked cells but never treats the goal as blocked', () => {
+        const grid = sampleMap([
+            '...',
+            '...',
+            '...',
+        ]);
+        const blocked = new Set(['1,0', '1,1', '2,2']);
+        const path = findPath(grid, { x: 0, y: 0 }, { x: 2, y: 2 }, { blocked })!;
+
+        expect(path.some(cell => blocked.has(`${cell.x},${cell.y}`) && !(cell.x === 2 && cell.y === 2))).toBe(false);
+        expect(path[path.length - 1]).toEqual({ x: 2, y: 2 });
+    });
+
+    it('cuts diagonals only where no corner is blocked', () => {
+        const grid = sampleMap([
+            '...',
+            '.#.',
+            '...',
+        ]);
+        const open = findPath(sampleMap(['...', '...', '...']), { x: 0, y: 0 }, { x: 2, y: 2 }, { diagonal: true })!;
+        expect(open).toHaveLength(2);
+
+        const around = findPath(grid, { x: 0, y: 0 }, { x: 2, y: 2 }, { diagonal: true })!;
+        expectValidPath(grid, { x: 0, y: 0 }, around, true);
+        expect(around.every(cell => !(cell.x === 1 && cell.y === 1))).toBe(true);
+        expect(around).toHaveLength(4);
+    });
+
+    it('gives up after expanding maxNodes cells', () => {
+        const grid = sampleMap(ROOMS);
+        expect(findPath(grid, { x: 0, y: 0 }, { x: 3, y: 3 }, { maxNodes: 5 })).toBeNull();
+    });
+
+    it('breaks ties the same way every time', () => {
+        const grid = sampleMap(['......', '......', '......', '......']);
+        const path = findPath(grid, { x: 0, y: 0 }, { x: 5, y: 3 });
+        expect(findPath(grid, { x: 0, y: 0 }, { x: 5, y: 3 })).toEqual(path);
+        expect(nextStepToward(grid, { x: 0, y: 0 }, { x: 5, y: 3 })).toEqual(path![0]);
+    });
+});
@@ -0,0 +1,281 @@
+/**
+ * Pathfinding
+ *
+ * Grid A* for NPC movement. A navigation grid marks the walkable cells of a
+ * map: solid tiles (the collision set the game test builds) and the solid
+ * cells of object footprints are blocked. Grids are cached per map and
+ * rebuilt only when their inputs change.
+ *
+ * Other NPCs move every tick, so they are not baked into the grid; pass the
+ * cells they stand on as `blocked` when searching.
+ *
+ * - Paths are lists of cells from the first step to the goal; the start cell
+ *   is not included.
+ * - Diagonal steps are optional and never cut a blocked corner.
+ * - Ties are broken the same way every time, so equal inputs give equal paths.
+ */
+
+import type { ObjectMetadata } from '../backend';
+import type { NPC, TilePosition } from '../types/npc';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NavigationGrid {
+    width: number;
+    height: number;
+    /** 1 for blocked cells, indexed y * width + x */
+    solid: Uint8Array;
+}
+
+/** An object placed on the map, in tiles */
+export interface PlacedObject {
+    objectId: string;
+    x: number;
+    y: number;
+}
+
+export interface NavigationSource {
+    width: number;
+    height: number;
+    /** Solid cells as "x,y" keys */
+    collision: ReadonlySet<string>;
+    objectInstances?: PlacedObject[];
+    objects?: Pick<ObjectMetadata, 'id' | 'footprints'>[];
+}
+
+export interface PathOptions {
+    diagonal?: boolean;
+    /** Extra blocked cells as "x,y" keys, e.g. other NPCs; the goal is never blocked */
+    blocked?: ReadonlySet<string>;
+    /** Give up after expanding this many cells */
+    maxNodes?: number;
+}
+
+const DEFAULT_MAX_NODES = 4096;
+
+const ORTHOGONAL: TilePosition[] = [
+    { x: 0, y: -1 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 1, y: 0 },
+];
+
+const DIAGONAL: TilePosition[] = [
+    { x: -1, y: -1 },
+    { x: 1, y: -1 },
+    { x: -1, y: 1 },
+    { x: 1, y: 1 },
+];
+
+// =============================================================================
+// Navigation Grid
+// =============================================================================
+
+/** Solid footprint cells of placed objects, in map tiles */
+export function objectFootprintCells(
+    instances: PlacedObject[],
+    objects: Pick<ObjectMetadata, 'id' | 'footprints'>[]
+): TilePosition[] {
+    const byId = new Map(objects.map(object => [object.id, object]));
+    const cells: TilePosition[] = [];
+    for (const instance of instances) {
+        const footprint = byId.get(instance.objectId)?.footprints[0];
+        if (!footprint) continue;
+        for (const tile of footprint.collision_tiles) {
+            if (tile.solid) {
+                cells.push({ x: instance.x + Number(tile.x), y: instance.y + Number(tile.y) });
+            }
+        }
+    }
+    return cells;
+}
+
+export function buildNavigationGrid(source: NavigationSource): NavigationGrid {
+    const { width, height } = source;
+    const solid = new Uint8Array(width * height);
+    const block = (x: number, y: number) => {
+        if (x >= 0 && y >= 0 && x < width && y < height) solid[y * width + x] = 1;
+    };
+
+    for (const key of source.collision) {
+        const [x, y] = key.split(',').map(Number);
+        block(x, y);
+    }
+    for (const cell of objectFootprintCells(source.objectInstances ?? [], source.objects ?? [])) {
+        block(cell.x, cell.y);
+    }
+
+    return { width, height, solid };
+}
+
+const gridCache = new Map<string, { inputs: unknown[]; grid: NavigationGrid }>();
+
+/** The map's grid, rebuilt only when the source's size, collision set or objects change */
+export function getNavigationGrid(mapId: string, source: NavigationSource): NavigationGrid {
+    const inputs = [source.width, source.height, source.collision, source.objectInstances, source.objects];
+    const cached = gridCache.get(mapId);
+    if (cached && cached.inputs.every((input, i) => input === inputs[i])) {
+        return cached.grid;
+    }
+
+    const grid = buildNavigationGrid(source);
+    gridCache.set(mapId, { inputs, grid });
+    return grid;
+}
+
+/** Drop one map's cached grid, or all of them */
+export function clearNavigationCache(mapId?: string): void {
+    if (mapId === undefined) {
+        gridCache.clear();
+    } else {
+        gridCache.delete(mapId);
+    }
+}
+
+export function isWalkable(grid: NavigationGrid, position: TilePosition): boolean {
+    const { x, y } = position;
+    return x >= 0 && y >= 0 && x < grid.width && y < grid.height && grid.solid[y * grid.width + x] === 0;
+}
+
+/** Cells the NPCs stand on, except `exceptId` */
+export function occupiedCells(npcs: NPC[], exceptId?: string): Set<string> {
+    return new Set(npcs
+        .filter(npc => npc.id !== exceptId)
+        .map(npc => `${npc.position.x},${npc.position.y}`));
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/** Octile distance with diagonals, Manhattan without */
+function heuristic(a: TilePosition, b: TilePosition, diagonal: boolean): number {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return diagonal
+        ? Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)
+        : dx + dy;
+}
+
+/** Open-set entry; ties on `f` go to the cell pushed first */
+interface OpenEntry {
+    index: number;
+    f: number;
+    order: number;
+}
+
+function openBefore(a: OpenEntry, b: OpenEntry): boolean {
+    return a.f < b.f || (a.f === b.f && a.order < b.order);
+}
+
+/** Binary min-heap push */
+function heapPush(heap: OpenEntry[], entry: OpenEntry): void {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!openBefore(heap[i], heap[parent])) break;
+        [heap[i], heap[parent]] = [heap[parent], heap[i]];
+        i = parent;
+    }
+}
+
+/** Binary min-heap pop; the heap must not be empty */
+function heapPop(heap: OpenEntry[]): OpenEntry {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+            const left = i * 2 + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < heap.length && openBefore(heap[left], heap[smallest])) smallest = left;
+            if (right < heap.length && openBefore(heap[right], heap[smallest])) smallest = right;
+            if (smallest === i) break;
+            [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+            i = smallest;
+        }
+    }
+    return top;
+}
+
+/**
+ * Shortest path from `start` to `goal`, or null when the goal cannot be
+ * reached (or the search gives up). An empty path means start is the goal.
+ */
+export function findPath(
+    grid: NavigationGrid,
+    start: TilePosition,
+    goal: TilePosition,
+    options: PathOptions = {}
+): TilePosition[] | null {
+    const { diagonal = false, blocked, maxNodes = DEFAULT_MAX_NODES } = options;
+    if (!isWalkable(grid, goal)) return null;
+    if (start.x < 0 || start.y < 0 || start.x >= grid.width || start.y >= grid.height) return null;
+    if (start.x === goal.x && start.y === goal.y) return [];
+
+    const { width } = grid;
+    const startIndex = start.y * width + start.x;
+    const goalIndex = goal.y * width + goal.x;
+    const open = (cell: TilePosition) =>
+        isWalkable(grid, cell) &&
+        ((cell.x === goal.x && cell.y === goal.y) || !blocked?.has(`${cell.x},${cell.y}`));
+
+    const cost = new Map<number, number>([[startIndex, 0]]);
+    const cameFrom = new Map<number, number>();
+    const closed = new Set<number>();
+    const openSet: OpenEntry[] = [];
+    let pushed = 0;
+    heapPush(openSet, { index: startIndex, f: heuristic(start, goal, diagonal), order: pushed++ });
+
+    const directions = diagonal ? [...ORTHOGONAL, ...DIAGONAL] : ORTHOGONAL;
+    let expanded = 0;
+
+    while (openSet.length > 0) {
+        const current = heapPop(openSet).index;
+        if (current === goalIndex) {
+            const path: TilePosition[] = [];
+            for (let i = current; i !== startIndex; i = cameFrom.get(i)!) {
+                path.push({ x: i % width, y: Math.floor(i / width) });
+            }
+            return path.reverse();
+        }
+        if (closed.has(current)) continue;
+        closed.add(current);
+        if (++expanded > maxNodes) return null;
+
+        const x = current % width;
+        const y = Math.floor(current / width);
+        for (const d of directions) {
+            const next = { x: x + d.x, y: y + d.y };
+            if (!open(next)) continue;
+            // Diagonals may not squeeze between two blocked cells or clip a corner
+            if (d.x !== 0 && d.y !== 0 && (!open({ x: x + d.x, y }) || !open({ x, y: y + d.y }))) continue;
+
+            const nextIndex = next.y * width + next.x;
+            if (closed.has(nextIndex)) continue;
+            const nextCost = cost.get(current)! + (d.x !== 0 && d.y !== 0 ? Math.SQRT2 : 1);
+            if (nextCost >= (cost.get(nextIndex) ?? Infinity)) continue;
+
+            cost.set(nextIndex, nextCost);
+            cameFrom.set(nextIndex, current);
+            heapPush(openSet, { index: nextIndex, f: nextCost + heuristic(next, goal, diagonal), order: pushed++ });
+        }
+    }
+
+    return null;
+}
+
+/** First step along the path to `goal`; null when there is none */
+export function nextStepToward(
+    grid: NavigationGrid,
+    start: TilePosition,
+    goal: TilePosition,
+    options: PathOptions = {}
+): TilePosition | null {
+    return findPath(grid, start, goal, options)?.[0] ?? null;
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { _SERVICE, MapData, NpcInstance, NpcTemplate, QuestDefinition, TileMetadata } from '../backend';
+import { createQuestInteraction, createShopInteraction, createStaticMovement } from './npcModules';
+import {
+    applyBundleImport,
+    BUNDLE_FORMAT,
+    BUNDLE_VERSION,
+    planBundleImport,
+    type ProjectBundle,
+    type ProjectContent,
+} from './projectBundle';
+
+function emptyContent(): ProjectContent {
+    return {
+        tiles: [], objects: [], sprite_sheets: [], characters: [], tile_sets: [], prefabs: [],
+        npc_templates: [], maps: [], items: [], shops: [], recipes: [], quests: [],
+    };
+}
+
+function bundleOf(content: Partial<ProjectContent>): ProjectBundle {
+    return {
+        manifest: {
+            ...emptyContent(),
+            ...content,
+            format: BUNDLE_FORMAT,
+            version: BUNDLE_VERSION,
+            exported_at: '2026-01-01T00:00:00.000Z',
+            source_canister: null,
+            blobs: [],
+        },
+        blobs: new Map(),
+    };
+}
+
+function tile(id: string): TileMetadata {
+    return { id, name: id, description: '', tags: [], blob_id: `blob_${id}`, is_solid: false, created_at: 0n, updated_at: 0n };
+}
+
+function quest(id: string, objectives: QuestDefinition['objectives'] = []): QuestDefinition {
+    return { id, title: id, description: '', objectives, reward_gold: 0n, reward_experience: 0n, reward_items: [], created_at: 0n, updated_at: 0n };
+}
+
+function npcTemplate(id: string, definition: object): NpcTemplate {
+    return { id, name: id, description: '', tags: [], definition_json: JSON.stringify(definition), created_at: 0n, updated_at: 0n };
+}
+
+function map(id: string, npcs: NpcInstance[]): MapData {
+    return {
+        id, name: id, description: '', width: 4n, height: 4n, tile_instances: [], object_instances: [], spawn_points: [],
+        npc_instances: [npcs], layers: [], warps: [], created_at: 0n, updated_at: 0n,
+    };
+}
+
+function npc(id: string): NpcInstance {
+    return { id, preset_id: 'villager', name: id, x: 0n, y: 0n, definition_json: [] };
+}
+
+describe('planBundleImport', () => {
+    it('remaps renamed ids inside NPC definitions', () => {
+        const script = {
+            lines: [{
+                speaker: 'Smith',
+                text: 'Bring ore.',
+                conditions: [{ type: 'quest_state', questId: 'ore', state: 'available' }],
+                actions: [{ type: 'start_quest', questId: 'ore' }, { type: 'give_item', itemId: 'pick', count: 1 }],
+            }],
+        };
+        const definition = {
+            direction: 'down',
+            modules: [createStaticMovement(), createQuestInteraction('ore', script as never, { lines: [] }, { lines: [] }), createShopInteraction('smithy')],
+            metadata: { name: 'Smith' },
+        };
+        const bundle = bundleOf({ quests: [quest('ore')], npc_templates: [npcTemplate('smith', definition)] });
+        const existing = {
+            ...emptyContent(),
+            quests: [{ ...quest('ore'), title: 'Other ore' }],
+            shops: [{ id: 'smithy' } as ProjectContent['shops'][number]],
+            items: [{ id: 'pick' } as ProjectContent['items'][number]],
+        };
+
+        const plan = planBundleImport(bundle, existing, 'rename');
+        const remapped = JSON.parse(plan.content.npc_templates[0]!.definition_json);
+
+        // Only the quest came with the bundle; the shop and item it does not carry keep their ids
+        expect(remapped.modules[1].questId).toBe('ore_imported');
+        expect(remapped.modules[1].dialogueAvailable.lines[0].conditions[0].questId).toBe('ore_imported');
+        expect(remapped.modules[1].dialogueAvailable.lines[0].actions).toEqual([
+            { type: 'start_quest', questId: 'ore_imported' },
+            { type: 'give_item', itemId: 'pick', count: 1 },
+        ]);
+        expect(remapped.modules[2].shopId).toBe('smithy');
+    });
+
+    it('keeps definitions it cannot read as they are', () => {
+        const bundle = bundleOf({ npc_templates: [{ ...npcTemplate('smith', {}), definition_json: 'not json' }] });
+        const plan = planBundleImport(bundle, { ...emptyContent(), npc_templates: [npcTemplate('smith', {})] }, 'rename');
+        expect(plan.content.npc_templates[0]).toMatchObject({ id: 'smith_imported', definition_json: 'not json' });
+    });
+
+    it('gives a renamed map fresh NPC ids and points quest targets at them', () => {
+        const talk = { id: 'talk', description: '', objective_type: 'talk', target: 'elder', map_id: ['village'] as [string], required: 1n };
+        const kill = { id: 'kill', description: '', objective_type: 'kill', target: 'faction:wolves', map_id: [] as [], required: 1n };
+        const bundle = bundleOf({ maps: [map('village', [npc('elder')])], quests: [quest('greet', [talk, kill])] });
+
+        const plan = planBundleImport(bundle, { ...emptyContent(), maps: [{ ...map('village', [npc('elder')]), name: 'Old village' }] }, 'rename');
+
+        expect(plan.content.maps[0]!.npc_instances[0]![0]!.id).toBe('elder_imported');
+        expect(plan.content.quests[0]!.objectives.map(o => [o.target, o.map_id])).toEqual([
+            ['elder_imported', ['village_imported']],
+            ['faction:wolves', []],
+        ]);
+    });
+});
+
+describe('applyBundleImport', () => {
+    it('collects calls that throw and carries on with the rest', async () => {
+        const bundle = bundleOf({ tiles: [tile('grass'), tile('water'), tile('sand')] });
+        const plan = planBundleImport(bundle, emptyContent(), 'skip');
+        const created: string[] = [];
+        const actor = {
+            createTile: async (record: TileMetadata) => {
+                if (record.id === 'water') throw new Error('Request timed out');
+                created.push(record.id);
+                return { ok: record.id };
+            },
+        } as unknown as _SERVICE;
+
+        const outcome = await applyBundleImport(actor, bundle, plan);
+
+        expect(created).toEqual(['grass', 'sand']);
+        expect(outcome.written).toBe(2);
+        expect(outcome.errors).toEqual(['tile "water": Request timed out (CALL_FAILED)']);
+    });
+
+    it('overwrites tiles through updateTileMetadata', async () => {
+        const changed = { ...tile('grass'), is_solid: true };
+        const bundle = bundleOf({ tiles: [changed] });
+        const plan = planBundleImport(bundle, { ...emptyContent(), tiles: [tile('grass')] }, 'overwrite');
+        const updated: [string, TileMetadata][] = [];
+        const actor = {
+            updateTileMetadata: async (id: string, record: TileMetadata) => {
+                updated.push([id, record]);
+                return { ok: id };
+            },
+        } as unknown as _SERVICE;
+
+        const outcome = await applyBundleImport(actor, bundle, plan);
+
+        expect(outcome.errors).toEqual([]);
+        expect(updated).toEqual([['grass', changed]]);
+    });
+});
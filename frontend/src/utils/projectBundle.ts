@@ -0,0 +1,736 @@
+/**
+ * Project Bundles
+ *
+ * Whole-project backup and migration between canisters. A bundle is a zip
+ * holding `manifest.json` (every tile, object, tile set, prefab, NPC template,
+ * map, item, shop, recipe, quest, sprite sheet and character) plus the image blobs under `blobs/`.
+ *
+ * Import is two-step: `planBundleImport` compares the bundle against the
+ * target canister and produces a dry-run report, `applyBundleImport` writes
+ * it. ID conflicts are resolved per the chosen strategy:
+ *   - skip:      keep the existing record, bundle references point at it
+ *   - overwrite: replace the existing record
+ *   - rename:    import under a fresh id (and fresh image keys) and remap every
+ *                reference to it, including ids inside NPC definition JSON
+ *                and the map NPCs that quest objectives and dialogue name
+ * Records identical to the existing ones (ignoring timestamps) are left alone.
+ */
+
+import type {
+    _SERVICE,
+    MapData,
+    Item,
+    NpcTemplate,
+    QuestDefinition,
+    ShopDefinition,
+    Recipe,
+    ObjectMetadata,
+    PlayableCharacter,
+    Prefab,
+    SpriteSheet,
+    TileMetadata,
+    TileSet,
+    ValidationError,
+} from '../backend';
+import type {
+    DialogueAction,
+    DialogueCondition,
+    DialogueInteractionModule,
+    DialogueScript,
+    NPCModuleInstance,
+    QuestInteractionModule,
+    ShopInteractionModule,
+} from '../types/npc';
+import type { DownloadFile } from './download';
+import { createZip, readZip, type ZipEntry } from './zip';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const BUNDLE_FORMAT = 'tile-smith-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+export type BundleEntityKind = 'tile' | 'object' | 'sprite_sheet' | 'character' | 'tile_set' | 'prefab' | 'npc_template' | 'map' | 'item' | 'shop' | 'recipe' | 'quest';
+
+/** Import order - referenced records before the records that use them */
+export const BUNDLE_ENTITY_KINDS: BundleEntityKind[] = ['tile', 'object', 'sprite_sheet', 'character', 'tile_set', 'prefab', 'npc_template', 'map', 'item', 'shop', 'recipe', 'quest'];
+
+export const BUNDLE_ENTITY_LABELS: Record<BundleEntityKind, string> = {
+    tile: 'Tiles',
+    object: 'Objects',
+    sprite_sheet: 'Sprite Sheets',
+    character: 'Characters',
+    tile_set: 'Tile Sets',
+    prefab: 'Prefabs',
+    npc_template: 'NPC Templates',
+    map: 'Maps',
+    item: 'Items',
+    shop: 'Shops',
+    recipe: 'Recipes',
+    quest: 'Quests',
+};
+
+export interface ProjectContent {
+    tiles: TileMetadata[];
+    objects: ObjectMetadata[];
+    sprite_sheets: SpriteSheet[];
+    characters: PlayableCharacter[];
+    tile_sets: TileSet[];
+    prefabs: Prefab[];
+    npc_templates: NpcTemplate[];
+    maps: MapData[];
+    items: Item[];
+    shops: ShopDefinition[];
+    recipes: Recipe[];
+    quests: QuestDefinition[];
+}
+
+/**
+ * Blob stores in the canister:
+ *   - tile:   tile images, keyed by tile id
+ *   - object: object images keyed by object id, state images by state blob_id
+ *   - sprite: sprite sheet images, keyed by blob_id
+ */
+export type BundleBlobStore = 'tile' | 'object' | 'sprite';
+
+export interface BundleBlob {
+    store: BundleBlobStore;
+    key: string;
+    path: string;
+    /** Record the blob belongs to - the blob is skipped when its owner is */
+    owner: { kind: BundleEntityKind; id: string };
+}
+
+export interface BundleManifest extends ProjectContent {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exported_at: string;
+    source_canister: string | null;
+    blobs: BundleBlob[];
+}
+
+export interface ProjectBundle {
+    manifest: BundleManifest;
+    blobs: Map<string, Uint8Array>;
+}
+
+export type BundleReadResult = { ok: ProjectBundle } | { err: ValidationError };
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export type BundleImportAction = 'create' | 'overwrite' | 'rename' | 'skip' | 'unchanged';
+
+export interface BundleImportEntry {
+    kind: BundleEntityKind;
+    id: string;
+    name: string;
+    /** Id the record is written under (differs from `id` when renamed) */
+    targetId: string;
+    action: BundleImportAction;
+}
+
+export interface BundleImportPlan {
+    strategy: ConflictStrategy;
+    entries: BundleImportEntry[];
+    content: ProjectContent;
+    blobs: BundleBlob[];
+}
+
+export interface BundleImportOutcome {
+    written: number;
+    blobsUploaded: number;
+    errors: string[];
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/** Candid Nat/Int values are bigints, which JSON cannot hold natively */
+function stringifyManifest(manifest: BundleManifest): string {
+    return JSON.stringify(manifest, (_, value) => typeof value === 'bigint' ? { $bigint: value.toString() } : value, 2);
+}
+
+function parseManifest(text: string): unknown {
+    return JSON.parse(text, (_, value) => value && typeof value === 'object' && typeof value.$bigint === 'string'
+        ? BigInt(value.$bigint)
+        : value);
+}
+
+/** Stable comparison key - timestamps change on every save, so they are ignored */
+function contentKey(record: object): string {
+    return JSON.stringify(record, (key, value) => key === 'created_at' || key === 'updated_at'
+        ? undefined
+        : typeof value === 'bigint' ? value.toString() : value);
+}
+
+function blobPath(store: BundleBlobStore, key: string): string {
+    return `blobs/${store}/${encodeURIComponent(key)}.png`;
+}
+
+function bundleError(code: string, message: string): { err: ValidationError } {
+    return { err: { code, message, fix_attempted: false } };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/** Read a canister's full content (no blobs) */
+export async function fetchProjectContent(actor: _SERVICE): Promise<ProjectContent> {
+    const [tiles, objects, sprite_sheets, characters, tile_sets, prefabs, npc_templates, maps, items, shops, recipes, quests] = await Promise.all([
+        actor.listTiles(),
+        actor.listObjects(),
+        actor.listSpriteSheets(),
+        actor.listPlayableCharacters(),
+        actor.listTileSets(),
+        actor.listPrefabs(),
+        actor.listNpcTemplates(),
+        actor.listMaps(),
+        actor.listItems(),
+        actor.listShops(),
+        actor.listRecipes(),
+        actor.listQuests(),
+    ]);
+    return { tiles, objects, sprite_sheets, characters, tile_sets, prefabs, npc_templates, maps, items, shops, recipes, quests };
+}
+
+/** Every blob the content refers to, one entry per store/key */
+function collectBlobRefs(content: ProjectContent): BundleBlob[] {
+    const refs = new Map<string, BundleBlob>();
+    const add = (store: BundleBlobStore, key: string, kind: BundleEntityKind, id: string) => {
+        if (!key || refs.has(`${store}:${key}`)) return;
+        refs.set(`${store}:${key}`, { store, key, path: blobPath(store, key), owner: { kind, id } });
+    };
+
+    content.tiles.forEach(t => add('tile', t.id, 'tile', t.id));
+    for (const obj of content.objects) {
+        add('object', obj.id, 'object', obj.id);
+        obj.states.forEach(s => add('object', s.blob_id, 'object', obj.id));
+    }
+    content.sprite_sheets.forEach(s => add('sprite', s.blob_id, 'sprite_sheet', s.id));
+    for (const character of content.characters) {
+        character.sprite_sheets.forEach(s => add('sprite', s.blob_id, 'character', character.id));
+    }
+    return Array.from(refs.values());
+}
+
+async function fetchBlob(actor: _SERVICE, blob: BundleBlob): Promise<Uint8Array | null> {
+    const result = blob.store === 'tile'
+        ? await actor.getTileImage(blob.key)
+        : blob.store === 'object'
+            ? await actor.getObjectImage(blob.key)
+            : await actor.getCharacterSpriteSheet(blob.key);
+    return result[0] ? new Uint8Array(result[0]) : null;
+}
+
+/**
+ * Pull everything out of a canister into a bundle zip. Blobs that were never
+ * uploaded are simply left out.
+ */
+export async function exportProjectBundle(
+    actor: _SERVICE,
+    sourceCanister: string | null,
+    onProgress?: (done: number, total: number) => void
+): Promise<{ file: DownloadFile; manifest: BundleManifest }> {
+    const content = await fetchProjectContent(actor);
+    const refs = collectBlobRefs(content);
+    const entries: ZipEntry[] = [];
+    const blobs: BundleBlob[] = [];
+
+    for (let i = 0; i < refs.length; i++) {
+        const data = await fetchBlob(actor, refs[i]!);
+        if (data) {
+            entries.push({ name: refs[i]!.path, data, store: true });
+            blobs.push(refs[i]!);
+        }
+        onProgress?.(i + 1, refs.length);
+    }
+
+    const exportedAt = new Date();
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exported_at: exportedAt.toISOString(),
+        source_canister: sourceCanister,
+        ...content,
+        blobs,
+    };
+    entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(stringifyManifest(manifest)) });
+
+    const stamp = exportedAt.toISOString().slice(0, 10);
+    return {
+        file: { name: `tile-smith-project-${stamp}.zip`, data: await createZip(entries, exportedAt), type: 'application/zip' },
+        manifest,
+    };
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+export async function readProjectBundle(bytes: Uint8Array): Promise<BundleReadResult> {
+    const zip = await readZip(bytes);
+    if ('err' in zip) return zip;
+
+    const manifestBytes = zip.ok.get(MANIFEST_PATH);
+    if (!manifestBytes) {
+        return bundleError('INVALID_BUNDLE', 'The archive has no manifest.json - is it a project bundle?');
+    }
+
+    let manifest: BundleManifest;
+    try {
+        manifest = parseManifest(new TextDecoder().decode(manifestBytes)) as BundleManifest;
+    } catch {
+        return bundleError('INVALID_BUNDLE', 'manifest.json is not valid JSON');
+    }
+    if (manifest.format !== BUNDLE_FORMAT) {
+        return bundleError('INVALID_BUNDLE', 'The archive is not a Tile Smith project bundle');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        return bundleError('UNSUPPORTED_VERSION', `Bundle version ${manifest.version} is newer than this app supports (${BUNDLE_VERSION})`);
+    }
+
+    for (const key of ['tiles', 'objects', 'sprite_sheets', 'characters', 'tile_sets', 'prefabs', 'npc_templates', 'maps', 'items', 'shops', 'recipes', 'quests', 'blobs'] as const) {
+        if (!Array.isArray(manifest[key])) manifest[key] = [] as never;
+    }
+    return { ok: { manifest, blobs: zip.ok } };
+}
+
+// =============================================================================
+// Import Planning
+// =============================================================================
+
+type RecordOf<K extends BundleEntityKind> = {
+    tile: TileMetadata;
+    object: ObjectMetadata;
+    sprite_sheet: SpriteSheet;
+    character: PlayableCharacter;
+    tile_set: TileSet;
+    prefab: Prefab;
+    npc_template: NpcTemplate;
+    map: MapData;
+    item: Item;
+    shop: ShopDefinition;
+    recipe: Recipe;
+    quest: QuestDefinition;
+}[K];
+
+const CONTENT_KEYS: { [K in BundleEntityKind]: keyof ProjectContent } = {
+    tile: 'tiles',
+    object: 'objects',
+    sprite_sheet: 'sprite_sheets',
+    character: 'characters',
+    tile_set: 'tile_sets',
+    prefab: 'prefabs',
+    npc_template: 'npc_templates',
+    map: 'maps',
+    item: 'items',
+    shop: 'shops',
+    recipe: 'recipes',
+    quest: 'quests',
+};
+
+function recordsOf<K extends BundleEntityKind>(content: ProjectContent, kind: K): RecordOf<K>[] {
+    return content[CONTENT_KEYS[kind]] as RecordOf<K>[];
+}
+
+function renamedId(id: string, taken: Set<string>): string {
+    let candidate = `${id}_imported`;
+    let suffix = 2;
+    while (taken.has(candidate)) {
+        candidate = `${id}_imported_${suffix++}`;
+    }
+    taken.add(candidate);
+    return candidate;
+}
+
+type BlobKeyMap = Record<BundleBlobStore, Map<string, string>>;
+
+/**
+ * Fresh blob keys for the blobs of renamed records. Keeping the bundle's keys
+ * would overwrite the images the existing records still point at. Tile images
+ * and an object's own image are keyed by the record id, so they follow it.
+ */
+function renamedBlobKeys(content: ProjectContent, existing: ProjectContent, ids: Record<BundleEntityKind, Map<string, string>>): BlobKeyMap {
+    const keys: BlobKeyMap = { tile: new Map(), object: new Map(), sprite: new Map() };
+    const refs = collectBlobRefs(content);
+    const taken: Record<BundleBlobStore, Set<string>> = { tile: new Set(), object: new Set(), sprite: new Set() };
+    [...collectBlobRefs(existing), ...refs].forEach(ref => taken[ref.store].add(ref.key));
+
+    for (const ref of refs) {
+        const ownerId = ids[ref.owner.kind].get(ref.owner.id);
+        if (!ownerId) continue;
+        const keyedById = ref.store === 'tile' || (ref.store === 'object' && ref.key === ref.owner.id);
+        keys[ref.store].set(ref.key, keyedById ? ownerId : renamedId(ref.key, taken[ref.store]));
+    }
+    return keys;
+}
+
+/**
+ * Fresh ids for the NPCs on renamed maps whose ids are already placed on the
+ * canister. Quest objectives and dialogue find NPCs by instance id, so
+ * keeping them would also match the NPCs on the existing map.
+ */
+function renamedNpcInstanceIds(content: ProjectContent, existing: ProjectContent, ids: Record<BundleEntityKind, Map<string, string>>): Map<string, string> {
+    const instancesOf = (maps: MapData[]) => maps.flatMap(map => map.npc_instances[0] ?? []);
+    const placed = new Set(instancesOf(existing.maps).map(n => n.id));
+    const taken = new Set([...placed, ...instancesOf(content.maps).map(n => n.id)]);
+    const npcIds = new Map<string, string>();
+
+    for (const npc of instancesOf(content.maps.filter(map => ids.map.has(map.id)))) {
+        if (placed.has(npc.id) && !npcIds.has(npc.id)) npcIds.set(npc.id, renamedId(npc.id, taken));
+    }
+    return npcIds;
+}
+
+/** Ids an NPC definition refers to, by kind */
+interface NpcDefinitionRefs {
+    quest: (id: string) => string;
+    shop: (id: string) => string;
+    item: (id: string) => string;
+    npc: (id: string) => string;
+}
+
+function remapDialogueScript(script: DialogueScript | undefined, refs: NpcDefinitionRefs): DialogueScript | undefined {
+    if (!Array.isArray(script?.lines)) return script;
+
+    const condition = (c: DialogueCondition): DialogueCondition => {
+        if (c.type === 'quest_state') return { ...c, questId: refs.quest(c.questId) };
+        if (c.type === 'item_count') return { ...c, itemId: refs.item(c.itemId) };
+        return c;
+    };
+    const action = (a: DialogueAction): DialogueAction => {
+        switch (a.type) {
+            case 'start_quest':
+            case 'complete_quest':
+            case 'turn_in_quest':
+                return { ...a, questId: refs.quest(a.questId) };
+            case 'give_item':
+                return { ...a, itemId: refs.item(a.itemId) };
+            case 'set_npc_state':
+                return a.npcId ? { ...a, npcId: refs.npc(a.npcId) } : a;
+            default:
+                return a;
+        }
+    };
+
+    return {
+        ...script,
+        lines: script.lines.map(line => ({
+            ...line,
+            conditions: line.conditions?.map(condition),
+            actions: line.actions?.map(action),
+            choices: line.choices?.map(choice => ({
+                ...choice,
+                conditions: choice.conditions?.map(condition),
+                actions: choice.actions?.map(action),
+            })),
+        })),
+    };
+}
+
+/** Remap the quest, shop, item and NPC ids inside an NPC definition; JSON that does not parse is kept as is */
+function remapNpcDefinitionJson(json: string, refs: NpcDefinitionRefs): string {
+    let definition: { modules?: NPCModuleInstance[] };
+    try {
+        definition = JSON.parse(json);
+    } catch {
+        return json;
+    }
+    if (!definition || !Array.isArray(definition.modules)) return json;
+
+    const modules = definition.modules.map((module): NPCModuleInstance => {
+        if (module?.category !== 'interaction') return module;
+        switch (module.type) {
+            case 'quest': {
+                const quest = module as QuestInteractionModule;
+                return {
+                    ...quest,
+                    questId: refs.quest(quest.questId),
+                    dialogueAvailable: remapDialogueScript(quest.dialogueAvailable, refs)!,
+                    dialogueActive: remapDialogueScript(quest.dialogueActive, refs)!,
+                    dialogueComplete: remapDialogueScript(quest.dialogueComplete, refs)!,
+                } as QuestInteractionModule;
+            }
+            case 'shop': {
+                const shop = module as ShopInteractionModule;
+                return shop.shopId ? { ...shop, shopId: refs.shop(shop.shopId) } as ShopInteractionModule : shop;
+            }
+            case 'dialogue': {
+                const dialogue = module as DialogueInteractionModule;
+                return { ...dialogue, dialogueScript: remapDialogueScript(dialogue.dialogueScript, refs) } as DialogueInteractionModule;
+            }
+            default:
+                return module;
+        }
+    });
+
+    // Leave the stored text alone when nothing it refers to was renamed
+    const remapped = JSON.stringify({ ...definition, modules });
+    return remapped === JSON.stringify(definition) ? json : remapped;
+}
+
+/** Point every reference at the ids records and blobs are written under */
+function remapContent(
+    content: ProjectContent,
+    ids: Record<BundleEntityKind, Map<string, string>>,
+    blobKeys: BlobKeyMap,
+    npcIds: Map<string, string>
+): ProjectContent {
+    const tile = (id: string) => ids.tile.get(id) ?? id;
+    const object = (id: string) => ids.object.get(id) ?? id;
+    const character = (id: string) => ids.character.get(id) ?? id;
+    const npcTemplate = (id: string) => ids.npc_template.get(id) ?? id;
+    const item = (id: string) => ids.item.get(id) ?? id;
+    const objectBlob = (key: string) => blobKeys.object.get(key) ?? key;
+    const spriteBlob = (key: string) => blobKeys.sprite.get(key) ?? key;
+    const remapTiles = (instances: MapData['tile_instances']) => instances.map(t => ({ ...t, tile_id: tile(t.tile_id) }));
+    const npc = (id: string) => npcIds.get(id) ?? id;
+    const refs: NpcDefinitionRefs = { quest: id => ids.quest.get(id) ?? id, shop: id => ids.shop.get(id) ?? id, item, npc };
+
+    return {
+        tiles: content.tiles.map((t) => {
+            const id = tile(t.id);
+            return { ...t, id, blob_id: t.blob_id === `blob_${t.id}` ? `blob_${id}` : t.blob_id };
+        }),
+        objects: content.objects.map(o => ({
+            ...o,
+            id: object(o.id),
+            states: o.states.map(s => ({ ...s, blob_id: objectBlob(s.blob_id) })),
+        })),
+        sprite_sheets: content.sprite_sheets.map(s => ({ ...s, id: ids.sprite_sheet.get(s.id) ?? s.id, blob_id: spriteBlob(s.blob_id) })),
+        characters: content.characters.map(c => ({
+            ...c,
+            id: character(c.id),
+            sprite_sheets: c.sprite_sheets.map(s => ({ ...s, blob_id: spriteBlob(s.blob_id) })),
+        })),
+        tile_sets: content.tile_sets.map(set => ({
+            ...set,
+            id: ids.tile_set.get(set.id) ?? set.id,
+            tile_ids: set.tile_ids.map(tile),
+            autotile: set.autotile.map(rule => ({ ...rule, slots: rule.slots.map(s => ({ ...s, tile_id: tile(s.tile_id) })) })) as TileSet['autotile'],
+        })),
+        prefabs: content.prefabs.map(p => ({ ...p, id: ids.prefab.get(p.id) ?? p.id, object_id: object(p.object_id) })),
+        npc_templates: content.npc_templates.map(t => ({
+            ...t,
+            id: npcTemplate(t.id),
+            definition_json: remapNpcDefinitionJson(t.definition_json, refs),
+        })),
+        maps: content.maps.map(map => ({
+            ...map,
+            id: ids.map.get(map.id) ?? map.id,
+            tile_instances: remapTiles(map.tile_instances),
+            object_instances: map.object_instances.map(o => ({ ...o, object_id: object(o.object_id) })),
+            spawn_points: map.spawn_points.map(s => ({ ...s, character_id: character(s.character_id) })),
+            npc_instances: map.npc_instances.map(list => list.map(n => ({
+                ...n,
+                // Only the instances of renamed maps were given fresh ids
+                id: ids.map.has(map.id) ? npc(n.id) : n.id,
+                preset_id: npcTemplate(n.preset_id),
+                definition_json: n.definition_json.map(json => remapNpcDefinitionJson(json, refs)) as [] | [string],
+            }))) as MapData['npc_instances'],
+            layers: map.layers.map(layers => layers.map(l => ({ ...l, tile_instances: remapTiles(l.tile_instances) }))) as MapData['layers'],
+            warps: (map.warps ?? []).map(list => list.map(w => ({
+                ...w,
+                object_id: w.object_id.map(object) as [] | [string],
+                target_map_id: ids.map.get(w.target_map_id) ?? w.target_map_id,
+            }))) as MapData['warps'],
+        })),
+        items: content.items.map(i => ({
+            ...i,
+            id: item(i.id),
+            icon_id: i.icon_kind === 'tile' ? tile(i.icon_id) : i.icon_kind === 'object' ? object(i.icon_id) : i.icon_id,
+            pickup_object_id: i.pickup_object_id.map(object) as [] | [string],
+        })),
+        shops: content.shops.map(shop => ({
+            ...shop,
+            id: ids.shop.get(shop.id) ?? shop.id,
+            stock: shop.stock.map(line => ({ ...line, item_id: item(line.item_id) })),
+        })),
+        recipes: content.recipes.map(recipe => ({
+            ...recipe,
+            id: ids.recipe.get(recipe.id) ?? recipe.id,
+            inputs: recipe.inputs.map(i => ({ ...i, item_id: item(i.item_id) })),
+            outputs: recipe.outputs.map(o => ({ ...o, item_id: item(o.item_id) })),
+        })),
+        quests: content.quests.map(quest => ({
+            ...quest,
+            id: ids.quest.get(quest.id) ?? quest.id,
+            objectives: quest.objectives.map(o => ({
+                ...o,
+                target: o.objective_type === 'collect' ? item(o.target)
+                    : o.objective_type === 'talk' || o.objective_type === 'kill' ? npc(o.target)
+                    : o.target,
+                map_id: o.map_id.map(id => ids.map.get(id) ?? id) as [] | [string],
+            })),
+            reward_items: quest.reward_items.map(item),
+        })),
+    };
+}
+
+/**
+ * Dry run: decide what happens to every record in the bundle without
+ * writing anything. `existing` is the target canister's current content.
+ */
+export function planBundleImport(bundle: ProjectBundle, existing: ProjectContent, strategy: ConflictStrategy): BundleImportPlan {
+    const entries: BundleImportEntry[] = [];
+    const ids = {} as Record<BundleEntityKind, Map<string, string>>;
+
+    for (const kind of BUNDLE_ENTITY_KINDS) {
+        const current = new Map(recordsOf(existing, kind).map(r => [r.id, r] as const));
+        const taken = new Set([...current.keys(), ...recordsOf(bundle.manifest, kind).map(r => r.id)]);
+        ids[kind] = new Map();
+
+        for (const record of recordsOf(bundle.manifest, kind)) {
+            const match = current.get(record.id);
+            let action: BundleImportAction;
+            let targetId = record.id;
+
+            if (!match) {
+                action = 'create';
+            } else if (contentKey(match) === contentKey(record)) {
+                action = 'unchanged';
+            } else if (strategy === 'rename') {
+                action = 'rename';
+                targetId = renamedId(record.id, taken);
+                ids[kind].set(record.id, targetId);
+            } else {
+                action = strategy;
+            }
+            entries.push({ kind, id: record.id, name: 'title' in record ? record.title : record.name, targetId, action });
+        }
+    }
+
+    const blobKeys = renamedBlobKeys(bundle.manifest, existing, ids);
+    const npcIds = renamedNpcInstanceIds(bundle.manifest, existing, ids);
+    return {
+        strategy,
+        entries,
+        content: remapContent(bundle.manifest, ids, blobKeys, npcIds),
+        // `path` still locates the blob in the bundle, `key` is where it is uploaded
+        blobs: bundle.manifest.blobs.map(blob => ({ ...blob, key: blobKeys[blob.store].get(blob.key) ?? blob.key })),
+    };
+}
+
+/** Count plan entries per action, for the dry-run summary */
+export function summarizeBundlePlan(plan: BundleImportPlan): Record<BundleImportAction, number> {
+    const counts: Record<BundleImportAction, number> = { create: 0, overwrite: 0, rename: 0, skip: 0, unchanged: 0 };
+    plan.entries.forEach(e => counts[e.action]++);
+    return counts;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+type WriteResult = { ok: string } | { err: ValidationError };
+
+async function createRecord(actor: _SERVICE, kind: BundleEntityKind, record: RecordOf<BundleEntityKind>): Promise<WriteResult> {
+    switch (kind) {
+        case 'tile': return actor.createTile(record as TileMetadata);
+        case 'object': return actor.createObject(record as ObjectMetadata);
+        case 'sprite_sheet': return actor.createSpriteSheet(record as SpriteSheet);
+        case 'character': return actor.createPlayableCharacter(record as PlayableCharacter);
+        case 'tile_set': return actor.createTileSet(record as TileSet);
+        case 'prefab': return actor.createPrefab(record as Prefab);
+        case 'npc_template': return actor.createNpcTemplate(record as NpcTemplate);
+        case 'map': return actor.createMap(record as MapData);
+        case 'item': return actor.createItem(record as Item);
+        case 'shop': return actor.createShop(record as ShopDefinition);
+        case 'recipe': return actor.createRecipe(record as Recipe);
+        case 'quest': return actor.createQuest(record as QuestDefinition);
+    }
+}
+
+async function updateRecord(actor: _SERVICE, kind: BundleEntityKind, id: string, record: RecordOf<BundleEntityKind>): Promise<WriteResult> {
+    switch (kind) {
+        case 'tile': return actor.updateTileMetadata(id, record as TileMetadata);
+        case 'object': return actor.updateObjectMetadata(id, record as ObjectMetadata);
+        case 'sprite_sheet': return actor.updateSpriteSheet(id, record as SpriteSheet);
+        case 'character': return actor.updatePlayableCharacter(id, record as PlayableCharacter);
+        case 'tile_set': return actor.updateTileSet(id, record as TileSet);
+        case 'prefab': return actor.updatePrefab(id, record as Prefab);
+        case 'npc_template': return actor.updateNpcTemplate(id, record as NpcTemplate);
+        case 'map': return actor.updateMap(id, record as MapData);
+        case 'item': return actor.updateItem(id, record as Item);
+        case 'shop': return actor.updateShop(id, record as ShopDefinition);
+        case 'recipe': return actor.updateRecipe(id, record as Recipe);
+        case 'quest': return actor.updateQuest(id, record as QuestDefinition);
+    }
+}
+
+/** `blob.key` is the key planned for the target canister (remapped when the owner was renamed) */
+function uploadBlob(actor: _SERVICE, blob: BundleBlob, ownerId: string, data: Uint8Array): Promise<WriteResult> {
+    if (blob.store === 'tile') return actor.uploadTileImage(ownerId, data);
+    if (blob.store === 'sprite') return actor.uploadCharacterSpriteSheet(blob.key, data);
+    // The object's own image is keyed by its id, state images by their blob_id
+    return blob.key === ownerId
+        ? actor.uploadObjectImage(ownerId, data)
+        : actor.uploadObjectStateImage(ownerId, blob.key, data);
+}
+
+/** A call that throws (a network or agent error) fails like a rejected write */
+async function attemptWrite(write: () => Promise<WriteResult>): Promise<WriteResult> {
+    try {
+        return await write();
+    } catch (error) {
+        return bundleError('CALL_FAILED', error instanceof Error ? error.message : 'Unknown error');
+    }
+}
+
+/**
+ * Write a plan to the canister. Overwrites update the existing record in
+ * place, so a failed write leaves the original untouched. Failures are
+ * collected rather than aborting, so one bad record does not strand the rest.
+ */
+export async function applyBundleImport(
+    actor: _SERVICE,
+    bundle: ProjectBundle,
+    plan: BundleImportPlan,
+    onProgress?: (done: number, total: number) => void
+): Promise<BundleImportOutcome> {
+    const outcome: BundleImportOutcome = { written: 0, blobsUploaded: 0, errors: [] };
+    const pending = plan.entries.filter(e => e.action === 'create' || e.action === 'overwrite' || e.action === 'rename');
+    const written = new Map<string, string>();
+    const total = pending.length + plan.blobs.length;
+    let done = 0;
+
+    for (const entry of pending) {
+        const record = recordsOf(plan.content, entry.kind).find(r => r.id === entry.targetId);
+        if (!record) continue;
+
+        const result = await attemptWrite(() => entry.action === 'overwrite'
+            ? updateRecord(actor, entry.kind, entry.targetId, record)
+            : createRecord(actor, entry.kind, record));
+        if ('ok' in result) {
+            outcome.written++;
+            written.set(`${entry.kind}:${entry.id}`, entry.targetId);
+        } else {
+            outcome.errors.push(`${entry.kind} "${entry.id}": ${result.err.message} (${result.err.code})`);
+        }
+        onProgress?.(++done, total);
+    }
+
+    // Blobs follow their owner: only uploaded when the owner was written
+    for (const blob of plan.blobs) {
+        const ownerId = written.get(`${blob.owner.kind}:${blob.owner.id}`);
+        const data = bundle.blobs.get(blob.path);
+        if (ownerId && data) {
+            const result = await attemptWrite(() => uploadBlob(actor, blob, ownerId, data));
+            if ('ok' in result) {
+                outcome.blobsUploaded++;
+            } else {
+                outcome.errors.push(`${blob.store} image "${blob.key}": ${result.err.message}`);
+            }
+        } else if (ownerId) {
+            outcome.errors.push(`${blob.store} image "${blob.key}" is missing from the bundle`);
+        }
+        onProgress?.(++done, total);
+    }
+
+    return outcome;
+}
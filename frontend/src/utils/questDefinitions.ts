@@ -0,0 +1,179 @@
+/**
+ * Quest Definitions
+ *
+ * Converts quests between the canister's QuestDefinition record and the
+ * runtime Quest type, and checks that objective targets exist in the
+ * project: talk/kill targets must be NPCs placed on a map (or a
+ * `faction:`/`tag:` group), collect targets and reward items must be
+ * catalog items, and visit regions must lie on an existing map.
+ *
+ * The canister repeats the existence checks on save; doing them here too
+ * lets the Quests view point at the exact objective before saving.
+ */
+
+import type { Item, MapData, QuestDefinition } from '../backend';
+import type { Quest, QuestObjective } from '../types/npc';
+import { parseQuestRegion } from './questEngine';
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+export const QUEST_OBJECTIVE_TYPES: QuestObjective['type'][] = ['talk', 'collect', 'kill', 'visit'];
+
+function isObjectiveType(value: string): value is QuestObjective['type'] {
+    return (QUEST_OBJECTIVE_TYPES as string[]).includes(value);
+}
+
+export function questFromDefinition(definition: QuestDefinition): Quest {
+    return {
+        id: definition.id,
+        title: definition.title,
+        description: definition.description,
+        objectives: definition.objectives
+            .filter(o => isObjectiveType(o.objective_type))
+            .map(o => ({
+                id: o.id,
+                description: o.description,
+                type: o.objective_type as QuestObjective['type'],
+                target: o.target,
+                mapId: o.map_id[0],
+                required: Number(o.required),
+                current: 0,
+            })),
+        rewards: {
+            gold: Number(definition.reward_gold),
+            experience: Number(definition.reward_experience),
+            items: [...definition.reward_items],
+        },
+    };
+}
+
+/** `existing` keeps the original creation time when updating */
+export function questToDefinition(quest: Quest, existing?: QuestDefinition): QuestDefinition {
+    const now = BigInt(Date.now());
+    return {
+        id: quest.id,
+        title: quest.title,
+        description: quest.description,
+        objectives: quest.objectives.map(o => ({
+            id: o.id,
+            description: o.description,
+            objective_type: o.type,
+            target: o.target,
+            map_id: o.type === 'visit' && o.mapId ? [o.mapId] : [],
+            required: BigInt(Math.max(0, Math.trunc(o.required))),
+        })),
+        reward_gold: BigInt(Math.max(0, Math.trunc(quest.rewards?.gold ?? 0))),
+        reward_experience: BigInt(Math.max(0, Math.trunc(quest.rewards?.experience ?? 0))),
+        reward_items: quest.rewards?.items ?? [],
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+    };
+}
+
+/** Project quests on top of the built-in ones, by id */
+export function mergeQuests(builtin: Record<string, Quest>, definitions: QuestDefinition[]): Record<string, Quest> {
+    const quests = { ...builtin };
+    for (const definition of definitions) {
+        quests[definition.id] = questFromDefinition(definition);
+    }
+    return quests;
+}
+
+// =============================================================================
+// Target Validation
+// =============================================================================
+
+/** What objective targets can point at */
+export interface QuestProject {
+    maps: MapData[];
+    items: Item[];
+}
+
+export interface QuestNpcTarget {
+    id: string;
+    name: string;
+    mapId: string;
+    mapName: string;
+}
+
+export interface QuestIssue {
+    /** Missing for problems with the quest itself */
+    objectiveId?: string;
+    message: string;
+}
+
+/** Every NPC placed on a map, for talk/kill targets */
+export function listQuestNpcTargets(project: QuestProject): QuestNpcTarget[] {
+    return project.maps.flatMap(map =>
+        (map.npc_instances[0] ?? []).map(npc => ({
+            id: npc.id,
+            name: npc.name || npc.preset_id,
+            mapId: map.id,
+            mapName: map.name,
+        }))
+    );
+}
+
+function isGroupTarget(target: string): boolean {
+    return /^(faction|tag):.+/.test(target);
+}
+
+function validateObjective(objective: QuestObjective, project: QuestProject, npcIds: Set<string>): string | null {
+    if (!objective.target.trim()) return 'Objective needs a target';
+    if (!Number.isInteger(objective.required) || objective.required < 1) return 'Objective must require at least 1';
+
+    switch (objective.type) {
+        case 'talk':
+        case 'kill':
+            if (isGroupTarget(objective.target) || npcIds.has(objective.target)) return null;
+            return `No NPC with id "${objective.target}" is placed on any map`;
+        case 'collect':
+            if (project.items.some(i => i.id === objective.target)) return null;
+            return `No item with id "${objective.target}"`;
+        case 'visit': {
+            const region = parseQuestRegion(objective.target);
+            if (!region) return 'Region must be "x,y" or "x,y,width,height"';
+            if (objective.mapId === undefined) return null;
+            const map = project.maps.find(m => m.id === objective.mapId);
+            if (!map) return `No map with id "${objective.mapId}"`;
+            if (region.x < 0 || region.y < 0
+                || region.x + region.width > Number(map.width)
+                || region.y + region.height > Number(map.height)) {
+                return `Region lies outside ${map.name} (${map.width}x${map.height})`;
+            }
+            return null;
+        }
+    }
+}
+
+/** Problems that would make a quest impossible to finish */
+export function validateQuest(quest: Quest, project: QuestProject): QuestIssue[] {
+    const issues: QuestIssue[] = [];
+    if (!quest.id.trim()) issues.push({ message: 'Quest needs an id' });
+    if (!quest.title.trim()) issues.push({ message: 'Quest needs a title' });
+
+    const npcIds = new Set(listQuestNpcTargets(project).map(t => t.id));
+    const seen = new Set<string>();
+    for (const objective of quest.objectives) {
+        if (!objective.id.trim()) {
+            issues.push({ message: 'Every objective needs an id' });
+            continue;
+        }
+        if (seen.has(objective.id)) {
+            issues.push({ objectiveId: objective.id, message: `Objective id "${objective.id}" is used twice` });
+        }
+        seen.add(objective.id);
+
+        const problem = validateObjective(objective, project, npcIds);
+        if (problem) issues.push({ objectiveId: objective.id, message: problem });
+    }
+
+    for (const itemId of quest.rewards?.items ?? []) {
+        if (!project.items.some(i => i.id === itemId)) {
+            issues.push({ message: `Reward item "${itemId}" does not exist` });
+        }
+    }
+    return issues;
+}
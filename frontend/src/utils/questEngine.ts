@@ -0,0 +1,239 @@
+/**
+ * Quest Engine
+ *
+ * Advances quests from game events, independent of any view. Like the
+ * dialogue runtime every function is pure: it takes the world and the quest
+ * definitions and returns a new world plus notices for the UI to show.
+ *
+ * - talk, kill and visit objectives count events while their quest is active.
+ * - collect objectives follow the inventory, so items handed over in
+ *   dialogue count down again.
+ * - An active quest whose objectives are all met becomes completed. Turning
+ *   it in (the `turn_in_quest` dialogue action) grants its rewards.
+ *
+ * Objective targets:
+ * - talk / kill: an NPC id, `faction:<name>` or `tag:<name>`
+ * - collect: an item id
+ * - visit: a tile `x,y` or a region `x,y,width,height` (in tiles), on
+ *   `mapId` when the objective sets one
+ */
+
+import type { NPC, Quest, QuestObjective, QuestReward, QuestState } from '../types/npc';
+import type { DialogueWorld } from './dialogueRuntime';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Something that happened in the game that objectives may count */
+export type QuestEvent =
+    | { type: 'talk'; npc: Pick<NPC, 'id' | 'metadata'> }
+    | { type: 'kill'; npc: Pick<NPC, 'id' | 'metadata'> }
+    | { type: 'collect'; itemId: string } // Inventory already updated by the caller
+    | { type: 'visit'; mapId: string; x: number; y: number };
+
+export type QuestNotice =
+    | { type: 'started'; quest: Quest }
+    | { type: 'progress'; quest: Quest; objective: QuestObjective }
+    | { type: 'completed'; quest: Quest }
+    | { type: 'turned_in'; quest: Quest; rewards: QuestReward };
+
+export interface QuestUpdate {
+    world: DialogueWorld;
+    notices: QuestNotice[];
+}
+
+export interface QuestRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A started quest as the quest log shows it */
+export interface QuestLogEntry {
+    quest: Quest;
+    state: QuestState;
+    /** Objectives with `current` filled in from the world */
+    objectives: QuestObjective[];
+}
+
+// =============================================================================
+// Objectives
+// =============================================================================
+
+/** Parse a visit target; null when it is not `x,y` or `x,y,width,height` */
+export function parseQuestRegion(target: string): QuestRegion | null {
+    const parts = target.split(',').map(part => Number(part.trim()));
+    if ((parts.length !== 2 && parts.length !== 4) || parts.some(n => !Number.isInteger(n))) return null;
+    const [x, y, width = 1, height = 1] = parts as [number, number, number?, number?];
+    if (width < 1 || height < 1) return null;
+    return { x, y, width, height };
+}
+
+function matchesNpc(target: string, npc: Pick<NPC, 'id' | 'metadata'>): boolean {
+    if (target.startsWith('faction:')) return npc.metadata.faction === target.slice('faction:'.length);
+    if (target.startsWith('tag:')) return (npc.metadata.tags ?? []).includes(target.slice('tag:'.length));
+    return npc.id === target;
+}
+
+function matchesEvent(objective: QuestObjective, event: QuestEvent): boolean {
+    switch (event.type) {
+        case 'talk':
+        case 'kill':
+            return objective.type === event.type && matchesNpc(objective.target, event.npc);
+        case 'visit': {
+            if (objective.type !== 'visit' || (objective.mapId !== undefined && objective.mapId !== event.mapId)) return false;
+            const region = parseQuestRegion(objective.target);
+            return !!region
+                && event.x >= region.x && event.x < region.x + region.width
+                && event.y >= region.y && event.y < region.y + region.height;
+        }
+        case 'collect':
+            return false; // Collect objectives are read from the inventory
+    }
+}
+
+/** A quest's objectives with `current` taken from the world */
+export function questObjectives(world: DialogueWorld, quest: Quest): QuestObjective[] {
+    const progress = world.questProgress[quest.id] ?? {};
+    return quest.objectives.map(objective => ({
+        ...objective,
+        current: objective.type === 'collect'
+            ? Math.min(objective.required, world.inventory[objective.target] ?? 0)
+            : Math.min(objective.required, progress[objective.id] ?? 0),
+    }));
+}
+
+export function isObjectiveMet(objective: QuestObjective): boolean {
+    return objective.current >= objective.required;
+}
+
+// =============================================================================
+// Progression
+// =============================================================================
+
+function setQuestState(world: DialogueWorld, questId: string, state: QuestState): DialogueWorld {
+    return { ...world, questStates: { ...world.questStates, [questId]: state } };
+}
+
+/** Add a quest's rewards to the world */
+export function grantQuestRewards(world: DialogueWorld, rewards: QuestReward | undefined): DialogueWorld {
+    if (!rewards) return world;
+    const inventory = { ...world.inventory };
+    for (const itemId of rewards.items ?? []) {
+        inventory[itemId] = (inventory[itemId] ?? 0) + 1;
+    }
+    return {
+        ...world,
+        inventory,
+        gold: world.gold + (rewards.gold ?? 0),
+        experience: world.experience + (rewards.experience ?? 0),
+    };
+}
+
+/**
+ * Complete active quests whose objectives are all met. Quests without
+ * objectives only complete through dialogue (`complete_quest`).
+ */
+function settleQuests(world: DialogueWorld, quests: Record<string, Quest>, notices: QuestNotice[]): DialogueWorld {
+    let next = world;
+    for (const [questId, state] of Object.entries(world.questStates)) {
+        const quest = quests[questId];
+        if (state !== 'active' || !quest || quest.objectives.length === 0) continue;
+        if (questObjectives(next, quest).every(isObjectiveMet)) {
+            next = setQuestState(next, questId, 'completed');
+            notices.push({ type: 'completed', quest });
+        }
+    }
+    return next;
+}
+
+/** Count an event towards every active quest's matching objectives */
+export function applyQuestEvent(world: DialogueWorld, quests: Record<string, Quest>, event: QuestEvent): QuestUpdate {
+    const notices: QuestNotice[] = [];
+    let next = world;
+
+    for (const [questId, state] of Object.entries(world.questStates)) {
+        const quest = quests[questId];
+        if (state !== 'active' || !quest) continue;
+
+        const objectives = questObjectives(next, quest);
+        objectives.forEach((objective) => {
+            if (event.type === 'collect') {
+                // Report inventory-driven progress for the item that changed
+                if (objective.type === 'collect' && objective.target === event.itemId && objective.current > 0) {
+                    notices.push({ type: 'progress', quest, objective });
+                }
+                return;
+            }
+            if (isObjectiveMet(objective) || !matchesEvent(objective, event)) return;
+
+            const current = objective.current + 1;
+            next = {
+                ...next,
+                questProgress: {
+                    ...next.questProgress,
+                    [questId]: { ...next.questProgress[questId], [objective.id]: current },
+                },
+            };
+            notices.push({ type: 'progress', quest, objective: { ...objective, current } });
+        });
+    }
+
+    return { world: settleQuests(next, quests, notices), notices };
+}
+
+/**
+ * React to quest state changes made elsewhere (dialogue actions) between
+ * `previous` and `world`: announce started and completed quests, grant
+ * rewards for quests turned in, and complete quests whose objectives are
+ * already met - e.g. collect quests started with the items in hand.
+ */
+export function syncQuests(previous: DialogueWorld, world: DialogueWorld, quests: Record<string, Quest>): QuestUpdate {
+    const notices: QuestNotice[] = [];
+    let next = world;
+
+    for (const [questId, state] of Object.entries(world.questStates)) {
+        const quest = quests[questId];
+        if (!quest || previous.questStates[questId] === state) continue;
+
+        switch (state) {
+            case 'active':
+                notices.push({ type: 'started', quest });
+                break;
+            case 'completed':
+                notices.push({ type: 'completed', quest });
+                break;
+            case 'turned_in':
+                next = grantQuestRewards(next, quest.rewards);
+                notices.push({ type: 'turned_in', quest, rewards: quest.rewards ?? {} });
+                break;
+        }
+    }
+
+    return { world: settleQuests(next, quests, notices), notices };
+}
+
+/** Started quests for the quest log: active first, then completed, then turned in */
+export function questLog(world: DialogueWorld, quests: Record<string, Quest>): QuestLogEntry[] {
+    const order: QuestState[] = ['active', 'completed', 'turned_in'];
+    return Object.entries(world.questStates)
+        .filter(([questId, state]) => state !== 'available' && quests[questId])
+        .map(([questId, state]) => ({ quest: quests[questId]!, state, objectives: questObjectives(world, quests[questId]!) }))
+        .sort((a, b) => order.indexOf(a.state) - order.indexOf(b.state));
+}
+
+/** One-line summary of a notice, for toasts */
+export function describeQuestNotice(notice: QuestNotice): string {
+    switch (notice.type) {
+        case 'started':
+            return `Quest started: ${notice.quest.title}`;
+        case 'progress':
+            return `${notice.objective.description} (${notice.objective.current}/${notice.objective.required})`;
+        case 'completed':
+            return `Quest complete: ${notice.quest.title}`;
+        case 'turned_in':
+            return `Quest turned in: ${notice.quest.title}`;
+    }
+}
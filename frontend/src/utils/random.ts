@@ -0,0 +1,56 @@
+/**
+ * Seeded Random
+ *
+ * A small seeded generator (mulberry32) so runs that use randomness can be
+ * replayed. The whole generator state is one 32-bit number: store it to
+ * pause a sequence and pass it back to `createRandom` to continue it.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Random {
+    /** Float in [0, 1) */
+    next(): number;
+    /** Whole number in [0, max) */
+    int(max: number): number;
+    /** State to resume the sequence from */
+    state(): number;
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** One mulberry32 step: the value in [0, 1) and the next state */
+export function nextRandom(state: number): { value: number; state: number } {
+    const next = (state + 0x6d2b79f5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    const next = () => {
+        const result = nextRandom(state);
+        state = result.state;
+        return result.value;
+    };
+    return {
+        next,
+        int: (max: number) => Math.floor(next() * max),
+        state: () => state,
+    };
+}
+
+/** Turn any text (a map id, a typed-in seed) into a seed */
+export function seedFromString(text: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+    }
+    return hash >>> 0;
+}
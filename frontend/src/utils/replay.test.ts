@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { createDialogueWorld } from './dialogueRuntime';
+import { createNPC } from './npcController';
+import { createCraftingInteraction, createShopInteraction, createStaticMovement } from './npcModules';
+import {
+    createGameWorld,
+    gameTime,
+    stepGameWorld,
+    type GameContent,
+    type GameInput,
+    type GameMap,
+    type GameWorld,
+} from './gameWorld';
+import {
+    applyReplayAction,
+    parseReplay,
+    recordAction,
+    recordFrame,
+    seekPlayback,
+    startPlayback,
+    startRecording,
+    stringifyReplay,
+    type ReplayAction,
+} from './replay';
+
+const FRAME_MS = 1000 / 60;
+const MOVE_SPEED = 4;
+
+const MAP: GameMap = {
+    id: 'market',
+    width: 6,
+    height: 4,
+    tileSize: 32,
+    collision: new Set(['5,0']),
+    spawn: { x: 2, y: 1 },
+    spawnPoints: [],
+    objectInstances: [],
+    warps: [],
+};
+
+const CONTENT: GameContent = {
+    quests: {},
+    items: {
+        ore: { id: 'ore', name: 'Ore', description: '', icon: null, stackable: true, maxStack: 99, value: 4, tags: [] },
+        bar: { id: 'bar', name: 'Bar', description: '', icon: null, stackable: true, maxStack: 99, value: 20, tags: [] },
+    },
+    shops: {
+        smith: { id: 'smith', name: 'Smithy', greeting: '', stock: [{ itemId: 'ore', quantity: 3 }], restockSeconds: 60, buyBackPercent: 50 },
+    },
+    recipes: {
+        bar: { id: 'bar', name: 'Bar', station: 'forge', inputs: [{ itemId: 'ore', count: 2 }], outputs: [{ itemId: 'bar', count: 1 }], craftTimeMs: 400 },
+    },
+};
+
+function createWorld(seed: number): GameWorld {
+    const npcs = [
+        createNPC({ id: 'smith', position: { x: 2, y: 2 }, modules: [createStaticMovement(), createShopInteraction('smith')], metadata: { name: 'Smith' } }),
+        createNPC({ id: 'forge', position: { x: 3, y: 1 }, modules: [createStaticMovement(), createCraftingInteraction('forge')], metadata: { name: 'Forge' } }),
+    ];
+    return createGameWorld({
+        map: MAP,
+        npcs,
+        player: { name: 'Hero', hitbox: { offsetX: 8, offsetY: 8, width: 16, height: 16 } },
+        seed,
+        progress: createDialogueWorld({ gold: 50 }),
+    });
+}
+
+/** Key presses by frame, as the view would make them */
+const SCRIPT: Record<number, ReplayAction[]> = {
+    0: [{ type: 'interact' }],
+    2: [{ type: 'buy', shopId: 'smith', itemId: 'ore' }, { type: 'buy', shopId: 'smith', itemId: 'ore' }],
+    3: [{ type: 'buy', shopId: 'smith', itemId: 'ore' }, { type: 'sell', shopId: 'smith', itemId: 'ore' }],
+    4: [{ type: 'end_interaction', npcId: 'smith' }],
+    6: [{ type: 'craft_start', recipeId: 'bar' }],
+};
+
+/** Play the script live while recording it */
+function recordSession() {
+    let world = createWorld(99);
+    const recorder = startRecording(world, { mapRevision: '1', characterId: 'hero', moveSpeed: MOVE_SPEED });
+
+    for (let frame = 0; frame < 60; frame++) {
+        const actions = [...SCRIPT[frame] ?? []];
+        // The view hands over a crafting job's outputs once it is due
+        if (world.crafting && gameTime(world) >= world.crafting.finishesAt) actions.push({ type: 'craft_finish' });
+        for (const action of actions) {
+            world = applyReplayAction(world, CONTENT, action).world;
+            recordAction(recorder, action);
+        }
+
+        const input: GameInput = { right: frame >= 10 && frame < 20 };
+        world = stepGameWorld(world, CONTENT, FRAME_MS, input, { moveSpeed: MOVE_SPEED }).world;
+        recordFrame(recorder, FRAME_MS, input, MOVE_SPEED);
+    }
+    return { world, replay: recorder.replay };
+}
+
+describe('replay', () => {
+    it('plays back trades and crafting as recorded', () => {
+        const { world, replay } = recordSession();
+        expect(world.progress.inventory).toEqual({ bar: 1 });
+        expect(world.progress.gold).toBe(50 - 3 * 4 + 2);
+        expect(world.crafting).toBeNull();
+
+        const parsed = parseReplay(stringifyReplay(replay));
+        if (!('ok' in parsed)) throw new Error(parsed.err.message);
+
+        // Playback starts from the recording's start, not from the world it replaces
+        const playback = startPlayback(parsed.ok, MAP, createWorld(1));
+        const played = seekPlayback(playback, CONTENT, parsed.ok.frames.length).world;
+
+        expect(played.progress).toEqual(world.progress);
+        expect(played.shops).toEqual(world.shops);
+        expect(played.crafting).toBeNull();
+        expect(played.player.position).toEqual(world.player.position);
+        expect(gameTime(played)).toBe(gameTime(world));
+    });
+});
+
+describe('parseReplay', () => {
+    const { replay } = recordSession();
+
+    function withChanges(change: (replay: any) => void): string {
+        const copy = JSON.parse(stringifyReplay(replay));
+        change(copy);
+        return JSON.stringify(copy);
+    }
+
+    function errorOf(text: string): string | undefined {
+        const result = parseReplay(text);
+        return 'err' in result ? result.err.message : undefined;
+    }
+
+    it('rejects files that are not replays', () => {
+        expect(errorOf('not json')).toBe('The file is not valid JSON');
+        expect(errorOf('null')).toBe('The file is not a Tile Smith replay');
+        expect(parseReplay(withChanges(r => { r.version = 99; }))).toMatchObject({ err: { code: 'UNSUPPORTED_VERSION' } });
+    });
+
+    it('rejects a malformed start state', () => {
+        expect(errorOf(withChanges(r => { delete r.start; }))).toMatch(/start state/);
+        expect(errorOf(withChanges(r => { r.start.player.position = 'here'; }))).toMatch(/start state/);
+        expect(errorOf(withChanges(r => { r.start.simulation.randomState = null; }))).toMatch(/start state/);
+        expect(errorOf(withChanges(r => { r.start.crafting = { recipeId: 'bar' }; }))).toMatch(/start state/);
+        expect(errorOf(withChanges(r => {
+            r.start.crafting = { recipeId: 'bar', name: 'Bar', outputs: [{ itemId: 'bar' }], startedAt: 0, finishesAt: 400 };
+        }))).toMatch(/start state/);
+    });
+
+    it('rejects malformed frames and actions, naming the frame', () => {
+        expect(errorOf(withChanges(r => { r.frames = {}; }))).toBe('The replay has no frames');
+        expect(errorOf(withChanges(r => { r.frames[5].dt = -1; }))).toBe('Frame 5 of the replay is malformed');
+        expect(errorOf(withChanges(r => { r.frames[7].keys = 64; }))).toBe('Frame 7 of the replay is malformed');
+        expect(errorOf(withChanges(r => { r.frames[2].actions = [{ type: 'buy', shopId: 'smith' }]; }))).toBe('Frame 2 of the replay is malformed');
+        expect(errorOf(withChanges(r => { r.frames[0].actions = [{ type: 'teleport' }]; }))).toBe('Frame 0 of the replay is malformed');
+    });
+
+    it('reads version 1 replays, which had no shops or crafting', () => {
+        const result = parseReplay(withChanges(r => {
+            r.version = 1;
+            delete r.start.shops;
+            delete r.start.crafting;
+        }));
+        if (!('ok' in result)) throw new Error(result.err.message);
+        expect(result.ok.start.shops).toEqual({});
+        expect(result.ok.start.crafting).toBeNull();
+    });
+});
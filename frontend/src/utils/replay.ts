@@ -0,0 +1,474 @@
+/**
+ * Replays
+ *
+ * Records a game test session so a bug seen once can be played back exactly.
+ * A replay holds the world as it was when recording started (player, NPCs,
+ * progress, shop stock, the crafting job and the NPC simulation's seed,
+ * clock and random state), the map it was recorded on and, for every frame
+ * after that, its length, the directions held and the key presses handled
+ * before it. Trades and crafting are key presses like any other; a crafting
+ * job finishing is recorded on the frame the view handed over its outputs.
+ *
+ * The game world is deterministic, so applying the same frames to the same
+ * start on the same map gives the same run. The map itself is not stored:
+ * playback loads it by id, and `mapRevision` (the map's `updated_at`) tells
+ * whether it has been edited since.
+ *
+ * A replay covers one map. Recording stops when the player warps to another
+ * map, and playback does not follow warps.
+ */
+
+import type { DialogueState } from '../types/npc';
+import type { ValidationError } from '../backend';
+import type { DialogueWorld } from './dialogueRuntime';
+import type { NPCSimulation } from './npcSimulation';
+import type { ShopStates } from './shop';
+import type { CraftingJob } from './crafting';
+import {
+    attackGameWorld,
+    buyGameItem,
+    endGameInteraction,
+    finishGameCraft,
+    interactGameWorld,
+    sellGameItem,
+    setGameMap,
+    startGameCraft,
+    stepGameWorld,
+    type GameContent,
+    type GameEvent,
+    type GameInput,
+    type GameMap,
+    type GamePlayer,
+    type GameUpdate,
+    type GameWorld,
+} from './gameWorld';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const REPLAY_FORMAT = 'tile-smith-replay';
+/** 2: shop stock, the crafting job and their actions */
+export const REPLAY_VERSION = 2;
+
+/** A key press the world handles between frames */
+export type ReplayAction =
+    | { type: 'interact'; choice?: number }
+    | { type: 'attack' }
+    /** Leaving a shop or crafting window */
+    | { type: 'end_interaction'; npcId: string }
+    | { type: 'buy'; shopId: string; itemId: string }
+    | { type: 'sell'; shopId: string; itemId: string }
+    | { type: 'craft_start'; recipeId: string }
+    /** Handing over the crafting job's outputs once due */
+    | { type: 'craft_finish' };
+
+export interface ReplayFrame {
+    /** Frame length in ms */
+    dt: number;
+    /** Directions held, as bits: up 1, down 2, left 4, right 8 */
+    keys: number;
+    /** Key presses handled before the frame is stepped */
+    actions?: ReplayAction[];
+    /** Movement speed, when it changed on this frame */
+    moveSpeed?: number;
+}
+
+/** The world when recording started, without the map */
+export interface ReplayStart {
+    player: GamePlayer;
+    simulation: NPCSimulation;
+    progress: DialogueWorld;
+    dialogue: DialogueState | null;
+    collectedPickups: string[];
+    lastTile: string;
+    shops: ShopStates;
+    crafting: CraftingJob | null;
+}
+
+export interface Replay {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    recorded_at: string;
+    mapId: string;
+    /** The map's `updated_at` when recorded */
+    mapRevision: string;
+    characterId: string;
+    /** Seed of the NPC simulation; the start's random state continues from it */
+    seed: number;
+    moveSpeed: number;
+    start: ReplayStart;
+    frames: ReplayFrame[];
+}
+
+export type ReplayReadResult = { ok: Replay } | { err: ValidationError };
+
+/**
+ * A replay being recorded. Frames are appended in place: a session runs for
+ * tens of thousands of them.
+ */
+export interface ReplayRecorder {
+    replay: Replay;
+    /** Key presses since the last frame */
+    pending: ReplayAction[];
+}
+
+export interface ReplayPlayback {
+    replay: Replay;
+    /** Frames applied so far */
+    frame: number;
+    world: GameWorld;
+    moveSpeed: number;
+    /** Time into the next frame, carried between `advancePlayback` calls */
+    elapsed: number;
+    /** State every CHECKPOINT_FRAMES frames, so seeking back does not replay from the start */
+    checkpoints: { world: GameWorld; moveSpeed: number }[];
+}
+
+const CHECKPOINT_FRAMES = 600;
+
+const INPUT_BITS: [keyof GameInput, number][] = [['up', 1], ['down', 2], ['left', 4], ['right', 8]];
+
+// =============================================================================
+// Input
+// =============================================================================
+
+export function encodeInput(input: GameInput): number {
+    return INPUT_BITS.reduce((keys, [key, bit]) => input[key] ? keys | bit : keys, 0);
+}
+
+export function decodeInput(keys: number): GameInput {
+    const input: GameInput = {};
+    for (const [key, bit] of INPUT_BITS) {
+        if (keys & bit) input[key] = true;
+    }
+    return input;
+}
+
+/** Apply a key press; live play goes through here too, so recordings match it */
+export function applyReplayAction(world: GameWorld, content: GameContent, action: ReplayAction): GameUpdate {
+    switch (action.type) {
+        case 'interact':
+            return interactGameWorld(world, content, action.choice);
+        case 'attack':
+            return attackGameWorld(world, content);
+        case 'end_interaction':
+            return { world: endGameInteraction(world, action.npcId), events: [] };
+        case 'buy':
+            return buyGameItem(world, content, action.shopId, action.itemId);
+        case 'sell':
+            return sellGameItem(world, content, action.shopId, action.itemId);
+        case 'craft_start':
+            return startGameCraft(world, content, action.recipeId);
+        case 'craft_finish':
+            return finishGameCraft(world, content);
+    }
+}
+
+/** Apply one recorded frame: its key presses, then the step */
+export function applyReplayFrame(
+    world: GameWorld,
+    content: GameContent,
+    frame: ReplayFrame,
+    moveSpeed: number
+): GameUpdate {
+    let current = world;
+    const events: GameEvent[] = [];
+    for (const action of frame.actions ?? []) {
+        const result = applyReplayAction(current, content, action);
+        current = result.world;
+        events.push(...result.events);
+    }
+
+    const result = stepGameWorld(current, content, frame.dt, decodeInput(frame.keys), { moveSpeed });
+    return { world: result.world, events: [...events, ...result.events] };
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+export function startRecording(
+    world: GameWorld,
+    session: { mapRevision: string; characterId: string; moveSpeed: number }
+): ReplayRecorder {
+    return {
+        replay: {
+            format: REPLAY_FORMAT,
+            version: REPLAY_VERSION,
+            recorded_at: new Date().toISOString(),
+            mapId: world.map.id,
+            mapRevision: session.mapRevision,
+            characterId: session.characterId,
+            seed: world.simulation.seed,
+            moveSpeed: session.moveSpeed,
+            start: {
+                player: world.player,
+                simulation: world.simulation,
+                progress: world.progress,
+                dialogue: world.dialogue,
+                collectedPickups: [...world.collectedPickups],
+                lastTile: world.lastTile,
+                shops: world.shops,
+                crafting: world.crafting,
+            },
+            frames: [],
+        },
+        pending: [],
+    };
+}
+
+/** Note a key press; it is stored with the next frame */
+export function recordAction(recorder: ReplayRecorder, action: ReplayAction): void {
+    recorder.pending.push(action);
+}
+
+export function recordFrame(recorder: ReplayRecorder, dt: number, input: GameInput, moveSpeed: number): void {
+    const frame: ReplayFrame = { dt, keys: encodeInput(input) };
+    if (recorder.pending.length > 0) {
+        frame.actions = recorder.pending;
+        recorder.pending = [];
+    }
+    if (moveSpeed !== currentMoveSpeed(recorder.replay)) frame.moveSpeed = moveSpeed;
+    recorder.replay.frames.push(frame);
+}
+
+/** Speed in effect after the last recorded frame */
+function currentMoveSpeed(replay: Replay): number {
+    for (let i = replay.frames.length - 1; i >= 0; i--) {
+        const speed = replay.frames[i].moveSpeed;
+        if (speed !== undefined) return speed;
+    }
+    return replay.moveSpeed;
+}
+
+/** Total length of the recorded frames in ms */
+export function replayDuration(replay: Replay): number {
+    return replay.frames.reduce((total, frame) => total + frame.dt, 0);
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+/** Character stats hold Candid bigints, which JSON cannot hold natively */
+export function stringifyReplay(replay: Replay): string {
+    return JSON.stringify(replay, (_, value) => typeof value === 'bigint' ? { $bigint: value.toString() } : value);
+}
+
+function replayError(code: string, message: string): { err: ValidationError } {
+    return { err: { code, message, fix_attempted: false } };
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+function isPosition(value: unknown): boolean {
+    return isRecord(value) && isNumber(value.x) && isNumber(value.y);
+}
+
+function isCraftingJob(value: unknown): boolean {
+    return isRecord(value)
+        && isString(value.recipeId)
+        && isString(value.name)
+        && Array.isArray(value.outputs)
+        && value.outputs.every(output => isRecord(output) && isString(output.itemId) && isNumber(output.count))
+        && isNumber(value.startedAt)
+        && isNumber(value.finishesAt);
+}
+
+/** The fields playback and the world read; the rest is carried as recorded */
+function isReplayStart(start: unknown): start is ReplayStart {
+    if (!isRecord(start)) return false;
+    const { player, simulation, progress } = start;
+    return isRecord(player)
+        && isPosition(player.position)
+        && isString(player.direction)
+        && isRecord(player.hitbox)
+        && isRecord(player.combat)
+        && isRecord(simulation)
+        && Array.isArray(simulation.npcs)
+        && simulation.npcs.every(npc => isRecord(npc) && isString(npc.id) && isPosition(npc.position))
+        && ['seed', 'randomState', 'tick', 'time', 'accumulator'].every(key => isNumber(simulation[key]))
+        && isRecord(progress)
+        && isRecord(progress.inventory)
+        && isRecord(progress.questStates)
+        && isNumber(progress.gold)
+        && (start.dialogue === null || isRecord(start.dialogue))
+        && Array.isArray(start.collectedPickups)
+        && start.collectedPickups.every(isString)
+        && isString(start.lastTile)
+        && isRecord(start.shops)
+        && (start.crafting === null || isCraftingJob(start.crafting));
+}
+
+function isReplayAction(action: unknown): action is ReplayAction {
+    if (!isRecord(action)) return false;
+    switch (action.type) {
+        case 'interact':
+            return action.choice === undefined || (Number.isInteger(action.choice) && (action.choice as number) >= 0);
+        case 'attack':
+        case 'craft_finish':
+            return true;
+        case 'end_interaction':
+            return isString(action.npcId);
+        case 'buy':
+        case 'sell':
+            return isString(action.shopId) && isString(action.itemId);
+        case 'craft_start':
+            return isString(action.recipeId);
+        default:
+            return false;
+    }
+}
+
+function isReplayFrame(frame: unknown): frame is ReplayFrame {
+    return isRecord(frame)
+        && isNumber(frame.dt) && frame.dt >= 0
+        && Number.isInteger(frame.keys) && (frame.keys as number) >= 0 && (frame.keys as number) <= 15
+        && (frame.actions === undefined || (Array.isArray(frame.actions) && frame.actions.every(isReplayAction)))
+        && (frame.moveSpeed === undefined || isNumber(frame.moveSpeed));
+}
+
+/** Read a replay file, checking everything playback relies on so a bad file fails here and not mid-run */
+export function parseReplay(text: string): ReplayReadResult {
+    let replay: JsonObject;
+    try {
+        replay = JSON.parse(text, (_, value) => value && typeof value === 'object' && typeof value.$bigint === 'string'
+            ? BigInt(value.$bigint)
+            : value);
+    } catch {
+        return replayError('INVALID_REPLAY', 'The file is not valid JSON');
+    }
+    if (!isRecord(replay) || replay.format !== REPLAY_FORMAT) {
+        return replayError('INVALID_REPLAY', 'The file is not a Tile Smith replay');
+    }
+    if (!isNumber(replay.version)) {
+        return replayError('INVALID_REPLAY', 'The replay has no version');
+    }
+    if (replay.version > REPLAY_VERSION) {
+        return replayError('UNSUPPORTED_VERSION', `Replay version ${replay.version} is newer than this app supports (${REPLAY_VERSION})`);
+    }
+    if (!isString(replay.mapId) || !isString(replay.mapRevision) || !isString(replay.characterId)
+        || !isNumber(replay.seed) || !isNumber(replay.moveSpeed)) {
+        return replayError('INVALID_REPLAY', 'The replay is missing its map, character, seed or speed');
+    }
+
+    // Version 1 did not record shops or crafting
+    const start = replay.version < 2 && isRecord(replay.start)
+        ? { shops: {}, crafting: null, ...replay.start }
+        : replay.start;
+    if (!isReplayStart(start)) {
+        return replayError('INVALID_REPLAY', 'The replay\'s start state is missing or malformed');
+    }
+
+    if (!Array.isArray(replay.frames)) {
+        return replayError('INVALID_REPLAY', 'The replay has no frames');
+    }
+    const bad = replay.frames.findIndex(frame => !isReplayFrame(frame));
+    if (bad !== -1) {
+        return replayError('INVALID_REPLAY', `Frame ${bad} of the replay is malformed`);
+    }
+
+    return { ok: { ...replay, start } as Replay };
+}
+
+// =============================================================================
+// Playback
+// =============================================================================
+
+/** Start playing `replay` on `map`, which must be the map it was recorded on */
+export function startPlayback(replay: Replay, map: GameMap, current: GameWorld): ReplayPlayback {
+    const { start } = replay;
+    const world = setGameMap({
+        ...current,
+        player: start.player,
+        simulation: start.simulation,
+        progress: start.progress,
+        dialogue: start.dialogue,
+        collectedPickups: new Set(start.collectedPickups),
+        lastTile: start.lastTile,
+        shops: start.shops,
+        crafting: start.crafting,
+    }, map);
+
+    return {
+        replay,
+        frame: 0,
+        world,
+        moveSpeed: replay.moveSpeed,
+        elapsed: 0,
+        checkpoints: [{ world, moveSpeed: replay.moveSpeed }],
+    };
+}
+
+export function isPlaybackDone(playback: ReplayPlayback): boolean {
+    return playback.frame >= playback.replay.frames.length;
+}
+
+/** Apply the next frame */
+export function stepPlayback(playback: ReplayPlayback, content: GameContent): { playback: ReplayPlayback; events: GameEvent[] } {
+    const frame = playback.replay.frames[playback.frame];
+    if (!frame) return { playback, events: [] };
+
+    const moveSpeed = frame.moveSpeed ?? playback.moveSpeed;
+    const result = applyReplayFrame(playback.world, content, frame, moveSpeed);
+    const index = playback.frame + 1;
+
+    // Checkpoints are kept in order, one per CHECKPOINT_FRAMES frames
+    const checkpoints = index % CHECKPOINT_FRAMES === 0 && playback.checkpoints.length === index / CHECKPOINT_FRAMES
+        ? [...playback.checkpoints, { world: result.world, moveSpeed }]
+        : playback.checkpoints;
+
+    return {
+        playback: { ...playback, frame: index, world: result.world, moveSpeed, checkpoints },
+        events: result.events,
+    };
+}
+
+/** Play frames covering `elapsedMs` of recorded time (already scaled by the playback speed) */
+export function advancePlayback(
+    playback: ReplayPlayback,
+    content: GameContent,
+    elapsedMs: number
+): { playback: ReplayPlayback; events: GameEvent[] } {
+    let current = playback;
+    const events: GameEvent[] = [];
+    let elapsed = playback.elapsed + Math.max(0, elapsedMs);
+
+    while (!isPlaybackDone(current) && elapsed >= current.replay.frames[current.frame].dt) {
+        elapsed -= current.replay.frames[current.frame].dt;
+        const result = stepPlayback(current, content);
+        current = result.playback;
+        events.push(...result.events);
+    }
+
+    return { playback: { ...current, elapsed: isPlaybackDone(current) ? 0 : elapsed }, events };
+}
+
+/** Jump to a frame, from the nearest checkpoint before it; events on the way are dropped */
+export function seekPlayback(playback: ReplayPlayback, content: GameContent, frame: number): ReplayPlayback {
+    const target = Math.max(0, Math.min(Math.round(frame), playback.replay.frames.length));
+    let current = playback;
+    if (target < playback.frame) {
+        const index = Math.min(Math.floor(target / CHECKPOINT_FRAMES), playback.checkpoints.length - 1);
+        const checkpoint = playback.checkpoints[index];
+        current = { ...playback, frame: index * CHECKPOINT_FRAMES, world: checkpoint.world, moveSpeed: checkpoint.moveSpeed };
+    }
+
+    while (current.frame < target) {
+        current = stepPlayback(current, content).playback;
+    }
+    return { ...current, elapsed: 0 };
+}
@@ -0,0 +1,222 @@
+/**
+ * Shops
+ *
+ * Shop definitions and trading rules for the game test runtime. A shop is
+ * keyed by the `shopId` of NPC shop modules.
+ *
+ * - Stock lines sell at their own price, or the item's value when unset.
+ * - Lines with a quantity run out; every `restockSeconds` they refill to
+ *   that quantity. Lines without one never run out.
+ * - The shop buys any catalog item at `buyBackPercent` of its value. Items
+ *   it stocks with a limited quantity go back on its shelf.
+ *
+ * Like the dialogue runtime and quest engine every function is pure: the
+ * caller passes the current time and stores the returned world and state.
+ */
+
+import type { ShopDefinition } from '../backend';
+import type { DialogueWorld } from './dialogueRuntime';
+import { addItems, countItem, removeItems, type ItemCatalog, type ItemDefinition } from './inventory';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ShopStockLine {
+    itemId: string;
+    /** Price in gold; the item's value when unset */
+    price?: number;
+    /** Stock after each restock; unlimited when unset */
+    quantity?: number;
+}
+
+export interface Shop {
+    id: string;
+    name: string;
+    greeting: string;
+    stock: ShopStockLine[];
+    /** Limited lines refill this often; never when 0 */
+    restockSeconds: number;
+    /** Share of an item's value paid when the player sells it (0-100) */
+    buyBackPercent: number;
+}
+
+/** A shop's stock while the game runs */
+export interface ShopState {
+    /** Items left per limited stock line */
+    remaining: Record<string, number>;
+    /** Time of the last restock, in ms */
+    restockedAt: number;
+}
+
+export type ShopStates = Record<string, ShopState>;
+
+export interface ShopOffer {
+    itemId: string;
+    item?: ItemDefinition;
+    price: number;
+    /** Left in the shop (buying) or held by the player (selling); undefined = unlimited */
+    available?: number;
+}
+
+export type ShopTradeResult =
+    | { ok: { world: DialogueWorld; state: ShopState } }
+    | { err: string };
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+export function shopFromRecord(record: ShopDefinition): Shop {
+    return {
+        id: record.id,
+        name: record.name,
+        greeting: record.greeting,
+        stock: record.stock.map(line => ({
+            itemId: line.item_id,
+            price: line.price[0] === undefined ? undefined : Number(line.price[0]),
+            quantity: line.quantity[0] === undefined ? undefined : Number(line.quantity[0]),
+        })),
+        restockSeconds: Number(record.restock_seconds),
+        buyBackPercent: Number(record.buy_back_percent),
+    };
+}
+
+/** `existing` keeps the original creation time when updating */
+export function shopToRecord(shop: Shop, existing?: ShopDefinition): ShopDefinition {
+    const now = BigInt(Date.now());
+    const nat = (n: number) => BigInt(Math.max(0, Math.trunc(n)));
+    return {
+        id: shop.id,
+        name: shop.name,
+        greeting: shop.greeting,
+        stock: shop.stock.map(line => ({
+            item_id: line.itemId,
+            price: line.price === undefined ? [] : [nat(line.price)],
+            quantity: line.quantity === undefined ? [] : [nat(line.quantity)],
+        })),
+        restock_seconds: nat(shop.restockSeconds),
+        buy_back_percent: nat(Math.min(100, shop.buyBackPercent)),
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+    };
+}
+
+export function createShopCatalog(records: ShopDefinition[]): Record<string, Shop> {
+    return Object.fromEntries(records.map(record => [record.id, shopFromRecord(record)]));
+}
+
+// =============================================================================
+// Stock
+// =============================================================================
+
+function fullStock(shop: Shop): Record<string, number> {
+    const remaining: Record<string, number> = {};
+    for (const line of shop.stock) {
+        if (line.quantity !== undefined) remaining[line.itemId] = line.quantity;
+    }
+    return remaining;
+}
+
+/** The shop's state on entering it: fresh stock the first time, restocked when due */
+export function openShop(shop: Shop, state: ShopState | undefined, now: number): ShopState {
+    if (!state) return { remaining: fullStock(shop), restockedAt: now };
+    if (shop.restockSeconds > 0 && now - state.restockedAt >= shop.restockSeconds * 1000) {
+        return { remaining: { ...state.remaining, ...fullStock(shop) }, restockedAt: now };
+    }
+    return state;
+}
+
+function stockLine(shop: Shop, itemId: string): ShopStockLine | undefined {
+    return shop.stock.find(line => line.itemId === itemId);
+}
+
+export function buyPrice(line: ShopStockLine, catalog: ItemCatalog): number {
+    return line.price ?? catalog[line.itemId]?.value ?? 0;
+}
+
+export function sellPrice(shop: Shop, item: ItemDefinition): number {
+    return Math.floor(item.value * shop.buyBackPercent / 100);
+}
+
+/** What the shop sells, in stock order */
+export function shopBuyOffers(shop: Shop, state: ShopState, catalog: ItemCatalog): ShopOffer[] {
+    return shop.stock.map(line => ({
+        itemId: line.itemId,
+        item: catalog[line.itemId],
+        price: buyPrice(line, catalog),
+        available: line.quantity === undefined ? undefined : state.remaining[line.itemId] ?? 0,
+    }));
+}
+
+/** What the player can sell: every held catalog item */
+export function shopSellOffers(shop: Shop, world: DialogueWorld, catalog: ItemCatalog): ShopOffer[] {
+    return Object.keys(world.inventory)
+        .filter(itemId => catalog[itemId] && countItem(world.inventory, itemId) > 0)
+        .sort()
+        .map(itemId => ({
+            itemId,
+            item: catalog[itemId],
+            price: sellPrice(shop, catalog[itemId]!),
+            available: countItem(world.inventory, itemId),
+        }));
+}
+
+// =============================================================================
+// Trading
+// =============================================================================
+
+/** Buy one item */
+export function buyFromShop(
+    world: DialogueWorld,
+    catalog: ItemCatalog,
+    shop: Shop,
+    state: ShopState,
+    itemId: string
+): ShopTradeResult {
+    const line = stockLine(shop, itemId);
+    if (!line) return { err: `${shop.name} does not sell that` };
+
+    const limited = line.quantity !== undefined;
+    if (limited && (state.remaining[itemId] ?? 0) <= 0) return { err: 'Sold out' };
+
+    const price = buyPrice(line, catalog);
+    if (world.gold < price) return { err: 'Not enough gold' };
+
+    const { inventory, added } = addItems(world.inventory, catalog, itemId, 1);
+    if (added === 0) return { err: 'Inventory full' };
+
+    return {
+        ok: {
+            world: { ...world, inventory, gold: world.gold - price },
+            state: limited
+                ? { ...state, remaining: { ...state.remaining, [itemId]: (state.remaining[itemId] ?? 0) - 1 } }
+                : state,
+        },
+    };
+}
+
+/** Sell one item */
+export function sellToShop(
+    world: DialogueWorld,
+    catalog: ItemCatalog,
+    shop: Shop,
+    state: ShopState,
+    itemId: string
+): ShopTradeResult {
+    const item = catalog[itemId];
+    if (!item) return { err: `${shop.name} does not buy that` };
+
+    const { inventory, removed } = removeItems(world.inventory, itemId, 1);
+    if (removed === 0) return { err: 'You have none to sell' };
+
+    const restocks = stockLine(shop, itemId)?.quantity !== undefined;
+    return {
+        ok: {
+            world: { ...world, inventory, gold: world.gold + sellPrice(shop, item) },
+            state: restocks
+                ? { ...state, remaining: { ...state.remaining, [itemId]: (state.remaining[itemId] ?? 0) + 1 } }
+                : state,
+        },
+    };
+}
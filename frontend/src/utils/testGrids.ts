@@ -0,0 +1,14 @@
+/**
+ * Navigation grids for the tests, drawn as rows of text
+ */
+
+import { buildNavigationGrid, type NavigationGrid } from './pathfinding';
+
+/** Grid from rows of text: "#" is solid, anything else walkable */
+export function sampleMap(rows: string[]): NavigationGrid {
+    const collision = new Set<string>();
+    rows.forEach((row, y) => [...row].forEach((cell, x) => {
+        if (cell === '#') collision.add(`${x},${y}`);
+    }));
+    return buildNavigationGrid({ width: rows[0]!.length, height: rows.length, collision });
+}
@@ -0,0 +1,1126 @@
+/**
+ * Tiled Import / Export
+ *
+ * Converts maps to and from the Tiled map editor's formats: TMJ/TSJ (JSON)
+ * and TMX/TSX (XML). Both formats are built from one in-memory model that
+ * mirrors Tiled's JSON structure.
+ *
+ * Export writes one Tiled tileset per referenced TileSet (plus one for tiles
+ * that belong to no set), each backed by a generated atlas PNG. The atlas can
+ * be embedded in a single self-contained file (tilesets inlined, image as a
+ * data URI) or written as side-car TSJ/TSX + PNG files.
+ *
+ * Tile ids, solidity, objects, spawn points, NPCs and warps travel as custom
+ * properties, so a round trip restores them. On import, GIDs are mapped back
+ * to existing tiles through the `tile_id` property; tiles without a match are
+ * cut from the atlas and returned as new TileMetadata to create.
+ */
+
+import type { MapData, TileMetadata, TileSet, ValidationError } from '../backend';
+import type { DownloadFile } from './download';
+import { TILE_PIXEL_SIZE, decodeImage, encodePng, type PixelBuffer } from './imageValidation';
+import { createLayer, flattenTileLayers, layersFromBackend, layersToBackend, type EditorLayer } from './mapLayers';
+import { DEFAULT_WARP_FADE_MS } from './mapWarps';
+
+// =============================================================================
+// Tiled Model (subset of the Tiled JSON format)
+// =============================================================================
+
+export type TiledPropertyType = 'string' | 'int' | 'float' | 'bool';
+
+export interface TiledProperty {
+    name: string;
+    type: TiledPropertyType;
+    value: string | number | boolean;
+}
+
+export interface TiledTileDef {
+    id: number;
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    properties?: TiledProperty[];
+}
+
+export interface TiledTileset {
+    name: string;
+    tilewidth: number;
+    tileheight: number;
+    tilecount: number;
+    columns: number;
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    margin: number;
+    spacing: number;
+    tiles?: TiledTileDef[];
+    properties?: TiledProperty[];
+}
+
+/** A map's tileset entry - either external (source) or embedded */
+export type TiledTilesetRef = { firstgid: number; source: string } | (TiledTileset & { firstgid: number });
+
+export interface TiledObject {
+    id: number;
+    name: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    gid?: number;
+    properties?: TiledProperty[];
+}
+
+export interface TiledTileLayer {
+    id: number;
+    name: string;
+    type: 'tilelayer';
+    width: number;
+    height: number;
+    visible: boolean;
+    data: number[];
+    properties?: TiledProperty[];
+}
+
+export interface TiledObjectGroup {
+    id: number;
+    name: string;
+    type: 'objectgroup';
+    visible: boolean;
+    objects: TiledObject[];
+    properties?: TiledProperty[];
+}
+
+export type TiledLayer = TiledTileLayer | TiledObjectGroup;
+
+export interface TiledMap {
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    orientation: string;
+    infinite: boolean;
+    layers: TiledLayer[];
+    tilesets: TiledTilesetRef[];
+    properties?: TiledProperty[];
+}
+
+export type TiledFormat = 'tmj' | 'tmx';
+export type TiledAtlasMode = 'embedded' | 'sidecar';
+
+export interface TiledExportOptions {
+    format: TiledFormat;
+    atlas: TiledAtlasMode;
+}
+
+export interface TiledImportPlan {
+    map: MapData;
+    newTiles: Array<{ metadata: TileMetadata; png: Uint8Array }>;
+    reusedTileCount: number;
+    warnings: string[];
+}
+
+export type TiledImportResult = { ok: TiledImportPlan } | { err: ValidationError };
+
+const TILED_VERSION = '1.8';
+const TILED_APP_VERSION = '1.8.2';
+
+/** GIDs carry flip flags in their top bits */
+const GID_FLIP_MASK = 0xf0000000;
+const GID_MASK = 0x0fffffff;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function slugify(value: string, fallback: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || fallback;
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+    let id = base;
+    let suffix = 2;
+    while (taken.has(id)) {
+        id = `${base}_${suffix++}`;
+    }
+    taken.add(id);
+    return id;
+}
+
+function property(name: string, value: string | number | boolean): TiledProperty {
+    const type: TiledPropertyType = typeof value === 'boolean'
+        ? 'bool'
+        : typeof value === 'number'
+            ? (Number.isInteger(value) ? 'int' : 'float')
+            : 'string';
+    return { name, type, value };
+}
+
+function getProperty(properties: TiledProperty[] | undefined, name: string): string | number | boolean | undefined {
+    return properties?.find(p => p.name === name)?.value;
+}
+
+function getStringProperty(properties: TiledProperty[] | undefined, name: string): string | undefined {
+    const value = getProperty(properties, name);
+    return value === undefined ? undefined : String(value);
+}
+
+function baseName(path: string): string {
+    return path.split(/[\\/]/).pop() ?? path;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64.trim());
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function tiledError(code: string, message: string): { err: ValidationError } {
+    return { err: { code, message, fix_attempted: false } };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+interface TilesetPlan {
+    name: string;
+    fileBase: string;
+    tileSetId: string | null;
+    tiles: TileMetadata[];
+}
+
+/**
+ * One Tiled tileset per TileSet that holds a tile used on the map, plus a
+ * catch-all for used tiles that belong to no set
+ */
+function planTilesets(usedTileIds: Set<string>, tiles: TileMetadata[], tileSets: TileSet[]): TilesetPlan[] {
+    const tilesById = new Map(tiles.map(t => [t.id, t]));
+    const covered = new Set<string>();
+    const plans: TilesetPlan[] = [];
+    const fileNames = new Set<string>();
+
+    for (const set of tileSets) {
+        if (!set.tile_ids.some(id => usedTileIds.has(id))) continue;
+        const setTiles = set.tile_ids.map(id => tilesById.get(id)).filter((t): t is TileMetadata => !!t);
+        setTiles.forEach(t => covered.add(t.id));
+        plans.push({ name: set.name, fileBase: uniqueId(slugify(set.id, 'tileset'), fileNames), tileSetId: set.id, tiles: setTiles });
+    }
+
+    const loose = Array.from(usedTileIds)
+        .filter(id => !covered.has(id))
+        .map(id => tilesById.get(id))
+        .filter((t): t is TileMetadata => !!t);
+    if (loose.length > 0) {
+        plans.push({ name: 'Map Tiles', fileBase: uniqueId('map_tiles', fileNames), tileSetId: null, tiles: loose });
+    }
+
+    return plans;
+}
+
+/** Pack tile images into a grid atlas; missing images stay transparent */
+async function buildAtlas(
+    tiles: TileMetadata[],
+    columns: number,
+    loadTileImage: (tileId: string) => Promise<Uint8Array | null>
+): Promise<PixelBuffer> {
+    const rows = Math.max(1, Math.ceil(tiles.length / columns));
+    const width = columns * TILE_PIXEL_SIZE;
+    const height = rows * TILE_PIXEL_SIZE;
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    for (let i = 0; i < tiles.length; i++) {
+        const bytes = await loadTileImage(tiles[i]!.id);
+        if (!bytes) continue;
+
+        let image: PixelBuffer;
+        try {
+            image = await decodeImage(bytes);
+        } catch (err) {
+            console.warn(`[tiled] Could not decode image for tile ${tiles[i]!.id}:`, err);
+            continue;
+        }
+
+        const originX = (i % columns) * TILE_PIXEL_SIZE;
+        const originY = Math.floor(i / columns) * TILE_PIXEL_SIZE;
+        for (let y = 0; y < Math.min(TILE_PIXEL_SIZE, image.height); y++) {
+            for (let x = 0; x < Math.min(TILE_PIXEL_SIZE, image.width); x++) {
+                const from = (y * image.width + x) * 4;
+                const to = ((originY + y) * width + originX + x) * 4;
+                data[to] = image.data[from]!;
+                data[to + 1] = image.data[from + 1]!;
+                data[to + 2] = image.data[from + 2]!;
+                data[to + 3] = image.data[from + 3]!;
+            }
+        }
+    }
+
+    return { width, height, data };
+}
+
+/**
+ * Export a map and the tile sets it references. Returns the files to save -
+ * one file in embedded mode, map + tileset + atlas files in side-car mode.
+ */
+export async function exportTiledMap(
+    map: MapData,
+    tiles: TileMetadata[],
+    tileSets: TileSet[],
+    loadTileImage: (tileId: string) => Promise<Uint8Array | null>,
+    options: TiledExportOptions
+): Promise<DownloadFile[]> {
+    const layers = layersFromBackend(map);
+    const usedTileIds = new Set(layers.filter(l => l.kind === 'tile').flatMap(l => l.tiles.map(t => t.tileId)));
+    const plans = planTilesets(usedTileIds, tiles, tileSets);
+    const mapBase = slugify(map.id, 'map');
+    const files: DownloadFile[] = [];
+
+    // Tilesets and GIDs - a tile in several sets resolves to the first one
+    const gids = new Map<string, number>();
+    const tilesetRefs: TiledTilesetRef[] = [];
+    let firstgid = 1;
+    for (const plan of plans) {
+        const columns = Math.max(1, Math.min(16, plan.tiles.length));
+        const atlas = await buildAtlas(plan.tiles, columns, loadTileImage);
+        const png = await encodePng(atlas);
+        const imageName = `${plan.fileBase}.png`;
+
+        const tileset: TiledTileset = {
+            name: plan.name,
+            tilewidth: TILE_PIXEL_SIZE,
+            tileheight: TILE_PIXEL_SIZE,
+            tilecount: plan.tiles.length,
+            columns,
+            image: options.atlas === 'embedded' ? `data:image/png;base64,${bytesToBase64(png)}` : imageName,
+            imagewidth: atlas.width,
+            imageheight: atlas.height,
+            margin: 0,
+            spacing: 0,
+            tiles: plan.tiles.map((tile, id) => ({
+                id,
+                properties: [
+                    property('tile_id', tile.id),
+                    property('name', tile.name),
+                    property('is_solid', tile.is_solid),
+                    property('tags', tile.tags.join(',')),
+                ],
+            })),
+            properties: plan.tileSetId ? [property('tileset_id', plan.tileSetId)] : [],
+        };
+
+        plan.tiles.forEach((tile, i) => {
+            if (!gids.has(tile.id)) gids.set(tile.id, firstgid + i);
+        });
+
+        if (options.atlas === 'embedded') {
+            tilesetRefs.push({ firstgid, ...tileset });
+        } else {
+            const source = `${plan.fileBase}.${options.format === 'tmj' ? 'tsj' : 'tsx'}`;
+            tilesetRefs.push({ firstgid, source });
+            files.push(options.format === 'tmj'
+                ? { name: source, data: JSON.stringify(tilesetToJson(tileset), null, 2), type: 'application/json' }
+                : { name: source, data: tilesetToTsx(tileset), type: 'application/xml' });
+            files.push({ name: imageName, data: png, type: 'image/png' });
+        }
+        firstgid += plan.tiles.length;
+    }
+
+    const tiledMap = buildTiledMap(map, layers, gids, tilesetRefs);
+    const mapFile: DownloadFile = options.format === 'tmj'
+        ? { name: `${mapBase}.tmj`, data: JSON.stringify(mapToJson(tiledMap), null, 2), type: 'application/json' }
+        : { name: `${mapBase}.tmx`, data: mapToTmx(tiledMap), type: 'application/xml' };
+
+    return [mapFile, ...files];
+}
+
+function buildTiledMap(map: MapData, layers: EditorLayer[], gids: Map<string, number>, tilesets: TiledTilesetRef[]): TiledMap {
+    const width = Number(map.width);
+    const height = Number(map.height);
+    const cell = (value: bigint | number) => Number(value) * TILE_PIXEL_SIZE;
+    let nextObjectId = 1;
+
+    const tiledLayers: TiledLayer[] = layers.map((layer, index): TiledLayer => {
+        const common = {
+            id: index + 1,
+            name: layer.name,
+            visible: layer.visible,
+            properties: [property('layer_id', layer.id), property('kind', layer.kind), property('locked', layer.locked)],
+        };
+
+        if (layer.kind === 'tile') {
+            const data: number[] = new Array(width * height).fill(0);
+            for (const tile of layer.tiles) {
+                if (tile.x < 0 || tile.y < 0 || tile.x >= width || tile.y >= height) continue;
+                data[tile.y * width + tile.x] = gids.get(tile.tileId) ?? 0;
+            }
+            return { ...common, type: 'tilelayer', width, height, data };
+        }
+
+        if (layer.kind === 'collision') {
+            return {
+                ...common,
+                type: 'objectgroup',
+                objects: layer.collision.map((c) => ({
+                    id: nextObjectId++,
+                    name: c.solid ? 'solid' : 'walkable',
+                    type: 'collision',
+                    x: cell(c.x),
+                    y: cell(c.y),
+                    width: TILE_PIXEL_SIZE,
+                    height: TILE_PIXEL_SIZE,
+                    properties: [property('solid', c.solid)],
+                })),
+            };
+        }
+
+        // Object layer: objects, spawn points, NPCs and warps as typed objects
+        const objects: TiledObject[] = [
+            ...map.object_instances.map((o) => ({
+                id: nextObjectId++,
+                name: o.object_id,
+                type: 'object',
+                x: cell(o.position.x),
+                y: cell(o.position.y),
+                width: TILE_PIXEL_SIZE,
+                height: TILE_PIXEL_SIZE,
+                properties: [property('object_id', o.object_id), property('state', o.state)],
+            })),
+            ...map.spawn_points.map((s) => ({
+                id: nextObjectId++,
+                name: s.name,
+                type: 'spawn',
+                x: cell(s.x),
+                y: cell(s.y),
+                width: TILE_PIXEL_SIZE,
+                height: TILE_PIXEL_SIZE,
+                properties: [property('spawn_id', s.id), property('character_id', s.character_id)],
+            })),
+            ...(map.npc_instances[0] ?? []).map((n) => ({
+                id: nextObjectId++,
+                name: n.name,
+                type: 'npc',
+                x: cell(n.x),
+                y: cell(n.y),
+                width: TILE_PIXEL_SIZE,
+                height: TILE_PIXEL_SIZE,
+                properties: [
+                    property('npc_id', n.id),
+                    property('preset_id', n.preset_id),
+                    ...(n.definition_json[0] ? [property('definition_json', n.definition_json[0])] : []),
+                ],
+            })),
+            ...(map.warps[0] ?? []).map((w) => ({
+                id: nextObjectId++,
+                name: w.name,
+                type: 'warp',
+                x: cell(w.x),
+                y: cell(w.y),
+                width: cell(w.width),
+                height: cell(w.height),
+                properties: [
+                    property('warp_id', w.id),
+                    property('kind', w.kind),
+                    property('target_map_id', w.target_map_id),
+                    property('target_spawn_id', w.target_spawn_id),
+                    property('fade_ms', Number(w.fade_ms)),
+                    ...(w.object_id[0] ? [property('object_id', w.object_id[0])] : []),
+                ],
+            })),
+        ];
+        return { ...common, type: 'objectgroup', objects };
+    });
+
+    return {
+        width,
+        height,
+        tilewidth: TILE_PIXEL_SIZE,
+        tileheight: TILE_PIXEL_SIZE,
+        orientation: 'orthogonal',
+        infinite: false,
+        layers: tiledLayers,
+        tilesets,
+        properties: [property('map_id', map.id), property('name', map.name), property('description', map.description)],
+    };
+}
+
+// =============================================================================
+// JSON (TMJ / TSJ)
+// =============================================================================
+
+function tilesetToJson(tileset: TiledTileset) {
+    return { type: 'tileset', version: TILED_VERSION, tiledversion: TILED_APP_VERSION, ...tileset };
+}
+
+function mapToJson(map: TiledMap) {
+    const objectIds = map.layers.flatMap(l => l.type === 'objectgroup' ? l.objects.map(o => o.id) : []);
+    return {
+        type: 'map',
+        version: TILED_VERSION,
+        tiledversion: TILED_APP_VERSION,
+        orientation: map.orientation,
+        renderorder: 'right-down',
+        width: map.width,
+        height: map.height,
+        tilewidth: map.tilewidth,
+        tileheight: map.tileheight,
+        infinite: map.infinite,
+        nextlayerid: map.layers.length + 1,
+        nextobjectid: Math.max(0, ...objectIds) + 1,
+        properties: map.properties,
+        tilesets: map.tilesets.map(ref => 'source' in ref ? ref : tilesetToJson(ref)),
+        layers: map.layers.map(layer => layer.type === 'tilelayer'
+            ? { ...layer, x: 0, y: 0, opacity: 1 }
+            : { ...layer, x: 0, y: 0, opacity: 1, draworder: 'topdown' }),
+    };
+}
+
+function decodeLayerData(data: unknown, encoding: string | undefined, compression: string | undefined, width: number, height: number): number[] | null {
+    if (Array.isArray(data)) return data.map(Number);
+    if (typeof data !== 'string' || encoding !== 'base64' || compression) return null;
+    const bytes = base64ToBytes(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const result: number[] = [];
+    for (let i = 0; i + 4 <= bytes.length && result.length < width * height; i += 4) {
+        result.push(view.getUint32(i, true));
+    }
+    return result;
+}
+
+function parseJsonTileset(data: any): TiledTileset {
+    return {
+        name: String(data.name ?? 'tileset'),
+        tilewidth: Number(data.tilewidth),
+        tileheight: Number(data.tileheight),
+        tilecount: Number(data.tilecount ?? 0),
+        columns: Number(data.columns ?? 0),
+        image: data.image,
+        imagewidth: data.imagewidth,
+        imageheight: data.imageheight,
+        margin: Number(data.margin ?? 0),
+        spacing: Number(data.spacing ?? 0),
+        tiles: Array.isArray(data.tiles) ? data.tiles : [],
+        properties: data.properties,
+    };
+}
+
+/** Flatten group layers, keeping tile and object layers */
+function parseJsonLayers(layers: any[], warnings: string[]): TiledLayer[] | null {
+    const result: TiledLayer[] = [];
+    for (const layer of layers) {
+        if (layer.type === 'group') {
+            const nested = parseJsonLayers(layer.layers ?? [], warnings);
+            if (!nested) return null;
+            result.push(...nested);
+        } else if (layer.type === 'tilelayer') {
+            const data = decodeLayerData(layer.data, layer.encoding, layer.compression, layer.width, layer.height);
+            if (!data) return null;
+            result.push({
+                id: layer.id,
+                name: layer.name,
+                type: 'tilelayer',
+                width: layer.width,
+                height: layer.height,
+                visible: layer.visible !== false,
+                data,
+                properties: [...(layer.properties ?? []), ...(layer.locked ? [property('locked', true)] : [])],
+            });
+        } else if (layer.type === 'objectgroup') {
+            result.push({
+                id: layer.id,
+                name: layer.name,
+                type: 'objectgroup',
+                visible: layer.visible !== false,
+                objects: (layer.objects ?? []).map((o: any) => ({ ...o, type: o.type ?? o.class ?? '' })),
+                properties: layer.properties,
+            });
+        } else {
+            warnings.push(`Skipped ${layer.type} layer "${layer.name}"`);
+        }
+    }
+    return result;
+}
+
+function parseJsonMap(data: any, warnings: string[]): TiledMap | null {
+    const layers = parseJsonLayers(data.layers ?? [], warnings);
+    if (!layers) return null;
+    return {
+        width: Number(data.width),
+        height: Number(data.height),
+        tilewidth: Number(data.tilewidth),
+        tileheight: Number(data.tileheight),
+        orientation: String(data.orientation ?? 'orthogonal'),
+        infinite: !!data.infinite,
+        layers,
+        tilesets: (data.tilesets ?? []).map((ref: any) => ref.source
+            ? { firstgid: Number(ref.firstgid), source: String(ref.source) }
+            : { firstgid: Number(ref.firstgid), ...parseJsonTileset(ref) }),
+        properties: data.properties,
+    };
+}
+
+// =============================================================================
+// XML (TMX / TSX)
+// =============================================================================
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function attributes(values: Record<string, string | number | boolean | undefined>): string {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}="${escapeXml(typeof value === 'boolean' ? (value ? '1' : '0') : String(value))}"`)
+        .join('');
+}
+
+function propertiesToXml(properties: TiledProperty[] | undefined, indent: string): string {
+    if (!properties || properties.length === 0) return '';
+    const items = properties.map(p => `${indent} <property${attributes({
+        name: p.name,
+        type: p.type === 'string' ? undefined : p.type,
+        value: typeof p.value === 'boolean' ? String(p.value) : p.value,
+    })}/>`);
+    return `${indent}<properties>\n${items.join('\n')}\n${indent}</properties>\n`;
+}
+
+function tilesetBodyToXml(tileset: TiledTileset, indent: string): string {
+    let xml = propertiesToXml(tileset.properties, indent);
+    if (tileset.image) {
+        xml += `${indent}<image${attributes({ source: tileset.image, width: tileset.imagewidth, height: tileset.imageheight })}/>\n`;
+    }
+    for (const tile of tileset.tiles ?? []) {
+        xml += `${indent}<tile id="${tile.id}">\n${propertiesToXml(tile.properties, indent + ' ')}${indent}</tile>\n`;
+    }
+    return xml;
+}
+
+function tilesetAttributes(tileset: TiledTileset): string {
+    return attributes({
+        name: tileset.name,
+        tilewidth: tileset.tilewidth,
+        tileheight: tileset.tileheight,
+        spacing: tileset.spacing,
+        margin: tileset.margin,
+        tilecount: tileset.tilecount,
+        columns: tileset.columns,
+    });
+}
+
+function tilesetToTsx(tileset: TiledTileset): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<tileset version="${TILED_VERSION}" tiledversion="${TILED_APP_VERSION}"${tilesetAttributes(tileset)}>\n${tilesetBodyToXml(tileset, ' ')}</tileset>\n`;
+}
+
+function mapToTmx(map: TiledMap): string {
+    const objectIds = map.layers.flatMap(l => l.type === 'objectgroup' ? l.objects.map(o => o.id) : []);
+    let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<map${attributes({
+        version: TILED_VERSION,
+        tiledversion: TILED_APP_VERSION,
+        orientation: map.orientation,
+        renderorder: 'right-down',
+        width: map.width,
+        height: map.height,
+        tilewidth: map.tilewidth,
+        tileheight: map.tileheight,
+        infinite: map.infinite,
+        nextlayerid: map.layers.length + 1,
+        nextobjectid: Math.max(0, ...objectIds) + 1,
+    })}>\n`;
+    xml += propertiesToXml(map.properties, ' ');
+
+    for (const ref of map.tilesets) {
+        if ('source' in ref) {
+            xml += ` <tileset${attributes({ firstgid: ref.firstgid, source: ref.source })}/>\n`;
+        } else {
+            xml += ` <tileset firstgid="${ref.firstgid}"${tilesetAttributes(ref)}>\n${tilesetBodyToXml(ref, '  ')} </tileset>\n`;
+        }
+    }
+
+    for (const layer of map.layers) {
+        const visible = layer.visible ? undefined : false;
+        if (layer.type === 'tilelayer') {
+            const rows: string[] = [];
+            for (let y = 0; y < layer.height; y++) {
+                rows.push(layer.data.slice(y * layer.width, (y + 1) * layer.width).join(','));
+            }
+            xml += ` <layer${attributes({ id: layer.id, name: layer.name, width: layer.width, height: layer.height, visible })}>\n`;
+            xml += propertiesToXml(layer.properties, '  ');
+            xml += `  <data encoding="csv">\n${rows.join(',\n')}\n</data>\n </layer>\n`;
+        } else {
+            xml += ` <objectgroup${attributes({ id: layer.id, name: layer.name, visible })}>\n`;
+            xml += propertiesToXml(layer.properties, '  ');
+            for (const obj of layer.objects) {
+                xml += `  <object${attributes({ id: obj.id, name: obj.name, type: obj.type, x: obj.x, y: obj.y, width: obj.width, height: obj.height })}>\n`;
+                xml += propertiesToXml(obj.properties, '   ');
+                xml += '  </object>\n';
+            }
+            xml += ' </objectgroup>\n';
+        }
+    }
+
+    return xml + '</map>\n';
+}
+
+function numberAttr(el: Element, name: string, fallback: number = 0): number {
+    const value = el.getAttribute(name);
+    return value === null ? fallback : Number(value);
+}
+
+function parseXmlProperties(el: Element): TiledProperty[] {
+    const container = Array.from(el.children).find(c => c.tagName === 'properties');
+    if (!container) return [];
+    return Array.from(container.children).filter(c => c.tagName === 'property').map((p) => {
+        const type = (p.getAttribute('type') ?? 'string') as TiledPropertyType;
+        const raw = p.getAttribute('value') ?? p.textContent ?? '';
+        const value = type === 'bool' ? raw === 'true' : type === 'int' || type === 'float' ? Number(raw) : raw;
+        return { name: p.getAttribute('name') ?? '', type, value };
+    });
+}
+
+function parseXmlTileset(el: Element): TiledTileset {
+    const image = Array.from(el.children).find(c => c.tagName === 'image');
+    return {
+        name: el.getAttribute('name') ?? 'tileset',
+        tilewidth: numberAttr(el, 'tilewidth'),
+        tileheight: numberAttr(el, 'tileheight'),
+        tilecount: numberAttr(el, 'tilecount'),
+        columns: numberAttr(el, 'columns'),
+        image: image?.getAttribute('source') ?? undefined,
+        imagewidth: image ? numberAttr(image, 'width') : undefined,
+        imageheight: image ? numberAttr(image, 'height') : undefined,
+        margin: numberAttr(el, 'margin'),
+        spacing: numberAttr(el, 'spacing'),
+        tiles: Array.from(el.children).filter(c => c.tagName === 'tile').map((tile) => {
+            const tileImage = Array.from(tile.children).find(c => c.tagName === 'image');
+            return {
+                id: numberAttr(tile, 'id'),
+                image: tileImage?.getAttribute('source') ?? undefined,
+                properties: parseXmlProperties(tile),
+            };
+        }),
+        properties: parseXmlProperties(el),
+    };
+}
+
+function parseXmlLayerData(layer: Element, width: number, height: number): number[] | null {
+    const data = Array.from(layer.children).find(c => c.tagName === 'data');
+    if (!data) return new Array(width * height).fill(0);
+
+    const encoding = data.getAttribute('encoding') ?? undefined;
+    const compression = data.getAttribute('compression') ?? undefined;
+    if (encoding === 'csv') {
+        return (data.textContent ?? '').split(',').map(v => v.trim()).filter(Boolean).map(Number);
+    }
+    if (encoding === 'base64') {
+        return decodeLayerData(data.textContent ?? '', encoding, compression, width, height);
+    }
+    // Plain XML: one <tile gid="..."/> per cell
+    return Array.from(data.children).filter(c => c.tagName === 'tile').map(t => numberAttr(t, 'gid'));
+}
+
+function parseXmlLayers(parent: Element, warnings: string[]): TiledLayer[] | null {
+    const result: TiledLayer[] = [];
+    for (const el of Array.from(parent.children)) {
+        if (el.tagName === 'group') {
+            const nested = parseXmlLayers(el, warnings);
+            if (!nested) return null;
+            result.push(...nested);
+        } else if (el.tagName === 'layer') {
+            const width = numberAttr(el, 'width');
+            const height = numberAttr(el, 'height');
+            const data = parseXmlLayerData(el, width, height);
+            if (!data) return null;
+            const locked = el.getAttribute('locked') === '1';
+            result.push({
+                id: numberAttr(el, 'id'),
+                name: el.getAttribute('name') ?? 'Layer',
+                type: 'tilelayer',
+                width,
+                height,
+                visible: el.getAttribute('visible') !== '0',
+                data,
+                properties: [...parseXmlProperties(el), ...(locked ? [property('locked', true)] : [])],
+            });
+        } else if (el.tagName === 'objectgroup') {
+            result.push({
+                id: numberAttr(el, 'id'),
+                name: el.getAttribute('name') ?? 'Objects',
+                type: 'objectgroup',
+                visible: el.getAttribute('visible') !== '0',
+                objects: Array.from(el.children).filter(c => c.tagName === 'object').map((o) => ({
+                    id: numberAttr(o, 'id'),
+                    name: o.getAttribute('name') ?? '',
+                    type: o.getAttribute('type') ?? o.getAttribute('class') ?? '',
+                    x: numberAttr(o, 'x'),
+                    y: numberAttr(o, 'y'),
+                    width: numberAttr(o, 'width'),
+                    height: numberAttr(o, 'height'),
+                    gid: o.hasAttribute('gid') ? numberAttr(o, 'gid') : undefined,
+                    properties: parseXmlProperties(o),
+                })),
+                properties: parseXmlProperties(el),
+            });
+        } else if (el.tagName === 'imagelayer') {
+            warnings.push(`Skipped image layer "${el.getAttribute('name') ?? ''}"`);
+        }
+    }
+    return result;
+}
+
+function parseXml(text: string): Document | null {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+function parseTmxMap(doc: Document, warnings: string[]): TiledMap | null {
+    const root = doc.documentElement;
+    const layers = parseXmlLayers(root, warnings);
+    if (!layers) return null;
+    return {
+        width: numberAttr(root, 'width'),
+        height: numberAttr(root, 'height'),
+        tilewidth: numberAttr(root, 'tilewidth'),
+        tileheight: numberAttr(root, 'tileheight'),
+        orientation: root.getAttribute('orientation') ?? 'orthogonal',
+        infinite: root.getAttribute('infinite') === '1',
+        layers,
+        tilesets: Array.from(root.children).filter(c => c.tagName === 'tileset').map((el) => {
+            const firstgid = numberAttr(el, 'firstgid', 1);
+            const source = el.getAttribute('source');
+            return source ? { firstgid, source } : { firstgid, ...parseXmlTileset(el) };
+        }),
+        properties: parseXmlProperties(root),
+    };
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+const MAP_EXTENSIONS = ['tmj', 'tmx', 'json'];
+
+function extension(name: string): string {
+    return name.split('.').pop()?.toLowerCase() ?? '';
+}
+
+interface ResolvedTileset extends TiledTileset {
+    firstgid: number;
+}
+
+/**
+ * Build an import plan from the files the user picked: one map file (TMJ or
+ * TMX) plus any external tilesets and atlas images it references. Nothing is
+ * written to the backend here.
+ */
+export async function importTiledMap(
+    files: File[],
+    existingTiles: TileMetadata[],
+    existingMapIds: string[]
+): Promise<TiledImportResult> {
+    const warnings: string[] = [];
+    const filesByName = new Map(files.map(f => [baseName(f.name), f]));
+
+    // The map is the TMX/TMJ file (a .json file counts if it is a map)
+    let tiledMap: TiledMap | null = null;
+    let mapFile: File | null = null;
+    for (const file of files.filter(f => MAP_EXTENSIONS.includes(extension(f.name)))) {
+        const text = await file.text();
+        if (extension(file.name) === 'tmx') {
+            const doc = parseXml(text);
+            if (!doc || doc.documentElement.tagName !== 'map') continue;
+            tiledMap = parseTmxMap(doc, warnings);
+        } else {
+            let data: any;
+            try {
+                data = JSON.parse(text);
+            } catch {
+                continue;
+            }
+            if (data?.type !== 'map') continue;
+            tiledMap = parseJsonMap(data, warnings);
+        }
+        mapFile = file;
+        if (!tiledMap) {
+            return tiledError('UNSUPPORTED_ENCODING', 'Only CSV and uncompressed base64 layer data are supported - save the map with CSV encoding in Tiled');
+        }
+        break;
+    }
+
+    if (!tiledMap || !mapFile) {
+        return tiledError('MISSING_MAP', 'Select a .tmj or .tmx map file (plus its tilesets and images)');
+    }
+    if (tiledMap.orientation !== 'orthogonal' || tiledMap.infinite) {
+        return tiledError('UNSUPPORTED_MAP', 'Only fixed-size orthogonal maps can be imported');
+    }
+    if (tiledMap.tilewidth !== TILE_PIXEL_SIZE || tiledMap.tileheight !== TILE_PIXEL_SIZE) {
+        return tiledError('INVALID_DIMENSIONS', `Map tiles must be ${TILE_PIXEL_SIZE}x${TILE_PIXEL_SIZE} px (got ${tiledMap.tilewidth}x${tiledMap.tileheight})`);
+    }
+
+    // Resolve external tilesets
+    const tilesets: ResolvedTileset[] = [];
+    for (const ref of tiledMap.tilesets) {
+        if (!('source' in ref)) {
+            tilesets.push(ref);
+            continue;
+        }
+        const file = filesByName.get(baseName(ref.source));
+        if (!file) {
+            return tiledError('MISSING_TILESET', `Tileset file "${baseName(ref.source)}" was not selected`);
+        }
+        const text = await file.text();
+        let tileset: TiledTileset | null = null;
+        if (extension(file.name) === 'tsx') {
+            const doc = parseXml(text);
+            if (doc && doc.documentElement.tagName === 'tileset') tileset = parseXmlTileset(doc.documentElement);
+        } else {
+            try {
+                tileset = parseJsonTileset(JSON.parse(text));
+            } catch {
+                tileset = null;
+            }
+        }
+        if (!tileset) {
+            return tiledError('INVALID_TILESET', `Could not read tileset "${file.name}"`);
+        }
+        tilesets.push({ firstgid: ref.firstgid, ...tileset });
+    }
+    for (const tileset of tilesets) {
+        if (tileset.tilewidth !== TILE_PIXEL_SIZE || tileset.tileheight !== TILE_PIXEL_SIZE) {
+            return tiledError('INVALID_DIMENSIONS', `Tileset "${tileset.name}" must use ${TILE_PIXEL_SIZE}x${TILE_PIXEL_SIZE} px tiles`);
+        }
+    }
+    tilesets.sort((a, b) => a.firstgid - b.firstgid);
+
+    // Images - data URIs, or picked files matched by name. Decoded once each.
+    const imageCache = new Map<string, PixelBuffer | null>();
+    const loadImage = async (source: string | undefined): Promise<PixelBuffer | null> => {
+        if (!source) return null;
+        if (imageCache.has(source)) return imageCache.get(source)!;
+        let image: PixelBuffer | null = null;
+        try {
+            if (source.startsWith('data:')) {
+                image = await decodeImage(base64ToBytes(source.slice(source.indexOf(',') + 1)));
+            } else {
+                const file = filesByName.get(baseName(source));
+                if (file) image = await decodeImage(new Uint8Array(await file.arrayBuffer()), file.type || 'image/png');
+            }
+        } catch (err) {
+            console.warn(`[tiled] Could not decode ${baseName(source)}:`, err);
+        }
+        if (!image) warnings.push(`Image "${baseName(source)}" is missing - its tiles are imported without images`);
+        imageCache.set(source, image);
+        return image;
+    };
+
+    // Map every used GID to a tile id, reusing existing tiles where possible
+    const existingIds = new Set(existingTiles.map(t => t.id));
+    const takenIds = new Set(existingIds);
+    const tileIdByGid = new Map<number, string>();
+    const newTiles: TiledImportPlan['newTiles'] = [];
+    let reusedTileCount = 0;
+    let flippedWarned = false;
+
+    const resolveGid = async (rawGid: number): Promise<string | null> => {
+        if (rawGid === 0) return null;
+        if ((rawGid & GID_FLIP_MASK) !== 0 && !flippedWarned) {
+            warnings.push('Flipped/rotated tiles were imported unflipped');
+            flippedWarned = true;
+        }
+        const gid = rawGid & GID_MASK;
+        if (tileIdByGid.has(gid)) return tileIdByGid.get(gid)!;
+
+        const tileset = [...tilesets].reverse().find(t => t.firstgid <= gid);
+        if (!tileset) return null;
+        const localId = gid - tileset.firstgid;
+        const def = tileset.tiles?.find(t => t.id === localId);
+        const declaredId = getStringProperty(def?.properties, 'tile_id');
+
+        if (declaredId && existingIds.has(declaredId)) {
+            tileIdByGid.set(gid, declaredId);
+            reusedTileCount++;
+            return declaredId;
+        }
+
+        // New tile - cut it from the atlas (or its own image in collection tilesets)
+        const id = declaredId && !takenIds.has(declaredId)
+            ? (takenIds.add(declaredId), declaredId)
+            : uniqueId(`${slugify(tileset.name, 'tiled')}_${localId}`, takenIds);
+        const pixels: PixelBuffer = {
+            width: TILE_PIXEL_SIZE,
+            height: TILE_PIXEL_SIZE,
+            data: new Uint8ClampedArray(TILE_PIXEL_SIZE * TILE_PIXEL_SIZE * 4),
+        };
+        const source = def?.image ?? tileset.image;
+        const image = await loadImage(source);
+        if (image) {
+            const columns = def?.image ? 1 : Math.max(1, tileset.columns ||
+                Math.floor((image.width - 2 * tileset.margin + tileset.spacing) / (TILE_PIXEL_SIZE + tileset.spacing)));
+            const originX = def?.image ? 0 : tileset.margin + (localId % columns) * (TILE_PIXEL_SIZE + tileset.spacing);
+            const originY = def?.image ? 0 : tileset.margin + Math.floor(localId / columns) * (TILE_PIXEL_SIZE + tileset.spacing);
+            for (let y = 0; y < TILE_PIXEL_SIZE; y++) {
+                for (let x = 0; x < TILE_PIXEL_SIZE; x++) {
+                    const sx = originX + x;
+                    const sy = originY + y;
+                    if (sx >= image.width || sy >= image.height) continue;
+                    const from = (sy * image.width + sx) * 4;
+                    const to = (y * TILE_PIXEL_SIZE + x) * 4;
+                    for (let c = 0; c < 4; c++) pixels.data[to + c] = image.data[from + c]!;
+                }
+            }
+        }
+
+        const tags = getStringProperty(def?.properties, 'tags');
+        const now = BigInt(Date.now());
+        newTiles.push({
+            metadata: {
+                id,
+                name: getStringProperty(def?.properties, 'name') ?? `${tileset.name} ${localId}`,
+                description: `Imported from Tiled tileset "${tileset.name}"`,
+                tags: tags ? tags.split(',').map(t => t.trim()).filter(Boolean) : ['tiled'],
+                blob_id: `blob_${id}`,
+                is_solid: getProperty(def?.properties, 'is_solid') === true,
+                created_at: now,
+                updated_at: now,
+            },
+            png: await encodePng(pixels),
+        });
+        tileIdByGid.set(gid, id);
+        return id;
+    };
+
+    // Layers
+    const width = tiledMap.width;
+    const height = tiledMap.height;
+    const toCell = (px: number) => Math.floor(px / TILE_PIXEL_SIZE);
+    const layerIds = new Set<string>();
+    const layers: EditorLayer[] = [];
+    const objectInstances: MapData['object_instances'] = [];
+    const spawnPoints: MapData['spawn_points'] = [];
+    const npcInstances: NonNullable<MapData['npc_instances'][0]> = [];
+    const warps: NonNullable<MapData['warps'][0]> = [];
+
+    for (const layer of tiledMap.layers) {
+        const kindProperty = getStringProperty(layer.properties, 'kind');
+        const id = uniqueId(getStringProperty(layer.properties, 'layer_id') ?? slugify(layer.name, 'layer'), layerIds);
+        const locked = getProperty(layer.properties, 'locked') === true;
+
+        if (layer.type === 'tilelayer') {
+            const editorLayer = createLayer(id, layer.name, 'tile');
+            for (let i = 0; i < layer.data.length; i++) {
+                const tileId = await resolveGid(layer.data[i]!);
+                const x = i % layer.width;
+                const y = Math.floor(i / layer.width);
+                if (tileId && x < width && y < height) editorLayer.tiles.push({ tileId, x, y });
+            }
+            layers.push({ ...editorLayer, visible: layer.visible, locked });
+        } else if (kindProperty === 'collision' || layer.name.toLowerCase() === 'collision') {
+            const editorLayer = createLayer(id, layer.name, 'collision');
+            for (const obj of layer.objects) {
+                const solid = getProperty(obj.properties, 'solid') !== false;
+                // Rectangles cover every cell they overlap
+                const endX = Math.max(toCell(obj.x), Math.ceil((obj.x + obj.width) / TILE_PIXEL_SIZE) - 1);
+                const endY = Math.max(toCell(obj.y), Math.ceil((obj.y + obj.height) / TILE_PIXEL_SIZE) - 1);
+                for (let y = toCell(obj.y); y <= endY; y++) {
+                    for (let x = toCell(obj.x); x <= endX; x++) {
+                        if (x >= 0 && y >= 0 && x < width && y < height) editorLayer.collision.push({ x, y, solid });
+                    }
+                }
+            }
+            layers.push({ ...editorLayer, visible: layer.visible, locked });
+        } else {
+            if (!layers.some(l => l.kind === 'object')) {
+                layers.push({ ...createLayer(id, layer.name, 'object'), visible: layer.visible, locked });
+            }
+            for (const obj of layer.objects) {
+                // Tile objects are anchored bottom-left in Tiled
+                const x = BigInt(toCell(obj.x));
+                const y = BigInt(toCell(obj.gid ? obj.y - obj.height : obj.y));
+                const objectId = getStringProperty(obj.properties, 'object_id');
+                if (obj.type === 'spawn') {
+                    spawnPoints.push({
+                        id: getStringProperty(obj.properties, 'spawn_id') ?? crypto.randomUUID(),
+                        name: obj.name || 'Spawn',
+                        character_id: getStringProperty(obj.properties, 'character_id') ?? '',
+                        x,
+                        y,
+                    });
+                } else if (obj.type === 'npc') {
+                    const definitionJson = getStringProperty(obj.properties, 'definition_json');
+                    npcInstances.push({
+                        id: getStringProperty(obj.properties, 'npc_id') ?? crypto.randomUUID(),
+                        preset_id: getStringProperty(obj.properties, 'preset_id') ?? 'villager',
+                        name: obj.name || 'NPC',
+                        x,
+                        y,
+                        definition_json: definitionJson ? [definitionJson] : [],
+                    });
+                } else if (obj.type === 'warp') {
+                    const fadeMs = Number(getProperty(obj.properties, 'fade_ms'));
+                    warps.push({
+                        id: getStringProperty(obj.properties, 'warp_id') ?? crypto.randomUUID(),
+                        name: obj.name || 'Warp',
+                        kind: getStringProperty(obj.properties, 'kind') === 'object' ? 'object' : 'region',
+                        x,
+                        y,
+                        width: BigInt(Math.max(1, Math.ceil((obj.x + obj.width) / TILE_PIXEL_SIZE) - toCell(obj.x))),
+                        height: BigInt(Math.max(1, Math.ceil((obj.y + obj.height) / TILE_PIXEL_SIZE) - toCell(obj.y))),
+                        object_id: objectId ? [objectId] : [],
+                        target_map_id: getStringProperty(obj.properties, 'target_map_id') ?? '',
+                        target_spawn_id: getStringProperty(obj.properties, 'target_spawn_id') ?? '',
+                        fade_ms: BigInt(Number.isFinite(fadeMs) ? Math.max(0, Math.round(fadeMs)) : DEFAULT_WARP_FADE_MS),
+                    });
+                } else if (objectId) {
+                    objectInstances.push({
+                        object_id: objectId,
+                        state: getStringProperty(obj.properties, 'state') ?? 'default',
+                        position: { x, y },
+                    });
+                } else {
+                    warnings.push(`Skipped object "${obj.name || obj.id}" - it has no object_id property`);
+                }
+            }
+        }
+    }
+
+    // Map identity - keep the exported id unless it is taken
+    const takenMapIds = new Set(existingMapIds);
+    const fileBase = baseName(mapFile.name).replace(/\.[^.]+$/, '');
+    const mapId = uniqueId(getStringProperty(tiledMap.properties, 'map_id') ?? slugify(fileBase, 'map'), takenMapIds);
+    const now = BigInt(Date.now());
+
+    const map: MapData = {
+        id: mapId,
+        name: getStringProperty(tiledMap.properties, 'name') ?? fileBase,
+        description: getStringProperty(tiledMap.properties, 'description') ?? `Imported from ${baseName(mapFile.name)}`,
+        width: BigInt(width),
+        height: BigInt(height),
+        tile_instances: flattenTileLayers(layers).map(t => ({
+            tile_id: t.tileId,
+            position: { x: BigInt(t.x), y: BigInt(t.y) },
+        })),
+        object_instances: objectInstances,
+        spawn_points: spawnPoints,
+        npc_instances: [npcInstances],
+        layers: [layersToBackend(layers)],
+        warps: [warps],
+        created_at: now,
+        updated_at: now,
+    };
+
+    return { ok: { map, newTiles, reusedTileCount, warnings } };
+}
@@ -0,0 +1,229 @@
+/**
+ * Zip Archives
+ *
+ * Minimal zip writer/reader for project bundles. Entries are either stored
+ * or deflated through the browser's CompressionStream, so no zip library is
+ * needed. Zip64, encryption and multi-disk archives are not supported.
+ */
+
+import type { ValidationError } from '../backend';
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+    /** Store as-is - use for already-compressed data such as PNGs */
+    store?: boolean;
+}
+
+export type ZipReadResult = { ok: Map<string, Uint8Array> } | { err: ValidationError };
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** General purpose flag bit 11 - file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+// =============================================================================
+// CRC-32
+// =============================================================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// =============================================================================
+// Compression
+// =============================================================================
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([new Uint8Array(data)]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    return transform(data, new CompressionStream('deflate-raw'));
+}
+
+function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    return transform(data, new DecompressionStream('deflate-raw'));
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/** DOS date/time fields for the entry headers */
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const total = chunks.reduce((sum, c) => sum + c.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Build a zip archive. Entries are deflated unless `store` is set or
+ * deflating does not make them smaller.
+ */
+export async function createZip(entries: ZipEntry[], modified: Date = new Date()): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        let method = METHOD_STORE;
+        let body = entry.data;
+        if (!entry.store) {
+            const deflated = await deflateRaw(entry.data);
+            if (deflated.length < entry.data.length) {
+                method = METHOD_DEFLATE;
+                body = deflated;
+            }
+        }
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, LOCAL_HEADER, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(6, FLAG_UTF8, true);
+        lv.setUint16(8, method, true);
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, body.length, true);
+        lv.setUint32(22, entry.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const header = new Uint8Array(46 + name.length);
+        const cv = new DataView(header.buffer);
+        cv.setUint32(0, CENTRAL_HEADER, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, FLAG_UTF8, true);
+        cv.setUint16(10, method, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, body.length, true);
+        cv.setUint32(24, entry.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        header.set(name, 46);
+
+        chunks.push(local, body);
+        central.push(header);
+        offset += local.length + body.length;
+    }
+
+    const directory = concat(central);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, directory.length, true);
+    ev.setUint32(16, offset, true);
+
+    return concat([...chunks, directory, end]);
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function zipError(message: string): { err: ValidationError } {
+    return { err: { code: 'INVALID_ZIP', message, fix_attempted: false } };
+}
+
+/** Read every file in a zip archive, keyed by path. Directories are skipped. */
+export async function readZip(bytes: Uint8Array): Promise<ZipReadResult> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+
+    // The end-of-central-directory record sits at the end, before an optional comment
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) return zipError('Not a zip archive');
+
+    const count = view.getUint16(end + 10, true);
+    let pointer = view.getUint32(end + 16, true);
+    const files = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+        if (pointer + 46 > bytes.length || view.getUint32(pointer, true) !== CENTRAL_HEADER) {
+            return zipError('Corrupt zip central directory');
+        }
+        const method = view.getUint16(pointer + 10, true);
+        const crc = view.getUint32(pointer + 16, true);
+        const compressedSize = view.getUint32(pointer + 20, true);
+        const nameLength = view.getUint16(pointer + 28, true);
+        const extraLength = view.getUint16(pointer + 30, true);
+        const commentLength = view.getUint16(pointer + 32, true);
+        const localOffset = view.getUint32(pointer + 42, true);
+        const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+        pointer += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+            return zipError(`Corrupt zip entry "${name}"`);
+        }
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const body = bytes.subarray(dataStart, dataStart + compressedSize);
+        let data: Uint8Array;
+        if (method === METHOD_STORE) {
+            data = body.slice();
+        } else if (method === METHOD_DEFLATE) {
+            data = await inflateRaw(body);
+        } else {
+            return zipError(`Unsupported compression method ${method} for "${name}"`);
+        }
+
+        if (crc32(data) !== crc) {
+            return zipError(`Checksum mismatch for "${name}"`);
+        }
+        files.set(name, data);
+    }
+
+    return { ok: files };
+}